@@ -0,0 +1,148 @@
+/**
+ * RetroLens service worker
+ *
+ * Template filled in by pwa/vite-plugin.ts at build time. Precaches the app
+ * shell so the app loads offline, caches lazily loaded assets and camera
+ * images as they are used, and waits for the page to ask before taking
+ * over from an older version. API requests always go to the network.
+ */
+
+const CACHE_VERSION = __CACHE_VERSION__;
+const PRECACHE_URLS = __PRECACHE_URLS__;
+const IMAGE_CACHE_MAX_ENTRIES = __IMAGE_CACHE_MAX_ENTRIES__;
+
+const CACHE_PREFIX = 'retrolens-';
+const PRECACHE = `${CACHE_PREFIX}precache-${CACHE_VERSION}`;
+const ASSET_CACHE = `${CACHE_PREFIX}assets-${CACHE_VERSION}`;
+// Images outlive releases, so this cache is not versioned
+const IMAGE_CACHE = `${CACHE_PREFIX}images`;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(PRECACHE).then((cache) => cache.addAll(PRECACHE_URLS)));
+});
+
+self.addEventListener('activate', (event) => {
+  const current = [PRECACHE, ASSET_CACHE, IMAGE_CACHE];
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key.startsWith(CACHE_PREFIX) && !current.includes(key))
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// The page sends this once the user accepts the update prompt
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
+
+/**
+ * Drop the least recently used entries until the cache holds at most maxEntries
+ *
+ * Cache keys come back in insertion order and cachedImage re-inserts an entry
+ * each time it is served, so the front of the list was used longest ago.
+ */
+const trimCache = async (cacheName, maxEntries) => {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map((key) => cache.delete(key)));
+};
+
+/**
+ * Serve from the cache, fetching and storing successful responses on a miss
+ */
+const cacheFirst = async (request, cacheName) => {
+  const cached = await caches.match(request);
+  if (cached) {
+    return cached;
+  }
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(cacheName);
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+/**
+ * Fetch an image and store it, returning the network response
+ *
+ * Camera photos and avatars come from other origins without CORS, so they
+ * arrive opaque: they display, but their status cannot be read. They are
+ * cached anyway, count against the entry cap like any other, and are
+ * refreshed whenever served so an error page does not stick.
+ */
+const fetchImage = async (request) => {
+  const response = await fetch(request);
+  if (response.ok || response.type === 'opaque') {
+    const cache = await caches.open(IMAGE_CACHE);
+    await cache.put(request, response.clone());
+    await trimCache(IMAGE_CACHE, IMAGE_CACHE_MAX_ENTRIES);
+  }
+  return response;
+};
+
+/**
+ * Serve an image from the least recently used image cache, fetching on a miss
+ */
+const cachedImage = async (event) => {
+  const { request } = event;
+  const cache = await caches.open(IMAGE_CACHE);
+  const cached = await cache.match(request);
+  if (!cached) {
+    return fetchImage(request);
+  }
+
+  if (cached.type === 'opaque') {
+    // Refreshing re-inserts it, which also marks it most recently used
+    event.waitUntil(fetchImage(request).catch(() => undefined));
+  } else {
+    // Move the entry to the back of the list as the most recently used
+    await cache.delete(request);
+    await cache.put(request, cached.clone());
+  }
+  return cached;
+};
+
+/**
+ * Load pages from the network, falling back to the precached app shell offline
+ */
+const networkFirstPage = async (request) => {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    const shell = await caches.match('/', { cacheName: PRECACHE });
+    if (shell) {
+      return shell;
+    }
+    throw error;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') {
+    return;
+  }
+
+  const url = new URL(request.url);
+  const sameOrigin = url.origin === self.location.origin;
+  if (sameOrigin && (url.pathname.startsWith('/api/') || url.pathname === '/health')) {
+    return;
+  }
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstPage(request));
+  } else if (request.destination === 'image') {
+    event.respondWith(cachedImage(event));
+  } else if (sameOrigin && url.pathname.startsWith('/assets/')) {
+    // Build assets have hashed names, so a cached copy never goes stale
+    event.respondWith(cacheFirst(request, ASSET_CACHE));
+  }
+});
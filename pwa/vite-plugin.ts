@@ -0,0 +1,99 @@
+import { createHash } from 'node:crypto'
+import { readFileSync } from 'node:fs'
+import { resolve } from 'node:path'
+import type { Plugin } from 'vite'
+import { APP_CONFIG, PWA_CONFIG, THEME_CONFIG } from '../src/constants/app.config'
+
+export interface PwaPluginOptions {
+  /** The build's manualChunks function; the chunks it defines are precached with the entry */
+  manualChunks: (id: string) => string | undefined
+}
+
+const ICON_DIR = 'src/assets/favicon'
+const ICONS = [
+  { file: 'android-chrome-192x192.png', sizes: '192x192' },
+  { file: 'android-chrome-512x512.png', sizes: '512x512' },
+]
+
+const createManifest = (iconBase: string) => ({
+  name: `${APP_CONFIG.NAME} - ${APP_CONFIG.TAGLINE}`,
+  short_name: APP_CONFIG.NAME,
+  description: APP_CONFIG.DESCRIPTION,
+  start_url: PWA_CONFIG.START_URL,
+  scope: '/',
+  display: 'standalone',
+  theme_color: THEME_CONFIG.COLORS.PRIMARY,
+  background_color: THEME_CONFIG.COLORS.BACKGROUND,
+  icons: ICONS.map(icon => ({
+    src: `${iconBase}/${icon.file}`,
+    sizes: icon.sizes,
+    type: 'image/png',
+    purpose: 'any maskable',
+  })),
+})
+
+/**
+ * Web manifest and service worker for installing RetroLens
+ *
+ * The manifest is served in development and emitted on build together with
+ * the icons. The service worker is only emitted on build: pwa/sw.js with
+ * the entry and manualChunks files filled in as its precache list.
+ */
+export const pwa = ({ manualChunks }: PwaPluginOptions): Plugin => {
+  let root = process.cwd()
+
+  return {
+    name: 'retrolens-pwa',
+
+    configResolved(config) {
+      root = config.root
+    },
+
+    configureServer(server) {
+      server.middlewares.use(PWA_CONFIG.MANIFEST_PATH, (_req, res) => {
+        res.setHeader('Content-Type', 'application/manifest+json')
+        res.end(JSON.stringify(createManifest(`/${ICON_DIR}`)))
+      })
+    },
+
+    transformIndexHtml: () => [
+      { tag: 'link', attrs: { rel: 'manifest', href: PWA_CONFIG.MANIFEST_PATH }, injectTo: 'head' },
+      { tag: 'meta', attrs: { name: 'theme-color', content: THEME_CONFIG.COLORS.PRIMARY }, injectTo: 'head' },
+    ],
+
+    generateBundle(_options, bundle) {
+      ICONS.forEach(icon => {
+        this.emitFile({
+          type: 'asset',
+          fileName: `icons/${icon.file}`,
+          source: readFileSync(resolve(root, ICON_DIR, icon.file)),
+        })
+      })
+      this.emitFile({
+        type: 'asset',
+        fileName: PWA_CONFIG.MANIFEST_PATH.slice(1),
+        source: JSON.stringify(createManifest('/icons'), null, 2),
+      })
+
+      // The app shell: the page itself, the entry and the vendor chunks with their styles
+      const urls = new Set<string>(['/', PWA_CONFIG.MANIFEST_PATH, ...ICONS.map(icon => `/icons/${icon.file}`)])
+      Object.values(bundle).forEach(output => {
+        if (output.type !== 'chunk') {return}
+        const isManualChunk = output.moduleIds.some(id => manualChunks(id) === output.name)
+        if (!output.isEntry && !isManualChunk) {return}
+
+        urls.add(`/${output.fileName}`)
+        output.viteMetadata?.importedCss.forEach(css => urls.add(`/${css}`))
+      })
+
+      const precache = [...urls].sort()
+      const version = createHash('sha256').update(precache.join('\n')).digest('hex').slice(0, 12)
+      const source = readFileSync(resolve(root, 'pwa/sw.js'), 'utf8')
+        .replace('__CACHE_VERSION__', JSON.stringify(version))
+        .replace('__PRECACHE_URLS__', JSON.stringify(precache))
+        .replace('__IMAGE_CACHE_MAX_ENTRIES__', String(PWA_CONFIG.IMAGE_CACHE_MAX_ENTRIES))
+
+      this.emitFile({ type: 'asset', fileName: PWA_CONFIG.SERVICE_WORKER_PATH.slice(1), source })
+    },
+  }
+}
@@ -1,11 +1,14 @@
 import { SignedIn, SignedOut } from '@clerk/clerk-react';
-import { BrowserRouter, Navigate, Route, Routes, useLocation } from 'react-router-dom';
+import { Navigate, Route, RouterProvider, Routes, createBrowserRouter, useLocation } from 'react-router-dom';
 import { Suspense, lazy, useEffect, useState } from 'react';
 import { QueryClientProvider } from '@tanstack/react-query';
 import { ReactQueryDevtools } from '@tanstack/react-query-devtools';
 
 import { ROUTE_PATHS } from '@/constants';
 import { AuthWrapper, Header } from '@/components';
+import { CompareTray } from '@/components/compare';
+import { OfflineBanner } from '@/components/ui/OfflineBanner';
+import { UpdatePrompt } from '@/components/ui/UpdatePrompt';
 import { AddCamera, Landing, Search } from '@/pages';
 import { queryClient } from '@/lib/react-query';
 
@@ -14,6 +17,16 @@ const LazyFeed = lazy(() => import('@/pages/FeedOptimizedV2'));
 const LazyProfile = lazy(() => import('@/pages/ProfileOptimized'));
 const LazyDiscover = lazy(() => import('@/pages/Discover'));
 const LazyCollection = lazy(() => import('@/pages/Collection'));
+const LazyCameraDetail = lazy(() => import('@/pages/CameraDetail'));
+const LazyMarketplace = lazy(() => import('@/pages/Marketplace'));
+const LazyTradeOffers = lazy(() => import('@/pages/TradeOffers'));
+const LazyWishlist = lazy(() => import('@/pages/Wishlist'));
+const LazyRolls = lazy(() => import('@/pages/Rolls'));
+const LazyRollDetail = lazy(() => import('@/pages/RollDetail'));
+const LazyDashboard = lazy(() => import('@/pages/Dashboard'));
+const LazyCompare = lazy(() => import('@/pages/Compare'));
+const LazyImportCameras = lazy(() => import('@/pages/ImportCameras'));
+const LazyInsuranceReport = lazy(() => import('@/pages/InsuranceReport'));
 
 /**
  * Protected route wrapper component
@@ -81,6 +94,8 @@ function AppContent() {
   
   return (
     <div className="page-container">
+      <OfflineBanner />
+      <UpdatePrompt />
       {showHeader && <Header />}
       <main className="page-content-full">
         <Suspense fallback={<LoadingFallback />}>
@@ -101,7 +116,7 @@ function AppContent() {
               path={ROUTE_PATHS.DASHBOARD} 
               element={
                 <ProtectedRoute>
-                  <Navigate to={ROUTE_PATHS.FEED} replace />
+                  <LazyDashboard />
                 </ProtectedRoute>
               } 
             />
@@ -143,6 +158,78 @@ function AppContent() {
               } 
             />
             
+            <Route 
+              path={ROUTE_PATHS.MARKETPLACE} 
+              element={
+                <ProtectedRoute>
+                  <LazyMarketplace />
+                </ProtectedRoute>
+              } 
+            />
+            
+            <Route 
+              path={ROUTE_PATHS.TRADES} 
+              element={
+                <ProtectedRoute>
+                  <LazyTradeOffers />
+                </ProtectedRoute>
+              } 
+            />
+            
+            <Route 
+              path={ROUTE_PATHS.WISHLIST} 
+              element={
+                <ProtectedRoute>
+                  <LazyWishlist />
+                </ProtectedRoute>
+              } 
+            />
+            
+            <Route 
+              path={ROUTE_PATHS.ROLLS} 
+              element={
+                <ProtectedRoute>
+                  <LazyRolls />
+                </ProtectedRoute>
+              } 
+            />
+            
+            <Route 
+              path={ROUTE_PATHS.ROLL_DETAIL} 
+              element={
+                <ProtectedRoute>
+                  <LazyRollDetail />
+                </ProtectedRoute>
+              } 
+            />
+            
+            <Route 
+              path={ROUTE_PATHS.COMPARE} 
+              element={
+                <ProtectedRoute>
+                  <LazyCompare />
+                </ProtectedRoute>
+              } 
+            />
+            
+            <Route 
+              path={ROUTE_PATHS.IMPORT_CAMERAS} 
+              element={
+                <ProtectedRoute>
+                  <LazyImportCameras />
+                </ProtectedRoute>
+              } 
+            />
+            
+            <Route 
+              path={ROUTE_PATHS.INSURANCE_REPORT} 
+              element={
+                <ProtectedRoute>
+                  <LazyInsuranceReport />
+                </ProtectedRoute>
+              } 
+            />
+            
             <Route 
               path={ROUTE_PATHS.COLLECTION} 
               element={
@@ -161,6 +248,24 @@ function AppContent() {
               } 
             />
             
+            <Route 
+              path={ROUTE_PATHS.CAMERA_DETAIL} 
+              element={
+                <ProtectedRoute>
+                  <LazyCameraDetail />
+                </ProtectedRoute>
+              } 
+            />
+            
+            <Route 
+              path={ROUTE_PATHS.EDIT_CAMERA} 
+              element={
+                <ProtectedRoute>
+                  <AddCamera />
+                </ProtectedRoute>
+              } 
+            />
+            
             {/* Catch-all route */}
             <Route 
               path="*" 
@@ -169,21 +274,32 @@ function AppContent() {
           </Routes>
         </Suspense>
       </main>
+      {location.pathname !== ROUTE_PATHS.COMPARE && <CompareTray />}
     </div>
   );
 }
 
+/**
+ * Data router, needed for navigation blocking; routes themselves are declared in AppContent
+ */
+const router = createBrowserRouter([
+  {
+    path: '*',
+    element: (
+      <AuthWrapper>
+        <AppContent />
+      </AuthWrapper>
+    ),
+  },
+]);
+
 /**
  * Main App component
  */
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <BrowserRouter>
-        <AuthWrapper>
-          <AppContent />
-        </AuthWrapper>
-      </BrowserRouter>
+      <RouterProvider router={router} />
       {process.env.NODE_ENV === 'development' && (
         <ReactQueryDevtools initialIsOpen={false} />
       )}
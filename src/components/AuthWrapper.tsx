@@ -1,17 +1,39 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useLayoutEffect } from 'react';
 import { useAuth, useUser } from '@clerk/clerk-react';
 
+import { apiClient } from '@/services/api/base';
+import { realtimeChannel } from '@/services/api/realtime.service';
 import { clerkAuthService } from '@/services/auth';
+import { queryPersistService } from '@/services/cache';
+import { outboxService } from '@/services/outbox';
 import { handleApiError, logError } from '@/utils';
 import type { BaseComponentProps } from '@/types';
 
 /**
- * Authentication wrapper component that syncs user data with backend
+ * Authentication wrapper component that supplies Clerk tokens to the API
+ * client, scopes the saved query cache, offline outbox and realtime channel
+ * to the signed-in user and syncs user data with backend
  */
 export const AuthWrapper: React.FC<BaseComponentProps> = ({ children }) => {
   const { user, isLoaded: userIsLoaded } = useUser();
   const { getToken, isLoaded: authIsLoaded } = useAuth();
 
+  // Layout effect so the provider is in place before children's effects send requests
+  useLayoutEffect(() => {
+    apiClient.setTokenProvider(clerkAuthService.createTokenProvider(getToken));
+    return () => apiClient.setTokenProvider(null);
+  }, [getToken]);
+
+  // Saved queries belong to one user; signing in as someone else or out drops them
+  const userId = user?.id ?? null;
+  useEffect(() => {
+    if (userIsLoaded) {
+      queryPersistService.setOwner(userId);
+      outboxService.setUser(userId);
+      realtimeChannel.setUser(userId);
+    }
+  }, [userId, userIsLoaded]);
+
   useEffect(() => {
     const syncUser = async (): Promise<void> => {
       // Wait for both Clerk hooks to be loaded
@@ -25,14 +47,8 @@ export const AuthWrapper: React.FC<BaseComponentProps> = ({ children }) => {
       }
 
       try {
-        const token = await getToken();
-        if (!token) {
-          console.warn('No authentication token available for user sync');
-          return;
-        }
-
         console.warn('AuthWrapper: Syncing user with backend...');
-        await clerkAuthService.syncUserToBackend(user, token);
+        await clerkAuthService.syncUserToBackend(user);
         console.warn('AuthWrapper: User sync completed successfully');
 
       } catch (error) {
@@ -45,7 +61,7 @@ export const AuthWrapper: React.FC<BaseComponentProps> = ({ children }) => {
     };
 
     syncUser();
-  }, [user, userIsLoaded, authIsLoaded, getToken]);
+  }, [user, userIsLoaded, authIsLoaded]);
 
   return <>{children}</>;
 };
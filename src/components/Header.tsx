@@ -1,10 +1,10 @@
 import { SignedIn, SignedOut, useClerk, useUser } from '@clerk/clerk-react'
-import { Bell, ChevronDown, Compass, FolderOpen, Home, LogOut, Search, User } from 'lucide-react'
+import { Bell, ChevronDown, Compass, FolderOpen, Heart, Home, LogOut, Search, User } from 'lucide-react'
 import { Link, useNavigate } from 'react-router-dom'
 import { CustomSignIn } from '../components/CustomSignIn'
 import { useEffect, useRef, useState } from 'react'
-import { useApiWithAuth } from '@/hooks'
-import { userService } from '@/services/api/users.service'
+import { useWishlist, useWishlistMatches } from '@/hooks'
+import { userLoader } from '@/services/api/users.loader'
 import '@/css/components/Header.css'
 
 export function Header() {
@@ -14,8 +14,21 @@ export function Header() {
   const [showCustomSignIn, setShowCustomSignIn] = useState(false)
   const [profileAvatar, setProfileAvatar] = useState<string | null>(null)
   const [showProfileDropdown, setShowProfileDropdown] = useState(false)
-  const { makeAuthenticatedRequest } = useApiWithAuth()
   const dropdownRef = useRef<HTMLDivElement>(null)
+  useWishlist()
+  const { newCount: wishlistMatchCount } = useWishlistMatches()
+  const wishlistButton = (
+    <button
+      className="icon-btn icon-btn--badged"
+      onClick={() => navigate('/wishlist')}
+      title={wishlistMatchCount > 0 ? `${wishlistMatchCount} new wishlist matches` : 'Wishlist'}
+    >
+      <Heart size={20} />
+      {wishlistMatchCount > 0 && (
+        <span className="icon-btn-badge">{wishlistMatchCount > 9 ? '9+' : wishlistMatchCount}</span>
+      )}
+    </button>
+  )
 
   // Fetch user profile to get the backend avatar
   useEffect(() => {
@@ -23,9 +36,7 @@ export function Header() {
       if (!user?.id) {return}
       
       try {
-        const profile = await makeAuthenticatedRequest(async (token) => 
-          userService.getUserById(user.id, token)
-        )
+        const profile = await userLoader.load(user.id)
         if (profile?.avatar_url) {
           setProfileAvatar(profile.avatar_url)
         }
@@ -35,7 +46,7 @@ export function Header() {
     }
 
     fetchUserAvatar()
-  }, [user?.id, makeAuthenticatedRequest])
+  }, [user?.id])
 
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -70,7 +81,11 @@ export function Header() {
         <nav className="header-nav">
           <Link to="/feed" className="nav-link">Feed</Link>
           <Link to="/discover" className="nav-link">Discover</Link>
+          <Link to="/marketplace" className="nav-link">Marketplace</Link>
+          <Link to="/trades" className="nav-link">Trades</Link>
           <Link to="/collection" className="nav-link">My Collection</Link>
+          <Link to="/dashboard" className="nav-link">Dashboard</Link>
+          <Link to="/rolls" className="nav-link">Rolls</Link>
         </nav>
 
         <div className="header-right">
@@ -86,6 +101,7 @@ export function Header() {
             <button className="icon-btn" onClick={() => navigate('/search')}>
               <Search size={20} />
             </button>
+            {wishlistButton}
             <button className="icon-btn">
               <Bell size={20} />
             </button>
@@ -172,6 +188,7 @@ export function Header() {
               <button className="icon-btn" onClick={() => navigate('/search')}>
                 <Search size={20} />
               </button>
+              {wishlistButton}
               <button className="icon-btn">
                 <Bell size={20} />
               </button>
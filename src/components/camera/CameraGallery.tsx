@@ -0,0 +1,86 @@
+import React, { useMemo, useState } from 'react';
+import { ImageLightbox } from '@/components/ui/ImageLightbox';
+import { OptimizedImage } from '@/components/ui/OptimizedImage';
+import type { CameraImage } from '@/types';
+import '@/css/components/feed-images.css';
+
+interface CameraGalleryProps {
+  images: CameraImage[];
+  alt: string;
+  className?: string;
+}
+
+/**
+ * CameraGallery Component
+ * 
+ * Shows every camera image in display order with a thumbnail strip and lightbox
+ */
+export const CameraGallery: React.FC<CameraGalleryProps> = ({ images, alt, className = '' }) => {
+  const orderedImages = useMemo(
+    () => [...images].sort((a, b) => a.display_order - b.display_order),
+    [images]
+  );
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [lightboxOpen, setLightboxOpen] = useState(false);
+
+  if (orderedImages.length === 0) {
+    return (
+      <div className={`aspect-square w-full bg-gray-200 rounded-lg flex items-center justify-center ${className}`}>
+        <span className="text-gray-400">No Image</span>
+      </div>
+    );
+  }
+
+  const activeImage = orderedImages[activeIndex] || orderedImages[0];
+
+  return (
+    <div className={className}>
+      <div className="relative aspect-square rounded-lg overflow-hidden bg-gray-100">
+        <OptimizedImage
+          src={activeImage.image_url}
+          alt={`${alt} – image ${activeIndex + 1}`}
+          className="w-full h-full object-cover cursor-zoom-in"
+          priority
+          onClick={() => setLightboxOpen(true)}
+        />
+        {orderedImages.length > 1 && (
+          <div className="absolute top-2 right-2 bg-black bg-opacity-50 text-white text-xs px-2 py-1 rounded">
+            {activeIndex + 1}/{orderedImages.length}
+          </div>
+        )}
+      </div>
+
+      {orderedImages.length > 1 && (
+        <div className="grid grid-cols-5 gap-2 mt-3">
+          {orderedImages.map((image, index) => (
+            <button
+              key={image.id}
+              type="button"
+              onClick={() => setActiveIndex(index)}
+              className={`aspect-square rounded-md overflow-hidden border-2 transition-colors ${
+                index === activeIndex ? 'border-orange-600' : 'border-transparent hover:border-gray-300'
+              }`}
+              aria-label={`View image ${index + 1}`}
+            >
+              <OptimizedImage
+                src={image.thumbnail_url || image.image_url}
+                alt={`${alt} thumbnail ${index + 1}`}
+                className="w-full h-full object-cover"
+              />
+            </button>
+          ))}
+        </div>
+      )}
+
+      {lightboxOpen && (
+        <ImageLightbox
+          images={orderedImages.map(image => image.image_url)}
+          initialIndex={activeIndex}
+          onClose={() => setLightboxOpen(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default CameraGallery;
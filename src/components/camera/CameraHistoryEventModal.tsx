@@ -0,0 +1,253 @@
+import React, { useEffect, useState } from 'react';
+import { History, X } from 'lucide-react';
+import { ImageUploadGrid } from '@/components/upload';
+import { useUploadQueue } from '@/hooks';
+import { API_ENDPOINTS, CAMERA_CONFIG } from '@/constants';
+import { toDateInputValue } from '@/utils/date.utils';
+import { validateImageFile } from '@/utils/validation.utils';
+import type { CameraHistoryEvent, CameraHistoryEventType, CreateCameraHistoryEventData } from '@/types';
+
+interface CameraHistoryEventModalProps {
+  isOpen: boolean;
+  /** Event being edited; omit to add a new one */
+  event?: CameraHistoryEvent;
+  /** Extra query parameters for photo uploads */
+  uploadParams?: Record<string, string>;
+  onSubmit: (data: CreateCameraHistoryEventData) => Promise<void>;
+  onClose: () => void;
+}
+
+const MAX_EVENT_PHOTOS = 4;
+const NOTES_MAX_LENGTH = 2000;
+
+/**
+ * CameraHistoryEventModal Component
+ *
+ * Add or edit one history event with its date, cost, notes and photos
+ */
+export const CameraHistoryEventModal: React.FC<CameraHistoryEventModalProps> = ({
+  isOpen,
+  event,
+  uploadParams,
+  onSubmit,
+  onClose
+}) => {
+  const [eventType, setEventType] = useState<CameraHistoryEventType>('service');
+  const [eventDate, setEventDate] = useState('');
+  const [cost, setCost] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const uploads = useUploadQueue({
+    endpoint: API_ENDPOINTS.UPLOAD_CAMERA_IMAGE,
+    params: uploadParams,
+  });
+  const { seed } = uploads;
+
+  const [wasOpen, setWasOpen] = useState(false);
+
+  // Start from the edited event (or a blank form) each time the modal opens
+  if (isOpen !== wasOpen) {
+    setWasOpen(isOpen);
+    if (isOpen) {
+      setEventType(event?.event_type ?? 'service');
+      setEventDate(event?.event_date ?? toDateInputValue());
+      setCost(event?.cost?.toString() ?? '');
+      setNotes(event?.notes ?? '');
+      setError(null);
+    }
+  }
+
+  // Existing photos go into the upload queue so they can be removed or reordered
+  useEffect(() => {
+    if (!isOpen) {return;}
+    seed((event?.photos ?? []).map((photo, index) => ({
+      id: `${event!.id}-${index}`,
+      camera_id: event!.camera_id,
+      image_url: photo.image_url,
+      thumbnail_url: photo.thumbnail_url,
+      is_primary: index === 0,
+      display_order: index,
+      created_at: event!.created_at,
+    })));
+  }, [isOpen, event, seed]);
+
+  const handleAddFiles = (files: File[]) => {
+    const results = files.map(file => ({ file, result: validateImageFile(file) }));
+    const validFiles = results.filter(r => r.result.isValid).map(r => r.file);
+    const rejected = results.flatMap(r => r.result.errors);
+
+    if (uploads.items.length + validFiles.length > MAX_EVENT_PHOTOS) {
+      setError(`You can attach up to ${MAX_EVENT_PHOTOS} photos to an event.`);
+      return;
+    }
+
+    setError(rejected.length > 0 ? rejected.join(' ') : null);
+    if (validFiles.length > 0) {
+      uploads.addFiles(validFiles);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!eventDate) {
+      setError('Choose the date of the event');
+      return;
+    }
+    if (eventDate > toDateInputValue()) {
+      setError('The date cannot be in the future');
+      return;
+    }
+    const amount = cost.trim() ? parseFloat(cost) : undefined;
+    if (amount !== undefined && (Number.isNaN(amount) || amount < 0)) {
+      setError('Cost must be a positive amount');
+      return;
+    }
+    if (uploads.isUploading) {
+      setError('Please wait for your photos to finish uploading');
+      return;
+    }
+
+    // The starred photo leads the event's photo strip
+    const photos = uploads.toCameraImages()
+      .sort((a, b) => Number(b.is_primary) - Number(a.is_primary))
+      .map(image => ({ image_url: image.image_url, thumbnail_url: image.thumbnail_url }));
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit({
+        event_type: eventType,
+        event_date: eventDate,
+        cost: amount,
+        notes: notes.trim() || undefined,
+        photos,
+      });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the event. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen) {return null;}
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4" onClick={onClose}>
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-lg max-h-[90vh] flex flex-col bg-white rounded-lg shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="history-event-title"
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2 id="history-event-title" className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+            <History size={18} />
+            {event ? 'Edit History Event' : 'Add History Event'}
+          </h2>
+          <button type="button" onClick={onClose} disabled={isSubmitting} aria-label="Close" className="text-gray-500 hover:text-gray-800">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <label className="flex flex-col gap-1 text-sm">
+              <span className="font-medium text-gray-700">Event</span>
+              <select
+                value={eventType}
+                onChange={(e) => setEventType(e.target.value as CameraHistoryEventType)}
+                className="px-3 py-2 border border-gray-300 rounded-md"
+                disabled={isSubmitting}
+              >
+                {CAMERA_CONFIG.HISTORY_EVENT_TYPES.map(type => (
+                  <option key={type.value} value={type.value}>{type.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-sm">
+              <span className="font-medium text-gray-700">Date</span>
+              <input
+                type="date"
+                value={eventDate}
+                max={toDateInputValue()}
+                onChange={(e) => setEventDate(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md"
+                disabled={isSubmitting}
+                required
+              />
+            </label>
+          </div>
+
+          <label className="flex flex-col gap-1 text-sm">
+            <span className="font-medium text-gray-700">
+              {eventType === 'sale' ? 'Sale price' : 'Cost'} (optional)
+            </span>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={cost}
+              onChange={(e) => setCost(e.target.value)}
+              placeholder="0.00"
+              className="px-3 py-2 border border-gray-300 rounded-md"
+              disabled={isSubmitting}
+            />
+          </label>
+
+          <label className="flex flex-col gap-1 text-sm">
+            <span className="font-medium text-gray-700">Notes (optional)</span>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={3}
+              maxLength={NOTES_MAX_LENGTH}
+              placeholder="Who did the work, what was replaced, where it came from..."
+              className="px-3 py-2 border border-gray-300 rounded-md"
+              disabled={isSubmitting}
+            />
+          </label>
+
+          <div className="text-sm">
+            <p className="font-medium text-gray-700 mb-1">Photos (optional)</p>
+            <ImageUploadGrid
+              items={uploads.items}
+              onAddFiles={handleAddFiles}
+              onCancel={uploads.cancel}
+              onRetry={uploads.retry}
+              onRemove={uploads.remove}
+              onReorder={uploads.reorder}
+              onSetPrimary={uploads.setPrimary}
+              maxFiles={MAX_EVENT_PHOTOS}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="flex justify-end gap-2 p-4 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isSubmitting}
+            className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="px-4 py-2 text-sm text-white bg-orange-600 rounded-md hover:bg-orange-700 disabled:opacity-50"
+          >
+            {isSubmitting ? 'Saving...' : 'Save Event'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,129 @@
+import React from 'react';
+import { Aperture, Hammer, type LucideIcon, Pencil, ShoppingBag, Tag, Trash2, Wrench } from 'lucide-react';
+import { OptimizedImage } from '@/components/ui/OptimizedImage';
+import { CAMERA_CONFIG } from '@/constants';
+import { formatDate, parseDateOnly } from '@/utils/date.utils';
+import { formatCurrency } from '@/utils/format.utils';
+import type { CameraHistoryEvent, CameraHistoryEventType } from '@/types';
+
+interface CameraHistoryTimelineProps {
+  events: CameraHistoryEvent[];
+  /** Shows edit and delete controls */
+  canEdit?: boolean;
+  onEdit?: (event: CameraHistoryEvent) => void;
+  onDelete?: (event: CameraHistoryEvent) => void;
+  className?: string;
+}
+
+const EVENT_ICONS: Record<CameraHistoryEventType, LucideIcon> = {
+  acquisition: ShoppingBag,
+  service: Wrench,
+  repair: Hammer,
+  lens_change: Aperture,
+  sale: Tag,
+};
+
+const EVENT_COLORS: Record<CameraHistoryEventType, string> = {
+  acquisition: 'bg-green-100 text-green-700',
+  service: 'bg-blue-100 text-blue-700',
+  repair: 'bg-orange-100 text-orange-700',
+  lens_change: 'bg-purple-100 text-purple-700',
+  sale: 'bg-red-100 text-red-700',
+};
+
+const eventLabel = (type: CameraHistoryEventType) =>
+  CAMERA_CONFIG.HISTORY_EVENT_TYPES.find(option => option.value === type)?.label ?? type;
+
+/**
+ * CameraHistoryTimeline Component
+ *
+ * Vertical timeline of a camera's acquisition, service, repair, lens change
+ * and sale events, in the order they happened
+ */
+export const CameraHistoryTimeline: React.FC<CameraHistoryTimelineProps> = ({
+  events,
+  canEdit = false,
+  onEdit,
+  onDelete,
+  className = ''
+}) => {
+  const totalCost = events
+    .filter(event => event.event_type !== 'sale')
+    .reduce((sum, event) => sum + (event.cost ?? 0), 0);
+
+  return (
+    <div className={className}>
+      <ol className="relative border-l border-gray-200 ml-4">
+        {events.map(event => {
+          const Icon = EVENT_ICONS[event.event_type] ?? Wrench;
+
+          return (
+            <li key={event.id} className="mb-6 ml-6 last:mb-0">
+              <span
+                className={`absolute -left-4 flex items-center justify-center w-8 h-8 rounded-full ring-4 ring-white ${
+                  EVENT_COLORS[event.event_type] ?? 'bg-gray-100 text-gray-700'
+                }`}
+              >
+                <Icon size={16} />
+              </span>
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <p className="font-medium text-gray-900">{eventLabel(event.event_type)}</p>
+                  <p className="text-xs text-gray-500">
+                    <time dateTime={event.event_date}>{formatDate(parseDateOnly(event.event_date))}</time>
+                    {event.cost !== undefined && event.cost !== null && ` · ${formatCurrency(event.cost)}`}
+                  </p>
+                </div>
+                {canEdit && (
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => onEdit?.(event)}
+                      className="p-1 text-gray-500 hover:text-gray-800"
+                      aria-label={`Edit ${eventLabel(event.event_type)} event`}
+                    >
+                      <Pencil size={14} />
+                    </button>
+                    <button
+                      onClick={() => onDelete?.(event)}
+                      className="p-1 text-gray-500 hover:text-red-600"
+                      aria-label={`Delete ${eventLabel(event.event_type)} event`}
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                )}
+              </div>
+              {event.notes && (
+                <p className="mt-1 text-sm text-gray-700 whitespace-pre-line">{event.notes}</p>
+              )}
+              {event.photos?.length > 0 && (
+                <div className="flex gap-2 mt-2">
+                  {event.photos.map(photo => (
+                    <a
+                      key={photo.image_url}
+                      href={photo.image_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="block w-16 h-16 rounded overflow-hidden bg-gray-200"
+                    >
+                      <OptimizedImage
+                        src={photo.thumbnail_url || photo.image_url}
+                        alt={`${eventLabel(event.event_type)} photo`}
+                        className="w-full h-full object-cover"
+                      />
+                    </a>
+                  ))}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+      {totalCost > 0 && (
+        <p className="mt-4 pt-3 border-t border-gray-100 text-sm text-gray-600">
+          Spent on acquisition and upkeep: <span className="font-medium text-gray-900">{formatCurrency(totalCost)}</span>
+        </p>
+      )}
+    </div>
+  );
+};
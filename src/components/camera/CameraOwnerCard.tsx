@@ -0,0 +1,55 @@
+import React from 'react';
+import { OptimizedImage } from '@/components/ui/OptimizedImage';
+import { pluralize } from '@/utils/format.utils';
+import type { UserProfile } from '@/types';
+
+interface CameraOwnerCardProps {
+  owner?: UserProfile;
+  fallbackUsername?: string;
+  fallbackAvatar?: string;
+  className?: string;
+}
+
+/**
+ * CameraOwnerCard Component
+ * 
+ * Compact profile card for the owner of a camera
+ */
+export const CameraOwnerCard: React.FC<CameraOwnerCardProps> = ({
+  owner,
+  fallbackUsername,
+  fallbackAvatar,
+  className = ''
+}) => {
+  const username = owner?.username || fallbackUsername || 'Anonymous';
+  const avatar = owner?.avatar_url || fallbackAvatar;
+
+  return (
+    <div className={`flex items-center gap-3 p-4 bg-white rounded-lg shadow-sm ${className}`}>
+      <div className="w-12 h-12 rounded-full bg-gray-300 flex items-center justify-center overflow-hidden flex-shrink-0">
+        {avatar ? (
+          <OptimizedImage
+            src={avatar}
+            alt={username}
+            className="w-full h-full object-cover"
+          />
+        ) : (
+          <span className="text-gray-600 font-medium">{username[0].toUpperCase()}</span>
+        )}
+      </div>
+      <div className="min-w-0">
+        <p className="font-medium text-gray-900 truncate">
+          {owner?.display_name || username}
+        </p>
+        <p className="text-xs text-gray-500">@{username}</p>
+        {owner && (
+          <p className="text-xs text-gray-500 mt-1">
+            {pluralize(owner.camera_count, 'camera')} · {pluralize(owner.follower_count, 'follower')}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CameraOwnerCard;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { snakeToReadable } from '@/utils/format.utils';
+import {
+  TECHNICAL_SPEC_FIELDS,
+  formatLegacySpecValue,
+  formatTechnicalSpecValue,
+  getTechnicalSpecFields,
+  parseTechnicalSpecs
+} from '@/utils/specs.utils';
+import type { TechnicalSpecKey } from '@/types';
+
+interface CameraSpecsTableProps {
+  specs?: Record<string, unknown>;
+  /** Orders typed fields by the schema for this camera type */
+  cameraType?: string;
+  className?: string;
+}
+
+/**
+ * CameraSpecsTable Component
+ * 
+ * Displays a camera's technical specs as a two-column table: schema fields
+ * first, then any legacy free-form entries
+ */
+export const CameraSpecsTable: React.FC<CameraSpecsTableProps> = ({ specs, cameraType, className = '' }) => {
+  const { specs: typed, legacy } = parseTechnicalSpecs(specs);
+  const typeKeys = getTechnicalSpecFields(cameraType).map(field => field.key);
+  const orderedKeys = [
+    ...typeKeys,
+    ...(Object.keys(TECHNICAL_SPEC_FIELDS) as TechnicalSpecKey[]).filter(key => !typeKeys.includes(key)),
+  ];
+
+  const entries: Array<[string, string, string]> = [
+    ...orderedKeys
+      .filter(key => typed[key] !== undefined)
+      .map((key): [string, string, string] => {
+        const field = TECHNICAL_SPEC_FIELDS[key];
+        return [key, field.label, formatTechnicalSpecValue(field, typed[key])];
+      }),
+    ...Object.entries(legacy).map(([key, value]): [string, string, string] =>
+      [key, snakeToReadable(key), formatLegacySpecValue(value)]
+    ),
+  ];
+
+  if (entries.length === 0) {
+    return (
+      <p className={`text-sm text-gray-500 ${className}`}>No technical specs recorded.</p>
+    );
+  }
+
+  return (
+    <table className={`w-full text-sm ${className}`}>
+      <tbody>
+        {entries.map(([key, label, value]) => (
+          <tr key={key} className="border-b border-gray-100 last:border-0">
+            <th scope="row" className="py-2 pr-4 text-left font-medium text-gray-600 align-top w-1/3">
+              {label}
+            </th>
+            <td className="py-2 text-gray-900">{value}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+export default CameraSpecsTable;
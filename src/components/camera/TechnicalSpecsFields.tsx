@@ -0,0 +1,147 @@
+import React from 'react';
+import { CAMERA_CONFIG } from '@/constants';
+import { formatShutterSpeed, getTechnicalSpecFields } from '@/utils/specs.utils';
+import type { CameraTechnicalSpecs, TechnicalSpecField, TechnicalSpecKey, TechnicalSpecs } from '@/types';
+
+interface TechnicalSpecsFieldsProps {
+  cameraType?: string;
+  specs: CameraTechnicalSpecs;
+  errors?: Partial<Record<TechnicalSpecKey, string>>;
+  onChange: (key: TechnicalSpecKey, value: TechnicalSpecs[TechnicalSpecKey]) => void;
+  disabled?: boolean;
+}
+
+const LENS_MOUNTS_LIST_ID = 'technical-specs-lens-mounts';
+
+/**
+ * TechnicalSpecsFields Component
+ *
+ * Form widgets for the spec fields that apply to the selected camera type
+ */
+export const TechnicalSpecsFields: React.FC<TechnicalSpecsFieldsProps> = ({
+  cameraType,
+  specs,
+  errors = {},
+  onChange,
+  disabled = false
+}) => {
+  const fields = getTechnicalSpecFields(cameraType);
+
+  const renderInput = (field: TechnicalSpecField) => {
+    const id = `spec_${field.key}`;
+    const value = specs[field.key];
+    const className = errors[field.key] ? 'error' : '';
+
+    switch (field.kind) {
+      case 'select':
+        return (
+          <select
+            id={id}
+            value={value === undefined ? '' : String(value)}
+            onChange={e => onChange(field.key, e.target.value || undefined)}
+            className={className}
+            disabled={disabled}
+          >
+            <option value="">Not specified</option>
+            {field.options?.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+            {value !== undefined && !field.options?.some(option => option.value === value) && (
+              <option value={String(value)}>{String(value)}</option>
+            )}
+          </select>
+        );
+
+      case 'shutter_speed': {
+        const speeds: readonly number[] = CAMERA_CONFIG.SHUTTER_SPEEDS;
+        return (
+          <select
+            id={id}
+            value={value === undefined ? '' : String(value)}
+            onChange={e => onChange(field.key, e.target.value ? Number(e.target.value) : undefined)}
+            className={className}
+            disabled={disabled}
+          >
+            <option value="">Not specified</option>
+            {speeds.map(speed => (
+              <option key={speed} value={String(speed)}>{formatShutterSpeed(speed)}</option>
+            ))}
+            {typeof value === 'number' && !speeds.includes(value) && (
+              <option value={String(value)}>{formatShutterSpeed(value)}</option>
+            )}
+          </select>
+        );
+      }
+
+      case 'boolean':
+        return (
+          <select
+            id={id}
+            value={value === undefined ? '' : String(value)}
+            onChange={e => onChange(field.key, e.target.value ? e.target.value === 'true' : undefined)}
+            className={className}
+            disabled={disabled}
+          >
+            <option value="">Not specified</option>
+            <option value="true">Yes</option>
+            <option value="false">No</option>
+          </select>
+        );
+
+      case 'number':
+        return (
+          <input
+            type="number"
+            id={id}
+            value={value === undefined ? '' : String(value)}
+            onChange={e => onChange(field.key, e.target.value === '' ? undefined : Number(e.target.value))}
+            min={field.min}
+            max={field.max}
+            step="any"
+            placeholder={field.placeholder}
+            className={className}
+            disabled={disabled}
+          />
+        );
+
+      default:
+        return (
+          <input
+            type="text"
+            id={id}
+            value={value === undefined ? '' : String(value)}
+            onChange={e => onChange(field.key, e.target.value || undefined)}
+            list={field.key === 'lens_mount' ? LENS_MOUNTS_LIST_ID : undefined}
+            placeholder={field.placeholder}
+            className={className}
+            disabled={disabled}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="technical-specs-fields">
+      <div className="form-row">
+        {fields.map(field => (
+          <div key={field.key} className="form-group">
+            <label htmlFor={`spec_${field.key}`}>
+              {field.label}
+              {field.unit && ` (${field.unit})`}
+              {field.prefix && ` (${field.prefix})`}
+            </label>
+            {renderInput(field)}
+            {errors[field.key] && <span className="error-message">{errors[field.key]}</span>}
+          </div>
+        ))}
+      </div>
+      <datalist id={LENS_MOUNTS_LIST_ID}>
+        {CAMERA_CONFIG.LENS_MOUNTS.map(mount => (
+          <option key={mount} value={mount} />
+        ))}
+      </datalist>
+    </div>
+  );
+};
+
+export default TechnicalSpecsFields;
@@ -0,0 +1,6 @@
+export { CameraGallery } from './CameraGallery';
+export { CameraSpecsTable } from './CameraSpecsTable';
+export { CameraOwnerCard } from './CameraOwnerCard';
+export { TechnicalSpecsFields } from './TechnicalSpecsFields';
+export { CameraHistoryTimeline } from './CameraHistoryTimeline';
+export { CameraHistoryEventModal } from './CameraHistoryEventModal';
@@ -0,0 +1,59 @@
+import React from 'react';
+import { Check, GitCompare } from 'lucide-react';
+import { useCompareTray } from '@/hooks/useCompare';
+import { CAMERA_CONFIG } from '@/constants';
+import type { Camera } from '@/types';
+
+interface CompareToggleButtonProps {
+  camera: Camera;
+  /** Overlay styling for placement on top of a photo */
+  variant?: 'inline' | 'overlay';
+  showLabel?: boolean;
+  className?: string;
+}
+
+/**
+ * CompareToggleButton Component
+ *
+ * Adds a camera to, or removes it from, the compare tray
+ */
+export const CompareToggleButton: React.FC<CompareToggleButtonProps> = ({
+  camera,
+  variant = 'inline',
+  showLabel = false,
+  className = ''
+}) => {
+  const { isInTray, toggle } = useCompareTray();
+  const selected = isInTray(camera.id);
+  const label = selected ? 'Remove from comparison' : 'Add to comparison';
+  const colors = variant === 'overlay'
+    ? selected ? 'text-white bg-orange-600 shadow-sm' : 'text-gray-700 bg-white bg-opacity-90 shadow-sm hover:bg-opacity-100'
+    : selected ? 'text-orange-700 bg-orange-100' : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100';
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!toggle(camera)) {
+      alert(`You can compare up to ${CAMERA_CONFIG.MAX_COMPARE} cameras at once.`);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      aria-pressed={selected}
+      aria-label={label}
+      title={label}
+      className={`flex items-center gap-1 text-xs font-medium rounded-md transition-colors ${colors} ${
+        showLabel ? 'px-2 py-1' : 'p-1.5'
+      } ${className}`}
+    >
+      {selected ? <Check className="w-4 h-4" /> : <GitCompare className="w-4 h-4" />}
+      {showLabel && <span>{selected ? 'Comparing' : 'Compare'}</span>}
+    </button>
+  );
+};
+
+CompareToggleButton.displayName = 'CompareToggleButton';
+
+export default CompareToggleButton;
@@ -0,0 +1,82 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { GitCompare, X } from 'lucide-react';
+import { OptimizedImage } from '@/components/ui/OptimizedImage';
+import { useCompareTray } from '@/hooks/useCompare';
+import { CAMERA_CONFIG, ROUTE_PATHS } from '@/constants';
+
+/**
+ * CompareTray Component
+ *
+ * Floating bar listing the cameras picked for comparison
+ */
+export const CompareTray: React.FC = () => {
+  const navigate = useNavigate();
+  const { cameras, remove, clear } = useCompareTray();
+
+  if (cameras.length === 0) {
+    return null;
+  }
+
+  return (
+    <div
+      className="print:hidden fixed z-40 left-1/2 -translate-x-1/2 bottom-20 md:bottom-4 flex items-center gap-3 px-3 py-2 bg-white rounded-lg shadow-lg border border-gray-200"
+      role="region"
+      aria-label="Compare tray"
+    >
+      <ul className="flex items-center gap-2">
+        {cameras.map(camera => {
+          const image = camera.images?.find(img => img.is_primary) ?? camera.images?.[0];
+          return (
+            <li key={camera.id} className="relative w-12 h-12 rounded overflow-hidden bg-gray-200" title={`${camera.brand_name} ${camera.model}`}>
+              {image ? (
+                <OptimizedImage
+                  src={image.thumbnail_url || image.image_url}
+                  alt={`${camera.brand_name} ${camera.model}`}
+                  className="w-full h-full object-cover"
+                />
+              ) : (
+                <span className="flex items-center justify-center w-full h-full text-[10px] text-gray-500 text-center leading-tight">
+                  {camera.model}
+                </span>
+              )}
+              <button
+                type="button"
+                onClick={() => remove(camera.id)}
+                className="absolute top-0 right-0 p-0.5 bg-black bg-opacity-60 text-white rounded-bl"
+                aria-label={`Remove ${camera.brand_name} ${camera.model} from comparison`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      <span className="text-xs text-gray-500 whitespace-nowrap">
+        {cameras.length}/{CAMERA_CONFIG.MAX_COMPARE}
+      </span>
+
+      <button
+        type="button"
+        onClick={() => navigate(ROUTE_PATHS.COMPARE)}
+        disabled={cameras.length < 2}
+        className="flex items-center gap-1 px-3 py-1.5 text-sm text-white bg-orange-600 rounded-md hover:bg-orange-700 disabled:opacity-50"
+      >
+        <GitCompare size={16} />
+        Compare
+      </button>
+      <button
+        type="button"
+        onClick={clear}
+        className="text-sm text-gray-500 hover:text-gray-700"
+      >
+        Clear
+      </button>
+    </div>
+  );
+};
+
+CompareTray.displayName = 'CompareTray';
+
+export default CompareTray;
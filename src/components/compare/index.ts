@@ -0,0 +1,2 @@
+export { CompareToggleButton } from './CompareToggleButton';
+export { CompareTray } from './CompareTray';
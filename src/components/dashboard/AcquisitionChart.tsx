@@ -0,0 +1,98 @@
+import React from 'react';
+import type { AcquisitionPoint } from '@/utils/analytics.utils';
+
+interface AcquisitionChartProps {
+  points: AcquisitionPoint[];
+  className?: string;
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 180;
+const AXIS_HEIGHT = 20;
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const formatMonth = (month: string): string => {
+  const [year, monthIndex] = month.split('-');
+  return `${MONTH_LABELS[Number(monthIndex) - 1]} ${year}`;
+};
+
+/**
+ * AcquisitionChart Component
+ *
+ * SVG column chart of cameras added per month with a running-total line
+ */
+export const AcquisitionChart: React.FC<AcquisitionChartProps> = ({ points, className = '' }) => {
+  if (points.length === 0) {
+    return (
+      <section className={`dashboard-card ${className}`}>
+        <h2 className="dashboard-card__title">Acquisitions Over Time</h2>
+        <p className="dashboard-card__empty">No cameras yet</p>
+      </section>
+    );
+  }
+
+  const plotHeight = CHART_HEIGHT - AXIS_HEIGHT;
+  const maxCount = Math.max(1, ...points.map(point => point.count));
+  const maxCumulative = Math.max(1, points[points.length - 1]!.cumulative);
+  const slot = CHART_WIDTH / points.length;
+  const barWidth = Math.max(2, slot * 0.7);
+  // Label roughly every sixth of the range so long histories stay readable
+  const labelEvery = Math.max(1, Math.ceil(points.length / 6));
+
+  const linePath = points
+    .map((point, index) => {
+      const x = index * slot + slot / 2;
+      const y = plotHeight - (point.cumulative / maxCumulative) * plotHeight;
+      return `${index === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return (
+    <section className={`dashboard-card ${className}`}>
+      <h2 className="dashboard-card__title">Acquisitions Over Time</h2>
+      <svg
+        className="acquisition-chart"
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        role="img"
+        aria-label={`Cameras added per month from ${formatMonth(points[0]!.month)} to ${formatMonth(points[points.length - 1]!.month)}`}
+      >
+        {points.map((point, index) => {
+          const height = (point.count / maxCount) * plotHeight;
+          return (
+            <rect
+              key={point.month}
+              className="acquisition-chart__bar"
+              x={index * slot + (slot - barWidth) / 2}
+              y={plotHeight - height}
+              width={barWidth}
+              height={height}
+            >
+              <title>{`${formatMonth(point.month)}: ${point.count} added, ${point.cumulative} total`}</title>
+            </rect>
+          );
+        })}
+        <path className="acquisition-chart__line" d={linePath} />
+        {points.map((point, index) => index % labelEvery === 0 && (
+          <text
+            key={`label-${point.month}`}
+            className="acquisition-chart__label"
+            x={index * slot + slot / 2}
+            y={CHART_HEIGHT - 4}
+            textAnchor="middle"
+          >
+            {formatMonth(point.month)}
+          </text>
+        ))}
+      </svg>
+      <div className="acquisition-chart__legend">
+        <span><span className="legend-swatch legend-swatch--bar" /> Added per month</span>
+        <span><span className="legend-swatch legend-swatch--line" /> Running total</span>
+      </div>
+    </section>
+  );
+};
+
+AcquisitionChart.displayName = 'AcquisitionChart';
+
+export default AcquisitionChart;
@@ -0,0 +1,64 @@
+import React from 'react';
+import type { BreakdownEntry } from '@/utils/analytics.utils';
+
+interface BreakdownChartProps {
+  title: string;
+  entries: BreakdownEntry[];
+  total: number;
+  /** Remaining entries are folded into "Other" */
+  maxBars?: number;
+  className?: string;
+}
+
+/**
+ * BreakdownChart Component
+ *
+ * Horizontal bar chart of how a collection splits across one attribute
+ */
+export const BreakdownChart: React.FC<BreakdownChartProps> = ({
+  title,
+  entries,
+  total,
+  maxBars = 8,
+  className = ''
+}) => {
+  const visible = entries.slice(0, maxBars);
+  const otherCount = entries.slice(maxBars).reduce((sum, entry) => sum + entry.count, 0);
+  const bars = otherCount > 0
+    ? [...visible, { key: 'other', label: 'Other', count: otherCount }]
+    : visible;
+  const maxCount = Math.max(1, ...bars.map(bar => bar.count));
+
+  return (
+    <section className={`dashboard-card ${className}`}>
+      <h2 className="dashboard-card__title">{title}</h2>
+      {bars.length === 0 ? (
+        <p className="dashboard-card__empty">No cameras yet</p>
+      ) : (
+        <ul className="breakdown-chart" aria-label={title}>
+          {bars.map(bar => (
+            <li key={bar.key} className="breakdown-chart__row">
+              <span className="breakdown-chart__label" title={bar.label}>{bar.label}</span>
+              <span className="breakdown-chart__track">
+                <span
+                  className="breakdown-chart__bar"
+                  style={{ width: `${(bar.count / maxCount) * 100}%` }}
+                />
+              </span>
+              <span className="breakdown-chart__value">
+                {bar.count}
+                <span className="breakdown-chart__percent">
+                  {total > 0 ? ` (${Math.round((bar.count / total) * 100)}%)` : ''}
+                </span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+BreakdownChart.displayName = 'BreakdownChart';
+
+export default BreakdownChart;
@@ -0,0 +1,2 @@
+export { AcquisitionChart } from './AcquisitionChart';
+export { BreakdownChart } from './BreakdownChart';
@@ -1,8 +1,10 @@
 import React, { useEffect, useState } from 'react';
 import { User, UserCheck, UserPlus, X } from 'lucide-react';
 import { Link } from 'react-router-dom';
-import { useAuth } from '@clerk/clerk-react';
 import { userService } from '@/services/api/users.service';
+import { outboxService, outboxTargets } from '@/services/outbox';
+import { OutboxIndicator } from '@/components/ui/OutboxIndicator';
+import { useOutbox } from '@/hooks';
 import type { UserProfile } from '@/types';
 
 interface UserListModalProps {
@@ -20,31 +22,34 @@ export const UserListModal: React.FC<UserListModalProps> = ({
   type,
   currentUserId,
 }) => {
-  const { getToken } = useAuth();
   const [users, setUsers] = useState<UserProfile[]>([]);
   const [loading, setLoading] = useState(false);
   const [followingStatus, setFollowingStatus] = useState<{ [key: string]: boolean }>({});
   const [loadingFollow, setLoadingFollow] = useState<{ [key: string]: boolean }>({});
+  const { entries: queued } = useOutbox();
+
+  // Latest follow change for a user still waiting in the outbox
+  const queuedFollow = (targetUserId: string) =>
+    queued.filter(entry => entry.target === outboxTargets.follow(targetUserId)).pop();
 
   useEffect(() => {
     const fetchUsers = async () => {
       setLoading(true);
       try {
-        const token = await getToken();
         let userList: UserProfile[] = [];
         
         if (type === 'followers') {
-          userList = await userService.getUserFollowers(userId, token || undefined);
+          userList = await userService.getUserFollowers(userId);
         } else {
-          userList = await userService.getUserFollowing(userId, token || undefined);
+          userList = await userService.getUserFollowing(userId);
         }
         
         setUsers(userList);
         
         // Check following status for each user if current user is logged in
-        if (currentUserId && token) {
+        if (currentUserId) {
           const status: { [key: string]: boolean } = {};
-          const followingList = await userService.getUserFollowing(currentUserId, token);
+          const followingList = await userService.getUserFollowing(currentUserId);
           followingList.forEach(user => {
             status[user.id] = true;
           });
@@ -60,7 +65,7 @@ export const UserListModal: React.FC<UserListModalProps> = ({
     if (isOpen) {
       fetchUsers();
     }
-  }, [isOpen, userId, type, currentUserId, getToken]);
+  }, [isOpen, userId, type, currentUserId]);
 
 
   const handleFollow = async (targetUserId: string) => {
@@ -68,13 +73,12 @@ export const UserListModal: React.FC<UserListModalProps> = ({
     
     setLoadingFollow({ ...loadingFollow, [targetUserId]: true });
     try {
-      const token = await getToken();
-      
+      // Changes made offline are queued and shown right away
       if (followingStatus[targetUserId]) {
-        await userService.unfollowUser(targetUserId, currentUserId, token || undefined);
+        await outboxService.run({ type: 'unfollowUser', targetUserId, currentUserId });
         setFollowingStatus({ ...followingStatus, [targetUserId]: false });
       } else {
-        await userService.followUser(targetUserId, currentUserId, token || undefined);
+        await outboxService.run({ type: 'followUser', targetUserId, currentUserId });
         setFollowingStatus({ ...followingStatus, [targetUserId]: true });
       }
     } catch (error) {
@@ -149,29 +153,40 @@ export const UserListModal: React.FC<UserListModalProps> = ({
                   </Link>
                   
                   {currentUserId && currentUserId !== user.id && (
-                    <button
-                      onClick={() => handleFollow(user.id)}
-                      disabled={loadingFollow[user.id]}
-                      className={`ml-3 px-3 py-1.5 rounded-full text-sm font-medium transition-colors ${
-                        followingStatus[user.id]
-                          ? 'bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600'
-                          : 'bg-orange-500 text-white hover:bg-orange-600'
-                      } disabled:opacity-50 disabled:cursor-not-allowed`}
-                    >
-                      {loadingFollow[user.id] ? (
-                        <span className="inline-block w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-                      ) : followingStatus[user.id] ? (
-                        <span className="flex items-center gap-1">
-                          <UserCheck className="w-3.5 h-3.5" />
-                          Following
-                        </span>
-                      ) : (
-                        <span className="flex items-center gap-1">
-                          <UserPlus className="w-3.5 h-3.5" />
-                          Follow
-                        </span>
+                    <div className="ml-3 flex flex-col items-end gap-1">
+                      <button
+                        onClick={() => handleFollow(user.id)}
+                        disabled={loadingFollow[user.id]}
+                        className={`px-3 py-1.5 rounded-full text-sm font-medium transition-colors ${
+                          followingStatus[user.id]
+                            ? 'bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600'
+                            : 'bg-orange-500 text-white hover:bg-orange-600'
+                        } disabled:opacity-50 disabled:cursor-not-allowed`}
+                      >
+                        {loadingFollow[user.id] ? (
+                          <span className="inline-block w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                        ) : followingStatus[user.id] ? (
+                          <span className="flex items-center gap-1">
+                            <UserCheck className="w-3.5 h-3.5" />
+                            Following
+                          </span>
+                        ) : (
+                          <span className="flex items-center gap-1">
+                            <UserPlus className="w-3.5 h-3.5" />
+                            Follow
+                          </span>
+                        )}
+                      </button>
+                      {queuedFollow(user.id) && (
+                        <OutboxIndicator
+                          entry={queuedFollow(user.id)!}
+                          onDiscard={entry => setFollowingStatus(prev => ({
+                            ...prev,
+                            [user.id]: entry.mutation.type !== 'followUser',
+                          }))}
+                        />
                       )}
-                    </button>
+                    </div>
                   )}
                 </div>
               ))}
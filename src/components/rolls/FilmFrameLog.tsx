@@ -0,0 +1,268 @@
+import React, { useState } from 'react';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { formatNumber } from '@/utils/format.utils';
+import { formatShutterSpeed, parseShutterSpeed } from '@/utils/specs.utils';
+import { validateFilmFrames } from '@/utils/validation.utils';
+import type { FilmFrame } from '@/types';
+
+interface FilmFrameLogProps {
+  frames: FilmFrame[];
+  /** Rows offered when starting an empty log, e.g. 36 for 35mm */
+  defaultFrameCount?: number;
+  canEdit?: boolean;
+  onSave?: (frames: FilmFrame[]) => Promise<void>;
+}
+
+type FrameRow = {
+  number: string;
+  aperture: string;
+  shutter_speed: string;
+  lens: string;
+  notes: string;
+};
+
+const toRow = (frame: FilmFrame): FrameRow => ({
+  number: frame.number.toString(),
+  aperture: frame.aperture?.toString() ?? '',
+  shutter_speed: frame.shutter_speed !== undefined ? formatShutterSpeed(frame.shutter_speed) : '',
+  lens: frame.lens ?? '',
+  notes: frame.notes ?? '',
+});
+
+const emptyRow = (number: number): FrameRow => ({ number: number.toString(), aperture: '', shutter_speed: '', lens: '', notes: '' });
+
+/**
+ * Convert edited rows back into frames, dropping rows with nothing recorded
+ */
+const toFrames = (rows: FrameRow[]): FilmFrame[] =>
+  rows
+    .filter(row => row.aperture || row.shutter_speed || row.lens.trim() || row.notes.trim())
+    .map(row => ({
+      number: Number(row.number),
+      aperture: row.aperture ? Number(row.aperture) : undefined,
+      // Unreadable speeds become NaN so validation reports them
+      shutter_speed: row.shutter_speed ? parseShutterSpeed(row.shutter_speed) ?? NaN : undefined,
+      lens: row.lens.trim() || undefined,
+      notes: row.notes.trim() || undefined,
+    }))
+    .sort((a, b) => a.number - b.number);
+
+const cellInput = 'w-full px-2 py-1 border border-gray-300 rounded';
+
+/**
+ * FilmFrameLog Component
+ *
+ * Per-frame exposure notes for a roll; aperture, shutter and lens are all
+ * optional, and owners can edit the log in place
+ */
+export const FilmFrameLog: React.FC<FilmFrameLogProps> = ({
+  frames,
+  defaultFrameCount = 36,
+  canEdit = false,
+  onSave
+}) => {
+  const [rows, setRows] = useState<FrameRow[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const startEditing = () => {
+    setRows(frames.length > 0
+      ? frames.map(toRow)
+      : Array.from({ length: defaultFrameCount }, (_, index) => emptyRow(index + 1)));
+    setError(null);
+  };
+
+  const updateRow = (index: number, key: keyof FrameRow, value: string) => {
+    setRows(prev => prev && prev.map((row, i) => (i === index ? { ...row, [key]: value } : row)));
+  };
+
+  const addRow = () => {
+    setRows(prev => {
+      const next = Math.max(0, ...(prev ?? []).map(row => Number(row.number) || 0)) + 1;
+      return [...(prev ?? []), emptyRow(next)];
+    });
+  };
+
+  const handleSave = async () => {
+    if (!rows || !onSave) {return;}
+    const edited = toFrames(rows);
+    const validation = validateFilmFrames(edited);
+    if (!validation.isValid) {
+      setError(validation.errors.join(' '));
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave(edited);
+      setRows(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save frames. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (rows) {
+    return (
+      <div className="space-y-3">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs uppercase tracking-wide text-gray-500">
+                <th className="p-1 w-16">Frame</th>
+                <th className="p-1 w-20">f/</th>
+                <th className="p-1 w-24">Shutter</th>
+                <th className="p-1">Lens</th>
+                <th className="p-1">Notes</th>
+                <th className="p-1 w-8" />
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, index) => (
+                <tr key={index}>
+                  <td className="p-1">
+                    <input
+                      type="number"
+                      min="0"
+                      value={row.number}
+                      onChange={e => updateRow(index, 'number', e.target.value)}
+                      className={cellInput}
+                      aria-label="Frame number"
+                    />
+                  </td>
+                  <td className="p-1">
+                    <input
+                      type="number"
+                      step="0.1"
+                      min="0.7"
+                      value={row.aperture}
+                      onChange={e => updateRow(index, 'aperture', e.target.value)}
+                      placeholder="8"
+                      className={cellInput}
+                      aria-label={`Frame ${row.number} aperture`}
+                    />
+                  </td>
+                  <td className="p-1">
+                    <input
+                      value={row.shutter_speed}
+                      onChange={e => updateRow(index, 'shutter_speed', e.target.value)}
+                      placeholder="1/125"
+                      className={cellInput}
+                      aria-label={`Frame ${row.number} shutter speed`}
+                    />
+                  </td>
+                  <td className="p-1">
+                    <input
+                      value={row.lens}
+                      onChange={e => updateRow(index, 'lens', e.target.value)}
+                      placeholder="50mm"
+                      className={cellInput}
+                      aria-label={`Frame ${row.number} lens`}
+                    />
+                  </td>
+                  <td className="p-1">
+                    <input
+                      value={row.notes}
+                      onChange={e => updateRow(index, 'notes', e.target.value)}
+                      className={cellInput}
+                      aria-label={`Frame ${row.number} notes`}
+                    />
+                  </td>
+                  <td className="p-1">
+                    <button
+                      type="button"
+                      onClick={() => setRows(prev => prev && prev.filter((_, i) => i !== index))}
+                      className="p-1 text-gray-400 hover:text-red-600"
+                      aria-label={`Remove frame ${row.number}`}
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-gray-500">Frames with nothing recorded are not saved.</p>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <div className="flex items-center justify-between">
+          <button
+            type="button"
+            onClick={addRow}
+            className="flex items-center gap-1 text-sm text-gray-700 hover:text-gray-900"
+          >
+            <Plus size={14} />
+            <span>Add frame</span>
+          </button>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => setRows(null)}
+              disabled={isSaving}
+              className="px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isSaving}
+              className="px-3 py-1.5 text-sm text-white bg-orange-600 rounded-md hover:bg-orange-700 disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save Frames'}
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {frames.length === 0 ? (
+        <p className="text-sm text-gray-500">No frames logged for this roll.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs uppercase tracking-wide text-gray-500">
+              <th className="py-1 pr-3 w-16">Frame</th>
+              <th className="py-1 pr-3">Aperture</th>
+              <th className="py-1 pr-3">Shutter</th>
+              <th className="py-1 pr-3">Lens</th>
+              <th className="py-1">Notes</th>
+            </tr>
+          </thead>
+          <tbody>
+            {frames.map(frame => (
+              <tr key={frame.number} className="border-t border-gray-100 align-top">
+                <td className="py-1.5 pr-3 font-medium text-gray-900">{frame.number}</td>
+                <td className="py-1.5 pr-3 text-gray-700">
+                  {frame.aperture !== undefined ? `f/${formatNumber(frame.aperture)}` : '—'}
+                </td>
+                <td className="py-1.5 pr-3 text-gray-700">
+                  {frame.shutter_speed !== undefined ? formatShutterSpeed(frame.shutter_speed) : '—'}
+                </td>
+                <td className="py-1.5 pr-3 text-gray-700">{frame.lens || '—'}</td>
+                <td className="py-1.5 text-gray-700">{frame.notes}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {canEdit && onSave && (
+        <button
+          type="button"
+          onClick={startEditing}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100"
+        >
+          <Pencil size={14} />
+          <span>{frames.length > 0 ? 'Edit Frames' : 'Start Frame Log'}</span>
+        </button>
+      )}
+    </div>
+  );
+};
+
+FilmFrameLog.displayName = 'FilmFrameLog';
@@ -0,0 +1,324 @@
+import React, { useMemo, useState } from 'react';
+import { Film, X } from 'lucide-react';
+import { CAMERA_CONFIG } from '@/constants';
+import { toDateInputValue } from '@/utils/date.utils';
+import { getFilmCameras, isFilmFormatCompatible } from '@/utils/filmRoll.utils';
+import { validateFilmRoll } from '@/utils/validation.utils';
+import type { Camera, CreateFilmRollData, FilmFormat, FilmRoll } from '@/types';
+
+interface FilmRollFormModalProps {
+  isOpen: boolean;
+  /** The user's cameras; digital bodies are left out */
+  cameras: Camera[];
+  /** Roll being edited; omit to log a new one */
+  roll?: FilmRoll;
+  /** Camera preselected for a new roll */
+  defaultCameraId?: string;
+  onSubmit: (data: CreateFilmRollData) => Promise<void>;
+  onClose: () => void;
+}
+
+type RollFormState = {
+  camera_id: string;
+  film_stock: string;
+  iso: string;
+  film_format: string;
+  loaded_at: string;
+  finished_at: string;
+  developed_at: string;
+  lab: string;
+  notes: string;
+};
+
+const toFormState = (roll: FilmRoll | undefined, camera: Camera | undefined): RollFormState => ({
+  camera_id: roll?.camera_id ?? camera?.id ?? '',
+  film_stock: roll?.film_stock ?? '',
+  iso: roll?.iso.toString() ?? '',
+  film_format: roll?.film_format ?? camera?.film_format ?? '',
+  loaded_at: roll?.loaded_at ?? toDateInputValue(),
+  finished_at: roll?.finished_at ?? '',
+  developed_at: roll?.developed_at ?? '',
+  lab: roll?.lab ?? '',
+  notes: roll?.notes ?? '',
+});
+
+const toRollData = (form: RollFormState): CreateFilmRollData => ({
+  camera_id: form.camera_id,
+  film_stock: form.film_stock.trim(),
+  iso: form.iso ? Number(form.iso) : NaN,
+  film_format: form.film_format as FilmFormat,
+  loaded_at: form.loaded_at,
+  finished_at: form.finished_at || undefined,
+  developed_at: form.developed_at || undefined,
+  lab: form.lab.trim() || undefined,
+  notes: form.notes.trim() || undefined,
+});
+
+const inputClass = (hasError: boolean) =>
+  `px-3 py-2 border rounded-md ${hasError ? 'border-red-500' : 'border-gray-300'}`;
+
+/**
+ * FilmRollFormModal Component
+ *
+ * Log a new roll or edit an existing one; the film format is checked
+ * against the chosen camera
+ */
+export const FilmRollFormModal: React.FC<FilmRollFormModalProps> = ({
+  isOpen,
+  cameras,
+  roll,
+  defaultCameraId,
+  onSubmit,
+  onClose
+}) => {
+  const filmCameras = useMemo(() => getFilmCameras(cameras), [cameras]);
+  const [form, setForm] = useState<RollFormState>(() => toFormState(roll, undefined));
+  const [fieldErrors, setFieldErrors] = useState<Partial<Record<keyof CreateFilmRollData, string>>>({});
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const [wasOpen, setWasOpen] = useState(false);
+
+  // Start fresh each time the modal opens
+  if (isOpen !== wasOpen) {
+    setWasOpen(isOpen);
+    if (isOpen) {
+      setForm(toFormState(roll, filmCameras.find(camera => camera.id === defaultCameraId)));
+      setFieldErrors({});
+      setSubmitError(null);
+    }
+  }
+
+  const selectedCamera = filmCameras.find(camera => camera.id === form.camera_id) ?? roll?.camera;
+  const formatOptions = selectedCamera
+    ? CAMERA_CONFIG.FILM_FORMATS.filter(format => isFilmFormatCompatible(selectedCamera, format.value as FilmFormat))
+    : CAMERA_CONFIG.FILM_FORMATS;
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setForm(prev => {
+      const next = { ...prev, [name]: value };
+      // Follow the camera's format unless the user already picked a compatible one
+      if (name === 'camera_id') {
+        const camera = filmCameras.find(option => option.id === value);
+        if (camera?.film_format && !(prev.film_format && isFilmFormatCompatible(camera, prev.film_format as FilmFormat))) {
+          next.film_format = camera.film_format;
+        }
+      }
+      return next;
+    });
+    if (fieldErrors[name as keyof CreateFilmRollData]) {
+      setFieldErrors(prev => ({ ...prev, [name]: undefined }));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = toRollData(form);
+    const validation = validateFilmRoll(data, selectedCamera);
+    if (!validation.isValid) {
+      setFieldErrors(validation.fieldErrors);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setSubmitError(null);
+    try {
+      await onSubmit(data);
+      onClose();
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : 'Failed to save the roll. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen) {return null;}
+
+  const fieldError = (key: keyof CreateFilmRollData) =>
+    fieldErrors[key] && <span className="text-xs text-red-600">{fieldErrors[key]}</span>;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4" onClick={onClose}>
+      <form
+        onSubmit={handleSubmit}
+        noValidate
+        className="w-full max-w-lg max-h-[90vh] flex flex-col bg-white rounded-lg shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="film-roll-title"
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2 id="film-roll-title" className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+            <Film size={18} />
+            {roll ? 'Edit Roll' : 'Log a Roll'}
+          </h2>
+          <button type="button" onClick={onClose} disabled={isSubmitting} aria-label="Close" className="text-gray-500 hover:text-gray-800">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto space-y-4 text-sm">
+          <label className="flex flex-col gap-1">
+            <span className="font-medium text-gray-700">Camera *</span>
+            <select
+              name="camera_id"
+              value={form.camera_id}
+              onChange={handleChange}
+              className={inputClass(!!fieldErrors.camera_id)}
+              disabled={isSubmitting}
+            >
+              <option value="">Select a camera</option>
+              {filmCameras.map(camera => (
+                <option key={camera.id} value={camera.id}>
+                  {camera.brand_name} {camera.model}
+                </option>
+              ))}
+              {roll?.camera && !filmCameras.some(camera => camera.id === roll.camera_id) && (
+                <option value={roll.camera_id}>{roll.camera.brand_name} {roll.camera.model}</option>
+              )}
+            </select>
+            {fieldError('camera_id')}
+          </label>
+
+          <div className="grid grid-cols-3 gap-3">
+            <label className="col-span-2 flex flex-col gap-1">
+              <span className="font-medium text-gray-700">Film stock *</span>
+              <input
+                name="film_stock"
+                value={form.film_stock}
+                onChange={handleChange}
+                placeholder="e.g., Kodak Portra 400"
+                className={inputClass(!!fieldErrors.film_stock)}
+                disabled={isSubmitting}
+              />
+              {fieldError('film_stock')}
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="font-medium text-gray-700">ISO *</span>
+              <input
+                type="number"
+                name="iso"
+                min={CAMERA_CONFIG.FILM_ROLL.MIN_ISO}
+                max={CAMERA_CONFIG.FILM_ROLL.MAX_ISO}
+                value={form.iso}
+                onChange={handleChange}
+                placeholder="400"
+                className={inputClass(!!fieldErrors.iso)}
+                disabled={isSubmitting}
+              />
+              {fieldError('iso')}
+            </label>
+          </div>
+
+          <label className="flex flex-col gap-1">
+            <span className="font-medium text-gray-700">Format *</span>
+            <select
+              name="film_format"
+              value={form.film_format}
+              onChange={handleChange}
+              className={inputClass(!!fieldErrors.film_format)}
+              disabled={isSubmitting}
+            >
+              <option value="">Select a format</option>
+              {formatOptions.map(format => (
+                <option key={format.value} value={format.value}>{format.label}</option>
+              ))}
+            </select>
+            {fieldError('film_format')}
+          </label>
+
+          <div className="grid grid-cols-3 gap-3">
+            <label className="flex flex-col gap-1">
+              <span className="font-medium text-gray-700">Loaded *</span>
+              <input
+                type="date"
+                name="loaded_at"
+                value={form.loaded_at}
+                max={toDateInputValue()}
+                onChange={handleChange}
+                className={inputClass(!!fieldErrors.loaded_at)}
+                disabled={isSubmitting}
+              />
+              {fieldError('loaded_at')}
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="font-medium text-gray-700">Finished</span>
+              <input
+                type="date"
+                name="finished_at"
+                value={form.finished_at}
+                min={form.loaded_at || undefined}
+                onChange={handleChange}
+                className={inputClass(!!fieldErrors.finished_at)}
+                disabled={isSubmitting}
+              />
+              {fieldError('finished_at')}
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="font-medium text-gray-700">Developed</span>
+              <input
+                type="date"
+                name="developed_at"
+                value={form.developed_at}
+                min={form.finished_at || undefined}
+                onChange={handleChange}
+                className={inputClass(!!fieldErrors.developed_at)}
+                disabled={isSubmitting}
+              />
+              {fieldError('developed_at')}
+            </label>
+          </div>
+
+          <label className="flex flex-col gap-1">
+            <span className="font-medium text-gray-700">Lab</span>
+            <input
+              name="lab"
+              value={form.lab}
+              onChange={handleChange}
+              placeholder="e.g., home-developed, The Darkroom"
+              className={inputClass(false)}
+              disabled={isSubmitting}
+            />
+          </label>
+
+          <label className="flex flex-col gap-1">
+            <span className="font-medium text-gray-700">Notes</span>
+            <textarea
+              name="notes"
+              value={form.notes}
+              onChange={handleChange}
+              rows={3}
+              placeholder="Pushed a stop, expired stock, light leak on the last frames..."
+              className={inputClass(false)}
+              disabled={isSubmitting}
+            />
+          </label>
+
+          {submitError && <p className="text-red-600">{submitError}</p>}
+        </div>
+
+        <div className="flex justify-end gap-2 p-4 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isSubmitting}
+            className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="px-4 py-2 text-sm text-white bg-orange-600 rounded-md hover:bg-orange-700 disabled:opacity-50"
+          >
+            {isSubmitting ? 'Saving...' : roll ? 'Save Roll' : 'Log Roll'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+FilmRollFormModal.displayName = 'FilmRollFormModal';
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { useQueries } from '@tanstack/react-query';
+import { Check, Link2 } from 'lucide-react';
+import { ImageLightbox } from '@/components/ui/ImageLightbox';
+import { OptimizedImage } from '@/components/ui/OptimizedImage';
+import { useUserDiscussions } from '@/hooks/useOptimizedQueries';
+import { queryKeys } from '@/lib/react-query';
+import { discussionService } from '@/services/api/discussions.service';
+import { extractMarkdownImages } from '@/utils/format.utils';
+import type { Discussion } from '@/types';
+
+interface RollPhotosProps {
+  postIds: string[];
+  /** Owner whose posts can be linked; omit for read-only */
+  ownerId?: string;
+  onChange?: (postIds: string[]) => Promise<void>;
+}
+
+// Feed posts keep their photo as a markdown image in the body (sent as `content`)
+const getPostImages = (post: Discussion): string[] =>
+  extractMarkdownImages((post as Discussion & { content?: string }).content || post.body || '');
+
+/**
+ * RollPhotos Component
+ *
+ * Photos from feed posts linked to a roll, with a picker for the owner to
+ * link or unlink their own posts
+ */
+export const RollPhotos: React.FC<RollPhotosProps> = ({ postIds, ownerId, onChange }) => {
+  const [isPicking, setIsPicking] = useState(false);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+
+  const linkedQueries = useQueries({
+    queries: postIds.map(postId => ({
+      queryKey: queryKeys.discussions.byId(postId),
+      queryFn: () => discussionService.getDiscussionById(postId),
+      staleTime: 5 * 60 * 1000,
+    })),
+  });
+  const { data: ownPosts, isLoading: isLoadingOwnPosts } = useUserDiscussions(isPicking ? ownerId : undefined);
+
+  const photos = linkedQueries.flatMap(query => (query.data ? getPostImages(query.data) : []));
+  const isLoadingLinked = linkedQueries.some(query => query.isLoading);
+  const postsWithPhotos = (ownPosts?.items ?? []).filter(post => getPostImages(post).length > 0);
+
+  const togglePost = async (postId: string) => {
+    if (!onChange) {return;}
+    setSavingId(postId);
+    setError(null);
+    try {
+      await onChange(postIds.includes(postId) ? postIds.filter(id => id !== postId) : [...postIds, postId]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update linked photos.');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {isLoadingLinked ? (
+        <p className="text-sm text-gray-500">Loading photos...</p>
+      ) : photos.length === 0 ? (
+        <p className="text-sm text-gray-500">No photos linked to this roll yet.</p>
+      ) : (
+        <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+          {photos.map((url, index) => (
+            <button
+              key={url}
+              type="button"
+              onClick={() => setLightboxIndex(index)}
+              className="aspect-square rounded overflow-hidden bg-gray-200"
+              aria-label={`View photo ${index + 1}`}
+            >
+              <OptimizedImage src={url} alt={`Photo ${index + 1} from this roll`} className="w-full h-full object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+
+      {ownerId && onChange && (
+        <button
+          type="button"
+          onClick={() => setIsPicking(prev => !prev)}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100"
+        >
+          <Link2 size={14} />
+          <span>{isPicking ? 'Done' : 'Link Photos'}</span>
+        </button>
+      )}
+
+      {isPicking && (
+        <div className="p-3 border border-gray-200 rounded-md">
+          <p className="text-xs text-gray-500 mb-2">Pick the posts you shared photos from this roll in.</p>
+          {isLoadingOwnPosts ? (
+            <p className="text-sm text-gray-500">Loading your posts...</p>
+          ) : postsWithPhotos.length === 0 ? (
+            <p className="text-sm text-gray-500">You haven&apos;t posted any photos yet.</p>
+          ) : (
+            <ul className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+              {postsWithPhotos.map(post => {
+                const isLinked = postIds.includes(post.id);
+                return (
+                  <li key={post.id}>
+                    <button
+                      type="button"
+                      onClick={() => togglePost(post.id)}
+                      disabled={savingId !== null}
+                      aria-pressed={isLinked}
+                      title={post.title}
+                      className={`relative w-full aspect-square rounded overflow-hidden border-2 ${
+                        isLinked ? 'border-orange-600' : 'border-transparent'
+                      } disabled:opacity-60`}
+                    >
+                      <OptimizedImage src={getPostImages(post)[0]!} alt={post.title} className="w-full h-full object-cover" />
+                      {isLinked && (
+                        <Check size={16} className="absolute top-1 right-1 p-0.5 text-white bg-orange-600 rounded-full" />
+                      )}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+          {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+        </div>
+      )}
+
+      {lightboxIndex !== null && (
+        <ImageLightbox images={photos} initialIndex={lightboxIndex} onClose={() => setLightboxIndex(null)} />
+      )}
+    </div>
+  );
+};
+
+RollPhotos.displayName = 'RollPhotos';
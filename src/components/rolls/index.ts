@@ -0,0 +1,3 @@
+export { FilmRollFormModal } from './FilmRollFormModal';
+export { FilmFrameLog } from './FilmFrameLog';
+export { RollPhotos } from './RollPhotos';
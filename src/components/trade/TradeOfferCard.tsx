@@ -0,0 +1,125 @@
+import React from 'react';
+import { Link, generatePath } from 'react-router-dom';
+import { ArrowLeftRight, Check, Repeat, Undo2, X } from 'lucide-react';
+import { ROUTE_PATHS } from '@/constants';
+import { formatRelativeTime } from '@/utils/date.utils';
+import { snakeToReadable } from '@/utils/format.utils';
+import { getAvailableTradeActions } from '@/utils/trade.utils';
+import type { Camera, TradeOffer, TradeOfferAction, TradeOfferStatus } from '@/types';
+
+interface TradeOfferCardProps {
+  offer: TradeOffer;
+  currentUserId?: string;
+  busyAction?: TradeOfferAction | null;
+  onAction: (offer: TradeOffer, action: TradeOfferAction) => void;
+}
+
+const STATUS_STYLES: Record<TradeOfferStatus, string> = {
+  proposed: 'bg-blue-100 text-blue-800',
+  countered: 'bg-yellow-100 text-yellow-800',
+  accepted: 'bg-green-100 text-green-800',
+  declined: 'bg-red-100 text-red-800',
+  withdrawn: 'bg-gray-100 text-gray-700',
+};
+
+const CameraLink: React.FC<{ camera?: Camera; fallbackId: string }> = ({ camera, fallbackId }) => (
+  <Link
+    to={generatePath(ROUTE_PATHS.CAMERA_DETAIL, { id: camera?.id || fallbackId })}
+    className="text-orange-700 hover:underline"
+  >
+    {camera ? `${camera.brand_name} ${camera.model}` : 'Camera'}
+  </Link>
+);
+
+/**
+ * TradeOfferCard Component
+ *
+ * Inbox entry for a trade offer with its history and available actions
+ */
+export const TradeOfferCard: React.FC<TradeOfferCardProps> = ({
+  offer,
+  currentUserId,
+  busyAction = null,
+  onAction
+}) => {
+  const actions = getAvailableTradeActions(offer, currentUserId);
+  const isProposer = offer.proposer_id === currentUserId;
+  const counterpart = isProposer ? offer.recipient_username : offer.proposer_username;
+  const offeredCameras = offer.offered_camera_ids.map(id => ({
+    id,
+    camera: offer.offered_cameras?.find(camera => camera.id === id),
+  }));
+
+  const actionButton = (action: TradeOfferAction, label: string, icon: React.ReactNode, className: string) =>
+    actions.includes(action) && (
+      <button
+        key={action}
+        onClick={() => onAction(offer, action)}
+        disabled={busyAction !== null}
+        className={`flex items-center gap-1 px-3 py-1.5 text-sm rounded-md disabled:opacity-50 ${className}`}
+      >
+        {icon}
+        {busyAction === action ? 'Working...' : label}
+      </button>
+    );
+
+  return (
+    <article className="p-4 bg-white rounded-lg shadow-sm">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <p className="text-sm text-gray-500">
+            {isProposer ? 'You offered' : `${counterpart || 'A collector'} offered`}
+            {' · '}
+            {formatRelativeTime(offer.updated_at)}
+          </p>
+          <div className="flex flex-wrap items-center gap-2 mt-1 text-gray-900">
+            <span className="flex flex-wrap gap-1">
+              {offeredCameras.map(({ id, camera }, index) => (
+                <span key={id}>
+                  <CameraLink camera={camera} fallbackId={id} />
+                  {index < offeredCameras.length - 1 && ','}
+                </span>
+              ))}
+            </span>
+            <ArrowLeftRight size={16} className="text-gray-400" />
+            <CameraLink camera={offer.target_camera} fallbackId={offer.target_camera_id} />
+          </div>
+        </div>
+        <span className={`px-2 py-1 text-xs rounded ${STATUS_STYLES[offer.status]}`}>
+          {snakeToReadable(offer.status)}
+        </span>
+      </div>
+
+      {offer.history.some(event => event.message) && (
+        <ol className="mt-3 space-y-2 border-l-2 border-gray-100 pl-3">
+          {offer.history.filter(event => event.message).map(event => (
+            <li key={`${event.status}-${event.created_at}`} className="text-sm">
+              <span className="text-gray-500">
+                {event.actor_id === currentUserId ? 'You' : counterpart || 'Them'}
+                {' '}({snakeToReadable(event.status).toLowerCase()}):
+              </span>{' '}
+              <span className="text-gray-800 whitespace-pre-line">{event.message}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {offer.awaiting_user_id === currentUserId && (
+        <p className="mt-3 text-sm font-medium text-orange-700">Waiting for your response</p>
+      )}
+
+      {actions.length > 0 && (
+        <div className="flex flex-wrap justify-end gap-2 mt-3">
+          {actionButton('withdraw', 'Withdraw', <Undo2 size={14} />, 'text-gray-700 border border-gray-300 hover:bg-gray-100')}
+          {actionButton('decline', 'Decline', <X size={14} />, 'text-red-700 border border-red-300 hover:bg-red-50')}
+          {actionButton('counter', 'Counter', <Repeat size={14} />, 'text-orange-700 border border-orange-300 hover:bg-orange-50')}
+          {actionButton('accept', 'Accept', <Check size={14} />, 'text-white bg-orange-600 hover:bg-orange-700')}
+        </div>
+      )}
+    </article>
+  );
+};
+
+TradeOfferCard.displayName = 'TradeOfferCard';
+
+export default TradeOfferCard;
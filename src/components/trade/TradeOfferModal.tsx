@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { Check, Repeat, X } from 'lucide-react';
+import { OptimizedImage } from '@/components/ui/OptimizedImage';
+import type { Camera } from '@/types';
+
+interface TradeOfferModalProps {
+  isOpen: boolean;
+  title: string;
+  /** Cameras the user can choose from */
+  cameras: Camera[];
+  targetCamera?: Camera;
+  initialSelectedIds?: string[];
+  submitLabel?: string;
+  isLoadingCameras?: boolean;
+  onSubmit: (cameraIds: string[], message: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const MESSAGE_MAX_LENGTH = 1000;
+
+/**
+ * TradeOfferModal Component
+ *
+ * Pick one or more cameras and add a message, for new offers and counters
+ */
+export const TradeOfferModal: React.FC<TradeOfferModalProps> = ({
+  isOpen,
+  title,
+  cameras,
+  targetCamera,
+  initialSelectedIds = [],
+  submitLabel = 'Send Offer',
+  isLoadingCameras = false,
+  onSubmit,
+  onClose
+}) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>(initialSelectedIds);
+  const [message, setMessage] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [wasOpen, setWasOpen] = useState(isOpen);
+
+  // Start fresh each time the modal opens
+  if (isOpen !== wasOpen) {
+    setWasOpen(isOpen);
+    if (isOpen) {
+      setSelectedIds(initialSelectedIds);
+      setMessage('');
+      setError(null);
+    }
+  }
+
+  const toggleCamera = (cameraId: string) => {
+    setSelectedIds(prev =>
+      prev.includes(cameraId) ? prev.filter(id => id !== cameraId) : [...prev, cameraId]
+    );
+  };
+
+  const handleSubmit = async () => {
+    if (selectedIds.length === 0) {
+      setError('Select at least one camera');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit(selectedIds, message.trim());
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send offer. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen) {return null;}
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-lg max-h-[90vh] flex flex-col bg-white rounded-lg shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="trade-offer-title"
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2 id="trade-offer-title" className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+            <Repeat size={18} />
+            {title}
+          </h2>
+          <button onClick={onClose} disabled={isSubmitting} aria-label="Close" className="text-gray-500 hover:text-gray-800">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto space-y-4">
+          {targetCamera && (
+            <p className="text-sm text-gray-600">
+              In exchange for <strong>{targetCamera.brand_name} {targetCamera.model}</strong>
+            </p>
+          )}
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Cameras to offer</p>
+            {isLoadingCameras ? (
+              <p className="text-sm text-gray-500">Loading cameras...</p>
+            ) : cameras.length === 0 ? (
+              <p className="text-sm text-gray-500">No cameras available to offer.</p>
+            ) : (
+              <ul className="grid grid-cols-2 gap-2">
+                {cameras.map(camera => {
+                  const isSelected = selectedIds.includes(camera.id);
+                  const image = camera.images?.find(img => img.is_primary) || camera.images?.[0];
+
+                  return (
+                    <li key={camera.id}>
+                      <button
+                        type="button"
+                        onClick={() => toggleCamera(camera.id)}
+                        aria-pressed={isSelected}
+                        className={`relative w-full flex items-center gap-2 p-2 text-left border rounded-md ${
+                          isSelected ? 'border-orange-600 bg-orange-50' : 'border-gray-300 hover:bg-gray-50'
+                        }`}
+                      >
+                        <div className="w-10 h-10 flex-shrink-0 rounded bg-gray-200 overflow-hidden">
+                          {image && (
+                            <OptimizedImage
+                              src={image.thumbnail_url || image.image_url}
+                              alt={`${camera.brand_name} ${camera.model}`}
+                              className="w-full h-full object-cover"
+                            />
+                          )}
+                        </div>
+                        <span className="text-sm text-gray-800 truncate">
+                          {camera.brand_name} {camera.model}
+                        </span>
+                        {isSelected && <Check size={14} className="absolute top-1 right-1 text-orange-600" />}
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="trade-message" className="block text-sm font-medium text-gray-700 mb-1">
+              Message (optional)
+            </label>
+            <textarea
+              id="trade-message"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              rows={3}
+              maxLength={MESSAGE_MAX_LENGTH}
+              placeholder="Add details about condition, shipping or meeting up..."
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md"
+              disabled={isSubmitting}
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="flex justify-end gap-2 p-4 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            disabled={isSubmitting}
+            className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={isSubmitting || selectedIds.length === 0}
+            className="px-4 py-2 text-sm text-white bg-orange-600 rounded-md hover:bg-orange-700 disabled:opacity-50"
+          >
+            {isSubmitting ? 'Sending...' : submitLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+TradeOfferModal.displayName = 'TradeOfferModal';
+
+export default TradeOfferModal;
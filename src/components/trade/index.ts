@@ -0,0 +1,2 @@
+export { TradeOfferCard } from './TradeOfferCard';
+export { TradeOfferModal } from './TradeOfferModal';
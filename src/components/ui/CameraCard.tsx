@@ -2,6 +2,7 @@ import React, { memo, useState } from 'react';
 import { Eye, MoreVertical } from 'lucide-react';
 import { SocialActions } from './SocialActions';
 import { OptimizedImage } from './OptimizedImage';
+import { CompareToggleButton } from '@/components/compare/CompareToggleButton';
 import { formatRelativeTime } from '@/utils/date.utils';
 import type { Camera } from '@/types';
 
@@ -11,6 +12,8 @@ interface CameraCardProps {
   currentUserId?: string;
   variant?: 'grid' | 'list' | 'compact';
   showActions?: boolean;
+  /** Show the add-to-comparison toggle */
+  showCompare?: boolean;
   className?: string;
 }
 
@@ -25,6 +28,7 @@ export const CameraCard: React.FC<CameraCardProps> = memo(({
   currentUserId,
   variant = 'grid',
   showActions = true,
+  showCompare = true,
   className = ''
 }) => {
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
@@ -78,6 +82,10 @@ export const CameraCard: React.FC<CameraCardProps> = memo(({
               {currentImageIndex + 1}/{camera.images.length}
             </div>
           )}
+
+          {showCompare && (
+            <CompareToggleButton camera={camera} variant="overlay" className="absolute top-2 left-2" />
+          )}
         </div>
         
         <div className="p-3">
@@ -121,9 +129,12 @@ export const CameraCard: React.FC<CameraCardProps> = memo(({
               <p className="text-xs text-gray-500">{timeAgo}</p>
             </div>
           </div>
-          <button className="text-gray-400 hover:text-gray-600">
-            <MoreVertical className="w-5 h-5" />
-          </button>
+          <div className="flex items-center gap-2">
+            {showCompare && <CompareToggleButton camera={camera} showLabel />}
+            <button className="text-gray-400 hover:text-gray-600">
+              <MoreVertical className="w-5 h-5" />
+            </button>
+          </div>
         </div>
       </div>
 
@@ -1,5 +1,4 @@
 import React, { useCallback, useState } from 'react';
-import { useApiWithAuth } from '@/hooks';
 import { commentService } from '@/services/api';
 import { Comment } from '@/services/api/comments.service';
 import { LikeButton } from './LikeButton';
@@ -41,7 +40,6 @@ export const CommentItem: React.FC<CommentItemProps> = ({
   const [isEditing, setIsEditing] = useState(false);
   const [editBody, setEditBody] = useState(comment.body);
   const [isLoading, setIsLoading] = useState(false);
-  const { makeAuthenticatedRequest } = useApiWithAuth();
 
   const isOwner = currentUserId === comment.user_id;
   const timeAgo = formatRelativeTime(comment.created_at);
@@ -62,9 +60,7 @@ export const CommentItem: React.FC<CommentItemProps> = ({
 
     setIsLoading(true);
     try {
-      await makeAuthenticatedRequest((token) =>
-        commentService.updateComment(comment.id, { body: editBody.trim() }, token)
-      );
+      await commentService.updateComment(comment.id, { body: editBody.trim() });
       onCommentUpdate?.(comment.id, editBody.trim());
       setIsEditing(false);
     } catch (error) {
@@ -74,7 +70,7 @@ export const CommentItem: React.FC<CommentItemProps> = ({
     } finally {
       setIsLoading(false);
     }
-  }, [comment.id, comment.body, editBody, isLoading, makeAuthenticatedRequest, onCommentUpdate]);
+  }, [comment.id, comment.body, editBody, isLoading, onCommentUpdate]);
 
   const handleCancelEdit = useCallback(() => {
     setEditBody(comment.body);
@@ -86,16 +82,14 @@ export const CommentItem: React.FC<CommentItemProps> = ({
 
     setIsLoading(true);
     try {
-      await makeAuthenticatedRequest((token) =>
-        commentService.deleteComment(comment.id, token)
-      );
+      await commentService.deleteComment(comment.id);
       onCommentDelete?.(comment.id);
     } catch (error) {
       logError(error, 'CommentItem.handleDelete');
     } finally {
       setIsLoading(false);
     }
-  }, [comment.id, makeAuthenticatedRequest, onCommentDelete]);
+  }, [comment.id, onCommentDelete]);
 
   return (
     <div className={`comment-item comment-glass group rounded-2xl border border-gray-200/50 hover:border-gray-300/50 transition-all duration-300 hover:shadow-lg hover:shadow-gray-100/50 ${className}`}>
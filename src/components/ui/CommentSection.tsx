@@ -1,8 +1,10 @@
 import React, { useCallback, useEffect, useState } from 'react';
-import { useApiWithAuth } from '@/hooks';
-import { commentService } from '@/services/api';
+import { commentService, realtimeTopics } from '@/services/api';
 import { Comment } from '@/services/api/comments.service';
+import { outboxService, outboxTargets } from '@/services/outbox';
+import { useOutbox, useRealtime } from '@/hooks';
 import { CommentItem } from './CommentItem';
+import { OutboxIndicator } from './OutboxIndicator';
 import { logError } from '@/utils';
 
 interface CommentSectionProps {
@@ -12,6 +14,39 @@ interface CommentSectionProps {
   className?: string;
 }
 
+const hasComment = (comments: Comment[], id: string): boolean =>
+  comments.some(comment => comment.id === id || hasComment(comment.replies || [], id));
+
+/**
+ * Add a comment to the thread, under its parent when it is a reply.
+ * Comments already in the thread are skipped, as a comment can arrive both
+ * from our own request and over the realtime channel.
+ */
+const insertComment = (comments: Comment[], added: Comment): Comment[] => {
+  if (hasComment(comments, added.id)) {
+    return comments;
+  }
+  if (!added.parent_id) {
+    return [...comments, added];
+  }
+  return comments.map(comment => {
+    if (comment.id === added.parent_id) {
+      return {
+        ...comment,
+        replies: [...(comment.replies || []), added]
+      };
+    }
+    // Also check nested replies
+    if (comment.replies && comment.replies.length > 0) {
+      return {
+        ...comment,
+        replies: insertComment(comment.replies, added)
+      };
+    }
+    return comment;
+  });
+};
+
 export const CommentSection: React.FC<CommentSectionProps> = ({
   discussionId,
   cameraId,
@@ -24,7 +59,26 @@ export const CommentSection: React.FC<CommentSectionProps> = ({
   const [replyText, setReplyText] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const { makeAuthenticatedRequest } = useApiWithAuth();
+
+  // Comments written offline wait in the outbox until they can be sent
+  const outboxTarget = outboxTargets.comments(discussionId, cameraId);
+  const { entries: queuedComments } = useOutbox(outboxTarget);
+
+  useEffect(() => outboxService.onSent((entry, result) => {
+    if (entry.target === outboxTarget && result) {
+      setComments(prev => insertComment(prev, result as Comment));
+    }
+  }), [outboxTarget]);
+
+  // Comments from other people appear as they are posted
+  const realtimeTopic = cameraId
+    ? realtimeTopics.camera(cameraId)
+    : discussionId ? realtimeTopics.discussion(discussionId) : undefined;
+  useRealtime(realtimeTopic, event => {
+    if (event.type === 'comment.created') {
+      setComments(prev => insertComment(prev, event.comment));
+    }
+  });
 
   // Load comments
   const loadComments = useCallback(async () => {
@@ -37,7 +91,7 @@ export const CommentSection: React.FC<CommentSectionProps> = ({
         camera_id: cameraId,
         limit: 50,
       });
-      setComments(commentsData);
+      setComments(commentsData.items);
     } catch (error) {
       logError(error, 'CommentSection.loadComments');
     } finally {
@@ -55,15 +109,18 @@ export const CommentSection: React.FC<CommentSectionProps> = ({
 
     setIsSubmitting(true);
     try {
-      const commentData = await makeAuthenticatedRequest((token) =>
-        commentService.createComment({
+      const sent = await outboxService.run<Comment>({
+        type: 'createComment',
+        data: {
           body: newComment.trim(),
           discussion_id: discussionId,
           camera_id: cameraId,
-        }, token)
-      );
+        },
+      });
 
-      setComments(prev => [...prev, commentData]);
+      if (!sent.queued) {
+        setComments(prev => insertComment(prev, sent.result));
+      }
       setNewComment('');
     } catch (error) {
       logError(error, 'CommentSection.handleSubmitComment');
@@ -71,7 +128,7 @@ export const CommentSection: React.FC<CommentSectionProps> = ({
     } finally {
       setIsSubmitting(false);
     }
-  }, [newComment, isSubmitting, discussionId, cameraId, makeAuthenticatedRequest]);
+  }, [newComment, isSubmitting, discussionId, cameraId]);
 
   // Submit reply
   const handleSubmitReply = useCallback(async () => {
@@ -79,36 +136,20 @@ export const CommentSection: React.FC<CommentSectionProps> = ({
 
     setIsSubmitting(true);
     try {
-      const replyData = await makeAuthenticatedRequest((token) =>
-        commentService.createComment({
+      const sent = await outboxService.run<Comment>({
+        type: 'createComment',
+        data: {
           body: replyText.trim(),
           discussion_id: discussionId,
           camera_id: cameraId,
           parent_id: replyingTo,
-        }, token)
-      );
+        },
+      });
 
       // Add reply to the parent comment in the threaded structure
-      const addReplyToComment = (comments: Comment[]): Comment[] => {
-        return comments.map(comment => {
-          if (comment.id === replyingTo) {
-            return {
-              ...comment,
-              replies: [...(comment.replies || []), replyData]
-            };
-          }
-          // Also check nested replies
-          if (comment.replies && comment.replies.length > 0) {
-            return {
-              ...comment,
-              replies: addReplyToComment(comment.replies)
-            };
-          }
-          return comment;
-        });
-      };
-
-      setComments(prev => addReplyToComment(prev));
+      if (!sent.queued) {
+        setComments(prev => insertComment(prev, sent.result));
+      }
       setReplyText('');
       setReplyingTo(null);
     } catch (error) {
@@ -116,7 +157,7 @@ export const CommentSection: React.FC<CommentSectionProps> = ({
     } finally {
       setIsSubmitting(false);
     }
-  }, [replyText, replyingTo, isSubmitting, discussionId, cameraId, makeAuthenticatedRequest]);
+  }, [replyText, replyingTo, isSubmitting, discussionId, cameraId]);
 
   // Handle comment update
   const handleCommentUpdate = useCallback((commentId: string, newBody: string) => {
@@ -232,7 +273,7 @@ export const CommentSection: React.FC<CommentSectionProps> = ({
           </div>
           <p className="text-sm text-gray-500">Loading comments...</p>
         </div>
-      ) : comments.length === 0 ? (
+      ) : comments.length === 0 && queuedComments.length === 0 ? (
         <div className="text-center py-12 px-4">
           <div className="w-16 h-16 mx-auto mb-4 bg-gray-100 rounded-full flex items-center justify-center">
             <svg className="w-8 h-8 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -263,6 +304,26 @@ export const CommentSection: React.FC<CommentSectionProps> = ({
           ))}
         </div>
       )}
+
+      {/* Comments waiting in the outbox */}
+      {queuedComments.length > 0 && (
+        <div className="space-y-3">
+          {queuedComments.map(entry => entry.mutation.type === 'createComment' && (
+            <div
+              key={entry.id}
+              className="p-4 bg-gray-50 border border-dashed border-gray-300 rounded-xl"
+            >
+              <div className="flex items-center justify-between gap-3 mb-1">
+                <span className="text-xs font-medium text-gray-500">
+                  {entry.mutation.data.parent_id ? 'Your reply' : 'Your comment'}
+                </span>
+                <OutboxIndicator entry={entry} />
+              </div>
+              <p className="text-gray-700 whitespace-pre-wrap break-words">{entry.mutation.data.body}</p>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
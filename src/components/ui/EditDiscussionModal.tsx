@@ -1,5 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { Save, Trash2, X } from 'lucide-react';
+import { type FieldErrors, getFieldErrors } from '@/utils/errorHandler.utils';
 import type { DiscussionFeedItem, UpdateDiscussionData } from '@/types';
 
 interface EditDiscussionModalProps {
@@ -27,6 +28,7 @@ export const EditDiscussionModal: React.FC<EditDiscussionModalProps> = ({
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [errors, setErrors] = useState<FieldErrors>({});
 
   // Reset form when discussion changes
   useEffect(() => {
@@ -35,8 +37,16 @@ export const EditDiscussionModal: React.FC<EditDiscussionModalProps> = ({
       content: discussion.content || '',
       tags: discussion.tags || []
     });
+    setErrors({});
   }, [discussion]);
 
+  const updateField = (field: 'title' | 'content', value: string) => {
+    setFormData({ ...formData, [field]: value });
+    if (errors[field]) {
+      setErrors({ ...errors, [field]: '' });
+    }
+  };
+
   const handleSave = async () => {
     if (!formData.title.trim() || !formData.content.trim()) {
       alert('Title and description are required');
@@ -53,7 +63,13 @@ export const EditDiscussionModal: React.FC<EditDiscussionModalProps> = ({
       onClose();
     } catch (error) {
       console.error('Failed to update discussion:', error);
-      alert('Failed to update post. Please try again.');
+      // The API calls the description `body`
+      const fieldErrors = getFieldErrors(error, { body: 'content' });
+      if (Object.keys(fieldErrors).length > 0) {
+        setErrors(fieldErrors);
+      } else {
+        alert('Failed to update post. Please try again.');
+      }
     } finally {
       setIsSaving(false);
     }
@@ -80,6 +96,9 @@ export const EditDiscussionModal: React.FC<EditDiscussionModalProps> = ({
       .map(tag => tag.trim())
       .filter(tag => tag.length > 0);
     setFormData({ ...formData, tags });
+    if (errors.tags) {
+      setErrors({ ...errors, tags: '' });
+    }
   };
 
   if (!isOpen) {return null;}
@@ -111,11 +130,13 @@ export const EditDiscussionModal: React.FC<EditDiscussionModalProps> = ({
               id="edit-title"
               type="text"
               value={formData.title}
-              onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+              onChange={(e) => updateField('title', e.target.value)}
               placeholder="Enter post title..."
               maxLength={200}
               disabled={isSaving || isDeleting}
+              className={errors.title ? 'error' : ''}
             />
+            {errors.title && <span className="error-message">{errors.title}</span>}
             <span className="char-count">{formData.title.length}/200</span>
           </div>
 
@@ -125,12 +146,14 @@ export const EditDiscussionModal: React.FC<EditDiscussionModalProps> = ({
             <textarea
               id="edit-content"
               value={formData.content}
-              onChange={(e) => setFormData({ ...formData, content: e.target.value })}
+              onChange={(e) => updateField('content', e.target.value)}
               rows={6}
               placeholder="Tell us about this photo..."
               maxLength={1000}
               disabled={isSaving || isDeleting}
+              className={errors.content ? 'error' : ''}
             />
+            {errors.content && <span className="error-message">{errors.content}</span>}
             <span className="char-count">{formData.content.length}/1000</span>
           </div>
 
@@ -144,7 +167,9 @@ export const EditDiscussionModal: React.FC<EditDiscussionModalProps> = ({
               onChange={handleTagsChange}
               placeholder="camera, vintage, film..."
               disabled={isSaving || isDeleting}
+              className={errors.tags ? 'error' : ''}
             />
+            {errors.tags && <span className="error-message">{errors.tags}</span>}
           </div>
 
           {/* Current photo preview */}
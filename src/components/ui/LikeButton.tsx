@@ -1,7 +1,9 @@
-import React, { useCallback, useState } from 'react';
-import { useApiWithAuth } from '@/hooks';
-import { likeService } from '@/services/api';
+import React, { useCallback, useRef, useState } from 'react';
+import { type OutboxEntry, getDesiredState, outboxService, outboxTargets } from '@/services/outbox';
+import { realtimeTopics } from '@/services/api';
+import { useOutbox, useRealtime } from '@/hooks';
 import { logError } from '@/utils';
+import { OutboxIndicator } from './OutboxIndicator';
 
 interface LikeButtonProps {
   discussionId?: string;
@@ -10,6 +12,8 @@ interface LikeButtonProps {
   initialLikeCount: number;
   initialIsLiked: boolean;
   onLikeChange?: (isLiked: boolean, newCount: number) => void;
+  /** Custom toggle endpoint (e.g. camera likes); defaults to the likes service */
+  onToggle?: () => Promise<{ liked: boolean; like_count: number }>;
   size?: 'sm' | 'md' | 'lg';
   showCount?: boolean;
   className?: string;
@@ -22,6 +26,7 @@ export const LikeButton: React.FC<LikeButtonProps> = ({
   initialLikeCount,
   initialIsLiked,
   onLikeChange,
+  onToggle,
   size = 'md',
   showCount = true,
   className = '',
@@ -29,32 +34,63 @@ export const LikeButton: React.FC<LikeButtonProps> = ({
   const [isLiked, setIsLiked] = useState(initialIsLiked);
   const [likeCount, setLikeCount] = useState(initialLikeCount);
   const [isLoading, setIsLoading] = useState(false);
-  const { makeAuthenticatedRequest } = useApiWithAuth();
+  const isTogglingRef = useRef(false);
+
+  // Custom toggles bypass the outbox, so only likes service likes can be queued
+  const outboxTarget = onToggle
+    ? undefined
+    : outboxTargets.like({ discussion_id: discussionId, camera_id: cameraId, comment_id: commentId });
+  const { entries: queued } = useOutbox(outboxTarget);
+  const queuedEntry = outboxTarget ? queued[queued.length - 1] : undefined;
+
+  // Live counts pushed by the server. Skipped while our own change is in flight or
+  // queued, since the pushed count would not include it yet.
+  const realtime = useRealtime(
+    realtimeTopics.item({ discussion_id: discussionId, camera_id: cameraId, comment_id: commentId }),
+    event => {
+      if (event.type !== 'like.updated' || isTogglingRef.current || queuedEntry) {return;}
+      const liked = event.user_id === realtime.userId ? event.liked : isLiked;
+      setLikeCount(event.like_count);
+      setIsLiked(liked);
+      onLikeChange?.(liked, event.like_count);
+    }
+  );
+
+  // Undo the optimistic change of a like, unlike or toggle that will no longer be sent
+  const handleDiscard = useCallback((entry: OutboxEntry) => {
+    const liked = getDesiredState(entry.mutation);
+    if (liked === undefined || liked !== isLiked) {return;}
+    const count = likeCount + (liked ? -1 : 1);
+    setIsLiked(!liked);
+    setLikeCount(count);
+    onLikeChange?.(!liked, count);
+  }, [isLiked, likeCount, onLikeChange]);
 
   const handleLikeToggle = useCallback(async () => {
     if (isLoading) {return;}
 
     setIsLoading(true);
+    isTogglingRef.current = true;
     try {
-      const likeData = {
-        discussion_id: discussionId,
-        camera_id: cameraId,
-        comment_id: commentId,
-      };
+      if (onToggle) {
+        const result = await onToggle();
+        setIsLiked(result.liked);
+        setLikeCount(result.like_count);
+        onLikeChange?.(result.liked, result.like_count);
+        return;
+      }
 
+      // Likes made offline are queued and shown right away
+      const data = { discussion_id: discussionId, camera_id: cameraId, comment_id: commentId };
       if (isLiked) {
         // Remove like
-        await makeAuthenticatedRequest((token) => 
-          likeService.removeLike(likeData, token)
-        );
+        await outboxService.run({ type: 'removeLike', data });
         setIsLiked(false);
         setLikeCount(prev => prev - 1);
         onLikeChange?.(false, likeCount - 1);
       } else {
         // Add like
-        await makeAuthenticatedRequest((token) => 
-          likeService.createLike(likeData, token)
-        );
+        await outboxService.run({ type: 'createLike', data });
         setIsLiked(true);
         setLikeCount(prev => prev + 1);
         onLikeChange?.(true, likeCount + 1);
@@ -63,9 +99,10 @@ export const LikeButton: React.FC<LikeButtonProps> = ({
       logError(error, 'LikeButton.handleLikeToggle');
       // Optionally show error toast here
     } finally {
+      isTogglingRef.current = false;
       setIsLoading(false);
     }
-  }, [isLiked, isLoading, likeCount, discussionId, cameraId, commentId, makeAuthenticatedRequest, onLikeChange]);
+  }, [isLiked, isLoading, likeCount, discussionId, cameraId, commentId, onLikeChange, onToggle]);
 
   const sizeClasses = {
     sm: 'text-sm',
@@ -80,37 +117,40 @@ export const LikeButton: React.FC<LikeButtonProps> = ({
   };
 
   return (
-    <button
-      onClick={handleLikeToggle}
-      disabled={isLoading}
-      className={`
-        flex items-center gap-1 transition-all duration-200 
-        ${isLiked ? 'text-red-500' : 'text-gray-500 hover:text-red-500'}
-        ${isLoading ? 'opacity-50 cursor-not-allowed' : 'hover:scale-105'}
-        ${sizeClasses[size]}
-        ${className}
-      `}
-      aria-label={isLiked ? 'Unlike' : 'Like'}
-    >
-      {/* Heart Icon */}
-      <svg
-        className={`${iconSizeClasses[size]} transition-all duration-200 ${isLiked ? 'fill-current' : 'stroke-current fill-none'}`}
-        viewBox="0 0 24 24"
-        strokeWidth={2}
+    <span className="inline-flex items-center gap-2">
+      <button
+        onClick={handleLikeToggle}
+        disabled={isLoading}
+        className={`
+          flex items-center gap-1 transition-all duration-200 
+          ${isLiked ? 'text-red-500' : 'text-gray-500 hover:text-red-500'}
+          ${isLoading ? 'opacity-50 cursor-not-allowed' : 'hover:scale-105'}
+          ${sizeClasses[size]}
+          ${className}
+        `}
+        aria-label={isLiked ? 'Unlike' : 'Like'}
       >
-        <path
-          strokeLinecap="round"
-          strokeLinejoin="round"
-          d="M20.84 4.61a5.5 5.5 0 0 0-7.78 0L12 5.67l-1.06-1.06a5.5 5.5 0 0 0-7.78 7.78l1.06 1.06L12 21.23l7.78-7.78 1.06-1.06a5.5 5.5 0 0 0 0-7.78z"
-        />
-      </svg>
+        {/* Heart Icon */}
+        <svg
+          className={`${iconSizeClasses[size]} transition-all duration-200 ${isLiked ? 'fill-current' : 'stroke-current fill-none'}`}
+          viewBox="0 0 24 24"
+          strokeWidth={2}
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            d="M20.84 4.61a5.5 5.5 0 0 0-7.78 0L12 5.67l-1.06-1.06a5.5 5.5 0 0 0-7.78 7.78l1.06 1.06L12 21.23l7.78-7.78 1.06-1.06a5.5 5.5 0 0 0 0-7.78z"
+          />
+        </svg>
       
-      {/* Like Count */}
-      {showCount && (
-        <span className="font-medium">
-          {likeCount}
-        </span>
-      )}
-    </button>
+        {/* Like Count */}
+        {showCount && (
+          <span className="font-medium">
+            {likeCount}
+          </span>
+        )}
+      </button>
+      {queuedEntry && <OutboxIndicator entry={queuedEntry} onDiscard={handleDiscard} />}
+    </span>
   );
 };
\ No newline at end of file
@@ -0,0 +1,50 @@
+import React from 'react';
+import { useClerk } from '@clerk/clerk-react';
+import { LogIn, WifiOff } from 'lucide-react';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import { useOutbox } from '@/hooks/useOutbox';
+
+/**
+ * OfflineBanner Component
+ *
+ * Notice shown while the browser is offline and pages show saved data,
+ * with the number of changes waiting to be sent. Also asks the user to
+ * sign in again when an expired session holds those changes back.
+ */
+export const OfflineBanner: React.FC = () => {
+  const isOnline = useOnlineStatus();
+  const { pendingCount, signInRequired } = useOutbox();
+  const { openSignIn } = useClerk();
+
+  if (signInRequired) {
+    return (
+      <div
+        className="print:hidden sticky top-0 z-50 flex items-center justify-center gap-2 px-4 py-2 bg-amber-100 text-amber-900 text-sm border-b border-amber-200"
+        role="alert"
+      >
+        <LogIn className="w-4 h-4" aria-hidden="true" />
+        <span>Your session expired, so your saved changes could not be sent.</span>
+        <button type="button" onClick={() => openSignIn()} className="font-medium underline">
+          Sign in again
+        </button>
+      </div>
+    );
+  }
+
+  if (isOnline) {
+    return null;
+  }
+
+  return (
+    <div
+      className="print:hidden sticky top-0 z-50 flex items-center justify-center gap-2 px-4 py-2 bg-amber-100 text-amber-900 text-sm border-b border-amber-200"
+      role="status"
+    >
+      <WifiOff className="w-4 h-4" aria-hidden="true" />
+      <span>
+        You're offline. Showing what was saved on your last visit.
+        {pendingCount > 0 && ` ${pendingCount} ${pendingCount === 1 ? 'change' : 'changes'} will be sent when you reconnect.`}
+      </span>
+    </div>
+  );
+};
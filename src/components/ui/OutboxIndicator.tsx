@@ -0,0 +1,62 @@
+import React from 'react';
+import { AlertCircle, Clock, RotateCcw, X } from 'lucide-react';
+import { type OutboxEntry, outboxService } from '@/services/outbox';
+
+interface OutboxIndicatorProps {
+  entry: OutboxEntry;
+  /** Called after the entry is discarded, e.g. to undo an optimistic update */
+  onDiscard?: (entry: OutboxEntry) => void;
+  className?: string;
+}
+
+/**
+ * OutboxIndicator Component
+ *
+ * Status of a change waiting in the offline outbox, with retry for failed
+ * changes and discard for anything not yet sending
+ */
+export const OutboxIndicator: React.FC<OutboxIndicatorProps> = ({ entry, onDiscard, className = '' }) => {
+  const isFailed = entry.status === 'failed';
+
+  const handleDiscard = () => {
+    outboxService.discard(entry.id);
+    onDiscard?.(entry);
+  };
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 text-xs ${isFailed ? 'text-red-600' : 'text-amber-700'} ${className}`}
+      role="status"
+      title={isFailed ? entry.error : 'Will be sent when you are back online'}
+    >
+      {isFailed ? (
+        <AlertCircle className="w-3.5 h-3.5" aria-hidden="true" />
+      ) : (
+        <Clock className="w-3.5 h-3.5" aria-hidden="true" />
+      )}
+      <span>{isFailed ? 'Not sent' : entry.status === 'sending' ? 'Sending...' : 'Pending'}</span>
+      {isFailed && (
+        <button
+          type="button"
+          onClick={() => outboxService.retry(entry.id)}
+          className="p-0.5 rounded hover:bg-red-50"
+          aria-label="Retry"
+          title="Retry"
+        >
+          <RotateCcw className="w-3.5 h-3.5" />
+        </button>
+      )}
+      {entry.status !== 'sending' && (
+        <button
+          type="button"
+          onClick={handleDiscard}
+          className="p-0.5 rounded hover:bg-gray-100"
+          aria-label="Discard"
+          title="Discard"
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      )}
+    </span>
+  );
+};
@@ -1,4 +1,6 @@
 import React, { useEffect, useState } from 'react';
+import { realtimeTopics } from '@/services/api';
+import { useRealtime } from '@/hooks';
 import { LikeButton } from './LikeButton';
 import { CommentSection } from './CommentSection';
 
@@ -34,10 +36,18 @@ export const SocialActions: React.FC<SocialActionsProps> = ({
   className = '',
   postData,
 }) => {
-  const [commentCount, _setCommentCount] = useState(initialCommentCount);
+  const [commentCount, setCommentCount] = useState(initialCommentCount);
   const [showCommentSection, setShowCommentSection] = useState(showComments);
   const [isMobile, setIsMobile] = useState(false);
 
+  // The count starts from the cached item and then follows realtime events
+  // alone; the channel delivers each comment once
+  useRealtime(realtimeTopics.item({ discussion_id: discussionId, camera_id: cameraId }), event => {
+    if (event.type === 'comment.created') {
+      setCommentCount(prev => prev + 1);
+    }
+  });
+
   // Check if device is mobile
   useEffect(() => {
     const checkMobile = () => {
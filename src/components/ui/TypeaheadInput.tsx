@@ -0,0 +1,130 @@
+import React, { useId, useState } from 'react';
+import '@/css/components/typeahead.css';
+
+/**
+ * One suggestion shown under a typeahead input
+ */
+export interface TypeaheadOption {
+  value: string;
+  /** Secondary text such as production years */
+  description?: string;
+}
+
+interface TypeaheadInputProps {
+  id: string;
+  name: string;
+  value: string;
+  /** Suggestions for the current value; filtering is up to the caller */
+  options: TypeaheadOption[];
+  onChange: (value: string) => void;
+  onSelect: (option: TypeaheadOption) => void;
+  placeholder?: string;
+  className?: string;
+  required?: boolean;
+  disabled?: boolean;
+}
+
+/**
+ * TypeaheadInput Component
+ *
+ * Free-text input with a keyboard-navigable suggestion list (ARIA combobox);
+ * typing anything not in the list is still allowed
+ */
+export const TypeaheadInput: React.FC<TypeaheadInputProps> = ({
+  id,
+  name,
+  value,
+  options,
+  onChange,
+  onSelect,
+  placeholder,
+  className = '',
+  required = false,
+  disabled = false
+}) => {
+  const listId = useId();
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  // Hide the list once the value exactly matches the only suggestion
+  const visible = isOpen && options.length > 0
+    && !(options.length === 1 && options[0]!.value === value);
+
+  const choose = (option: TypeaheadOption) => {
+    onSelect(option);
+    setIsOpen(false);
+    setActiveIndex(-1);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (!visible) {
+        setIsOpen(true);
+        return;
+      }
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex(prev => (prev + step + options.length) % options.length);
+    } else if (e.key === 'Enter' && visible && activeIndex >= 0) {
+      e.preventDefault();
+      choose(options[activeIndex]!);
+    } else if (e.key === 'Escape' && visible) {
+      e.preventDefault();
+      setIsOpen(false);
+      setActiveIndex(-1);
+    }
+  };
+
+  return (
+    <div className="typeahead">
+      <input
+        type="text"
+        id={id}
+        name={name}
+        value={value}
+        onChange={e => {
+          onChange(e.target.value);
+          setIsOpen(true);
+          setActiveIndex(-1);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        className={className}
+        required={required}
+        disabled={disabled}
+        autoComplete="off"
+        role="combobox"
+        aria-autocomplete="list"
+        aria-expanded={visible}
+        aria-controls={listId}
+        aria-activedescendant={visible && activeIndex >= 0 ? `${listId}-${activeIndex}` : undefined}
+      />
+      {visible && (
+        <ul id={listId} role="listbox" className="typeahead__list">
+          {options.map((option, index) => (
+            <li
+              key={option.value}
+              id={`${listId}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              className={`typeahead__option ${index === activeIndex ? 'typeahead__option--active' : ''}`}
+              // Keep focus in the input so blur does not close the list before the click lands
+              onMouseDown={e => e.preventDefault()}
+              onClick={() => choose(option)}
+              onMouseEnter={() => setActiveIndex(index)}
+            >
+              <span>{option.value}</span>
+              {option.description && (
+                <span className="typeahead__description">{option.description}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+TypeaheadInput.displayName = 'TypeaheadInput';
@@ -0,0 +1,43 @@
+import React from 'react';
+import { RefreshCw, X } from 'lucide-react';
+import { APP_CONFIG } from '@/constants';
+import { useServiceWorkerUpdate } from '@/hooks/useServiceWorkerUpdate';
+
+/**
+ * UpdatePrompt Component
+ *
+ * Notice shown when a new version of the app has been downloaded, offering
+ * to reload into it now or on the next visit
+ */
+export const UpdatePrompt: React.FC = () => {
+  const { updateAvailable, applyUpdate, dismissUpdate } = useServiceWorkerUpdate();
+
+  if (!updateAvailable) {
+    return null;
+  }
+
+  return (
+    <div
+      className="print:hidden fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 max-w-[calc(100%-2rem)] px-4 py-3 bg-gray-900 text-white text-sm rounded-lg shadow-lg"
+      role="status"
+    >
+      <RefreshCw className="w-4 h-4 flex-shrink-0" aria-hidden="true" />
+      <span>A new version of {APP_CONFIG.NAME} is available.</span>
+      <button
+        type="button"
+        onClick={applyUpdate}
+        className="px-3 py-1 bg-orange-600 rounded-md font-medium hover:bg-orange-700"
+      >
+        Reload
+      </button>
+      <button
+        type="button"
+        onClick={dismissUpdate}
+        className="p-1 rounded hover:bg-white/10"
+        aria-label="Update later"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
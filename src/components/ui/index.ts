@@ -6,7 +6,12 @@ export { PhotoManagementCard } from './PhotoManagementCard';
 export type { ManagedPhotoData } from './PhotoManagementCard';
 export { UploadModal } from './UploadModal';
 export { CameraCard } from './CameraCard';
+export { TypeaheadInput } from './TypeaheadInput';
+export type { TypeaheadOption } from './TypeaheadInput';
 export { default as EditDiscussionModal } from './EditDiscussionModal';
+export { OfflineBanner } from './OfflineBanner';
+export { OutboxIndicator } from './OutboxIndicator';
+export { UpdatePrompt } from './UpdatePrompt';
 
 // Social interaction components
 export { LikeButton } from './LikeButton';
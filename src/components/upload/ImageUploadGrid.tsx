@@ -0,0 +1,172 @@
+import React, { useRef, useState } from 'react';
+import { AlertCircle, RotateCcw, Star, Upload, X } from 'lucide-react';
+import type { UploadItem } from '@/services/upload';
+import '@/css/components/image-upload.css';
+
+interface ImageUploadGridProps {
+  items: UploadItem[];
+  onAddFiles: (files: File[]) => void;
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onReorder: (fromIndex: number, toIndex: number) => void;
+  onSetPrimary: (id: string) => void;
+  maxFiles?: number;
+  accept?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * ImageUploadGrid Component
+ *
+ * Upload queue previews with per-file progress, cancel/retry,
+ * drag-to-reorder and primary image selection
+ */
+export const ImageUploadGrid: React.FC<ImageUploadGridProps> = ({
+  items,
+  onAddFiles,
+  onCancel,
+  onRetry,
+  onRemove,
+  onReorder,
+  onSetPrimary,
+  maxFiles = 5,
+  accept = 'image/jpeg,image/jpg,image/png,image/webp,image/gif',
+  disabled = false,
+  className = ''
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (files.length > 0) {
+      onAddFiles(files);
+    }
+    // Allow selecting the same file again after removing it
+    e.target.value = '';
+  };
+
+  const handleDragStart = (index: number) => (e: React.DragEvent) => {
+    e.dataTransfer.effectAllowed = 'move';
+    setDragIndex(index);
+  };
+
+  const handleDragOver = (index: number) => (e: React.DragEvent) => {
+    if (dragIndex === null) {return;}
+    e.preventDefault();
+    setOverIndex(index);
+  };
+
+  const handleDrop = (index: number) => (e: React.DragEvent) => {
+    e.preventDefault();
+    if (dragIndex !== null) {
+      onReorder(dragIndex, index);
+    }
+    setDragIndex(null);
+    setOverIndex(null);
+  };
+
+  const handleDragEnd = () => {
+    setDragIndex(null);
+    setOverIndex(null);
+  };
+
+  return (
+    <div className={`upload-grid ${className}`}>
+      {items.map((item, index) => {
+        const isActive = item.status === 'queued' || item.status === 'uploading';
+        const classes = [
+          'upload-tile',
+          `upload-tile--${item.status}`,
+          dragIndex === index ? 'upload-tile--dragging' : '',
+          overIndex === index && dragIndex !== index ? 'upload-tile--drop-target' : ''
+        ].filter(Boolean).join(' ');
+
+        return (
+          <div
+            key={item.id}
+            className={classes}
+            draggable={!disabled}
+            onDragStart={handleDragStart(index)}
+            onDragOver={handleDragOver(index)}
+            onDrop={handleDrop(index)}
+            onDragEnd={handleDragEnd}
+          >
+            <img src={item.previewUrl} alt={`Upload ${index + 1}`} draggable={false} />
+
+            <button
+              type="button"
+              className={`upload-tile__primary ${item.isPrimary ? 'is-primary' : ''}`}
+              onClick={() => onSetPrimary(item.id)}
+              disabled={disabled}
+              title={item.isPrimary ? 'Primary image' : 'Set as primary image'}
+            >
+              <Star size={14} fill={item.isPrimary ? 'currentColor' : 'none'} />
+            </button>
+
+            <button
+              type="button"
+              className="upload-tile__remove"
+              onClick={() => (isActive ? onCancel(item.id) : onRemove(item.id))}
+              disabled={disabled}
+              title={isActive ? 'Cancel upload' : 'Remove image'}
+            >
+              <X size={14} />
+            </button>
+
+            {isActive && (
+              <div className="upload-tile__progress">
+                <div className="upload-tile__progress-bar" style={{ width: `${item.progress}%` }} />
+              </div>
+            )}
+
+            {(item.status === 'error' || item.status === 'cancelled') && (
+              <div className="upload-tile__overlay">
+                {item.status === 'error' && <AlertCircle size={18} />}
+                <span>{item.status === 'error' ? 'Upload failed' : 'Cancelled'}</span>
+                <button
+                  type="button"
+                  className="upload-tile__retry"
+                  onClick={() => onRetry(item.id)}
+                  disabled={disabled}
+                  title={item.error}
+                >
+                  <RotateCcw size={12} />
+                  Retry
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {items.length < maxFiles && (
+        <button
+          type="button"
+          className="upload-add-btn"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled}
+        >
+          <Upload size={24} />
+          <span>Add Photo</span>
+        </button>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={accept}
+        onChange={handleFileChange}
+        style={{ display: 'none' }}
+        multiple={maxFiles > 1}
+      />
+    </div>
+  );
+};
+
+ImageUploadGrid.displayName = 'ImageUploadGrid';
+
+export default ImageUploadGrid;
@@ -0,0 +1 @@
+export { ImageUploadGrid } from './ImageUploadGrid';
@@ -0,0 +1,42 @@
+/**
+ * Branding, theme and install constants
+ *
+ * Plain values only: the build config imports this file too.
+ */
+
+/**
+ * Application configuration constants
+ */
+export const APP_CONFIG = {
+  NAME: 'RetroLens',
+  TAGLINE: 'Vintage Camera Community',
+  VERSION: '1.0.0',
+  DESCRIPTION: 'The Premier Community for Vintage Camera Enthusiasts',
+} as const;
+
+/**
+ * Theme constants
+ */
+export const THEME_CONFIG = {
+  DEFAULT_THEME: 'light' as const,
+  STORAGE_KEY: 'retrolens-theme',
+  
+  COLORS: {
+    PRIMARY: '#E67E22',
+    BACKGROUND: '#FAFAFA',
+    TEXT: '#333333',
+    TEXT_SECONDARY: '#666666',
+    DANGER: '#cc0000',
+  },
+} as const;
+
+/**
+ * Installable app and service worker constants
+ */
+export const PWA_CONFIG = {
+  MANIFEST_PATH: '/manifest.webmanifest',
+  SERVICE_WORKER_PATH: '/sw.js',
+  START_URL: '/',
+  IMAGE_CACHE_MAX_ENTRIES: 200, // Oldest camera images are dropped past this
+  UPDATE_CHECK_INTERVAL: 60 * 60 * 1000, // Look for a new version hourly
+} as const;
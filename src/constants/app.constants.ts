@@ -1,13 +1,3 @@
-/**
- * Application configuration constants
- */
-export const APP_CONFIG = {
-  NAME: 'RetroLens',
-  TAGLINE: 'Vintage Camera Community',
-  VERSION: '1.0.0',
-  DESCRIPTION: 'The Premier Community for Vintage Camera Enthusiasts',
-} as const;
-
 /**
  * API configuration constants
  */
@@ -26,6 +16,39 @@ export const API_CONFIG = {
   TIMEOUT: 30000, // Increased from 10s to 30s for production API
   MAX_RETRY_ATTEMPTS: 2, // Reduced from 3 to 2 to avoid excessive delays
   HEALTH_CHECK_TIMEOUT: 10000, // Increased from 5s to 10s
+  UPLOAD_TIMEOUT: 120000, // Large photos on slow connections
+  DEBUG: import.meta.env.VITE_API_DEBUG === 'true', // Log every request and response
+} as const;
+
+/**
+ * Persisted query cache constants
+ */
+export const QUERY_CACHE_CONFIG = {
+  DB_NAME: 'retrolens-query-cache',
+  VERSION: 2, // Bump when cached response shapes change; entries from other versions are dropped
+  MAX_BYTES: 5 * 1024 * 1024, // Oldest entries are evicted past this size
+  MAX_AGE: 7 * 24 * 60 * 60 * 1000, // Entries older than a week are not restored
+  WRITE_DELAY: 1000, // Batch cache writes
+  RESTORE_TIMEOUT: 1500, // Render without the saved cache if IndexedDB is slow
+  PERSISTED_ROOTS: ['feed', 'discover', 'following', 'users', 'cameras', 'discussions', 'userDiscussions'],
+} as const;
+
+/**
+ * Realtime update channel
+ */
+export const REALTIME_CONFIG = {
+  RECONNECT_BASE_DELAY: 1000, // Doubles after each failed attempt, with jitter
+  RECONNECT_MAX_DELAY: 30 * 1000,
+  RESUBSCRIBE_DELAY: 2000, // Quiet period before a receive-only stream reopens with new topics
+} as const;
+
+/**
+ * Offline mutation outbox
+ */
+export const OUTBOX_CONFIG = {
+  DB_NAME: 'retrolens-outbox',
+  RETRY_BASE_DELAY: 2000, // Doubles after each transient failure
+  RETRY_MAX_DELAY: 60 * 1000,
 } as const;
 
 /**
@@ -51,7 +74,17 @@ export const ROUTE_PATHS = {
   FEED: '/feed',
   DISCOVER: '/discover',
   COLLECTION: '/collection',
+  IMPORT_CAMERAS: '/collection/import',
+  INSURANCE_REPORT: '/collection/report',
   ADD_CAMERA: '/add-camera',
+  MARKETPLACE: '/marketplace',
+  TRADES: '/trades',
+  WISHLIST: '/wishlist',
+  COMPARE: '/compare',
+  ROLLS: '/rolls',
+  ROLL_DETAIL: '/rolls/:id',
+  CAMERA_DETAIL: '/cameras/:id',
+  EDIT_CAMERA: '/cameras/:id/edit',
   SETTINGS: '/settings',
 } as const;
 
@@ -66,6 +99,7 @@ export const API_ENDPOINTS = {
   USERS: '/api/v1/users/',
   USER_SYNC: '/api/v1/users/sync',
   USER_BY_ID: (id: string) => `/api/v1/users/${id}`,
+  USERS_BATCH: '/api/v1/users/batch', // Feature-detected; older backends lack it
   USER_BY_USERNAME: (username: string) => `/api/v1/users/username/${username}`,
   USER_FOLLOW: (id: string) => `/api/v1/users/${id}/follow`,
   USER_UNFOLLOW: (id: string) => `/api/v1/users/${id}/unfollow`,
@@ -74,13 +108,29 @@ export const API_ENDPOINTS = {
   // Cameras
   CAMERAS: '/api/v1/cameras/',
   CAMERA_BY_ID: (id: string) => `/api/v1/cameras/${id}`,
-  USER_CAMERAS: (userId: string) => `/api/v1/users/${userId}/cameras`, // Note: Not implemented in backend
+  CAMERA_IMAGES: (id: string) => `/api/v1/cameras/${id}/images`,
+  CAMERA_IMAGE_BY_ID: (id: string, imageId: string) => `/api/v1/cameras/${id}/images/${imageId}`,
+  CAMERA_HISTORY: (id: string) => `/api/v1/cameras/${id}/history`,
+  CAMERA_HISTORY_EVENT: (id: string, eventId: string) => `/api/v1/cameras/${id}/history/${eventId}`,
+  USER_CAMERAS: (userId: string) => `/api/v1/users/${userId}/cameras`, // Feature-detected; older backends lack it
   
+  // Trade offers
+  TRADE_OFFERS: '/api/v1/trade-offers/',
+  TRADE_OFFER_BY_ID: (id: string) => `/api/v1/trade-offers/${id}`,
+  TRADE_OFFER_ACTION: (id: string, action: string) => `/api/v1/trade-offers/${id}/${action}`,
+  
+  // Film rolls
+  FILM_ROLLS: '/api/v1/film-rolls/',
+  FILM_ROLL_BY_ID: (id: string) => `/api/v1/film-rolls/${id}`,
+
   // Discussions
   DISCUSSIONS: '/api/v1/discussions/',
   DISCUSSION_BY_ID: (id: string) => `/api/v1/discussions/${id}`,
   DISCUSSION_COMMENTS: (id: string) => `/api/v1/discussions/${id}/comments`, // Note: Not implemented in backend
   
+  // Camera reference catalog
+  CATALOG_SUGGESTIONS: '/api/v1/catalog/suggestions',
+
   // Categories
   CATEGORIES: '/api/v1/categories/',
   
@@ -90,6 +140,10 @@ export const API_ENDPOINTS = {
   // Upload endpoints
   UPLOAD_CAMERA_IMAGE: '/api/v1/upload/camera-image',
   UPLOAD_AVATAR: '/api/v1/upload/avatar',
+
+  // Realtime updates
+  REALTIME_WS: '/api/v1/realtime/ws',
+  REALTIME_SSE: '/api/v1/realtime/events', // Fallback where WebSockets are blocked
 } as const;
 
 /**
@@ -112,6 +166,8 @@ export const UI_CONFIG = {
   // File upload
   MAX_FILE_SIZE_MB: 10,
   ALLOWED_IMAGE_TYPES: ['image/jpeg', 'image/png', 'image/webp', 'image/gif'],
+  UPLOAD_CONCURRENCY: 2,
+  UPLOAD_MAX_ATTEMPTS: 3,
   
   // Responsive breakpoints
   BREAKPOINTS: {
@@ -121,39 +177,28 @@ export const UI_CONFIG = {
   },
 } as const;
 
-/**
- * Theme constants
- */
-export const THEME_CONFIG = {
-  DEFAULT_THEME: 'light' as const,
-  STORAGE_KEY: 'retrolens-theme',
-  
-  COLORS: {
-    PRIMARY: '#E67E22',
-    BACKGROUND: '#FAFAFA',
-    TEXT: '#333333',
-    TEXT_SECONDARY: '#666666',
-    DANGER: '#cc0000',
-  },
-} as const;
-
 /**
  * Camera-related constants
  */
 export const CAMERA_CONFIG = {
-  BRANDS: [
-    'Leica', 'Canon', 'Nikon', 'Hasselblad', 'Mamiya', 'Pentax',
-    'Olympus', 'Minolta', 'Yashica', 'Rollei', 'Contax', 'Zeiss',
-    'Fujifilm', 'Kodak', 'Polaroid', 'Bronica', 'Other'
-  ],
-  
-  POPULAR_MODELS: {
-    'Leica': ['M3', 'M6', 'IIIf', 'CL'],
-    'Canon': ['AE-1', 'F-1', 'A-1', '7'],
-    'Nikon': ['F', 'FM', 'FE', 'F3'],
-    'Hasselblad': ['500C', '500CM', '503CW', 'X1D'],
+  MAX_IMAGES: 5,
+  MAX_COMPARE: 4,
+
+  FILM_ROLL: {
+    MIN_ISO: 1,
+    MAX_ISO: 25600,
+    // Frames offered by default when starting the frame log
+    DEFAULT_FRAMES: { '35mm': 36, '120': 12, '220': 24, 'instant': 8, 'aps': 25, '110': 24, '126': 24, '4x5': 1, '8x10': 1 },
   },
-  
+
+  HISTORY_EVENT_TYPES: [
+    { value: 'acquisition', label: 'Acquired' },
+    { value: 'service', label: 'CLA / Service' },
+    { value: 'repair', label: 'Repair' },
+    { value: 'lens_change', label: 'Lens change' },
+    { value: 'sale', label: 'Sold' },
+  ],
+
   CONDITIONS: [
     { value: 'mint', label: 'Mint' },
     { value: 'excellent', label: 'Excellent' },
@@ -163,6 +208,74 @@ export const CAMERA_CONFIG = {
     { value: 'poor', label: 'Poor' },
     { value: 'parts_only', label: 'Parts Only' },
   ],
+
+  TYPES: [
+    { value: '35mm_slr', label: '35mm SLR' },
+    { value: '35mm_rangefinder', label: '35mm Rangefinder' },
+    { value: 'medium_format', label: 'Medium Format' },
+    { value: 'large_format', label: 'Large Format' },
+    { value: 'twin_lens_reflex', label: 'Twin Lens Reflex' },
+    { value: 'view_camera', label: 'View Camera' },
+    { value: 'point_and_shoot', label: 'Point & Shoot' },
+    { value: 'instant', label: 'Instant' },
+    { value: 'digital', label: 'Digital' },
+  ],
+
+  FILM_FORMATS: [
+    { value: '35mm', label: '35mm' },
+    { value: '120', label: '120' },
+    { value: '220', label: '220' },
+    { value: '4x5', label: '4x5' },
+    { value: '8x10', label: '8x10' },
+    { value: 'instant', label: 'Instant' },
+    { value: 'aps', label: 'APS' },
+    { value: '110', label: '110' },
+    { value: '126', label: '126' },
+  ],
+
+  LENS_MOUNTS: [
+    'M42', 'Nikon F', 'Canon FD', 'Canon EF', 'Pentax K', 'Minolta MD',
+    'Olympus OM', 'Contax/Yashica', 'Leica R', 'Leica M', 'Leica M39',
+    'Contax G', 'Hasselblad V', 'Mamiya RB67', 'Mamiya 645', 'Pentax 67',
+    'Bronica ETR', 'Fixed lens'
+  ],
+
+  SHUTTER_TYPES: [
+    { value: 'focal_plane_cloth', label: 'Cloth focal plane' },
+    { value: 'focal_plane_metal', label: 'Metal focal plane' },
+    { value: 'leaf', label: 'Leaf' },
+    { value: 'electronic', label: 'Electronic' },
+  ],
+
+  METERING_TYPES: [
+    { value: 'none', label: 'None' },
+    { value: 'selenium', label: 'Selenium cell' },
+    { value: 'match_needle', label: 'Match needle' },
+    { value: 'center_weighted', label: 'Center-weighted' },
+    { value: 'spot', label: 'Spot' },
+    { value: 'matrix', label: 'Matrix / evaluative' },
+  ],
+
+  FILM_ADVANCE_TYPES: [
+    { value: 'lever', label: 'Lever' },
+    { value: 'knob', label: 'Knob' },
+    { value: 'crank', label: 'Crank' },
+    { value: 'motorized', label: 'Motorized' },
+  ],
+
+  FOCUS_TYPES: [
+    { value: 'manual', label: 'Manual' },
+    { value: 'rangefinder', label: 'Coupled rangefinder' },
+    { value: 'zone', label: 'Zone / scale' },
+    { value: 'fixed', label: 'Fixed focus' },
+    { value: 'autofocus', label: 'Autofocus' },
+  ],
+
+  // Standard full stops in seconds, slowest first
+  SHUTTER_SPEEDS: [
+    30, 15, 8, 4, 2, 1, 1 / 2, 1 / 4, 1 / 8, 1 / 15, 1 / 30, 1 / 60,
+    1 / 125, 1 / 250, 1 / 500, 1 / 1000, 1 / 2000, 1 / 4000, 1 / 8000
+  ],
 } as const;
 
 /**
@@ -207,4 +320,5 @@ export const STORAGE_KEYS = {
   USER_PREFERENCES: 'retrolens-user-prefs',
   SEARCH_HISTORY: 'retrolens-search-history',
   ONBOARDING_COMPLETED: 'retrolens-onboarding',
+  QUERY_CACHE_OWNER: 'retrolens-query-cache-owner',
 } as const;
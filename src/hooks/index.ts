@@ -1,4 +1,12 @@
 export * from './useAuth';
-export * from './useApiWithAuth';
 export * from './useDebounce';
 export * from './useLocalStorage';
+export * from './useUploadQueue';
+export * from './useUnsavedChangesGuard';
+export * from './useInfiniteScroll';
+export * from './useWishlist';
+export * from './useCompare';
+export * from './useOnlineStatus';
+export * from './useOutbox';
+export * from './useServiceWorkerUpdate';
+export * from './useRealtime';
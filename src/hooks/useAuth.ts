@@ -28,13 +28,8 @@ export const useAuth = () => {
     setError(null);
 
     try {
-      const token = await getToken();
-      if (!token) {
-        throw new Error('No authentication token available');
-      }
-
       console.warn('Syncing user data with backend...');
-      const profile = await clerkAuthService.syncUserToBackend(clerkUser, token);
+      const profile = await clerkAuthService.syncUserToBackend(clerkUser);
       
       if (profile) {
         setUserProfile(profile);
@@ -72,7 +67,7 @@ export const useAuth = () => {
     } finally {
       setIsSyncing(false);
     }
-  }, [clerkUser, userIsLoaded, getToken, isSyncing]);
+  }, [clerkUser, userIsLoaded, isSyncing]);
 
   /**
    * Handle user sign out
@@ -0,0 +1,51 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { useQueries } from '@tanstack/react-query';
+import { CAMERA_CONFIG } from '@/constants';
+import { queryKeys } from '@/lib/react-query';
+import { cameraService } from '@/services/api/cameras.service';
+import { compareService } from '@/services/compare';
+import type { Camera } from '@/types';
+
+/**
+ * Hook exposing the compare tray
+ */
+export const useCompareTray = () => {
+  const { cameras } = useSyncExternalStore(compareService.subscribe, compareService.getSnapshot);
+
+  const isInTray = useCallback((cameraId: string) => cameras.some(camera => camera.id === cameraId), [cameras]);
+  const toggle = useCallback((camera: Camera) => compareService.toggle(camera), []);
+  const remove = useCallback((cameraId: string) => compareService.remove(cameraId), []);
+  const clear = useCallback(() => compareService.clear(), []);
+
+  return {
+    cameras,
+    isFull: cameras.length >= CAMERA_CONFIG.MAX_COMPARE,
+    isInTray,
+    toggle,
+    remove,
+    clear,
+  };
+};
+
+/**
+ * Hook loading fresh copies of the cameras in the compare tray
+ *
+ * Tray snapshots are shown as placeholders until each camera has loaded.
+ */
+export const useComparedCameras = () => {
+  const { cameras } = useSyncExternalStore(compareService.subscribe, compareService.getSnapshot);
+
+  const results = useQueries({
+    queries: cameras.map(camera => ({
+      queryKey: queryKeys.cameras.byId(camera.id),
+      queryFn: () => cameraService.getCameraById(camera.id),
+      placeholderData: camera,
+      staleTime: 2 * 60 * 1000,
+    })),
+  });
+
+  return {
+    cameras: results.map((result, index) => result.data ?? cameras[index]!),
+    isFetching: results.some(result => result.isFetching),
+  };
+};
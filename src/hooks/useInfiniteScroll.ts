@@ -0,0 +1,35 @@
+import { type RefObject, useEffect } from 'react';
+
+/**
+ * Hook that calls `fetchNextPage` when the sentinel element scrolls into view
+ */
+export const useInfiniteScroll = (
+  sentinelRef: RefObject<Element | null>,
+  {
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  }: {
+    hasNextPage: boolean | undefined;
+    isFetchingNextPage: boolean;
+    fetchNextPage: () => unknown;
+  }
+) => {
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNextPage || isFetchingNextPage) {return;}
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) {
+          fetchNextPage();
+        }
+      },
+      { threshold: 0.1, rootMargin: '100px' }
+    );
+
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [sentinelRef, hasNextPage, isFetchingNextPage, fetchNextPage]);
+};
@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from 'react';
+import { onlineManager } from '@tanstack/react-query';
+
+const subscribe = (onChange: () => void) => onlineManager.subscribe(onChange);
+const getSnapshot = () => onlineManager.isOnline();
+
+/**
+ * Hook reporting whether the browser is online, as React Query sees it
+ */
+export const useOnlineStatus = (): boolean => useSyncExternalStore(subscribe, getSnapshot);
@@ -1,34 +1,75 @@
-import { useQuery, useQueryClient } from '@tanstack/react-query';
-import { useAuth } from '@clerk/clerk-react';
+import {
+  type QueryKey,
+  keepPreviousData,
+  useInfiniteQuery,
+  useQuery,
+  useQueryClient
+} from '@tanstack/react-query';
+import { UI_CONFIG } from '@/constants';
 import { queryKeys } from '@/lib/react-query';
+import { userLoader } from '@/services/api/users.loader';
 import { userService } from '@/services/api/users.service';
-import { discussionService } from '@/services/api/discussions.service';
-import { cameraService } from '@/services/api/cameras.service';
+import { type DiscussionListOptions, discussionService } from '@/services/api/discussions.service';
+import { type CameraListOptions, cameraService } from '@/services/api/cameras.service';
+import { type TradeOfferListOptions, tradeService } from '@/services/api/trades.service';
+import { filmRollService } from '@/services/api/rolls.service';
+import type { Camera, Discussion, PageParams, Paginated, TradeInbox, TradeOffer, UserProfile } from '@/types';
+
+// Page position for infinite queries: page number, or cursor string for cursor backends
+type PageParam = number | string;
+
+const toPageParams = (pageParam: PageParam, limit: number): PageParams =>
+  typeof pageParam === 'string' ? { cursor: pageParam, limit } : { page: pageParam, limit };
+
+const getNextPageParam = <T>(lastPage: Paginated<T>): PageParam | undefined =>
+  lastPage.nextCursor ?? lastPage.nextPage ?? undefined;
+
+/**
+ * Shared options for infinite list hooks. `mapPage` can enrich or filter each
+ * fetched page; pagination still follows the server's next page/cursor.
+ */
+export interface InfiniteListOptions<TRaw, TItem> {
+  queryKey?: QueryKey;
+  limit?: number;
+  enabled?: boolean;
+  staleTime?: number;
+  mapPage?: (page: Paginated<TRaw>) => Promise<Paginated<TItem>>;
+}
+
+const useInfiniteList = <TRaw, TItem>(
+  queryKey: QueryKey,
+  fetchPage: (params: PageParams) => Promise<Paginated<TRaw>>,
+  options: InfiniteListOptions<TRaw, TItem>
+) => {
+  const { limit = UI_CONFIG.DEFAULT_PAGE_SIZE, enabled = true, staleTime = 2 * 60 * 1000, mapPage } = options;
+
+  return useInfiniteQuery({
+    queryKey,
+    queryFn: async ({ pageParam }): Promise<Paginated<TItem>> => {
+      const page = await fetchPage(toPageParams(pageParam, limit));
+      return mapPage ? mapPage(page) : (page as unknown as Paginated<TItem>);
+    },
+    initialPageParam: 1 as PageParam,
+    getNextPageParam,
+    enabled,
+    staleTime,
+  });
+};
 
 // User hooks
 export const useUser = (userId: string | undefined) => {
-  const { getToken } = useAuth();
-  
   return useQuery({
     queryKey: queryKeys.users.byId(userId!),
-    queryFn: async () => {
-      const token = await getToken();
-      return userService.getUserById(userId!, token || undefined);
-    },
+    queryFn: () => userLoader.load(userId!),
     enabled: !!userId,
     staleTime: 5 * 60 * 1000, // Consider data fresh for 5 minutes
   });
 };
 
 export const useUserByUsername = (username: string | undefined) => {
-  const { getToken } = useAuth();
-  
   return useQuery({
     queryKey: queryKeys.users.byUsername(username!),
-    queryFn: async () => {
-      const token = await getToken();
-      return userService.getUserByUsername(username!, token || undefined);
-    },
+    queryFn: () => userService.getUserByUsername(username!),
     enabled: !!username,
     staleTime: 5 * 60 * 1000,
   });
@@ -40,77 +81,168 @@ export const useDiscussions = (options?: {
   sortBy?: string;
   sortOrder?: string;
 }) => {
-  const { getToken } = useAuth();
-  
   return useQuery({
     queryKey: queryKeys.discussions.list(options),
-    queryFn: async () => {
-      const token = await getToken();
-      return discussionService.getAllDiscussions(token || undefined, {
-        limit: options?.limit || 10,
-        sortBy: (options?.sortBy || 'created_at') as 'created_at' | 'view_count' | 'comment_count',
-        sortOrder: (options?.sortOrder || 'desc') as 'asc' | 'desc',
-      });
-    },
+    queryFn: () => discussionService.getAllDiscussions({
+      limit: options?.limit || 10,
+      sortBy: (options?.sortBy || 'created_at') as 'created_at' | 'view_count' | 'comment_count',
+      sortOrder: (options?.sortOrder || 'desc') as 'asc' | 'desc',
+    }),
     staleTime: 2 * 60 * 1000, // Consider fresh for 2 minutes
     gcTime: 5 * 60 * 1000, // Keep in cache for 5 minutes (replaces cacheTime)
   });
 };
 
 export const useUserDiscussions = (userId: string | undefined) => {
-  const { getToken } = useAuth();
-  
   return useQuery({
     queryKey: queryKeys.discussions.byUser(userId!),
-    queryFn: async () => {
-      const token = await getToken();
-      return discussionService.getUserDiscussions(userId!, token || undefined);
-    },
+    queryFn: () => discussionService.getUserDiscussions(userId!),
     enabled: !!userId,
     staleTime: 2 * 60 * 1000,
   });
 };
 
+// Infinite list hooks
+export const useInfiniteDiscussions = <TItem = Discussion>(
+  params: Omit<DiscussionListOptions, keyof PageParams> = {},
+  options: InfiniteListOptions<Discussion, TItem> = {}
+) => useInfiniteList(
+  options.queryKey ?? queryKeys.discussions.infinite(params),
+  (pageParams) => discussionService.getAllDiscussions({ ...params, ...pageParams }),
+  options
+);
+
+export const useInfiniteUserDiscussions = <TItem = Discussion>(
+  userId: string | undefined,
+  params: Omit<DiscussionListOptions, keyof PageParams | 'filters'> = {},
+  options: InfiniteListOptions<Discussion, TItem> = {}
+) => useInfiniteList(
+  options.queryKey ?? queryKeys.discussions.infinite({ userId, ...params }),
+  (pageParams) => discussionService.getUserDiscussions(userId!, { ...params, ...pageParams }),
+  { ...options, enabled: !!userId && (options.enabled ?? true) }
+);
+
+export const useInfiniteCameras = <TItem = Camera>(
+  params: Omit<CameraListOptions, keyof PageParams> = {},
+  options: InfiniteListOptions<Camera, TItem> = {}
+) => useInfiniteList(
+  options.queryKey ?? queryKeys.cameras.infinite(params),
+  (pageParams) => cameraService.getAllCameras({ ...params, ...pageParams }),
+  options
+);
+
+export const useInfiniteMarketplaceCameras = <TItem = Camera>(
+  params: Omit<CameraListOptions, keyof PageParams> = {},
+  options: InfiniteListOptions<Camera, TItem> = {}
+) => useInfiniteList(
+  options.queryKey ?? queryKeys.cameras.marketplace(params),
+  (pageParams) => cameraService.getMarketplaceCameras({ ...params, ...pageParams }),
+  options
+);
+
+export const useInfiniteUserSearch = <TItem = UserProfile>(
+  query: string,
+  options: InfiniteListOptions<UserProfile, TItem> = {}
+) => useInfiniteList(
+  options.queryKey ?? queryKeys.users.search(query),
+  (pageParams) => userService.getAllUsers({ ...pageParams, search: query }),
+  { ...options, enabled: !!query && (options.enabled ?? true) }
+);
+
+export const useInfiniteTradeOffers = <TItem = TradeOffer>(
+  box: TradeInbox,
+  params: Omit<TradeOfferListOptions, keyof PageParams> = {},
+  options: InfiniteListOptions<TradeOffer, TItem> = {}
+) => useInfiniteList(
+  options.queryKey ?? queryKeys.trades.inbox(box, params),
+  (pageParams) => tradeService.getOffers(box, { ...params, ...pageParams }),
+  { staleTime: 30 * 1000, ...options }
+);
+
 // Cameras hooks
-export const useUserCameras = (userId: string | undefined) => {
-  const { getToken } = useAuth();
-  
+export const useCamera = (cameraId: string | undefined) => {
+  return useQuery({
+    queryKey: queryKeys.cameras.byId(cameraId!),
+    queryFn: () => cameraService.getCameraById(cameraId!),
+    enabled: !!cameraId,
+    staleTime: 2 * 60 * 1000,
+  });
+};
+
+export const useCameraHistory = (cameraId: string | undefined) => {
+  return useQuery({
+    queryKey: queryKeys.cameras.history(cameraId!),
+    queryFn: () => cameraService.getCameraHistory(cameraId!),
+    enabled: !!cameraId,
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+export const useUserCameras = (
+  userId: string | undefined,
+  page: number = 1,
+  limit: number = UI_CONFIG.DEFAULT_PAGE_SIZE
+) => {
+  return useQuery({
+    queryKey: queryKeys.cameras.byUserPage(userId!, page, limit),
+    queryFn: () => cameraService.getUserCameras(userId!, { page, limit }),
+    placeholderData: keepPreviousData,
+    enabled: !!userId,
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+export const useUserCollection = (userId: string | undefined) => {
   return useQuery({
     queryKey: queryKeys.cameras.byUser(userId!),
-    queryFn: async () => {
-      const token = await getToken();
-      const allCameras = await cameraService.getAllCameras(token || undefined);
-      return allCameras.filter(camera => camera.user_id === userId);
-    },
+    queryFn: () => cameraService.getAllUserCameras(userId!),
     enabled: !!userId,
     staleTime: 5 * 60 * 1000,
   });
 };
 
+// Film roll hooks
+export const useFilmRolls = (userId: string | undefined) => {
+  return useQuery({
+    queryKey: queryKeys.rolls.list({ userId }),
+    queryFn: () => filmRollService.getAllRolls(),
+    enabled: !!userId,
+    staleTime: 2 * 60 * 1000,
+  });
+};
+
+export const useFilmRoll = (rollId: string | undefined) => {
+  return useQuery({
+    queryKey: queryKeys.rolls.byId(rollId!),
+    queryFn: () => filmRollService.getRollById(rollId!),
+    enabled: !!rollId,
+    staleTime: 2 * 60 * 1000,
+  });
+};
+
+export const useCameraRollCount = (cameraId: string | undefined) => {
+  return useQuery({
+    queryKey: queryKeys.rolls.cameraCount(cameraId!),
+    queryFn: () => filmRollService.getCameraRollCount(cameraId!),
+    enabled: !!cameraId,
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
 // Followers/Following hooks
 export const useFollowers = (userId: string | undefined) => {
-  const { getToken } = useAuth();
-  
   return useQuery({
     queryKey: queryKeys.users.followers(userId!),
-    queryFn: async () => {
-      const token = await getToken();
-      return userService.getUserFollowers(userId!, token || undefined);
-    },
+    queryFn: () => userService.getUserFollowers(userId!),
     enabled: !!userId,
     staleTime: 2 * 60 * 1000,
   });
 };
 
 export const useFollowing = (userId: string | undefined) => {
-  const { getToken } = useAuth();
-  
   return useQuery({
     queryKey: queryKeys.users.following(userId!),
-    queryFn: async () => {
-      const token = await getToken();
-      return userService.getUserFollowing(userId!, token || undefined);
-    },
+    queryFn: () => userService.getUserFollowing(userId!),
     enabled: !!userId,
     staleTime: 2 * 60 * 1000,
   });
@@ -119,15 +251,10 @@ export const useFollowing = (userId: string | undefined) => {
 // Prefetch hooks for instant navigation
 export const usePrefetchUser = () => {
   const queryClient = useQueryClient();
-  const { getToken } = useAuth();
-  
   return async (userId: string) => {
     await queryClient.prefetchQuery({
       queryKey: queryKeys.users.byId(userId),
-      queryFn: async () => {
-        const token = await getToken();
-        return userService.getUserById(userId, token || undefined);
-      },
+      queryFn: () => userLoader.load(userId),
       staleTime: 5 * 60 * 1000,
     });
   };
@@ -135,15 +262,10 @@ export const usePrefetchUser = () => {
 
 export const usePrefetchDiscussion = () => {
   const queryClient = useQueryClient();
-  const { getToken } = useAuth();
-  
   return async (discussionId: string) => {
     await queryClient.prefetchQuery({
       queryKey: queryKeys.discussions.byId(discussionId),
-      queryFn: async () => {
-        const token = await getToken();
-        return discussionService.getDiscussionById(discussionId, token || undefined);
-      },
+      queryFn: () => discussionService.getDiscussionById(discussionId),
       staleTime: 2 * 60 * 1000,
     });
   };
@@ -0,0 +1,29 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import { outboxService } from '@/services/outbox';
+
+/**
+ * Hook exposing the signed-in user's outbox, optionally narrowed to one item
+ *
+ * `target` is a key from getOutboxTarget, e.g. `like:discussion:<id>`.
+ */
+export const useOutbox = (target?: string) => {
+  const state = useSyncExternalStore(outboxService.subscribe, outboxService.getSnapshot);
+
+  const entries = useMemo(
+    () => (target ? state.entries.filter(entry => entry.target === target) : state.entries),
+    [state.entries, target]
+  );
+
+  const retry = useCallback((id: string) => outboxService.retry(id), []);
+  const discard = useCallback((id: string) => outboxService.discard(id), []);
+
+  return {
+    entries,
+    pendingCount: entries.filter(entry => entry.status !== 'failed').length,
+    failedCount: entries.filter(entry => entry.status === 'failed').length,
+    /** Changes are held until the user signs back in */
+    signInRequired: entries.some(entry => entry.needsSignIn),
+    retry,
+    discard,
+  };
+};
@@ -0,0 +1,24 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import { type RealtimeEvent, realtimeChannel } from '@/services/api';
+
+/**
+ * Hook listening for realtime events on a topic while the component is mounted
+ *
+ * Pass a topic from `realtimeTopics`, or undefined to not listen. The
+ * listener may change between renders without resubscribing. Returns the
+ * channel state, e.g. to show whether updates are live.
+ */
+export const useRealtime = (topic: string | undefined, listener: (event: RealtimeEvent) => void) => {
+  const listenerRef = useRef(listener);
+
+  useEffect(() => {
+    listenerRef.current = listener;
+  });
+
+  useEffect(() => {
+    if (!topic) {return;}
+    return realtimeChannel.listen(topic, event => listenerRef.current(event));
+  }, [topic]);
+
+  return useSyncExternalStore(realtimeChannel.subscribe, realtimeChannel.getSnapshot);
+};
@@ -0,0 +1,15 @@
+import { useSyncExternalStore } from 'react';
+import { serviceWorkerService } from '@/services/pwa';
+
+/**
+ * Hook reporting whether a new app version is waiting, with actions to load or postpone it
+ */
+export const useServiceWorkerUpdate = () => {
+  const { updateAvailable } = useSyncExternalStore(serviceWorkerService.subscribe, serviceWorkerService.getSnapshot);
+
+  return {
+    updateAvailable,
+    applyUpdate: () => serviceWorkerService.applyUpdate(),
+    dismissUpdate: () => serviceWorkerService.dismissUpdate(),
+  };
+};
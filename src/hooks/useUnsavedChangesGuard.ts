@@ -0,0 +1,43 @@
+import { useCallback, useEffect } from 'react';
+import { type BlockerFunction, useBlocker } from 'react-router-dom';
+
+const DEFAULT_MESSAGE = 'You have unsaved changes. Are you sure you want to leave this page?';
+
+/**
+ * Hook that warns before leaving a page with unsaved changes.
+ *
+ * Covers tab close/reload and every in-app navigation: links, `navigate()`
+ * calls and the browser back and forward buttons.
+ */
+export const useUnsavedChangesGuard = (isDirty: boolean, message: string = DEFAULT_MESSAGE) => {
+  useEffect(() => {
+    if (!isDirty) {return;}
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = message;
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [isDirty, message]);
+
+  // Changes to the hash alone stay on the page, so they are let through
+  const shouldBlock = useCallback<BlockerFunction>(
+    ({ currentLocation, nextLocation }) =>
+      isDirty &&
+      (currentLocation.pathname !== nextLocation.pathname || currentLocation.search !== nextLocation.search),
+    [isDirty]
+  );
+  const blocker = useBlocker(shouldBlock);
+
+  useEffect(() => {
+    if (blocker.state !== 'blocked') {return;}
+
+    if (window.confirm(message)) {
+      blocker.proceed();
+    } else {
+      blocker.reset();
+    }
+  }, [blocker, message]);
+};
@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
+import { UploadQueue } from '@/services/upload';
+import type { CameraImage } from '@/types';
+
+/**
+ * Hook options for an upload queue bound to an endpoint
+ */
+export interface UseUploadQueueOptions {
+  endpoint: string;
+  params?: Record<string, string>;
+  concurrency?: number;
+  maxAttempts?: number;
+}
+
+/**
+ * Hook exposing an UploadQueue with reactive item state
+ */
+export const useUploadQueue = (options: UseUploadQueueOptions) => {
+  const [queue] = useState(() => new UploadQueue(options));
+
+  // Keep the latest endpoint and params without recreating the queue
+  useEffect(() => {
+    queue.configure(options);
+  });
+
+  // Release preview URLs and abort in-flight uploads on unmount
+  useEffect(() => () => queue.clear(), [queue]);
+
+  const items = useSyncExternalStore(queue.subscribe, queue.getSnapshot);
+
+  const addFiles = useCallback((files: File[]) => queue.add(files), [queue]);
+  const cancel = useCallback((id: string) => queue.cancel(id), [queue]);
+  const retry = useCallback((id: string) => queue.retry(id), [queue]);
+  const remove = useCallback((id: string) => queue.remove(id), [queue]);
+  const reorder = useCallback((from: number, to: number) => queue.reorder(from, to), [queue]);
+  const setPrimary = useCallback((id: string) => queue.setPrimary(id), [queue]);
+  const seed = useCallback((images: CameraImage[]) => queue.seed(images), [queue]);
+  const clear = useCallback(() => queue.clear(), [queue]);
+  const toCameraImages = useCallback(() => queue.toCameraImages(), [queue]);
+
+  return {
+    items,
+    isUploading: items.some(item => item.status === 'queued' || item.status === 'uploading'),
+    hasErrors: items.some(item => item.status === 'error'),
+    addFiles,
+    cancel,
+    retry,
+    remove,
+    reorder,
+    setPrimary,
+    seed,
+    clear,
+    toCameraImages,
+  };
+};
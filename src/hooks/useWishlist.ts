@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from 'react';
+import { useUser } from '@clerk/clerk-react';
+import { useQuery } from '@tanstack/react-query';
+import { queryKeys } from '@/lib/react-query';
+import { cameraService } from '@/services/api/cameras.service';
+import { findWishlistMatches, wishlistService } from '@/services/wishlist';
+import type { WishlistCriteria } from '@/types';
+
+// Most recent listings checked against the want-list
+const WISHLIST_LISTINGS_LIMIT = 100;
+const WISHLIST_REFRESH_MS = 5 * 60 * 1000;
+
+/**
+ * Hook exposing the signed-in user's want-list
+ */
+export const useWishlist = () => {
+  const { user } = useUser();
+
+  useEffect(() => {
+    wishlistService.setUser(user?.id ?? null);
+  }, [user?.id]);
+
+  const state = useSyncExternalStore(wishlistService.subscribe, wishlistService.getSnapshot);
+
+  const addItem = useCallback((criteria: WishlistCriteria) => wishlistService.addItem(criteria), []);
+  const removeItem = useCallback((id: string) => wishlistService.removeItem(id), []);
+  const markChecked = useCallback(() => wishlistService.markChecked(), []);
+
+  return {
+    items: state.items,
+    lastCheckedAt: state.lastCheckedAt,
+    isReady: !!user?.id && state.userId === user.id,
+    addItem,
+    removeItem,
+    markChecked,
+  };
+};
+
+/**
+ * Hook matching recent marketplace listings against the want-list
+ *
+ * `since` overrides the last-checked time used to flag new matches.
+ */
+export const useWishlistMatches = (since?: string | null) => {
+  const state = useSyncExternalStore(wishlistService.subscribe, wishlistService.getSnapshot);
+
+  const { data: listings, isLoading, isError, error, refetch } = useQuery({
+    queryKey: queryKeys.wishlist.listings(state.userId!),
+    queryFn: async () => {
+      const page = await cameraService.getMarketplaceCameras({
+        sortBy: 'created_at',
+        sortOrder: 'desc',
+        limit: WISHLIST_LISTINGS_LIMIT,
+      });
+      return page.items;
+    },
+    enabled: !!state.userId && state.items.length > 0,
+    staleTime: WISHLIST_REFRESH_MS,
+    refetchInterval: WISHLIST_REFRESH_MS,
+  });
+
+  const matches = useMemo(
+    () => findWishlistMatches(state, listings ?? [], since === undefined ? state.lastCheckedAt : since),
+    [state, listings, since]
+  );
+
+  return {
+    matches,
+    newCount: new Set(matches.filter(match => match.isNew).map(match => match.camera.id)).size,
+    isLoading: isLoading && state.items.length > 0,
+    isError,
+    error,
+    refetch,
+  };
+};
@@ -21,21 +21,44 @@ export const queryKeys = {
     all: ['users'] as const,
     byId: (id: string) => ['users', id] as const,
     byUsername: (username: string) => ['users', 'username', username] as const,
+    search: (query: string) => ['users', 'search', query] as const,
     followers: (id: string) => ['users', id, 'followers'] as const,
     following: (id: string) => ['users', id, 'following'] as const,
   },
   discussions: {
     all: ['discussions'] as const,
     list: (filters?: any) => ['discussions', 'list', filters] as const,
+    infinite: (params?: unknown) => ['discussions', 'infinite', params] as const,
     byId: (id: string) => ['discussions', id] as const,
     byUser: (userId: string) => ['discussions', 'user', userId] as const,
+    byUserPage: (userId: string, page: number, limit: number) =>
+      ['discussions', 'user', userId, { page, limit }] as const,
   },
   cameras: {
     all: ['cameras'] as const,
     byUser: (userId: string) => ['cameras', 'user', userId] as const,
+    byUserPage: (userId: string, page: number, limit: number) =>
+      ['cameras', 'user', userId, { page, limit }] as const,
     byId: (id: string) => ['cameras', id] as const,
+    history: (id: string) => ['cameras', id, 'history'] as const,
+    infinite: (params?: unknown) => ['cameras', 'infinite', params] as const,
+    marketplace: (params?: unknown) => ['cameras', 'marketplace', params] as const,
+  },
+  wishlist: {
+    listings: (userId: string) => ['wishlist', 'listings', userId] as const,
+  },
+  rolls: {
+    all: ['rolls'] as const,
+    list: (params?: unknown) => ['rolls', 'list', params] as const,
+    byId: (id: string) => ['rolls', id] as const,
+    cameraCount: (cameraId: string) => ['rolls', 'count', cameraId] as const,
+  },
+  trades: {
+    all: ['trades'] as const,
+    inbox: (box: string, params?: unknown) => ['trades', box, params] as const,
   },
   comments: {
+    all: ['comments'] as const,
     byDiscussion: (discussionId: string) => ['comments', 'discussion', discussionId] as const,
   },
 };
@@ -2,8 +2,11 @@ import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import { ClerkProvider } from '@clerk/clerk-react';
 
-import { AUTH_CONFIG, THEME_CONFIG } from '@/constants';
+import { AUTH_CONFIG, QUERY_CACHE_CONFIG, THEME_CONFIG } from '@/constants';
 import App from './App';
+import { queryClient } from '@/lib/react-query';
+import { queryPersistService } from '@/services/cache';
+import { serviceWorkerService } from '@/services/pwa';
 import { clearAuthOnStartup } from '@/utils/clearAuthOnStartup';
 import './css/index.css'
 
@@ -20,7 +23,13 @@ if (!rootElement) {
   throw new Error('Root element not found');
 }
 
-createRoot(rootElement).render(
+// Load the saved query cache first; AuthWrapper restores it once the signed-in user is known
+const cacheRestored = Promise.race([
+  queryPersistService.attach(queryClient),
+  new Promise(resolve => setTimeout(resolve, QUERY_CACHE_CONFIG.RESTORE_TIMEOUT)),
+]);
+
+cacheRestored.finally(() => createRoot(rootElement).render(
   <StrictMode>
     <ClerkProvider 
       publishableKey={AUTH_CONFIG.CLERK_PUBLISHABLE_KEY}
@@ -42,4 +51,9 @@ createRoot(rootElement).render(
       <App />
     </ClerkProvider>
   </StrictMode>
-);
+));
+
+// The service worker is only built for production; in dev it would serve stale modules
+if (import.meta.env.PROD) {
+  window.addEventListener('load', () => serviceWorkerService.register());
+}
@@ -1,38 +1,203 @@
-import React, { useRef, useState } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { ArrowLeft, Camera as CameraIcon, Upload, X } from 'lucide-react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { generatePath, useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Camera as CameraIcon, Save } from 'lucide-react';
 import { useUser } from '@clerk/clerk-react';
-import { useApiWithAuth } from '@/hooks';
-import { API_ENDPOINTS, CAMERA_CONFIG } from '@/constants';
+import { useQueryClient } from '@tanstack/react-query';
+import { TechnicalSpecsFields } from '@/components/camera';
+import { ImageUploadGrid } from '@/components/upload';
+import { LoadingScreen } from '@/components/ui/LoadingScreen';
+import { TypeaheadInput, type TypeaheadOption } from '@/components/ui/TypeaheadInput';
+import { useUnsavedChangesGuard, useUploadQueue } from '@/hooks';
+import { useCamera } from '@/hooks/useOptimizedQueries';
+import { API_ENDPOINTS, CAMERA_CONFIG, ROUTE_PATHS } from '@/constants';
+import { queryKeys } from '@/lib/react-query';
+import { cameraService } from '@/services/api/cameras.service';
+import { catalogService, formatProductionYears, isOutsideProduction } from '@/services/catalog';
+import { getFieldErrors } from '@/utils/errorHandler.utils';
+import { normalizeTechnicalSpecs, pruneTechnicalSpecs } from '@/utils/specs.utils';
+import { validateImageFile, validateTechnicalSpecs } from '@/utils/validation.utils';
+import type { UploadItem } from '@/services/upload';
+import type {
+  Camera,
+  CameraCondition,
+  CameraTechnicalSpecs,
+  CameraType,
+  CatalogModel,
+  CreateCameraData,
+  FilmFormat,
+  TechnicalSpecKey,
+  TechnicalSpecs
+} from '@/types';
 import '@/css/pages/AddCamera.css';
 
+/**
+ * Form state - inputs hold strings, converted on submit
+ */
+const EMPTY_FORM = {
+  brand_name: '',
+  model: '',
+  year: '',
+  camera_type: '',
+  film_format: '',
+  condition: '',
+  acquisition_story: '',
+  technical_specs: {} as CameraTechnicalSpecs,
+  market_value_min: '',
+  market_value_max: '',
+  is_for_sale: false,
+  is_for_trade: false,
+  is_public: true
+};
+
+type CameraFormState = typeof EMPTY_FORM;
+
+const cameraToFormData = (camera: Camera): CameraFormState => ({
+  brand_name: camera.brand_name || '',
+  model: camera.model || '',
+  year: camera.year || '',
+  camera_type: camera.camera_type || '',
+  film_format: camera.film_format || '',
+  condition: camera.condition || '',
+  acquisition_story: camera.acquisition_story || '',
+  technical_specs: normalizeTechnicalSpecs(camera.technical_specs),
+  market_value_min: camera.market_value_min?.toString() ?? '',
+  market_value_max: camera.market_value_max?.toString() ?? '',
+  is_for_sale: camera.is_for_sale,
+  is_for_trade: camera.is_for_trade,
+  is_public: camera.is_public
+});
+
+const toCameraPayload = (form: CameraFormState): CreateCameraData => ({
+  brand_name: form.brand_name.trim(),
+  model: form.model.trim(),
+  year: form.year || undefined,
+  camera_type: (form.camera_type || undefined) as CameraType | undefined,
+  film_format: (form.film_format || undefined) as FilmFormat | undefined,
+  condition: (form.condition || undefined) as CameraCondition | undefined,
+  acquisition_story: form.acquisition_story || undefined,
+  technical_specs: pruneTechnicalSpecs(form.technical_specs, form.camera_type),
+  market_value_min: form.market_value_min ? parseFloat(form.market_value_min) : undefined,
+  market_value_max: form.market_value_max ? parseFloat(form.market_value_max) : undefined,
+  is_for_sale: form.is_for_sale,
+  is_for_trade: form.is_for_trade,
+  is_public: form.is_public
+});
+
+/**
+ * Fill type, format and spec defaults from a catalog model without
+ * overwriting anything the user already entered
+ */
+const withCatalogDefaults = (form: CameraFormState, model: CatalogModel): CameraFormState => {
+  const cameraType = form.camera_type || model.camera_type;
+  const defaults = pruneTechnicalSpecs({ lens_mount: model.lens_mount, ...model.specs }, cameraType);
+  const specs: CameraTechnicalSpecs = { ...form.technical_specs };
+  Object.entries(defaults).forEach(([key, value]) => {
+    if (specs[key] === undefined || specs[key] === '') {
+      specs[key] = value;
+    }
+  });
+
+  return {
+    ...form,
+    camera_type: cameraType,
+    film_format: form.film_format || model.film_format || '',
+    technical_specs: specs,
+  };
+};
+
+/**
+ * Fields that differ from the loaded camera; cleared values are sent as null
+ * so the PATCH removes them instead of silently keeping the old value
+ */
+const getChangedFields = (initial: CreateCameraData, current: CreateCameraData): Partial<CreateCameraData> => {
+  const changes: Record<string, unknown> = {};
+  (Object.keys(current) as Array<keyof CreateCameraData>).forEach(key => {
+    if (JSON.stringify(initial[key]) !== JSON.stringify(current[key])) {
+      changes[key] = current[key] ?? null;
+    }
+  });
+  return changes as Partial<CreateCameraData>;
+};
+
+/**
+ * Order/primary fingerprint of the image list, used for dirty checking
+ */
+const getImagesSignature = (items: UploadItem[]) =>
+  items.map(item => `${item.imageId ?? item.id}:${item.isPrimary ? 1 : 0}`).join('|');
+
+/**
+ * Add Camera Page Component
+ *
+ * Also serves `/cameras/:id/edit`, preloading the camera and saving only what changed
+ */
 export function AddCamera() {
   const navigate = useNavigate();
+  const { id: cameraId } = useParams<{ id: string }>();
+  const isEditMode = Boolean(cameraId);
   const { user } = useUser();
-  const { makeAuthenticatedRequest } = useApiWithAuth();
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  const queryClient = useQueryClient();
+  const uploadParams = useMemo(() => (user?.id ? { user_id: user.id } : undefined), [user?.id]);
+  const uploads = useUploadQueue({
+    endpoint: API_ENDPOINTS.UPLOAD_CAMERA_IMAGE,
+    params: uploadParams,
+  });
+  const { seed: seedImages } = uploads;
+
+  const {
+    data: camera,
+    isLoading: isLoadingCamera,
+    isError: isCameraError
+  } = useCamera(cameraId);
 
   // Form state
-  const [formData, setFormData] = useState({
-    brand_name: '',
-    model: '',
-    year: '',
-    camera_type: '',
-    film_format: '',
-    condition: '',
-    acquisition_story: '',
-    technical_specs: {},
-    market_value_min: '',
-    market_value_max: '',
-    is_for_sale: false,
-    is_for_trade: false,
-    is_public: true
-  });
+  const [formData, setFormData] = useState<CameraFormState>(EMPTY_FORM);
+  const [initialFormData, setInitialFormData] = useState<CameraFormState>(EMPTY_FORM);
+  // Null while editing until the seeded images are recorded as the baseline
+  const [initialImagesSignature, setInitialImagesSignature] = useState<string | null>(isEditMode ? null : '');
+  const loadedCameraId = useRef<string | null>(null);
+  const baselineCameraId = useRef<string | null>(null);
+  const itemsBeforeSeed = useRef<UploadItem[] | null>(null);
+
+  // Preload the camera once when editing; later refetches must not clobber edits.
+  // The image baseline is taken from the seeded queue so ordering rules match
+  // exactly, which is the first queue after the one seeding started from.
+  useEffect(() => {
+    if (!camera) {return;}
+
+    if (loadedCameraId.current !== camera.id) {
+      loadedCameraId.current = camera.id;
+      itemsBeforeSeed.current = uploads.items;
+
+      const form = cameraToFormData(camera);
+      setFormData(form);
+      setInitialFormData(form);
+      seedImages(camera.images || []);
+      return;
+    }
+
+    if (baselineCameraId.current !== camera.id && uploads.items !== itemsBeforeSeed.current) {
+      baselineCameraId.current = camera.id;
+      setInitialImagesSignature(getImagesSignature(uploads.items));
+    }
+  }, [camera, seedImages, uploads.items]);
 
-  const [selectedImages, setSelectedImages] = useState<File[]>([]);
-  const [imagePreviewUrls, setImagePreviewUrls] = useState<string[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const isDirty = !isSubmitting && (
+    JSON.stringify(formData) !== JSON.stringify(initialFormData) ||
+    (initialImagesSignature !== null && getImagesSignature(uploads.items) !== initialImagesSignature)
+  );
+  useUnsavedChangesGuard(isDirty);
+
+  const handleLeave = () => navigate(-1);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const specErrors = useMemo(() => {
+    const prefix = 'technical_specs.';
+    return Object.fromEntries(
+      Object.entries(errors)
+        .filter(([key, message]) => key.startsWith(prefix) && message)
+        .map(([key, message]) => [key.slice(prefix.length), message])
+    ) as Partial<Record<TechnicalSpecKey, string>>;
+  }, [errors]);
 
   // Handle input changes
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
@@ -51,40 +216,90 @@ export function AddCamera() {
     }
   };
 
-  // Handle image selection
-  const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = Array.from(e.target.files || []);
-    
-    // Validate file types
-    const validFiles = files.filter(file => {
-      const validTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'image/gif'];
-      return validTypes.includes(file.type);
-    });
+  const handleSpecChange = (key: TechnicalSpecKey, value: TechnicalSpecs[TechnicalSpecKey]) => {
+    setFormData(prev => ({ ...prev, technical_specs: { ...prev.technical_specs, [key]: value } }));
 
-    if (validFiles.length !== files.length) {
-      alert('Some files were not valid image types. Only JPEG, PNG, WebP, and GIF are allowed.');
+    const errorKey = `technical_specs.${key}`;
+    if (errors[errorKey]) {
+      setErrors(prev => ({ ...prev, [errorKey]: '' }));
     }
+  };
 
-    // Limit to 5 images
-    if (selectedImages.length + validFiles.length > 5) {
-      alert('You can upload a maximum of 5 images.');
-      return;
+  // Reference catalog lookups behind the brand and model typeaheads
+  const catalogModel = useMemo(
+    () => catalogService.findModel(formData.brand_name, formData.model),
+    [formData.brand_name, formData.model]
+  );
+  const brandOptions = useMemo<TypeaheadOption[]>(
+    () => catalogService.searchBrands(formData.brand_name).map(brand => ({
+      value: brand.name,
+      description: `${brand.models.length} models`,
+    })),
+    [formData.brand_name]
+  );
+  const modelOptions = useMemo<TypeaheadOption[]>(
+    () => catalogService.searchModels(formData.brand_name, formData.model).map(model => ({
+      value: model.name,
+      description: formatProductionYears(model),
+    })),
+    [formData.brand_name, formData.model]
+  );
+  const [suggestionStatus, setSuggestionStatus] = useState<'idle' | 'sending' | 'sent'>('idle');
+
+  const handleNameChange = (name: 'brand_name' | 'model', value: string) => {
+    setFormData(prev => ({ ...prev, [name]: value }));
+    setSuggestionStatus('idle');
+    if (errors[name]) {
+      setErrors(prev => ({ ...prev, [name]: '' }));
     }
+  };
 
-    // Create preview URLs
-    const newPreviewUrls = validFiles.map(file => URL.createObjectURL(file));
-    
-    setSelectedImages(prev => [...prev, ...validFiles]);
-    setImagePreviewUrls(prev => [...prev, ...newPreviewUrls]);
+  // Choosing a known model prefills whatever the user has not filled in yet
+  const handleModelSelect = (option: TypeaheadOption) => {
+    handleNameChange('model', option.value);
+    const model = catalogService.findModel(formData.brand_name, option.value);
+    if (model) {
+      setFormData(prev => withCatalogDefaults(prev, model));
+    }
+  };
+
+  const handleSuggestAddition = async () => {
+    setSuggestionStatus('sending');
+    try {
+      await catalogService.suggestAddition({
+        brand_name: formData.brand_name.trim(),
+        model: formData.model.trim(),
+        year: formData.year || undefined,
+        camera_type: (formData.camera_type || undefined) as CameraType | undefined,
+        film_format: (formData.film_format || undefined) as FilmFormat | undefined,
+        lens_mount: formData.technical_specs.lens_mount || undefined,
+      });
+      setSuggestionStatus('sent');
+    } catch (error) {
+      console.error('Error suggesting catalog addition:', error);
+      alert('Could not send your suggestion. Please try again.');
+      setSuggestionStatus('idle');
+    }
   };
 
-  // Remove selected image
-  const removeImage = (index: number) => {
-    if (imagePreviewUrls[index]) {
-      URL.revokeObjectURL(imagePreviewUrls[index]);
+  // Handle image selection - files start uploading immediately
+  const handleAddImages = (files: File[]) => {
+    const results = files.map(file => ({ file, result: validateImageFile(file) }));
+    const validFiles = results.filter(r => r.result.isValid).map(r => r.file);
+    const rejected = results.flatMap(r => r.result.errors);
+
+    if (rejected.length > 0) {
+      alert(rejected.join('\n'));
+    }
+
+    if (uploads.items.length + validFiles.length > CAMERA_CONFIG.MAX_IMAGES) {
+      alert(`You can upload a maximum of ${CAMERA_CONFIG.MAX_IMAGES} images.`);
+      return;
+    }
+
+    if (validFiles.length > 0) {
+      uploads.addFiles(validFiles);
     }
-    setSelectedImages(prev => prev.filter((_, i) => i !== index));
-    setImagePreviewUrls(prev => prev.filter((_, i) => i !== index));
   };
 
   // Validate form
@@ -97,11 +312,28 @@ export function AddCamera() {
     if (!formData.model) {
       newErrors.model = 'Model is required';
     }
+
+    const specs = pruneTechnicalSpecs(formData.technical_specs, formData.camera_type);
+    const { fieldErrors } = validateTechnicalSpecs(specs, formData.camera_type);
+    Object.entries(fieldErrors).forEach(([key, message]) => {
+      newErrors[`technical_specs.${key}`] = message;
+    });
     
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
+  // Put server validation errors on their inputs; anything else gets the fallback alert
+  const showSubmitError = (error: unknown, fallback: string) => {
+    const fieldErrors = getFieldErrors(error);
+    if (Object.keys(fieldErrors).length === 0) {
+      alert(fallback);
+      return;
+    }
+    setErrors(fieldErrors);
+    alert('Please fix the highlighted fields and try again.');
+  };
+
   // Handle form submission
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -115,78 +347,42 @@ export function AddCamera() {
       return;
     }
 
+    if (uploads.isUploading) {
+      alert('Please wait for your photos to finish uploading.');
+      return;
+    }
+
+    const skipFailedPhotos = isEditMode
+      ? 'Some photos failed to upload. Save your changes without them?'
+      : 'Some photos failed to upload. Add the camera without them?';
+    if (uploads.hasErrors && !confirm(skipFailedPhotos)) {
+      return;
+    }
+
+    if (isEditMode) {
+      await handleUpdate();
+      return;
+    }
+
     setIsSubmitting(true);
 
     try {
       // Step 1: Create the camera
-      const cameraData = {
-        ...formData,
-        market_value_min: formData.market_value_min ? parseFloat(formData.market_value_min) : null,
-        market_value_max: formData.market_value_max ? parseFloat(formData.market_value_max) : null,
-      };
-
-      const createdCamera = await makeAuthenticatedRequest(async (token) => {
-        const response = await fetch(
-          `${import.meta.env.VITE_API_URL || 'http://localhost:8000'}${API_ENDPOINTS.CAMERAS}?user_id=${user.id}`,
-          {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${token}`,
-              'Content-Type': 'application/json'
-            },
-            body: JSON.stringify(cameraData)
-          }
-        );
-
-        if (!response.ok) {
-          throw new Error('Failed to create camera');
-        }
-
-        return response.json();
-      });
-
-      console.warn('Camera created:', createdCamera);
-
-      // Step 2: Upload images if any
-      if (selectedImages.length > 0) {
-        for (let i = 0; i < selectedImages.length; i++) {
-          const formData = new FormData();
-          const file = selectedImages[i];
-          if (file) {
-            formData.append('file', file);
-          }
-
-          try {
-            const uploadResponse = await makeAuthenticatedRequest(async (token) => {
-              const response = await fetch(
-                `${import.meta.env.VITE_API_URL || 'http://localhost:8000'}${API_ENDPOINTS.UPLOAD_CAMERA_IMAGE}?user_id=${user.id}`,
-                {
-                  method: 'POST',
-                  headers: {
-                    'Authorization': `Bearer ${token}`
-                  },
-                  body: formData
-                }
-              );
-
-              if (!response.ok) {
-                throw new Error('Failed to upload image');
-              }
-
-              return response.json();
-            });
-
-            console.warn(`Image ${i + 1} uploaded:`, uploadResponse);
-            
-            // TODO: Associate uploaded image with the camera
-            // This would require an additional endpoint to link images to cameras
-            
-          } catch (uploadError) {
-            console.error(`Failed to upload image ${i + 1}:`, uploadError);
-            // Continue with other images even if one fails
-          }
+      const cameraData = toCameraPayload(formData);
+
+      const createdCamera = await cameraService.createCamera(cameraData, user.id);
+
+      // Step 2: Attach uploaded images in their chosen order
+      const images = uploads.toCameraImages();
+      if (images.length > 0) {
+        try {
+          await cameraService.addCameraImages(createdCamera.id, images);
+        } catch (imageError) {
+          console.error('Failed to attach images to camera:', imageError);
+          alert('Camera was added, but its photos could not be attached.');
         }
       }
+      uploads.clear();
 
       // Success! Navigate back to profile
       alert('Camera added successfully!');
@@ -194,21 +390,93 @@ export function AddCamera() {
       
     } catch (error) {
       console.error('Failed to add camera:', error);
-      alert('Failed to add camera. Please try again.');
+      showSubmitError(error, 'Failed to add camera. Please try again.');
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  // Save edits: changed fields, then removed, reordered and new images
+  const handleUpdate = async () => {
+    if (!camera) {return;}
+
+    setIsSubmitting(true);
+
+    try {
+      const changes = getChangedFields(toCameraPayload(initialFormData), toCameraPayload(formData));
+      if (Object.keys(changes).length > 0) {
+        await cameraService.updateCamera(camera.id, changes);
+      }
+
+      const ordered = uploads.toCameraImages();
+      const keptIds = new Set(ordered.map(image => image.id).filter(Boolean));
+      const removedIds = (camera.images || [])
+        .map(image => image.id)
+        .filter(imageId => !keptIds.has(imageId));
+
+      await Promise.all(removedIds.map(imageId =>
+        cameraService.deleteCameraImage(camera.id, imageId)
+      ));
+
+      const existingOrder = ordered
+        .filter(image => image.id)
+        .map(image => ({ id: image.id!, display_order: image.display_order, is_primary: image.is_primary }));
+      const orderChanged = existingOrder.some(order => {
+        const original = camera.images?.find(image => image.id === order.id);
+        return !original || original.display_order !== order.display_order || original.is_primary !== order.is_primary;
+      });
+      if (orderChanged) {
+        await cameraService.reorderCameraImages(camera.id, existingOrder);
+      }
+
+      const newImages = ordered
+        .filter(image => !image.id)
+        .map(({ id: _id, ...image }) => image);
+      if (newImages.length > 0) {
+        await cameraService.addCameraImages(camera.id, newImages);
+      }
+
+      queryClient.invalidateQueries({ queryKey: queryKeys.cameras.byId(camera.id) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.cameras.all });
+      uploads.clear();
+
+      navigate(generatePath(ROUTE_PATHS.CAMERA_DETAIL, { id: camera.id }), { replace: true });
+    } catch (error) {
+      console.error('Failed to update camera:', error);
+      showSubmitError(error, 'Failed to save changes. Please try again.');
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isEditMode && isLoadingCamera) {
+    return <LoadingScreen message="Loading camera..." />;
+  }
+
+  if (isEditMode && (isCameraError || !camera)) {
+    return (
+      <div className="add-camera-page">
+        <p className="error-message">Camera not found.</p>
+      </div>
+    );
+  }
+
+  if (isEditMode && camera && user?.id && camera.user_id !== user.id) {
+    return (
+      <div className="add-camera-page">
+        <p className="error-message">You can only edit cameras in your own collection.</p>
+      </div>
+    );
+  }
+
   return (
     <div className="add-camera-page">
       {/* Header */}
       <div className="add-camera-header">
-        <button onClick={() => navigate(-1)} className="back-btn">
+        <button onClick={handleLeave} className="back-btn">
           <ArrowLeft size={20} />
           <span>Back</span>
         </button>
-        <h1>Add Camera</h1>
+        <h1>{isEditMode ? 'Edit Camera' : 'Add Camera'}</h1>
         <div style={{ width: '32px' }}></div>
       </div>
 
@@ -221,35 +489,56 @@ export function AddCamera() {
             <div className="form-row">
               <div className="form-group">
                 <label htmlFor="brand_name">Brand *</label>
-                <select
+                <TypeaheadInput
                   id="brand_name"
                   name="brand_name"
                   value={formData.brand_name}
-                  onChange={handleInputChange}
+                  options={brandOptions}
+                  onChange={value => handleNameChange('brand_name', value)}
+                  onSelect={option => handleNameChange('brand_name', option.value)}
+                  placeholder="e.g., Leica, Canon, Nikon"
                   className={errors.brand_name ? 'error' : ''}
                   required
-                >
-                  <option value="">Select a brand</option>
-                  {CAMERA_CONFIG.BRANDS.map(brand => (
-                    <option key={brand} value={brand}>{brand}</option>
-                  ))}
-                </select>
+                />
                 {errors.brand_name && <span className="error-message">{errors.brand_name}</span>}
               </div>
 
               <div className="form-group">
                 <label htmlFor="model">Model *</label>
-                <input
-                  type="text"
+                <TypeaheadInput
                   id="model"
                   name="model"
                   value={formData.model}
-                  onChange={handleInputChange}
+                  options={modelOptions}
+                  onChange={value => handleNameChange('model', value)}
+                  onSelect={handleModelSelect}
                   placeholder="e.g., M6, AE-1, F3"
                   className={errors.model ? 'error' : ''}
                   required
                 />
                 {errors.model && <span className="error-message">{errors.model}</span>}
+                {catalogModel && (
+                  <span className="field-hint">Produced {formatProductionYears(catalogModel)}</span>
+                )}
+                {!catalogModel && formData.brand_name.trim() && formData.model.trim() && (
+                  <span className="field-hint">
+                    {suggestionStatus === 'sent' ? (
+                      'Thanks! We\'ll review adding this model to the catalog.'
+                    ) : (
+                      <>
+                        Not in our catalog yet.{' '}
+                        <button
+                          type="button"
+                          className="field-hint__action"
+                          onClick={handleSuggestAddition}
+                          disabled={suggestionStatus === 'sending'}
+                        >
+                          {suggestionStatus === 'sending' ? 'Sending...' : 'Suggest it'}
+                        </button>
+                      </>
+                    )}
+                  </span>
+                )}
               </div>
             </div>
 
@@ -263,7 +552,14 @@ export function AddCamera() {
                   value={formData.year}
                   onChange={handleInputChange}
                   placeholder="e.g., 1984"
+                  className={errors.year ? 'error' : ''}
                 />
+                {errors.year && <span className="error-message">{errors.year}</span>}
+                {catalogModel && isOutsideProduction(catalogModel, formData.year) && (
+                  <span className="field-hint field-hint--warning">
+                    The {catalogModel.name} was produced {formatProductionYears(catalogModel)}
+                  </span>
+                )}
               </div>
 
               <div className="form-group">
@@ -273,86 +569,95 @@ export function AddCamera() {
                   name="condition"
                   value={formData.condition}
                   onChange={handleInputChange}
+                  className={errors.condition ? 'error' : ''}
                 >
                   <option value="">Select condition</option>
                   <option value="mint">Mint</option>
                   <option value="excellent">Excellent</option>
+                  <option value="very_good">Very Good</option>
                   <option value="good">Good</option>
                   <option value="fair">Fair</option>
                   <option value="poor">Poor</option>
-                  <option value="for_parts">For Parts</option>
+                  <option value="parts_only">For Parts</option>
                 </select>
+                {errors.condition && <span className="error-message">{errors.condition}</span>}
               </div>
             </div>
 
             <div className="form-row">
               <div className="form-group">
                 <label htmlFor="camera_type">Camera Type</label>
-                <input
-                  type="text"
+                <select
                   id="camera_type"
                   name="camera_type"
                   value={formData.camera_type}
                   onChange={handleInputChange}
-                  placeholder="e.g., Rangefinder, SLR, TLR"
-                />
+                  className={errors.camera_type ? 'error' : ''}
+                >
+                  <option value="">Select a type</option>
+                  {CAMERA_CONFIG.TYPES.map(type => (
+                    <option key={type.value} value={type.value}>{type.label}</option>
+                  ))}
+                  {formData.camera_type && !CAMERA_CONFIG.TYPES.some(type => type.value === formData.camera_type) && (
+                    <option value={formData.camera_type}>{formData.camera_type}</option>
+                  )}
+                </select>
+                {errors.camera_type && <span className="error-message">{errors.camera_type}</span>}
               </div>
 
               <div className="form-group">
                 <label htmlFor="film_format">Film Format</label>
-                <input
-                  type="text"
+                <select
                   id="film_format"
                   name="film_format"
                   value={formData.film_format}
                   onChange={handleInputChange}
-                  placeholder="e.g., 35mm, 120, 4x5"
-                />
+                  className={errors.film_format ? 'error' : ''}
+                >
+                  <option value="">Select a format</option>
+                  {CAMERA_CONFIG.FILM_FORMATS.map(format => (
+                    <option key={format.value} value={format.value}>{format.label}</option>
+                  ))}
+                  {formData.film_format && !CAMERA_CONFIG.FILM_FORMATS.some(format => format.value === formData.film_format) && (
+                    <option value={formData.film_format}>{formData.film_format}</option>
+                  )}
+                </select>
+                {errors.film_format && <span className="error-message">{errors.film_format}</span>}
               </div>
             </div>
           </div>
 
+          {/* Technical Specs */}
+          <div className="form-section">
+            <h2>Technical Specs (Optional)</h2>
+
+            <TechnicalSpecsFields
+              cameraType={formData.camera_type}
+              specs={formData.technical_specs}
+              errors={specErrors}
+              onChange={handleSpecChange}
+              disabled={isSubmitting}
+            />
+          </div>
+
           {/* Images */}
           <div className="form-section">
             <h2>Images</h2>
             
             <div className="image-upload-area">
-              <div className="image-previews">
-                {imagePreviewUrls.map((url, index) => (
-                  <div key={index} className="image-preview">
-                    <img src={url} alt={`Preview ${index + 1}`} />
-                    <button
-                      type="button"
-                      className="remove-image-btn"
-                      onClick={() => removeImage(index)}
-                    >
-                      <X size={16} />
-                    </button>
-                  </div>
-                ))}
-                
-                {selectedImages.length < 5 && (
-                  <button
-                    type="button"
-                    className="add-image-btn"
-                    onClick={() => fileInputRef.current?.click()}
-                  >
-                    <Upload size={24} />
-                    <span>Add Photo</span>
-                  </button>
-                )}
-              </div>
-              
-              <input
-                ref={fileInputRef}
-                type="file"
-                accept="image/jpeg,image/jpg,image/png,image/webp,image/gif"
-                onChange={handleImageSelect}
-                style={{ display: 'none' }}
-                multiple
+              <ImageUploadGrid
+                items={uploads.items}
+                onAddFiles={handleAddImages}
+                onCancel={uploads.cancel}
+                onRetry={uploads.retry}
+                onRemove={uploads.remove}
+                onReorder={uploads.reorder}
+                onSetPrimary={uploads.setPrimary}
+                maxFiles={CAMERA_CONFIG.MAX_IMAGES}
+                disabled={isSubmitting}
               />
               
-              <p className="image-help-text">Upload up to 5 photos of your camera</p>
+              <p className="image-help-text">Upload up to {CAMERA_CONFIG.MAX_IMAGES} photos. Drag to reorder and tap the star to choose the cover photo.</p>
             </div>
           </div>
 
@@ -369,7 +674,9 @@ export function AddCamera() {
                 onChange={handleInputChange}
                 rows={4}
                 placeholder="How did you acquire this camera? What's its history?"
+                className={errors.acquisition_story ? 'error' : ''}
               />
+              {errors.acquisition_story && <span className="error-message">{errors.acquisition_story}</span>}
             </div>
           </div>
 
@@ -389,7 +696,9 @@ export function AddCamera() {
                   placeholder="0"
                   min="0"
                   step="0.01"
+                  className={errors.market_value_min ? 'error' : ''}
                 />
+                {errors.market_value_min && <span className="error-message">{errors.market_value_min}</span>}
               </div>
 
               <div className="form-group">
@@ -403,7 +712,9 @@ export function AddCamera() {
                   placeholder="0"
                   min="0"
                   step="0.01"
+                  className={errors.market_value_max ? 'error' : ''}
                 />
+                {errors.market_value_max && <span className="error-message">{errors.market_value_max}</span>}
               </div>
             </div>
           </div>
@@ -450,7 +761,7 @@ export function AddCamera() {
             <button
               type="button"
               className="btn btn-secondary"
-              onClick={() => navigate(-1)}
+              onClick={handleLeave}
               disabled={isSubmitting}
             >
               Cancel
@@ -459,12 +770,17 @@ export function AddCamera() {
             <button
               type="submit"
               className="btn btn-primary"
-              disabled={isSubmitting}
+              disabled={isSubmitting || uploads.isUploading}
             >
               {isSubmitting ? (
                 <>
                   <div className="spinner-small" />
-                  <span>Adding Camera...</span>
+                  <span>{isEditMode ? 'Saving...' : 'Adding Camera...'}</span>
+                </>
+              ) : isEditMode ? (
+                <>
+                  <Save size={20} />
+                  <span>Save Changes</span>
                 </>
               ) : (
                 <>
@@ -0,0 +1,319 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { Link, generatePath, useNavigate, useParams } from 'react-router-dom';
+import { useUser } from '@clerk/clerk-react';
+import { useQueryClient } from '@tanstack/react-query';
+import { ArrowLeft, Edit, Eye, Film, Plus, Repeat } from 'lucide-react';
+import {
+  CameraGallery,
+  CameraHistoryEventModal,
+  CameraHistoryTimeline,
+  CameraOwnerCard,
+  CameraSpecsTable
+} from '@/components/camera';
+import { CommentSection } from '@/components/ui/CommentSection';
+import { LikeButton } from '@/components/ui/LikeButton';
+import { LoadingScreen } from '@/components/ui/LoadingScreen';
+import { TradeOfferModal } from '@/components/trade';
+import {
+  useCamera,
+  useCameraHistory,
+  useCameraRollCount,
+  useUserCameras,
+  useUser as useUserProfile
+} from '@/hooks/useOptimizedQueries';
+import { ROUTE_PATHS } from '@/constants';
+import { queryKeys } from '@/lib/react-query';
+import { cameraService } from '@/services/api/cameras.service';
+import { tradeService } from '@/services/api/trades.service';
+import { formatDate } from '@/utils/date.utils';
+import { formatCurrencyRange, snakeToReadable } from '@/utils/format.utils';
+import type { Camera, CameraHistoryEvent, CreateCameraHistoryEventData } from '@/types';
+
+// Enough to list a whole collection when picking cameras to offer
+const TRADE_CAMERAS_LIMIT = 100;
+
+/**
+ * Camera Detail Page Component
+ *
+ * Full view of a single camera: gallery, specs, history, value, owner and comments
+ */
+export function CameraDetail() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user } = useUser();
+  const queryClient = useQueryClient();
+
+  const { data: camera, isLoading, isError, error, refetch } = useCamera(id);
+  const { data: owner } = useUserProfile(camera?.user_id);
+  const [isTradeModalOpen, setIsTradeModalOpen] = useState(false);
+  const canProposeTrade = !!camera?.is_for_trade && !!user?.id && user.id !== camera.user_id;
+  const { data: myCameras, isLoading: isLoadingMyCameras } = useUserCameras(
+    canProposeTrade && isTradeModalOpen ? user?.id : undefined,
+    1,
+    TRADE_CAMERAS_LIMIT
+  );
+
+  const isOwner = !!user?.id && user.id === camera?.user_id;
+  const { data: history = [] } = useCameraHistory(camera?.id);
+  const { data: rollCount } = useCameraRollCount(isOwner ? camera?.id : undefined);
+  const [isHistoryModalOpen, setIsHistoryModalOpen] = useState(false);
+  const [editingEvent, setEditingEvent] = useState<CameraHistoryEvent | undefined>();
+  const historyUploadParams = useMemo(() => (user?.id ? { user_id: user.id } : undefined), [user?.id]);
+
+  const openHistoryModal = (event?: CameraHistoryEvent) => {
+    setEditingEvent(event);
+    setIsHistoryModalOpen(true);
+  };
+
+  const handleSaveHistoryEvent = useCallback(async (data: CreateCameraHistoryEventData) => {
+    await (editingEvent
+      ? cameraService.updateCameraHistoryEvent(id!, editingEvent.id, data)
+      : cameraService.addCameraHistoryEvent(id!, data));
+    await queryClient.invalidateQueries({ queryKey: queryKeys.cameras.history(id!) });
+  }, [editingEvent, id, queryClient]);
+
+  const handleDeleteHistoryEvent = useCallback(async (event: CameraHistoryEvent) => {
+    if (!confirm('Delete this event from the camera\'s history?')) {return;}
+    try {
+      await cameraService.deleteCameraHistoryEvent(id!, event.id);
+      await queryClient.invalidateQueries({ queryKey: queryKeys.cameras.history(id!) });
+    } catch (error) {
+      console.error('Error deleting history event:', error);
+      alert('Could not delete the event. Please try again.');
+    }
+  }, [id, queryClient]);
+
+  const handleToggleLike = useCallback(() => {
+    return cameraService.toggleCameraLike(id!);
+  }, [id]);
+
+  // Keep the cached camera in sync so navigating back shows the new count
+  const handleLikeChange = useCallback((isLiked: boolean, likeCount: number) => {
+    queryClient.setQueryData<Camera>(queryKeys.cameras.byId(id!), prev =>
+      prev ? { ...prev, is_liked: isLiked, like_count: likeCount } : prev
+    );
+  }, [id, queryClient]);
+
+  const handleProposeTrade = useCallback(async (cameraIds: string[], message: string) => {
+    await tradeService.createOffer({
+      target_camera_id: id!,
+      offered_camera_ids: cameraIds,
+      message: message || undefined,
+    });
+    await queryClient.invalidateQueries({ queryKey: queryKeys.trades.all });
+    navigate(`${ROUTE_PATHS.TRADES}?box=sent`);
+  }, [id, navigate, queryClient]);
+
+  if (isLoading) {
+    return <LoadingScreen message="Loading camera..." />;
+  }
+
+  if (isError || !camera) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-red-600">Error loading camera: {error?.message || 'Camera not found'}</p>
+        <button
+          onClick={() => refetch()}
+          className="mt-4 px-4 py-2 bg-orange-600 text-white rounded-md hover:bg-orange-700"
+        >
+          Try Again
+        </button>
+      </div>
+    );
+  }
+
+  const title = `${camera.brand_name} ${camera.model}`;
+  const valueRange = formatCurrencyRange(camera.market_value_min, camera.market_value_max);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-5xl mx-auto px-4 py-6">
+        <div className="flex items-center justify-between mb-4">
+          <button
+            onClick={() => navigate(-1)}
+            className="flex items-center gap-2 text-gray-600 hover:text-gray-900"
+          >
+            <ArrowLeft size={20} />
+            <span>Back</span>
+          </button>
+          {isOwner && (
+            <Link
+              to={generatePath(ROUTE_PATHS.EDIT_CAMERA, { id: camera.id })}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100"
+            >
+              <Edit size={16} />
+              <span>Edit</span>
+            </Link>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {/* Images */}
+          <CameraGallery images={camera.images || []} alt={title} />
+
+          {/* Summary */}
+          <div className="space-y-4">
+            <div>
+              <h1 className="text-2xl font-semibold text-gray-900">{title}</h1>
+              {camera.year && (
+                <p className="text-sm text-gray-600 mt-1">Year: {camera.year}</p>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-2 text-xs">
+              {camera.camera_type && (
+                <span className="bg-blue-100 text-blue-800 px-2 py-1 rounded">
+                  {snakeToReadable(camera.camera_type)}
+                </span>
+              )}
+              {camera.film_format && (
+                <span className="bg-green-100 text-green-800 px-2 py-1 rounded">
+                  {camera.film_format}
+                </span>
+              )}
+              {camera.condition && (
+                <span className="bg-yellow-100 text-yellow-800 px-2 py-1 rounded">
+                  {snakeToReadable(camera.condition)}
+                </span>
+              )}
+              {camera.is_for_sale && (
+                <span className="bg-red-100 text-red-800 px-2 py-1 rounded">
+                  For Sale
+                </span>
+              )}
+              {camera.is_for_trade && (
+                <span className="bg-purple-100 text-purple-800 px-2 py-1 rounded">
+                  For Trade
+                </span>
+              )}
+            </div>
+
+            {valueRange && (
+              <div className="p-4 bg-white rounded-lg shadow-sm">
+                <p className="text-xs uppercase tracking-wide text-gray-500">Estimated Market Value</p>
+                <p className="text-xl font-semibold text-gray-900 mt-1">{valueRange}</p>
+              </div>
+            )}
+
+            {canProposeTrade && (
+              <button
+                onClick={() => setIsTradeModalOpen(true)}
+                className="w-full flex items-center justify-center gap-2 px-4 py-2 text-white bg-orange-600 rounded-md hover:bg-orange-700"
+              >
+                <Repeat size={16} />
+                <span>Propose a Trade</span>
+              </button>
+            )}
+
+            {isOwner && camera.camera_type !== 'digital' && (
+              <Link
+                to={`${ROUTE_PATHS.ROLLS}?camera=${camera.id}`}
+                className="flex items-center justify-between p-4 bg-white rounded-lg shadow-sm hover:bg-gray-50"
+              >
+                <span className="flex items-center gap-2 text-gray-900">
+                  <Film size={16} />
+                  {rollCount ?? 0} {rollCount === 1 ? 'roll' : 'rolls'} logged
+                </span>
+                <span className="text-sm text-orange-700">View rolls</span>
+              </Link>
+            )}
+
+            <CameraOwnerCard
+              owner={owner}
+              fallbackUsername={camera.owner_username}
+              fallbackAvatar={camera.owner_avatar}
+            />
+
+            <div className="flex items-center justify-between py-2 border-t border-gray-200">
+              <LikeButton
+                cameraId={camera.id}
+                initialLikeCount={camera.like_count || 0}
+                initialIsLiked={camera.is_liked || false}
+                onToggle={handleToggleLike}
+                onLikeChange={handleLikeChange}
+              />
+              <div className="flex items-center gap-4 text-xs text-gray-500">
+                <span className="flex items-center gap-1">
+                  <Eye className="w-3 h-3" />
+                  {camera.view_count || 0} views
+                </span>
+                <span>Added {formatDate(camera.created_at)}</span>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Story */}
+        {camera.acquisition_story && (
+          <section className="mt-8 p-4 bg-white rounded-lg shadow-sm">
+            <h2 className="text-lg font-semibold text-gray-900 mb-2">Acquisition Story</h2>
+            <p className="text-gray-700 whitespace-pre-line">{camera.acquisition_story}</p>
+          </section>
+        )}
+
+        {/* History */}
+        {(history.length > 0 || isOwner) && (
+          <section className="mt-6 p-4 bg-white rounded-lg shadow-sm">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold text-gray-900">History</h2>
+              {isOwner && (
+                <button
+                  onClick={() => openHistoryModal()}
+                  className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100"
+                >
+                  <Plus size={16} />
+                  <span>Add Event</span>
+                </button>
+              )}
+            </div>
+            {history.length > 0 ? (
+              <CameraHistoryTimeline
+                events={history}
+                canEdit={isOwner}
+                onEdit={openHistoryModal}
+                onDelete={handleDeleteHistoryEvent}
+              />
+            ) : (
+              <p className="text-sm text-gray-500">
+                Record when you bought it, each CLA or repair, lens swaps and sales to build its provenance.
+              </p>
+            )}
+          </section>
+        )}
+
+        {/* Technical Specs */}
+        <section className="mt-6 p-4 bg-white rounded-lg shadow-sm">
+          <h2 className="text-lg font-semibold text-gray-900 mb-2">Technical Specs</h2>
+          <CameraSpecsTable specs={camera.technical_specs} cameraType={camera.camera_type} />
+        </section>
+
+        {/* Comments */}
+        <section className="mt-6">
+          <CommentSection cameraId={camera.id} currentUserId={user?.id} />
+        </section>
+      </div>
+
+      {isOwner && (
+        <CameraHistoryEventModal
+          isOpen={isHistoryModalOpen}
+          event={editingEvent}
+          uploadParams={historyUploadParams}
+          onSubmit={handleSaveHistoryEvent}
+          onClose={() => setIsHistoryModalOpen(false)}
+        />
+      )}
+
+      <TradeOfferModal
+        isOpen={isTradeModalOpen}
+        title="Propose a Trade"
+        cameras={myCameras?.items ?? []}
+        targetCamera={camera}
+        isLoadingCameras={isLoadingMyCameras}
+        onSubmit={handleProposeTrade}
+        onClose={() => setIsTradeModalOpen(false)}
+      />
+    </div>
+  );
+}
+
+export default CameraDetail;
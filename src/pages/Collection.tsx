@@ -1,17 +1,17 @@
-import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { 
   Clock, Edit2, Grid3x3, Hash, Heart, 
   Image, List, SortAsc,
   SortDesc, Upload
 } from 'lucide-react';
-import { useAuth, useUser } from '@clerk/clerk-react';
-import { useQuery } from '@tanstack/react-query';
+import { useUser } from '@clerk/clerk-react';
 import { useNavigate } from 'react-router-dom';
 import { OptimizedImage } from '@/components/ui/OptimizedImage';
 import { SocialActions } from '@/components/ui/SocialActions';
 import { CollectionLoadingScreen } from '@/components/ui/LoadingScreen';
-import { discussionService } from '@/services/api/discussions.service';
-import { userService } from '@/services/api/users.service';
+import { useInfiniteScroll } from '@/hooks';
+import { useInfiniteUserDiscussions } from '@/hooks/useOptimizedQueries';
+import { userLoader } from '@/services/api/users.loader';
 import type { Discussion, PageComponent } from '@/types';
 
 interface CollectionPost extends Discussion {
@@ -42,7 +42,6 @@ type ViewMode = 'grid' | 'list';
 export const Collection: PageComponent = () => {
   const navigate = useNavigate();
   const { user } = useUser();
-  const { getToken } = useAuth();
   
   // State management
   const [activeTab, setActiveTab] = useState<TabType>('my-photos');
@@ -93,27 +92,28 @@ export const Collection: PageComponent = () => {
     return postDate.toLocaleDateString();
   };
 
-  // Fetch user's discussions
-  const { data: userDiscussions, isLoading, isError, error, refetch } = useQuery({
-    queryKey: ['userDiscussions', user?.id],
-    queryFn: async () => {
-      if (!user?.id) {
-        return [];
-      }
-      const token = await getToken();
-      
-      try {
-        // Get user's discussions
-        const discussions = await discussionService.getUserDiscussions(user.id, token || undefined, {
-          sortBy: 'created_at',
-          sortOrder: 'desc'
-        });
-        
+  // Fetch user's discussions page by page
+  const {
+    data,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    isLoading,
+    isError,
+    error,
+    refetch
+  } = useInfiniteUserDiscussions<CollectionPost>(
+    user?.id,
+    { sortBy: 'created_at', sortOrder: 'desc' },
+    {
+      queryKey: ['userDiscussions', user?.id],
+      staleTime: 2 * 60 * 1000, // 2 minutes
+      mapPage: async (page) => {
         // Get user data for author info
-        const userData = await userService.getUserById(user.id, token || undefined);
-        
+        const userData = await userLoader.load(user!.id).catch(() => null);
+
         // Transform discussions with user data
-        const transformedDiscussions = discussions.map((discussion: Discussion): CollectionPost => {
+        const transformedDiscussions = page.items.map((discussion: Discussion): CollectionPost => {
           const extendedDiscussion = discussion as Discussion & { 
             content?: string; 
             username?: string; 
@@ -139,16 +139,15 @@ export const Collection: PageComponent = () => {
             category: discussion.category_name || 'General'
           };
         });
-        
-        return transformedDiscussions;
-      } catch (error) {
-        console.error('Error fetching user discussions:', error);
-        return [];
+
+        return { ...page, items: transformedDiscussions };
       }
-    },
-    enabled: !!user?.id,
-    staleTime: 2 * 60 * 1000, // 2 minutes
-  });
+    }
+  );
+
+  const userDiscussions = useMemo(() => data?.pages.flatMap(page => page.items), [data]);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  useInfiniteScroll(loadMoreRef, { hasNextPage, isFetchingNextPage, fetchNextPage });
 
   // Tab configuration
   const tabs = [
@@ -438,6 +437,22 @@ export const Collection: PageComponent = () => {
             ))}
           </div>
         )}
+
+        {/* Infinite scroll trigger */}
+        {hasNextPage && !isError && (
+          <div ref={loadMoreRef} className="py-4 text-center">
+            {isFetchingNextPage ? (
+              <p className="text-gray-500 text-sm">Loading more posts...</p>
+            ) : (
+              <button
+                onClick={() => fetchNextPage()}
+                className="text-orange-600 hover:text-orange-700 font-medium px-4 py-2 border border-orange-600 rounded-lg hover:bg-orange-50 transition-colors"
+              >
+                Load More Posts
+              </button>
+            )}
+          </div>
+        )}
       </div>
 
     </div>
@@ -0,0 +1,173 @@
+import { useMemo, useState } from 'react';
+import { Link, generatePath, useNavigate } from 'react-router-dom';
+import { ArrowLeft, GitCompare, X } from 'lucide-react';
+import { OptimizedImage } from '@/components/ui/OptimizedImage';
+import { useCompareTray, useComparedCameras } from '@/hooks';
+import { ROUTE_PATHS } from '@/constants';
+import { type ComparisonRow, buildComparisonRows } from '@/utils/compare.utils';
+import type { PageComponent } from '@/types';
+
+const SECTION_TITLES: Record<ComparisonRow['section'], string> = {
+  overview: 'Overview',
+  specs: 'Technical Specs',
+};
+
+/**
+ * Compare Page Component
+ *
+ * Side-by-side table of the cameras in the compare tray, highlighting rows
+ * where they differ
+ */
+export const Compare: PageComponent = () => {
+  const navigate = useNavigate();
+  const { remove, clear } = useCompareTray();
+  const { cameras, isFetching } = useComparedCameras();
+  const [onlyDifferences, setOnlyDifferences] = useState(false);
+
+  const rows = useMemo(() => buildComparisonRows(cameras), [cameras]);
+  const visibleRows = onlyDifferences ? rows.filter(row => row.differs) : rows;
+  const differenceCount = rows.filter(row => row.differs).length;
+
+  if (cameras.length < 2) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <div className="max-w-3xl mx-auto px-4 py-12 text-center text-gray-600">
+          <GitCompare size={48} className="mx-auto mb-3 text-gray-400" />
+          <p className="font-medium">Pick at least two cameras to compare</p>
+          <p className="text-sm mt-1">Use the compare button on any camera card to add it to the tray.</p>
+          <button
+            onClick={() => navigate(ROUTE_PATHS.MARKETPLACE)}
+            className="mt-4 px-4 py-2 bg-orange-600 text-white rounded-md hover:bg-orange-700"
+          >
+            Browse the Marketplace
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-6xl mx-auto px-4 py-6">
+        <div className="flex items-center justify-between gap-4 mb-4">
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => navigate(-1)}
+              className="p-1.5 text-gray-600 hover:text-gray-900"
+              aria-label="Go back"
+            >
+              <ArrowLeft size={20} />
+            </button>
+            <div>
+              <h1 className="text-2xl font-semibold text-gray-900">Compare Cameras</h1>
+              <p className="text-sm text-gray-600">
+                {differenceCount === 0
+                  ? 'These cameras match on every recorded detail'
+                  : `${differenceCount} ${differenceCount === 1 ? 'difference' : 'differences'} highlighted`}
+                {isFetching && ' · Refreshing...'}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-3 text-sm">
+            <label className="flex items-center gap-2 text-gray-700">
+              <input
+                type="checkbox"
+                checked={onlyDifferences}
+                onChange={e => setOnlyDifferences(e.target.checked)}
+              />
+              Only differences
+            </label>
+            <button onClick={clear} className="text-gray-500 hover:text-gray-700">
+              Clear all
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto bg-white rounded-lg shadow-sm">
+          <table className="w-full text-sm table-fixed">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th scope="col" className="w-40 p-3" />
+                {cameras.map(camera => {
+                  const image = camera.images?.find(img => img.is_primary) ?? camera.images?.[0];
+                  return (
+                    <th key={camera.id} scope="col" className="p-3 align-top text-left font-normal">
+                      <div className="relative aspect-square mb-2 rounded overflow-hidden bg-gray-200">
+                        {image ? (
+                          <OptimizedImage
+                            src={image.image_url}
+                            alt={`${camera.brand_name} ${camera.model}`}
+                            className="w-full h-full object-cover"
+                          />
+                        ) : (
+                          <span className="flex items-center justify-center w-full h-full text-gray-400">No Image</span>
+                        )}
+                        <button
+                          onClick={() => remove(camera.id)}
+                          className="absolute top-1 right-1 p-1 bg-black bg-opacity-60 text-white rounded-full"
+                          aria-label={`Remove ${camera.brand_name} ${camera.model} from comparison`}
+                        >
+                          <X size={14} />
+                        </button>
+                      </div>
+                      <Link
+                        to={generatePath(ROUTE_PATHS.CAMERA_DETAIL, { id: camera.id })}
+                        className="font-semibold text-gray-900 hover:underline"
+                      >
+                        {camera.brand_name} {camera.model}
+                      </Link>
+                      {camera.owner_username && (
+                        <p className="text-xs text-gray-500">@{camera.owner_username}</p>
+                      )}
+                    </th>
+                  );
+                })}
+              </tr>
+            </thead>
+            {(['overview', 'specs'] as const).map(section => {
+              const sectionRows = visibleRows.filter(row => row.section === section);
+              if (sectionRows.length === 0) {return null;}
+
+              return (
+                <tbody key={section}>
+                  <tr>
+                    <th
+                      scope="colgroup"
+                      colSpan={cameras.length + 1}
+                      className="px-3 pt-4 pb-2 text-left text-xs font-semibold uppercase tracking-wide text-gray-500"
+                    >
+                      {SECTION_TITLES[section]}
+                    </th>
+                  </tr>
+                  {sectionRows.map(row => (
+                    <tr
+                      key={row.key}
+                      className={`border-t border-gray-100 ${row.differs ? 'bg-amber-50' : ''}`}
+                    >
+                      <th scope="row" className="p-3 text-left font-medium text-gray-600 align-top">
+                        {row.label}
+                        {row.differs && <span className="sr-only"> (differs)</span>}
+                      </th>
+                      {row.values.map((value, index) => (
+                        <td
+                          key={cameras[index]!.id}
+                          className={`p-3 align-top ${row.differs ? 'text-gray-900 font-medium' : 'text-gray-700'}`}
+                        >
+                          {value}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              );
+            })}
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+Compare.displayName = 'Compare';
+
+export default Compare;
@@ -1,137 +1,178 @@
 import { useUser } from '@clerk/clerk-react'
-import { Camera, MessageSquare, TrendingUp, Users } from 'lucide-react'
-import { Link } from 'react-router-dom'
-import { useEffect, useState } from 'react'
+import { Camera, DollarSign, Download, Eye, FileText, Heart, Plus, Repeat, Tag, Upload } from 'lucide-react'
+import { Link, generatePath } from 'react-router-dom'
+import { useMemo } from 'react'
+import { AcquisitionChart, BreakdownChart } from '@/components/dashboard'
+import { LoadingScreen } from '@/components/ui/LoadingScreen'
+import { useUserCollection } from '@/hooks/useOptimizedQueries'
+import { ROUTE_PATHS } from '@/constants'
+import { computeCollectionStats } from '@/utils/analytics.utils'
+import { camerasToCsv, camerasToJson } from '@/utils/collectionTransfer.utils'
+import { downloadTextFile } from '@/utils/csv.utils'
+import { formatCurrencyRange, formatNumber } from '@/utils/format.utils'
+import type { Camera as CameraModel } from '@/types'
+import '@/css/pages/Dashboard.css'
 
+interface TopListProps {
+  title: string
+  cameras: CameraModel[]
+  metric: 'view_count' | 'like_count'
+}
+
+function TopList({ title, cameras, metric }: TopListProps) {
+  const Icon = metric === 'view_count' ? Eye : Heart
+
+  return (
+    <section className="dashboard-card">
+      <h2 className="dashboard-card__title">{title}</h2>
+      {cameras.length === 0 ? (
+        <p className="dashboard-card__empty">Nothing here yet</p>
+      ) : (
+        <ol className="top-list">
+          {cameras.map(camera => (
+            <li key={camera.id} className="top-list__item">
+              <Link to={generatePath(ROUTE_PATHS.CAMERA_DETAIL, { id: camera.id })}>
+                {camera.brand_name} {camera.model}
+              </Link>
+              <span className="top-list__metric">
+                <Icon size={14} />
+                {formatNumber(camera[metric] || 0)}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  )
+}
+
+/**
+ * Dashboard Page Component
+ *
+ * Analytics for the signed-in user's collection: value, composition,
+ * acquisitions over time and most popular cameras
+ */
 export function Dashboard() {
   const { user } = useUser()
-  const [stats, setStats] = useState({
-    cameras: 0,
-    discussions: 0,
-    followers: 0,
-    following: 0
-  })
+  const { data: cameras, isLoading, isError, error, refetch } = useUserCollection(user?.id)
+
+  const stats = useMemo(() => computeCollectionStats(cameras ?? []), [cameras])
+  const valueRange = stats.valuedCount > 0 ? formatCurrencyRange(stats.valueMin, stats.valueMax) : null
 
-  useEffect(() => {
-    // TODO: Fetch actual user stats from API
-    // For now, using mock data
-    setStats({
-      cameras: 3,
-      discussions: 12,
-      followers: 45,
-      following: 23
-    })
-  }, [])
+  const handleExport = (format: 'csv' | 'json') => {
+    if (!cameras?.length) {return}
+    const filename = `retrolens-collection-${new Date().toISOString().slice(0, 10)}.${format}`
+    if (format === 'csv') {
+      downloadTextFile(camerasToCsv(cameras), filename, 'text/csv;charset=utf-8')
+    } else {
+      downloadTextFile(camerasToJson(cameras), filename, 'application/json')
+    }
+  }
+
+  if (isLoading) {
+    return <LoadingScreen message="Loading your collection..." />
+  }
+
+  if (isError) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-red-600">Error loading your collection: {error?.message}</p>
+        <button
+          onClick={() => refetch()}
+          className="mt-4 px-4 py-2 bg-orange-600 text-white rounded-md hover:bg-orange-700"
+        >
+          Try Again
+        </button>
+      </div>
+    )
+  }
 
   return (
     <div className="dashboard">
       <div className="dashboard-header">
-        <h1>Welcome back, {user?.firstName || user?.username || 'User'}!</h1>
-        <p>Here's what's happening in your vintage camera world</p>
+        <div>
+          <h1>Welcome back, {user?.firstName || user?.username || 'User'}!</h1>
+          <p>Here's how your vintage camera collection stacks up</p>
+        </div>
+        <div className="dashboard-actions">
+          <button
+            type="button"
+            className="btn btn-secondary"
+            onClick={() => handleExport('csv')}
+            disabled={!cameras?.length}
+          >
+            <Download size={18} />
+            <span>Export CSV</span>
+          </button>
+          <button
+            type="button"
+            className="btn btn-secondary"
+            onClick={() => handleExport('json')}
+            disabled={!cameras?.length}
+          >
+            <Download size={18} />
+            <span>Export JSON</span>
+          </button>
+          <Link to={ROUTE_PATHS.INSURANCE_REPORT} className="btn btn-secondary">
+            <FileText size={18} />
+            <span>Insurance Report</span>
+          </Link>
+          <Link to={ROUTE_PATHS.IMPORT_CAMERAS} className="btn btn-secondary">
+            <Upload size={18} />
+            <span>Import CSV</span>
+          </Link>
+          <Link to={ROUTE_PATHS.ADD_CAMERA} className="btn btn-primary">
+            <Plus size={18} />
+            <span>Add Camera</span>
+          </Link>
+        </div>
       </div>
 
       <div className="dashboard-stats">
         <div className="stat-card">
           <Camera className="stat-icon" />
           <div className="stat-content">
-            <span className="stat-value">{stats.cameras}</span>
-            <span className="stat-label">Cameras</span>
+            <span className="stat-value">{stats.total}</span>
+            <span className="stat-label">{stats.total === 1 ? 'Camera' : 'Cameras'}</span>
           </div>
         </div>
         <div className="stat-card">
-          <MessageSquare className="stat-icon" />
+          <DollarSign className="stat-icon" />
           <div className="stat-content">
-            <span className="stat-value">{stats.discussions}</span>
-            <span className="stat-label">Discussions</span>
+            <span className="stat-value">{valueRange || '—'}</span>
+            <span className="stat-label">
+              Estimated value ({stats.valuedCount} of {stats.total} valued)
+            </span>
           </div>
         </div>
         <div className="stat-card">
-          <Users className="stat-icon" />
+          <Tag className="stat-icon" />
           <div className="stat-content">
-            <span className="stat-value">{stats.followers}</span>
-            <span className="stat-label">Followers</span>
+            <span className="stat-value">{stats.forSale}</span>
+            <span className="stat-label">For Sale</span>
           </div>
         </div>
         <div className="stat-card">
-          <TrendingUp className="stat-icon" />
+          <Repeat className="stat-icon" />
           <div className="stat-content">
-            <span className="stat-value">{stats.following}</span>
-            <span className="stat-label">Following</span>
+            <span className="stat-value">{stats.forTrade}</span>
+            <span className="stat-label">For Trade</span>
           </div>
         </div>
       </div>
 
-      <div className="quick-actions">
-        <h2>Quick Actions</h2>
-        <div className="action-buttons">
-          <Link to="/add-camera" className="action-btn">
-            <Camera size={24} />
-            <span>Add Camera</span>
-          </Link>
-          <Link to="/discover" className="action-btn">
-            <Users size={24} />
-            <span>Browse Collections</span>
-          </Link>
-          <Link to="/discussions" className="action-btn">
-            <MessageSquare size={24} />
-            <span>Join Discussions</span>
-          </Link>
-        </div>
-      </div>
+      <AcquisitionChart points={stats.acquisitions} className="dashboard-card--wide" />
 
-      <div className="dashboard-content">
-        <div className="recent-activity">
-          <h2>Recent Activity</h2>
-          <div className="activity-list">
-            <div className="activity-item">
-              <div className="activity-icon">
-                <Camera size={16} />
-              </div>
-              <div className="activity-content">
-                <p><strong>John Doe</strong> added a Leica M3 to their collection</p>
-                <span className="activity-time">2 hours ago</span>
-              </div>
-            </div>
-            <div className="activity-item">
-              <div className="activity-icon">
-                <MessageSquare size={16} />
-              </div>
-              <div className="activity-content">
-                <p><strong>Jane Smith</strong> started a discussion about film development</p>
-                <span className="activity-time">5 hours ago</span>
-              </div>
-            </div>
-            <div className="activity-item">
-              <div className="activity-icon">
-                <Users size={16} />
-              </div>
-              <div className="activity-content">
-                <p><strong>Mike Johnson</strong> started following you</p>
-                <span className="activity-time">1 day ago</span>
-              </div>
-            </div>
-          </div>
-        </div>
-
-        <div className="user-info-card">
-          <h2>Your Profile</h2>
-          <div className="profile-preview">
-            <img 
-              src={user?.imageUrl || 'https://via.placeholder.com/100'} 
-              alt="Profile" 
-              className="profile-avatar"
-            />
-            <div className="profile-details">
-              <h3>{user?.fullName}</h3>
-              <p className="profile-email">{user?.primaryEmailAddress?.emailAddress}</p>
-              <p className="profile-id">ID: {user?.id?.substring(0, 8)}...</p>
-            </div>
-          </div>
-          <Link to="/profile" className="btn btn-secondary">
-            Edit Profile
-          </Link>
-        </div>
+      <div className="dashboard-grid">
+        <BreakdownChart title="By Type" entries={stats.byType} total={stats.total} />
+        <BreakdownChart title="By Film Format" entries={stats.byFormat} total={stats.total} />
+        <BreakdownChart title="By Condition" entries={stats.byCondition} total={stats.total} />
+        <BreakdownChart title="By Brand" entries={stats.byBrand} total={stats.total} />
+        <TopList title="Most Viewed" cameras={stats.mostViewed} metric="view_count" />
+        <TopList title="Most Liked" cameras={stats.mostLiked} metric="like_count" />
       </div>
     </div>
   )
 }
+
+export default Dashboard
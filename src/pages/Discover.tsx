@@ -1,20 +1,22 @@
-import React, { useCallback, useMemo, useState } from 'react';
+import React, { useCallback, useMemo, useRef, useState } from 'react';
 import { Clock, Filter, Grid3x3, List, Shuffle, Sparkles, TrendingUp } from 'lucide-react';
 import { useAuth, useUser } from '@clerk/clerk-react';
-import { useInfiniteQuery, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useQuery } from '@tanstack/react-query';
 import { Link, useNavigate } from 'react-router-dom';
 import { SearchBar } from '@/components/ui';
 import { OptimizedImage } from '@/components/ui/OptimizedImage';
 import { SocialActions } from '@/components/ui/SocialActions';
 import { DiscussionCardSkeleton } from '@/components/ui/Skeletons';
 import { DiscoverLoadingScreen } from '@/components/ui/LoadingScreen';
-import { discussionService } from '@/services/api/discussions.service';
+import { userLoader } from '@/services/api/users.loader';
 import { userService } from '@/services/api/users.service';
-import { usePrefetchDiscussion, usePrefetchUser } from '@/hooks/useOptimizedQueries';
+import { useInfiniteScroll } from '@/hooks';
+import { useInfiniteDiscussions, usePrefetchDiscussion, usePrefetchUser } from '@/hooks/useOptimizedQueries';
 import { perf } from '@/utils/performance';
-import type { Discussion, PageComponent, UserProfile } from '@/types';
+import type { Discussion, PageComponent } from '@/types';
 
-const POSTS_PER_PAGE = 10;
+// Server page size; larger than a screenful since followed authors are filtered out
+const FETCH_PAGE_SIZE = 30;
 
 interface DiscoverPost extends Discussion {
   author?: {
@@ -44,8 +46,7 @@ type ViewMode = 'grid' | 'list' | 'compact';
 export const Discover: PageComponent = () => {
   const navigate = useNavigate();
   const { user } = useUser();
-  const { getToken, isSignedIn } = useAuth();
-  const queryClient = useQueryClient();
+  const { isSignedIn } = useAuth();
   
   // State management
   const [searchQuery, setSearchQuery] = useState('');
@@ -58,6 +59,9 @@ export const Discover: PageComponent = () => {
   const prefetchUser = usePrefetchUser();
   const prefetchDiscussion = usePrefetchDiscussion();
 
+  // Intersection observer for infinite scroll
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
   // Categories configuration
   const categories: { value: Category; label: string; icon?: React.ReactNode }[] = [
     { value: 'all', label: 'All' },
@@ -102,9 +106,8 @@ export const Discover: PageComponent = () => {
       if (!user?.id || !isSignedIn) {
         return [];
       }
-      const token = await getToken();
       try {
-        const following = await userService.getUserFollowing(user.id, token || undefined);
+        const following = await userService.getUserFollowing(user.id);
         return following;
       } catch (error) {
         console.error('Error fetching following list:', error);
@@ -115,7 +118,8 @@ export const Discover: PageComponent = () => {
     staleTime: 5 * 60 * 1000, // 5 minutes
   });
 
-  // Use infinite query for pagination to get discover posts
+  // Server pages drive the infinite scroll; each page excludes followed authors and is enriched
+  const followingIds = followingUsers?.map(u => u.id);
   const {
     data,
     fetchNextPage,
@@ -125,124 +129,65 @@ export const Discover: PageComponent = () => {
     isError,
     error,
     refetch
-  } = useInfiniteQuery({
-    queryKey: ['discover', sortBy, followingUsers?.map(u => u.id), user?.id, isSignedIn],
-    queryFn: async ({ pageParam = 0 }) => {
-      perf.mark('discover-fetch');
-      const token = isSignedIn ? await getToken() : null;
-      
-      // Get the IDs of users being followed (only if signed in)
-      const followingIds = isSignedIn && followingUsers ? followingUsers.map(u => u.id) : [];
-      
-      // Also exclude the current user from discover (they see their own posts in feed) - only if signed in
-      if (isSignedIn && user?.id && !followingIds.includes(user.id)) {
-        followingIds.push(user.id);
-      }
-      
-      // Fetch all discussions
-      const allDiscussions = await discussionService.getAllDiscussions(token || undefined, {
-        limit: 100, // Fetch more to account for filtering
-        page: pageParam,
-        sortBy: sortBy === 'recent' ? 'created_at' : sortBy === 'popular' ? 'view_count' : 'created_at',
-        sortOrder: 'desc'
-      });
-      
-      // Filter discussions based on user authentication status
-      let discussions: Discussion[];
-      if (isSignedIn) {
-        // For signed-in users: filter out posts from users they're following
-        discussions = allDiscussions.filter((d: Discussion) => 
-          !followingIds.includes(d.user_id)
-        ).slice(0, POSTS_PER_PAGE) as Discussion[];
-      } else {
-        // For guest users: show all posts
-        discussions = allDiscussions.slice(0, POSTS_PER_PAGE) as Discussion[];
-      }
-      
-      // Get unique user IDs and check cache first
-      const userIds = [...new Set(discussions.map((d: Discussion) => d.user_id).filter(Boolean))];
-      const usersMap = new Map();
-      
-      // Only fetch users that aren't in cache
-      const uncachedUserIds: string[] = [];
-      for (const userId of userIds) {
-        const cachedUser = queryClient.getQueryData(['users', userId]) as UserProfile | undefined;
-        if (cachedUser) {
-          usersMap.set(userId, cachedUser);
-        } else {
-          uncachedUserIds.push(userId);
+  } = useInfiniteDiscussions<DiscoverPost>(
+    {
+      sortBy: sortBy === 'recent' ? 'created_at' : sortBy === 'popular' ? 'view_count' : 'created_at',
+      sortOrder: 'desc'
+    },
+    {
+      queryKey: ['discover', sortBy, followingIds, user?.id, isSignedIn],
+      limit: FETCH_PAGE_SIZE,
+      staleTime: 2 * 60 * 1000, // 2 minutes
+      enabled: isSignedIn ? (!!user?.id && followingUsers !== undefined) : true, // For guests: always enabled, for signed-in: wait for following list
+      mapPage: async (page) => {
+        perf.mark('discover-fetch');
+
+        // Signed-in users don't see posts from people they follow, or their own (those are in the feed)
+        const excludedIds = new Set(isSignedIn ? followingIds : []);
+        if (isSignedIn && user?.id) {
+          excludedIds.add(user.id);
         }
-      }
-      
-      // Batch fetch only uncached users (max 5 at a time to avoid timeouts)
-      if (uncachedUserIds.length > 0) {
-        const batchSize = 5;
-        for (let i = 0; i < uncachedUserIds.length; i += batchSize) {
-          const batch = uncachedUserIds.slice(i, i + batchSize);
-          const batchPromises = batch.map(async (userId) => {
-            try {
-              const userData = await userService.getUserById(userId, token || undefined);
-              // Cache the user data
-              queryClient.setQueryData(['users', userId], userData);
-              return { userId, data: userData };
-            } catch (_error) {
-              // Don't log errors for missing users, it's expected
-              return { userId, data: null };
-            }
-          });
+        const discussions = page.items.filter(d => !excludedIds.has(d.user_id));
+
+        // Author profiles, batched and cached by the user loader
+        const usersMap = await userLoader.loadMany(discussions.map(d => d.user_id));
+
+        // Transform discussions with user data
+        const transformedDiscussions = discussions.map((discussion: Discussion) => {
+          const userData = usersMap.get(discussion.user_id);
+          const bodyContent = (discussion as any).content || discussion.body || '';
+          const extractedImages = extractImagesFromBody(bodyContent);
+          const cleanContent = removeImagesFromContent(bodyContent);
           
-          const batchResults = await Promise.allSettled(batchPromises);
-          batchResults.forEach((result) => {
-            if (result.status === 'fulfilled' && result.value.data) {
-              usersMap.set(result.value.userId, result.value.data);
-            }
-          });
-        }
-      }
-      
-      // Transform discussions with user data
-      const transformedDiscussions = discussions.map((discussion: Discussion) => {
-        const userData = usersMap.get(discussion.user_id);
-        const bodyContent = (discussion as any).content || discussion.body || '';
-        const extractedImages = extractImagesFromBody(bodyContent);
-        const cleanContent = removeImagesFromContent(bodyContent);
+          return {
+            ...discussion,
+            author: {
+              username: userData?.display_name || userData?.username || (discussion as any).username || 'Anonymous',
+              avatar: userData?.avatar_url || '/default-avatar.jpg'
+            },
+            images: ((discussion as any).images && (discussion as any).images.length > 0) ? (discussion as any).images : extractedImages,
+            content: cleanContent,
+            stats: {
+              views: discussion.view_count || 0,
+              replies: discussion.comment_count || 0,
+              likes: discussion.like_count || 0
+            },
+            category: discussion.category_name || 'General'
+          };
+        });
         
-        return {
-          ...discussion,
-          author: {
-            username: userData?.display_name || userData?.username || (discussion as any).username || 'Anonymous',
-            avatar: userData?.avatar_url || (userData as any)?.image_url || '/default-avatar.jpg'
-          },
-          images: ((discussion as any).images && (discussion as any).images.length > 0) ? (discussion as any).images : extractedImages,
-          content: cleanContent,
-          stats: {
-            views: discussion.view_count || 0,
-            replies: discussion.comment_count || 0,
-            likes: discussion.like_count || 0
-          },
-          category: discussion.category_name || 'General'
-        };
-      });
-      
-      perf.measure('discover-fetch');
-      return transformedDiscussions;
-    },
-    initialPageParam: 0,
-    getNextPageParam: (lastPage: DiscoverPost[], pages: DiscoverPost[][]) => {
-      if (lastPage.length < POSTS_PER_PAGE) {
-        return undefined;
-      }
-      return pages.length;
-    },
-    staleTime: 2 * 60 * 1000, // 2 minutes
-    gcTime: 5 * 60 * 1000, // 5 minutes
-    enabled: isSignedIn ? (!!user?.id && followingUsers !== undefined) : true, // For guests: always enabled, for signed-in: wait for following list
-  });
+        perf.measure('discover-fetch');
+        return { ...page, items: transformedDiscussions };
+      },
+    }
+  );
+
+  useInfiniteScroll(loadMoreRef, { hasNextPage, isFetchingNextPage, fetchNextPage });
 
   // Filter discussions based on search and category
   const filteredDiscussions = useMemo(() => {
     // Flatten all pages of discussions
-    const allDiscussions = (data?.pages.flat() || []) as DiscoverPost[];
+    const allDiscussions = data?.pages.flatMap(page => page.items) || [];
     let filtered = [...allDiscussions];
 
     // Apply search filter
@@ -633,7 +578,7 @@ export const Discover: PageComponent = () => {
 
             {/* Infinite scroll trigger */}
             {hasNextPage && (
-              <div className="py-4">
+              <div ref={loadMoreRef} className="py-4">
                 {isFetchingNextPage ? (
                   <DiscussionCardSkeleton />
                 ) : (
@@ -1,7 +1,7 @@
 import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { useAuth, useUser } from '@clerk/clerk-react';
-import { useInfiniteQuery, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useUser } from '@clerk/clerk-react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import {
   Clock,
   Edit,
@@ -17,17 +17,24 @@ import {
 
 import { queryKeys } from '@/lib/react-query';
 import { discussionService } from '@/services/api/discussions.service';
+import { uploadService } from '@/services/api/upload.service';
+import { userLoader } from '@/services/api/users.loader';
 import { userService } from '@/services/api/users.service';
+import { outboxService, outboxTargets } from '@/services/outbox';
 import { DiscussionCardSkeleton } from '@/components/ui/Skeletons';
 import { FeedLoadingScreen } from '@/components/ui/LoadingScreen';
 import { OptimizedImage } from '@/components/ui/OptimizedImage';
+import { OutboxIndicator } from '@/components/ui/OutboxIndicator';
 import { SocialActions } from '@/components/ui/SocialActions';
 import EditDiscussionModal from '@/components/ui/EditDiscussionModal';
-import { usePrefetchDiscussion, usePrefetchUser } from '@/hooks/useOptimizedQueries';
+import { useInfiniteScroll, useOutbox } from '@/hooks';
+import { useInfiniteDiscussions, usePrefetchDiscussion, usePrefetchUser } from '@/hooks/useOptimizedQueries';
+import { handleApiError } from '@/utils';
 import { perf, throttle } from '@/utils/performance';
-import type { Discussion, UserProfile } from '@/types';
+import type { Discussion } from '@/types';
 
-const POSTS_PER_PAGE = 10;
+// Server page size; larger than a screenful since pages are narrowed to followed authors
+const FETCH_PAGE_SIZE = 30;
 
 interface FeedPost extends Discussion {
   author?: {
@@ -48,11 +55,11 @@ interface FeedPost extends Discussion {
 const FeedOptimizedV2: React.FC = () => {
   const navigate = useNavigate();
   const { user } = useUser();
-  const { getToken } = useAuth();
   const queryClient = useQueryClient();
   const [sortBy, setSortBy] = useState<'created_at' | 'view_count' | 'comment_count'>('created_at');
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [isCreatingPost, setIsCreatingPost] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
   const [createForm, setCreateForm] = useState({
     description: '',
     imageFile: null as File | null,
@@ -64,6 +71,7 @@ const FeedOptimizedV2: React.FC = () => {
   const [editingDiscussion, setEditingDiscussion] = useState<FeedPost | null>(null);
   const [hiddenPosts, setHiddenPosts] = useState<Set<string>>(new Set());
   const [showMenuForPost, setShowMenuForPost] = useState<string | null>(null);
+  const { entries: queuedPosts } = useOutbox(outboxTargets.posts(user?.id ?? ''));
   
   // Prefetch hooks for instant navigation
   const prefetchUser = usePrefetchUser();
@@ -96,9 +104,8 @@ const FeedOptimizedV2: React.FC = () => {
     queryKey: ['following', user?.id],
     queryFn: async () => {
       if (!user?.id) {return [];}
-      const token = await getToken();
       try {
-        const following = await userService.getUserFollowing(user.id, token || undefined);
+        const following = await userService.getUserFollowing(user.id);
         // Following users loaded: following.length
         return following;
       } catch (error) {
@@ -110,7 +117,8 @@ const FeedOptimizedV2: React.FC = () => {
     staleTime: 5 * 60 * 1000, // 5 minutes
   });
 
-  // Use infinite query for pagination
+  // Server pages drive the infinite scroll; each page is narrowed to followed authors and enriched
+  const followingIds = followingUsers?.map(u => u.id);
   const {
     data,
     fetchNextPage,
@@ -120,138 +128,63 @@ const FeedOptimizedV2: React.FC = () => {
     isError,
     error,
     refetch
-  } = useInfiniteQuery({
-    queryKey: ['feed', sortBy, followingUsers?.map(u => u.id), user?.id],
-    queryFn: async ({ pageParam = 0 }) => {
-      perf.mark('feed-fetch');
-      const token = await getToken();
-      
-      // Get the IDs of users being followed, including the current user
-      const followingIds = followingUsers ? followingUsers.map(u => u.id) : [];
-      
-      // Always include the current user's posts in their feed
-      if (user?.id && !followingIds.includes(user.id)) {
-        followingIds.push(user.id);
-      }
-      
-      // If no users to show posts from (shouldn't happen if user is logged in)
-      if (followingIds.length === 0) {
-        perf.measure('feed-fetch');
-        return [];
-      }
-      
-      // Fetch all discussions (we'll filter them client-side for now)
-      // In a production app, you'd want to filter server-side
-      const allDiscussions = await discussionService.getAllDiscussions(token || undefined, {
-        limit: 100, // Fetch more to account for filtering
-        page: pageParam,
-        sortBy: sortBy as any,
-        sortOrder: 'desc'
-      });
-      
-      // Filter discussions to only those from followed users
-      const discussions = allDiscussions.filter((d: any) => 
-        followingIds.includes(d.user_id)
-      ).slice(0, POSTS_PER_PAGE) as Discussion[];
-      
-      // Get unique user IDs and check cache first
-      const userIds = [...new Set(discussions.map((d: any) => d.user_id).filter(Boolean))];
-      const usersMap = new Map();
-      
-      // Only fetch users that aren't in cache
-      const uncachedUserIds: string[] = [];
-      for (const userId of userIds) {
-        const cachedUser = queryClient.getQueryData(['users', userId]) as UserProfile | undefined;
-        if (cachedUser) {
-          usersMap.set(userId, cachedUser);
-        } else {
-          uncachedUserIds.push(userId);
-        }
-      }
-      
-      // Batch fetch only uncached users (max 5 at a time to avoid timeouts)
-      if (uncachedUserIds.length > 0) {
-        const batchSize = 5;
-        for (let i = 0; i < uncachedUserIds.length; i += batchSize) {
-          const batch = uncachedUserIds.slice(i, i + batchSize);
-          const batchPromises = batch.map(async (userId) => {
-            try {
-              const userData = await userService.getUserById(userId, token || undefined);
-              // Cache the user data
-              queryClient.setQueryData(['users', userId], userData);
-              return { userId, data: userData };
-            } catch (_error) {
-              // Don't log errors for missing users, it's expected
-              return { userId, data: null };
-            }
-          });
-          
-          const batchResults = await Promise.allSettled(batchPromises);
-          batchResults.forEach((result) => {
-            if (result.status === 'fulfilled' && result.value.data) {
-              usersMap.set(result.value.userId, result.value.data);
-            }
-          });
+  } = useInfiniteDiscussions<FeedPost>(
+    { sortBy, sortOrder: 'desc' },
+    {
+      queryKey: ['feed', sortBy, followingIds, user?.id],
+      limit: FETCH_PAGE_SIZE,
+      staleTime: 2 * 60 * 1000, // 2 minutes
+      enabled: !!user?.id && !!followingUsers, // Only run if user is logged in and we have following list
+      mapPage: async (page) => {
+        perf.mark('feed-fetch');
+
+        // Always include the current user's posts in their feed
+        const feedAuthorIds = new Set(followingIds);
+        if (user?.id) {
+          feedAuthorIds.add(user.id);
         }
-      }
-      
-      // Transform discussions with user data
-      const transformedDiscussions = discussions.map((discussion: any) => {
-        const userData = usersMap.get(discussion.user_id);
-        const bodyContent = discussion.content || discussion.body || '';
-        const extractedImages = extractImagesFromBody(bodyContent);
-        const cleanContent = removeImagesFromContent(bodyContent);
-        
-        return {
-          ...discussion,
-          author: {
-            username: userData?.display_name || userData?.username || discussion.username || 'Anonymous',
-            avatar: userData?.avatar_url || userData?.image_url || '/default-avatar.jpg'
-          },
-          images: (discussion.images && discussion.images.length > 0) ? discussion.images : extractedImages,
-          content: cleanContent,
-          stats: {
-            views: discussion.view_count || 0,
-            replies: discussion.comment_count || 0,
-            likes: discussion.like_count || 0
-          },
-          category: discussion.category_name || 'General'
-        };
-      });
-      
-      perf.measure('feed-fetch');
-      return transformedDiscussions;
-    },
-    initialPageParam: 0,
-    getNextPageParam: (lastPage: any, pages: any[]) => {
-      if (lastPage.length < POSTS_PER_PAGE) {return undefined;}
-      return pages.length;
-    },
-    staleTime: 2 * 60 * 1000, // 2 minutes
-    gcTime: 5 * 60 * 1000, // 5 minutes
-    enabled: !!user?.id && !!followingUsers, // Only run if user is logged in and we have following list
-  });
 
-  // Flatten all pages of discussions and filter out hidden posts
-  const allDiscussions = (data?.pages.flat() || []).filter(discussion => !hiddenPosts.has(discussion.id));
+        // Filter discussions to only those from followed users
+        const discussions = page.items.filter(d => feedAuthorIds.has(d.user_id));
 
-  // Set up infinite scroll
-  useEffect(() => {
-    if (!loadMoreRef.current || !hasNextPage || isFetchingNextPage) {return;}
+        // Author profiles, batched and cached by the user loader
+        const usersMap = await userLoader.loadMany(discussions.map(d => d.user_id));
 
-    const observer = new IntersectionObserver(
-      (entries) => {
-        if (entries[0].isIntersecting) {
-          fetchNextPage();
-        }
+        // Transform discussions with user data
+        const transformedDiscussions = discussions.map((discussion: any) => {
+          const userData = usersMap.get(discussion.user_id);
+          const bodyContent = discussion.content || discussion.body || '';
+          const extractedImages = extractImagesFromBody(bodyContent);
+          const cleanContent = removeImagesFromContent(bodyContent);
+          
+          return {
+            ...discussion,
+            author: {
+              username: userData?.display_name || userData?.username || discussion.username || 'Anonymous',
+              avatar: userData?.avatar_url || '/default-avatar.jpg'
+            },
+            images: (discussion.images && discussion.images.length > 0) ? discussion.images : extractedImages,
+            content: cleanContent,
+            stats: {
+              views: discussion.view_count || 0,
+              replies: discussion.comment_count || 0,
+              likes: discussion.like_count || 0
+            },
+            category: discussion.category_name || 'General'
+          };
+        });
+        
+        perf.measure('feed-fetch');
+        return { ...page, items: transformedDiscussions };
       },
-      { threshold: 0.1, rootMargin: '100px' }
-    );
+    }
+  );
 
-    observer.observe(loadMoreRef.current);
+  // Flatten all pages of discussions and filter out hidden posts
+  const allDiscussions = (data?.pages.flatMap(page => page.items) || []).filter(discussion => !hiddenPosts.has(discussion.id));
 
-    return () => observer.disconnect();
-  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+  // Set up infinite scroll
+  useInfiniteScroll(loadMoreRef, { hasNextPage, isFetchingNextPage, fetchNextPage });
 
   // Prefetch on hover for instant navigation
   const handleMouseEnterDiscussion = useCallback((discussionId: string) => {
@@ -350,8 +283,7 @@ const FeedOptimizedV2: React.FC = () => {
     if (!user?.id) {return;}
 
     try {
-      const token = await getToken();
-      await discussionService.updateDiscussion(discussionId, user.id, data, token || undefined);
+      await discussionService.updateDiscussion(discussionId, user.id, data);
       
       // Invalidate queries to refresh feed
       queryClient.invalidateQueries({ queryKey: ['feed'] });
@@ -366,8 +298,7 @@ const FeedOptimizedV2: React.FC = () => {
     if (!user?.id) {return;}
 
     try {
-      const token = await getToken();
-      await discussionService.deleteDiscussion(discussionId, user.id, token || undefined);
+      await discussionService.deleteDiscussion(discussionId, user.id);
       
       // Invalidate queries to refresh feed
       queryClient.invalidateQueries({ queryKey: ['feed'] });
@@ -383,6 +314,19 @@ const FeedOptimizedV2: React.FC = () => {
     setShowMenuForPost(null);
   };
 
+  // Clean up and close the create modal
+  const closeCreateModal = () => {
+    if (createForm.imagePreview) {
+      URL.revokeObjectURL(createForm.imagePreview);
+    }
+    setCreateForm({
+      description: '',
+      imageFile: null,
+      imagePreview: null
+    });
+    setShowCreateModal(false);
+  };
+
   // Handle create post submission
   const handleCreatePost = async () => {
     if (!createForm.imageFile || !createForm.description.trim()) {
@@ -390,42 +334,39 @@ const FeedOptimizedV2: React.FC = () => {
       return;
     }
     
+    // Offline posts wait in the outbox with their photo and appear once sent
+    const title = createForm.description.substring(0, 100) || 'New camera photo';
+    const queuePost = (userId: string) => {
+      outboxService.enqueue({
+        type: 'createDiscussion',
+        userId,
+        data: { title, tags: [] },
+        image: createForm.imageFile ?? undefined,
+      });
+      closeCreateModal();
+    };
+    if (user && outboxService.shouldQueue()) {
+      queuePost(user.id);
+      return;
+    }
+
     setIsCreatingPost(true);
     try {
-      const token = await getToken();
       let imageUrl = '';
       
       // Upload image first using the correct endpoint from API docs
       if (createForm.imageFile) {
-        const formData = new FormData();
-        formData.append('file', createForm.imageFile);
-        
-        // Using /api/v1/upload/camera-image endpoint as per API docs
-        const uploadResponse = await fetch(
-          `${import.meta.env.VITE_API_URL || 'http://localhost:8000'}/api/v1/upload/camera-image${user?.id ? `?user_id=${user.id}` : ''}`,
-          {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${token}`
-            },
-            body: formData
-          }
-        );
-        
-        if (!uploadResponse.ok) {
-          const errorData = await uploadResponse.text();
-          console.error('Upload failed:', errorData);
-          throw new Error('Failed to upload image');
-        }
-        
-        const uploadData = await uploadResponse.json();
-        imageUrl = uploadData.url || uploadData.image_url || '';
+        setUploadProgress(0);
+        const uploaded = await uploadService.uploadCameraImage(createForm.imageFile, user?.id, {
+          onProgress: setUploadProgress,
+        });
+        imageUrl = uploaded.url;
       }
       
       // Create the discussion/post using the correct endpoint and body structure
       // Note: API uses 'content' field, not 'body' as shown in the error
       const discussionData = {
-        title: createForm.description.substring(0, 100) || 'New camera photo',
+        title,
         content: imageUrl ? `![Camera Photo](${imageUrl})` : createForm.description,
         tags: [],  // No hardcoded tags - let users add their own if needed
         // Note: category_id should be a UUID, not a name. We'll omit it for now
@@ -433,47 +374,28 @@ const FeedOptimizedV2: React.FC = () => {
       };
       
       // Using /api/v1/discussions/ endpoint with user_id as query param as per API docs
-      const response = await fetch(
-        `${import.meta.env.VITE_API_URL || 'http://localhost:8000'}/api/v1/discussions/?user_id=${user?.id}`,
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify(discussionData)
-        }
-      );
-      
-      if (!response.ok) {
-        const errorData = await response.text();
-        console.error('Create discussion failed:', errorData);
-        throw new Error('Failed to create post');
-      }
+      await discussionService.createDiscussion(discussionData, user?.id);
       
       // Invalidate queries to refresh feed
       queryClient.invalidateQueries({ queryKey: ['feed'] });
       queryClient.invalidateQueries({ queryKey: queryKeys.discussions.all });
       
-      // Clean up and close modal
-      if (createForm.imagePreview) {
-        URL.revokeObjectURL(createForm.imagePreview);
-      }
-      setCreateForm({
-        description: '',
-        imageFile: null,
-        imagePreview: null
-      });
-      setShowCreateModal(false);
+      closeCreateModal();
       
       // Refresh the feed
       refetch();
       
     } catch (error) {
+      // The connection dropped mid-post; keep it for when it returns
+      if (user && handleApiError(error).status === 0) {
+        queuePost(user.id);
+        return;
+      }
       console.error('Error creating post:', error);
       alert('Failed to create post. Please try again.');
     } finally {
       setIsCreatingPost(false);
+      setUploadProgress(null);
     }
   };
 
@@ -734,7 +656,9 @@ const FeedOptimizedV2: React.FC = () => {
                   {isCreatingPost ? (
                     <>
                       <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
-                      Publishing...
+                      {uploadProgress !== null && uploadProgress < 100
+                        ? `Uploading ${uploadProgress}%...`
+                        : 'Publishing...'}
                     </>
                   ) : (
                     'Publish'
@@ -792,6 +716,24 @@ const FeedOptimizedV2: React.FC = () => {
 
       {/* Main Content */}
       <main className="max-w-2xl mx-auto px-4 py-6">
+        {/* Posts waiting in the outbox */}
+        {queuedPosts.length > 0 && (
+          <div className="space-y-3 mb-4">
+            {queuedPosts.map(entry => entry.mutation.type === 'createDiscussion' && (
+              <div
+                key={entry.id}
+                className="flex items-center justify-between gap-3 p-4 bg-white border border-dashed border-gray-300 rounded-lg"
+              >
+                <div className="min-w-0">
+                  <p className="text-xs font-medium text-gray-500">Your post</p>
+                  <p className="text-gray-900 truncate">{entry.mutation.data.title}</p>
+                </div>
+                <OutboxIndicator entry={entry} />
+              </div>
+            ))}
+          </div>
+        )}
+
         {isError ? (
           <div className="text-center py-12">
             <p className="text-red-600">Error loading feed: {error?.message}</p>
@@ -0,0 +1,378 @@
+import React, { useMemo, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { AlertCircle, ArrowLeft, CheckCircle, FileUp, Upload } from 'lucide-react';
+import { useQueryClient } from '@tanstack/react-query';
+import { ROUTE_PATHS } from '@/constants';
+import { queryKeys } from '@/lib/react-query';
+import { cameraService } from '@/services/api/cameras.service';
+import {
+  type ColumnMapping,
+  IMPORT_FIELDS,
+  type ImportFailure,
+  type ImportSummary,
+  bulkCreateCameras,
+  guessColumnMapping,
+  isCollectionExport,
+  parseImportRows
+} from '@/utils/collectionTransfer.utils';
+import { parseCsv } from '@/utils/csv.utils';
+import type { CreateCameraData, PageComponent } from '@/types';
+
+type WizardStep = 'upload' | 'map' | 'preview' | 'importing' | 'done';
+
+const STEP_LABELS: Array<[WizardStep, string]> = [
+  ['upload', 'Upload'],
+  ['map', 'Map columns'],
+  ['preview', 'Review'],
+  ['done', 'Import'],
+];
+
+const PREVIEW_ROW_LIMIT = 200;
+
+/**
+ * Import Cameras Page Component
+ *
+ * CSV import wizard: upload a file, map its columns to camera fields, review
+ * row errors, then create the valid rows one by one
+ */
+export const ImportCameras: PageComponent = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [progress, setProgress] = useState({ completed: 0, total: 0 });
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+
+  const results = useMemo(
+    () => (step === 'upload' || step === 'map' ? [] : parseImportRows(dataRows, mapping, isCollectionExport(headers))),
+    [step, dataRows, mapping, headers]
+  );
+  const validRows = results.filter(
+    (row): row is { rowNumber: number; data: CreateCameraData; errors: string[] } => row.data !== null
+  );
+  const invalidRows = results.filter(row => row.errors.length > 0);
+  const missingRequired = IMPORT_FIELDS.filter(field => field.required && mapping[field.key] === undefined);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) {return;}
+
+    setFileError(null);
+    try {
+      const rows = parseCsv(await file.text());
+      if (rows.length < 2) {
+        setFileError('The file needs a header row and at least one camera.');
+        return;
+      }
+      const [headerRow, ...rest] = rows;
+      setFileName(file.name);
+      setHeaders(headerRow!);
+      setDataRows(rest);
+      setMapping(guessColumnMapping(headerRow!));
+      setStep('map');
+    } catch (error) {
+      console.error('Failed to read CSV file:', error);
+      setFileError('Could not read that file. Please choose a CSV file.');
+    }
+  };
+
+  const handleMappingChange = (key: keyof CreateCameraData) => (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = e.target.value;
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') {
+        delete next[key];
+      } else {
+        next[key] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  const runImport = async (rows: Array<{ rowNumber: number; data: CreateCameraData }>, isRetry = false) => {
+    setStep('importing');
+    setProgress({ completed: 0, total: rows.length });
+
+    const outcome = await bulkCreateCameras(
+      rows,
+      data => cameraService.createCamera(data),
+      (completed, total) => setProgress({ completed, total })
+    );
+
+    setSummary(prev => prev && isRetry
+      ? { created: [...prev.created, ...outcome.created], failures: outcome.failures }
+      : outcome
+    );
+    if (outcome.created.length > 0) {
+      queryClient.invalidateQueries({ queryKey: queryKeys.cameras.all });
+    }
+    setStep('done');
+  };
+
+  const handleRetryFailed = (failures: ImportFailure[]) => {
+    runImport(failures.map(({ rowNumber, data }) => ({ rowNumber, data })), true);
+  };
+
+  const handleStartOver = () => {
+    setStep('upload');
+    setFileName('');
+    setHeaders([]);
+    setDataRows([]);
+    setMapping({});
+    setSummary(null);
+  };
+
+  const sampleFor = (column: number | undefined) =>
+    column === undefined ? '' : dataRows.find(row => row[column]?.trim())?.[column] ?? '';
+
+  // Raw brand and model, so rows with errors are still recognisable
+  const describeRow = (rowNumber: number) => {
+    const cells = dataRows[rowNumber - 2] ?? [];
+    return [mapping.brand_name, mapping.model]
+      .map(column => (column === undefined ? '' : cells[column]?.trim()))
+      .filter(Boolean)
+      .join(' ') || '—';
+  };
+
+  const activeStep = step === 'importing' ? 'done' : step;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-5xl mx-auto px-4 py-6">
+        <div className="flex items-center gap-3 mb-4">
+          <button
+            onClick={() => navigate(ROUTE_PATHS.DASHBOARD)}
+            className="p-1.5 text-gray-600 hover:text-gray-900"
+            aria-label="Back to dashboard"
+          >
+            <ArrowLeft size={20} />
+          </button>
+          <div>
+            <h1 className="text-2xl font-semibold text-gray-900">Import Cameras</h1>
+            <p className="text-sm text-gray-600">Bring your collection in from a spreadsheet (CSV)</p>
+          </div>
+        </div>
+
+        {/* Steps */}
+        <ol className="flex items-center gap-2 mb-6 text-sm">
+          {STEP_LABELS.map(([key, label], index) => (
+            <li
+              key={key}
+              className={`flex items-center gap-2 ${key === activeStep ? 'font-semibold text-orange-700' : 'text-gray-500'}`}
+            >
+              <span className="flex items-center justify-center w-6 h-6 rounded-full border border-current text-xs">
+                {index + 1}
+              </span>
+              {label}
+              {index < STEP_LABELS.length - 1 && <span className="text-gray-300">—</span>}
+            </li>
+          ))}
+        </ol>
+
+        {step === 'upload' && (
+          <section className="p-8 bg-white rounded-lg shadow-sm text-center">
+            <FileUp size={48} className="mx-auto mb-3 text-gray-400" />
+            <p className="font-medium text-gray-900">Choose a CSV file with one camera per row</p>
+            <p className="text-sm text-gray-600 mt-1">
+              The first row should hold column names. Brand and model are required; photos are not imported.
+            </p>
+            <label className="inline-flex items-center gap-2 mt-4 px-4 py-2 text-white bg-orange-600 rounded-md hover:bg-orange-700 cursor-pointer">
+              <Upload size={16} />
+              Choose File
+              <input type="file" accept=".csv,text/csv" onChange={handleFileChange} className="sr-only" />
+            </label>
+            {fileError && <p className="mt-3 text-sm text-red-600">{fileError}</p>}
+          </section>
+        )}
+
+        {step === 'map' && (
+          <section className="p-4 bg-white rounded-lg shadow-sm">
+            <h2 className="font-semibold text-gray-900">Match your columns</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              {fileName}: {dataRows.length} {dataRows.length === 1 ? 'row' : 'rows'}. We guessed where we could.
+            </p>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-4 font-medium">Camera field</th>
+                  <th className="py-2 pr-4 font-medium">CSV column</th>
+                  <th className="py-2 font-medium">Sample</th>
+                </tr>
+              </thead>
+              <tbody>
+                {IMPORT_FIELDS.map(field => (
+                  <tr key={field.key} className="border-b border-gray-100 last:border-0">
+                    <td className="py-2 pr-4 text-gray-900">
+                      {field.label}{field.required && ' *'}
+                    </td>
+                    <td className="py-2 pr-4">
+                      <select
+                        value={mapping[field.key] ?? ''}
+                        onChange={handleMappingChange(field.key)}
+                        className="w-full px-2 py-1.5 border border-gray-300 rounded-md"
+                      >
+                        <option value="">Don't import</option>
+                        {headers.map((header, index) => (
+                          <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="py-2 text-gray-500 truncate max-w-xs">{sampleFor(mapping[field.key])}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {missingRequired.length > 0 && (
+              <p className="mt-3 text-sm text-red-600">
+                Choose a column for {missingRequired.map(field => field.label).join(' and ')}.
+              </p>
+            )}
+            <div className="flex justify-end gap-2 mt-4">
+              <button onClick={handleStartOver} className="px-4 py-2 text-gray-700 hover:text-gray-900">
+                Back
+              </button>
+              <button
+                onClick={() => setStep('preview')}
+                disabled={missingRequired.length > 0}
+                className="px-4 py-2 text-white bg-orange-600 rounded-md hover:bg-orange-700 disabled:opacity-50"
+              >
+                Review Rows
+              </button>
+            </div>
+          </section>
+        )}
+
+        {step === 'preview' && (
+          <section className="p-4 bg-white rounded-lg shadow-sm">
+            <h2 className="font-semibold text-gray-900">Review</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              {validRows.length} ready to import
+              {invalidRows.length > 0 && `, ${invalidRows.length} with errors will be skipped`}
+            </p>
+            <div className="max-h-96 overflow-y-auto border border-gray-100 rounded">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-gray-50">
+                  <tr className="text-left text-gray-500">
+                    <th className="py-2 px-3 font-medium">Row</th>
+                    <th className="py-2 px-3 font-medium">Camera</th>
+                    <th className="py-2 px-3 font-medium">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {results.slice(0, PREVIEW_ROW_LIMIT).map(row => (
+                    <tr key={row.rowNumber} className={`border-t border-gray-100 ${row.errors.length > 0 ? 'bg-red-50' : ''}`}>
+                      <td className="py-2 px-3 text-gray-500">{row.rowNumber}</td>
+                      <td className="py-2 px-3 text-gray-900">{describeRow(row.rowNumber)}</td>
+                      <td className="py-2 px-3">
+                        {row.errors.length === 0 ? (
+                          <span className="flex items-center gap-1 text-green-700">
+                            <CheckCircle size={14} /> Ready
+                          </span>
+                        ) : (
+                          <ul className="text-red-700">
+                            {row.errors.map(error => (
+                              <li key={error} className="flex items-start gap-1">
+                                <AlertCircle size={14} className="mt-0.5 flex-shrink-0" /> {error}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {results.length > PREVIEW_ROW_LIMIT && (
+              <p className="mt-2 text-xs text-gray-500">
+                Showing the first {PREVIEW_ROW_LIMIT} of {results.length} rows.
+              </p>
+            )}
+            <div className="flex justify-end gap-2 mt-4">
+              <button onClick={() => setStep('map')} className="px-4 py-2 text-gray-700 hover:text-gray-900">
+                Back
+              </button>
+              <button
+                onClick={() => runImport(validRows)}
+                disabled={validRows.length === 0}
+                className="px-4 py-2 text-white bg-orange-600 rounded-md hover:bg-orange-700 disabled:opacity-50"
+              >
+                Import {validRows.length} {validRows.length === 1 ? 'Camera' : 'Cameras'}
+              </button>
+            </div>
+          </section>
+        )}
+
+        {step === 'importing' && (
+          <section className="p-8 bg-white rounded-lg shadow-sm" aria-live="polite">
+            <p className="font-medium text-gray-900 mb-3">
+              Importing {progress.completed} of {progress.total}...
+            </p>
+            <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-orange-600 transition-all"
+                style={{ width: `${progress.total ? (progress.completed / progress.total) * 100 : 0}%` }}
+              />
+            </div>
+            <p className="mt-2 text-xs text-gray-500">Keep this page open until the import finishes.</p>
+          </section>
+        )}
+
+        {step === 'done' && summary && (
+          <section className="p-4 bg-white rounded-lg shadow-sm">
+            <h2 className="flex items-center gap-2 font-semibold text-gray-900">
+              <CheckCircle size={20} className="text-green-600" />
+              {summary.created.length} {summary.created.length === 1 ? 'camera' : 'cameras'} imported
+            </h2>
+            {invalidRows.length > 0 && (
+              <p className="text-sm text-gray-600 mt-1">{invalidRows.length} rows were skipped because of errors.</p>
+            )}
+
+            {summary.failures.length > 0 && (
+              <div className="mt-4">
+                <p className="text-sm font-medium text-red-700">
+                  {summary.failures.length} {summary.failures.length === 1 ? 'row' : 'rows'} could not be saved:
+                </p>
+                <ul className="mt-2 text-sm text-red-700 space-y-1">
+                  {summary.failures.map(failure => (
+                    <li key={failure.rowNumber}>
+                      Row {failure.rowNumber} ({failure.data.brand_name} {failure.data.model}): {failure.message}
+                    </li>
+                  ))}
+                </ul>
+                <button
+                  onClick={() => handleRetryFailed(summary.failures)}
+                  className="mt-3 px-4 py-2 text-white bg-orange-600 rounded-md hover:bg-orange-700"
+                >
+                  Retry Failed Rows
+                </button>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2 mt-6">
+              <button onClick={handleStartOver} className="px-4 py-2 text-gray-700 hover:text-gray-900">
+                Import Another File
+              </button>
+              <Link
+                to={ROUTE_PATHS.DASHBOARD}
+                className="px-4 py-2 text-white bg-orange-600 rounded-md hover:bg-orange-700"
+              >
+                View Collection
+              </Link>
+            </div>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+};
+
+ImportCameras.displayName = 'ImportCameras';
+
+export default ImportCameras;
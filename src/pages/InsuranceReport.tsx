@@ -0,0 +1,267 @@
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useUser } from '@clerk/clerk-react';
+import { ArrowLeft, Printer } from 'lucide-react';
+import { LoadingScreen } from '@/components/ui/LoadingScreen';
+import { useUserCollection } from '@/hooks/useOptimizedQueries';
+import { CAMERA_CONFIG, ROUTE_PATHS } from '@/constants';
+import { formatDate, formatDateTime } from '@/utils/date.utils';
+import { formatCurrencyRange, snakeToReadable } from '@/utils/format.utils';
+import { getSpecIdentifiers } from '@/utils/specs.utils';
+import type { Camera, PageComponent } from '@/types';
+import '@/css/pages/InsuranceReport.css';
+
+const optionLabel = (options: readonly { value: string; label: string }[], value?: string) =>
+  value ? options.find(option => option.value === value)?.label ?? snakeToReadable(value) : '—';
+
+const byBrandAndModel = (a: Camera, b: Camera) =>
+  a.brand_name.localeCompare(b.brand_name) || a.model.localeCompare(b.model);
+
+/**
+ * Insurance Report Page Component
+ *
+ * Print-ready inventory of the signed-in user's cameras with photos,
+ * identifiers, condition, provenance and estimated values
+ */
+export const InsuranceReport: PageComponent = () => {
+  const navigate = useNavigate();
+  const { user } = useUser();
+  const { data: cameras, isLoading, isError, error, refetch } = useUserCollection(user?.id);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [onlySelected, setOnlySelected] = useState(false);
+  const [generatedAt] = useState(() => new Date());
+
+  const sorted = useMemo(() => [...(cameras ?? [])].sort(byBrandAndModel), [cameras]);
+  const included = onlySelected ? sorted.filter(camera => selectedIds.has(camera.id)) : sorted;
+
+  const totals = useMemo(() => {
+    let low = 0;
+    let high = 0;
+    let valued = 0;
+    included.forEach(camera => {
+      const min = camera.market_value_min ?? camera.market_value_max;
+      const max = camera.market_value_max ?? camera.market_value_min;
+      if (min === undefined || max === undefined) {return;}
+      low += min;
+      high += max;
+      valued += 1;
+    });
+    return { low, high, valued };
+  }, [included]);
+
+  const toggleSelected = (cameraId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(cameraId)) {
+        next.delete(cameraId);
+      } else {
+        next.add(cameraId);
+      }
+      return next;
+    });
+  };
+
+  if (isLoading) {
+    return <LoadingScreen message="Preparing your report..." />;
+  }
+
+  if (isError) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-red-600">Error loading your collection: {error?.message}</p>
+        <button
+          onClick={() => refetch()}
+          className="mt-4 px-4 py-2 bg-orange-600 text-white rounded-md hover:bg-orange-700"
+        >
+          Try Again
+        </button>
+      </div>
+    );
+  }
+
+  const ownerName = user?.fullName || user?.username || 'Collection owner';
+
+  return (
+    <div className="insurance-report-page">
+      {/* Controls - hidden when printing */}
+      <div className="report-controls">
+        <button onClick={() => navigate(ROUTE_PATHS.DASHBOARD)} className="report-controls__back">
+          <ArrowLeft size={18} />
+          <span>Dashboard</span>
+        </button>
+        <div className="report-controls__options">
+          <button type="button" onClick={() => setSelectedIds(new Set(sorted.map(camera => camera.id)))}>
+            Select all
+          </button>
+          <button type="button" onClick={() => setSelectedIds(new Set())}>
+            Select none
+          </button>
+          <label>
+            <input
+              type="checkbox"
+              checked={onlySelected}
+              onChange={e => setOnlySelected(e.target.checked)}
+            />
+            Only selected cameras ({selectedIds.size})
+          </label>
+          <button
+            type="button"
+            className="report-controls__print"
+            onClick={() => window.print()}
+            disabled={included.length === 0}
+          >
+            <Printer size={18} />
+            <span>Print Report</span>
+          </button>
+        </div>
+      </div>
+
+      <article className="insurance-report">
+        <header className="insurance-report__header">
+          <h1>Camera Collection Inventory</h1>
+          <p>Prepared for insurance purposes</p>
+          <dl className="insurance-report__meta">
+            <div>
+              <dt>Owner</dt>
+              <dd>{ownerName}</dd>
+            </div>
+            <div>
+              <dt>Generated</dt>
+              <dd>{formatDateTime(generatedAt)}</dd>
+            </div>
+            <div>
+              <dt>Items</dt>
+              <dd>{included.length}</dd>
+            </div>
+          </dl>
+        </header>
+
+        {/* Totals */}
+        <section className="insurance-report__totals">
+          <div>
+            <span className="insurance-report__total-label">Total estimated value</span>
+            <span className="insurance-report__total-value">
+              {totals.valued > 0 ? formatCurrencyRange(totals.low, totals.high) : 'Not valued'}
+            </span>
+          </div>
+          <div>
+            <span className="insurance-report__total-label">Items with a valuation</span>
+            <span className="insurance-report__total-value">{totals.valued} of {included.length}</span>
+          </div>
+          <div>
+            <span className="insurance-report__total-label">Listed for sale or trade</span>
+            <span className="insurance-report__total-value">
+              {included.filter(camera => camera.is_for_sale || camera.is_for_trade).length}
+            </span>
+          </div>
+        </section>
+
+        {included.length === 0 ? (
+          <p className="insurance-report__empty">
+            {onlySelected ? 'No cameras selected. Tick the cameras to include below.' : 'Your collection is empty.'}
+          </p>
+        ) : (
+          <ol className="insurance-report__items">
+            {included.map((camera, index) => {
+              const image = camera.images?.find(img => img.is_primary) ?? camera.images?.[0];
+              const identifiers = getSpecIdentifiers(camera.technical_specs);
+              const value = formatCurrencyRange(camera.market_value_min, camera.market_value_max);
+
+              return (
+                <li key={camera.id} className="report-item">
+                  <div className="report-item__photo">
+                    {image ? (
+                      <img src={image.image_url} alt={`${camera.brand_name} ${camera.model}`} />
+                    ) : (
+                      <span>No photo on file</span>
+                    )}
+                  </div>
+                  <div className="report-item__body">
+                    <h2>
+                      <span className="report-item__number">{index + 1}.</span> {camera.brand_name} {camera.model}
+                    </h2>
+                    <dl className="report-item__details">
+                      <div>
+                        <dt>Year</dt>
+                        <dd>{camera.year || '—'}</dd>
+                      </div>
+                      <div>
+                        <dt>Type</dt>
+                        <dd>{optionLabel(CAMERA_CONFIG.TYPES, camera.camera_type)}</dd>
+                      </div>
+                      <div>
+                        <dt>Format</dt>
+                        <dd>{optionLabel(CAMERA_CONFIG.FILM_FORMATS, camera.film_format)}</dd>
+                      </div>
+                      <div>
+                        <dt>Condition</dt>
+                        <dd>{optionLabel(CAMERA_CONFIG.CONDITIONS, camera.condition)}</dd>
+                      </div>
+                      {identifiers.map(identifier => (
+                        <div key={identifier.key}>
+                          <dt>{identifier.label}</dt>
+                          <dd>{identifier.value}</dd>
+                        </div>
+                      ))}
+                      <div>
+                        <dt>Recorded</dt>
+                        <dd>{formatDate(camera.created_at)}</dd>
+                      </div>
+                      <div>
+                        <dt>Estimated value</dt>
+                        <dd>{value || 'Not valued'}</dd>
+                      </div>
+                    </dl>
+                    {camera.acquisition_story && (
+                      <p className="report-item__story">{camera.acquisition_story}</p>
+                    )}
+                  </div>
+                  <label className="report-item__select">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(camera.id)}
+                      onChange={() => toggleSelected(camera.id)}
+                    />
+                    Include
+                  </label>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+
+        {/* Excluded cameras stay selectable while filtering */}
+        {onlySelected && sorted.length > included.length && (
+          <section className="report-excluded">
+            <h2>Not included</h2>
+            <ul>
+              {sorted.filter(camera => !selectedIds.has(camera.id)).map(camera => (
+                <li key={camera.id}>
+                  <label>
+                    <input type="checkbox" checked={false} onChange={() => toggleSelected(camera.id)} />
+                    {camera.brand_name} {camera.model}
+                  </label>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        <footer className="insurance-report__footer">
+          <p>
+            Values are owner estimates based on recorded market ranges as of {formatDate(generatedAt)} and
+            are not a professional appraisal.
+          </p>
+          <div className="insurance-report__signature">
+            <span>Signature</span>
+            <span>Date</span>
+          </div>
+        </footer>
+      </article>
+    </div>
+  );
+};
+
+InsuranceReport.displayName = 'InsuranceReport';
+
+export default InsuranceReport;
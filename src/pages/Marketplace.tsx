@@ -0,0 +1,417 @@
+import React, { useCallback, useMemo, useRef } from 'react';
+import { generatePath, useNavigate, useSearchParams } from 'react-router-dom';
+import { useUser } from '@clerk/clerk-react';
+import { SlidersHorizontal, SortAsc, SortDesc, Store, X } from 'lucide-react';
+import { CameraCard } from '@/components/ui/CameraCard';
+import { GridSkeleton } from '@/components/ui/Skeletons';
+import { useDebounce, useInfiniteScroll } from '@/hooks';
+import { useInfiniteMarketplaceCameras } from '@/hooks/useOptimizedQueries';
+import { catalogService } from '@/services/catalog';
+import { CAMERA_CONFIG, ROUTE_PATHS } from '@/constants';
+import { filtersFromSearchParams, filtersToSearchParams } from '@/utils';
+import type { CameraFilters, CameraSortBy, PageComponent, SortOrder } from '@/types';
+
+const PAGE_SIZE = 24;
+
+type ListingType = 'all' | 'sale' | 'trade';
+
+const SORT_OPTIONS: { value: CameraSortBy; label: string }[] = [
+  { value: 'created_at', label: 'Newest listings' },
+  { value: 'updated_at', label: 'Recently updated' },
+  { value: 'brand_name', label: 'Brand' },
+  { value: 'model', label: 'Model' },
+  { value: 'year', label: 'Year' },
+  { value: 'view_count', label: 'Most viewed' },
+  { value: 'like_count', label: 'Most liked' },
+];
+
+const isSortBy = (value: string | null): value is CameraSortBy =>
+  SORT_OPTIONS.some(option => option.value === value);
+
+/**
+ * Read the full marketplace state from the URL query string
+ */
+const parseMarketplaceParams = (params: URLSearchParams) => {
+  const filters = filtersFromSearchParams(params);
+  const sortBy = params.get('sort');
+  const listing: ListingType = filters.is_for_sale ? 'sale' : filters.is_for_trade ? 'trade' : 'all';
+
+  return {
+    filters,
+    listing,
+    sortBy: isSortBy(sortBy) ? sortBy : 'created_at',
+    sortOrder: (params.get('order') === 'asc' ? 'asc' : 'desc') as SortOrder,
+  };
+};
+
+/**
+ * Marketplace Page Component
+ *
+ * Browse cameras listed for sale or trade. All filters live in the URL
+ * so a filtered listing can be shared.
+ */
+export const Marketplace: PageComponent = () => {
+  const navigate = useNavigate();
+  const { user } = useUser();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  const { filters, listing, sortBy, sortOrder } = parseMarketplaceParams(searchParams);
+
+  // Typing in the year and price inputs shouldn't fire a request per keystroke
+  const debouncedQuery = useDebounce(searchParams.toString(), 300);
+  const queryParams = useMemo(
+    () => parseMarketplaceParams(new URLSearchParams(debouncedQuery)),
+    [debouncedQuery]
+  );
+
+  const {
+    data,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    isLoading,
+    isError,
+    error,
+    refetch
+  } = useInfiniteMarketplaceCameras(
+    { filters: queryParams.filters, sortBy: queryParams.sortBy, sortOrder: queryParams.sortOrder },
+    { limit: PAGE_SIZE, staleTime: 60 * 1000 }
+  );
+
+  useInfiniteScroll(loadMoreRef, { hasNextPage, isFetchingNextPage, fetchNextPage });
+
+  // Merged sale/trade pages can repeat a camera listed for both
+  const cameras = useMemo(() => {
+    const seen = new Set<string>();
+    return (data?.pages.flatMap(page => page.items) ?? []).filter(camera => {
+      if (seen.has(camera.id)) {return false;}
+      seen.add(camera.id);
+      return true;
+    });
+  }, [data]);
+
+  const updateParams = useCallback((update: (params: URLSearchParams) => void) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      update(next);
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  const updateFilters = useCallback((changes: Partial<CameraFilters>) => {
+    updateParams(params => {
+      filtersToSearchParams({ ...filtersFromSearchParams(params), ...changes }, params);
+    });
+  }, [updateParams]);
+
+  const handleListingChange = (value: ListingType) => {
+    updateFilters({
+      is_for_sale: value === 'sale' ? true : undefined,
+      is_for_trade: value === 'trade' ? true : undefined,
+    });
+  };
+
+  const handleSelectChange = (key: keyof CameraFilters) => (e: React.ChangeEvent<HTMLSelectElement>) => {
+    updateFilters({ [key]: e.target.value || undefined });
+  };
+
+  const handleNumberChange = (key: keyof CameraFilters) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseInt(e.target.value, 10);
+    updateFilters({ [key]: value > 0 ? value : undefined });
+  };
+
+  const handleSortChange = (value: CameraSortBy) => {
+    updateParams(params => {
+      if (value === 'created_at') {
+        params.delete('sort');
+      } else {
+        params.set('sort', value);
+      }
+    });
+  };
+
+  const handleSortOrderToggle = () => {
+    updateParams(params => {
+      if (sortOrder === 'desc') {
+        params.set('order', 'asc');
+      } else {
+        params.delete('order');
+      }
+    });
+  };
+
+  const handleClearFilters = () => {
+    setSearchParams(new URLSearchParams(), { replace: true });
+  };
+
+  const hasActiveFilters = searchParams.toString() !== '';
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-6xl mx-auto px-4 py-6">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h1 className="flex items-center gap-2 text-2xl font-semibold text-gray-900">
+              <Store size={24} />
+              Marketplace
+            </h1>
+            <p className="text-sm text-gray-600 mt-1">
+              Cameras listed for sale or trade by the community
+            </p>
+          </div>
+          {hasActiveFilters && (
+            <button
+              onClick={handleClearFilters}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100"
+            >
+              <X size={14} />
+              Clear filters
+            </button>
+          )}
+        </div>
+
+        {/* Listing type */}
+        <div className="flex gap-2 mb-4" role="tablist">
+          {(['all', 'sale', 'trade'] as ListingType[]).map(value => (
+            <button
+              key={value}
+              role="tab"
+              aria-selected={listing === value}
+              onClick={() => handleListingChange(value)}
+              className={`px-4 py-1.5 text-sm rounded-full border ${
+                listing === value
+                  ? 'bg-orange-600 border-orange-600 text-white'
+                  : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              {value === 'all' ? 'All listings' : value === 'sale' ? 'For Sale' : 'For Trade'}
+            </button>
+          ))}
+        </div>
+
+        {/* Filters */}
+        <div className="p-4 mb-6 bg-white rounded-lg shadow-sm">
+          <div className="flex items-center gap-2 mb-3 text-sm font-medium text-gray-700">
+            <SlidersHorizontal size={16} />
+            Filters
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+            <label className="flex flex-col gap-1">
+              <span className="text-gray-600">Brand</span>
+              <select
+                value={filters.brand_name || ''}
+                onChange={handleSelectChange('brand_name')}
+                className="px-2 py-1.5 border border-gray-300 rounded-md"
+              >
+                <option value="">Any brand</option>
+                {catalogService.getBrandNames().map(brand => (
+                  <option key={brand} value={brand}>{brand}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className="flex flex-col gap-1">
+              <span className="text-gray-600">Type</span>
+              <select
+                value={filters.camera_type || ''}
+                onChange={handleSelectChange('camera_type')}
+                className="px-2 py-1.5 border border-gray-300 rounded-md"
+              >
+                <option value="">Any type</option>
+                {CAMERA_CONFIG.TYPES.map(type => (
+                  <option key={type.value} value={type.value}>{type.label}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className="flex flex-col gap-1">
+              <span className="text-gray-600">Format</span>
+              <select
+                value={filters.film_format || ''}
+                onChange={handleSelectChange('film_format')}
+                className="px-2 py-1.5 border border-gray-300 rounded-md"
+              >
+                <option value="">Any format</option>
+                {CAMERA_CONFIG.FILM_FORMATS.map(format => (
+                  <option key={format.value} value={format.value}>{format.label}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className="flex flex-col gap-1">
+              <span className="text-gray-600">Condition</span>
+              <select
+                value={filters.condition || ''}
+                onChange={handleSelectChange('condition')}
+                className="px-2 py-1.5 border border-gray-300 rounded-md"
+              >
+                <option value="">Any condition</option>
+                {CAMERA_CONFIG.CONDITIONS.map(condition => (
+                  <option key={condition.value} value={condition.value}>{condition.label}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className="flex flex-col gap-1">
+              <span className="text-gray-600">Lens mount</span>
+              <select
+                value={filters.lens_mount || ''}
+                onChange={handleSelectChange('lens_mount')}
+                className="px-2 py-1.5 border border-gray-300 rounded-md"
+              >
+                <option value="">Any mount</option>
+                {CAMERA_CONFIG.LENS_MOUNTS.map(mount => (
+                  <option key={mount} value={mount}>{mount}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className="flex flex-col gap-1">
+              <span className="text-gray-600">Metering</span>
+              <select
+                value={filters.metering || ''}
+                onChange={handleSelectChange('metering')}
+                className="px-2 py-1.5 border border-gray-300 rounded-md"
+              >
+                <option value="">Any metering</option>
+                {CAMERA_CONFIG.METERING_TYPES.map(metering => (
+                  <option key={metering.value} value={metering.value}>{metering.label}</option>
+                ))}
+              </select>
+            </label>
+
+            <div className="flex flex-col gap-1">
+              <span className="text-gray-600">Year</span>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  inputMode="numeric"
+                  placeholder="From"
+                  aria-label="Earliest year"
+                  value={filters.min_year ?? ''}
+                  onChange={handleNumberChange('min_year')}
+                  className="w-full px-2 py-1.5 border border-gray-300 rounded-md"
+                />
+                <span className="text-gray-400">–</span>
+                <input
+                  type="number"
+                  inputMode="numeric"
+                  placeholder="To"
+                  aria-label="Latest year"
+                  value={filters.max_year ?? ''}
+                  onChange={handleNumberChange('max_year')}
+                  className="w-full px-2 py-1.5 border border-gray-300 rounded-md"
+                />
+              </div>
+            </div>
+
+            <div className="flex flex-col gap-1">
+              <span className="text-gray-600">Price (USD)</span>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  inputMode="numeric"
+                  min={0}
+                  placeholder="Min"
+                  aria-label="Minimum price"
+                  value={filters.min_price ?? ''}
+                  onChange={handleNumberChange('min_price')}
+                  className="w-full px-2 py-1.5 border border-gray-300 rounded-md"
+                />
+                <span className="text-gray-400">–</span>
+                <input
+                  type="number"
+                  inputMode="numeric"
+                  min={0}
+                  placeholder="Max"
+                  aria-label="Maximum price"
+                  value={filters.max_price ?? ''}
+                  onChange={handleNumberChange('max_price')}
+                  className="w-full px-2 py-1.5 border border-gray-300 rounded-md"
+                />
+              </div>
+            </div>
+
+            <div className="flex flex-col gap-1 col-span-2">
+              <span className="text-gray-600">Sort by</span>
+              <div className="flex items-center gap-2">
+                <select
+                  value={sortBy}
+                  onChange={(e) => handleSortChange(e.target.value as CameraSortBy)}
+                  className="flex-1 px-2 py-1.5 border border-gray-300 rounded-md"
+                >
+                  {SORT_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleSortOrderToggle}
+                  className="p-2 border border-gray-300 rounded-md hover:bg-gray-100"
+                  aria-label={`Sort ${sortOrder === 'asc' ? 'descending' : 'ascending'}`}
+                >
+                  {sortOrder === 'asc' ? <SortAsc size={16} /> : <SortDesc size={16} />}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Results */}
+        {isLoading ? (
+          <GridSkeleton />
+        ) : isError ? (
+          <div className="text-center py-12">
+            <p className="text-red-600">Error loading listings: {error?.message}</p>
+            <button
+              onClick={() => refetch()}
+              className="mt-4 px-4 py-2 bg-orange-600 text-white rounded-md hover:bg-orange-700"
+            >
+              Try Again
+            </button>
+          </div>
+        ) : cameras.length === 0 ? (
+          <div className="text-center py-12 text-gray-600">
+            <Store size={48} className="mx-auto mb-3 text-gray-400" />
+            <p className="font-medium">No listings match these filters</p>
+            <p className="text-sm mt-1">Try widening the year or price range</p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {cameras.map(camera => (
+                <CameraCard
+                  key={camera.id}
+                  camera={camera}
+                  currentUserId={user?.id}
+                  onViewDetails={(id) => navigate(generatePath(ROUTE_PATHS.CAMERA_DETAIL, { id }))}
+                />
+              ))}
+            </div>
+
+            {/* Infinite scroll trigger */}
+            {hasNextPage && (
+              <div ref={loadMoreRef} className="py-4 text-center">
+                {isFetchingNextPage ? (
+                  <p className="text-gray-500 text-sm">Loading more listings...</p>
+                ) : (
+                  <button
+                    onClick={() => fetchNextPage()}
+                    className="text-orange-600 hover:text-orange-700 font-medium px-4 py-2 border border-orange-600 rounded-lg hover:bg-orange-50 transition-colors"
+                  >
+                    Load More Listings
+                  </button>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+Marketplace.displayName = 'Marketplace';
+
+export default Marketplace;
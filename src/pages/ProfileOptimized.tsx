@@ -1,23 +1,35 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useClerk, useUser } from '@clerk/clerk-react';
 import { ArrowLeft, Camera as CameraIcon, Compass, FolderOpen, Home, Link as LinkIcon, LogOut, Mail, MapPin, MessageCircle, Save, Search, Settings, User, UserPlus, X } from 'lucide-react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, generatePath, useNavigate } from 'react-router-dom';
+import { type QueryKey, onlineManager, useQueryClient } from '@tanstack/react-query';
 import { UserListModal } from '@/components/profile/UserListModal';
 
 import { userService } from '@/services/api/users.service';
+import { userLoader } from '@/services/api/users.loader';
 import { cameraService } from '@/services/api/cameras.service';
 import { discussionService } from '@/services/api/discussions.service';
 import { apiClient } from '@/services/api/base';
-import { useApiWithAuth } from '@/hooks';
-import { API_ENDPOINTS } from '@/constants';
-import { cacheService } from '@/services/cache/cache.service';
-import type { Camera, Discussion, UserProfile } from '@/types';
+import { realtimeTopics } from '@/services/api/realtime.service';
+import { uploadService } from '@/services/api/upload.service';
+import { outboxService, outboxTargets } from '@/services/outbox';
+import { OutboxIndicator } from '@/components/ui/OutboxIndicator';
+import { useOutbox, useRealtime } from '@/hooks';
+import { API_ENDPOINTS, ROUTE_PATHS } from '@/constants';
+import { queryKeys } from '@/lib/react-query';
+import { type FieldErrors, getFieldErrors } from '@/utils/errorHandler.utils';
+import type { Camera, Discussion, Paginated, UserProfile } from '@/types';
 import { ProfileLoadingScreen } from '@/components/ui/LoadingScreen';
 import '@/css/pages/Profile.css';
 import '@/css/components/skeleton.css';
 
 // Constants
 const CACHE_TTL = 3 * 60 * 1000; // 3 minutes cache for profile data
+const PROFILE_CAMERAS_LIMIT = 100; // Collection tab shows the whole collection on one page
+const PROFILE_DISCUSSIONS_LIMIT = 100;
+// Fields the edit modal can show an error under, and the API names that feed them
+const EDIT_PROFILE_FIELDS = ['display_name', 'bio', 'avatar_url'];
+const EDIT_PROFILE_FIELD_NAMES = { full_name: 'display_name', name: 'display_name', avatar: 'avatar_url' };
 
 /**
  * Profile tab types
@@ -53,11 +65,11 @@ const _ProfileSkeleton = () => (
 );
 
 // Memoized Camera Card Component
-const CameraCard = React.memo<{ camera: Camera }>(({ camera }) => {
+const CameraCard = React.memo<{ camera: Camera; onClick?: () => void }>(({ camera, onClick }) => {
   const [imageLoaded, setImageLoaded] = useState(false);
 
   return (
-    <div className="camera-card">
+    <div className="camera-card" onClick={onClick} style={onClick ? { cursor: 'pointer' } : undefined}>
       <div className="camera-image">
         {!imageLoaded && <div className="skeleton skeleton-image" style={{ height: '200px' }}></div>}
         <img 
@@ -88,7 +100,7 @@ export function ProfileOptimized() {
   const { user, isLoaded: userLoaded } = useUser();
   const { signOut } = useClerk();
   const navigate = useNavigate();
-  const { makeAuthenticatedRequest } = useApiWithAuth();
+  const queryClient = useQueryClient();
   
   // State
   const [activeTab, setActiveTab] = useState<TabType>('collection');
@@ -105,6 +117,7 @@ export function ProfileOptimized() {
     avatar_url: ''
   });
   const [isUpdatingProfile, setIsUpdatingProfile] = useState(false);
+  const [editErrors, setEditErrors] = useState<FieldErrors>({});
   const editFileInputRef = useRef<HTMLInputElement>(null);
   const [editAvatarPreview, setEditAvatarPreview] = useState<string | null>(null);
   const [editAvatarFile, setEditAvatarFile] = useState<File | null>(null);
@@ -138,17 +151,25 @@ export function ProfileOptimized() {
   const fetchUserData = useCallback(async () => {
     if (!user?.id) {return;}
 
-    // Check cache first
-    const cacheKey = cacheService.getUserKey(user.id);
-    const cachedProfile = cacheService.get<UserProfile>(cacheKey);
-    const cachedCameras = cacheService.get<Camera[]>(cacheService.getUserCamerasKey(user.id));
-    const cachedDiscussions = cacheService.get<Discussion[]>(cacheService.getUserDiscussionsKey(user.id));
+    const profileKey = queryKeys.users.byId(user.id);
+    const camerasKey = queryKeys.cameras.byUserPage(user.id, 1, PROFILE_CAMERAS_LIMIT);
+    const discussionsKey = queryKeys.discussions.byUserPage(user.id, 1, PROFILE_DISCUSSIONS_LIMIT);
+
+    // Use the query cache when it is fresh, or whatever it holds while offline
+    const readCache = <T,>(queryKey: QueryKey): T | undefined => {
+      const state = queryClient.getQueryState<T>(queryKey);
+      if (!state?.data) {return undefined;}
+      const isFresh = Date.now() - state.dataUpdatedAt < CACHE_TTL && !state.isInvalidated;
+      return isFresh || !onlineManager.isOnline() ? state.data : undefined;
+    };
+    const cachedProfile = readCache<UserProfile>(profileKey);
+    const cachedCameras = readCache<Paginated<Camera>>(camerasKey);
+    const cachedDiscussions = readCache<Paginated<Discussion>>(discussionsKey);
 
-    // Use cached data if available
     if (cachedProfile && cachedCameras && cachedDiscussions) {
       setUserProfile(cachedProfile);
-      setUserCameras(cachedCameras);
-      setUserDiscussions(cachedDiscussions);
+      setUserCameras(cachedCameras.items);
+      setUserDiscussions(cachedDiscussions.items);
       setIsOwnProfile(cachedProfile.id === user.id);
       setEditFormData({
         display_name: cachedProfile.display_name || cachedProfile.username || '',
@@ -163,18 +184,8 @@ export function ProfileOptimized() {
 
     try {
       // Test API connectivity
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 3000);
-      
       try {
-        const healthCheck = await fetch(`${import.meta.env.VITE_API_URL || 'http://localhost:8000'}/health`, {
-          signal: controller.signal
-        });
-        clearTimeout(timeoutId);
-        
-        if (!healthCheck.ok) {
-          throw new Error('API not available');
-        }
+        await apiClient.healthCheck();
       } catch {
         // Use fallback if API is down
         const fallbackProfile = createFallbackProfile();
@@ -195,59 +206,54 @@ export function ProfileOptimized() {
           
           // Try to fetch by ID first
           try {
-            profile = await makeAuthenticatedRequest(async (token) => 
-              userService.getUserById(user.id, token)
-            );
+            profile = await userLoader.load(user.id);
           } catch {
             // Try by username
             try {
-              profile = await makeAuthenticatedRequest(async (token) => 
-                userService.getUserByUsername(username, token)
-              );
+              profile = await userService.getUserByUsername(username);
             } catch {
               // Try to create new profile
               try {
-                profile = await makeAuthenticatedRequest(async (token) => 
-                  userService.createUser({
-                    username: username,
-                    email: user.primaryEmailAddress?.emailAddress || '',
-                    full_name: user.fullName || `${user.firstName || ''} ${user.lastName || ''}`.trim(),
-                    avatar_url: '',
-                  }, token)
-                );
+                profile = await userService.createUser({
+                  username: username,
+                  email: user.primaryEmailAddress?.emailAddress || '',
+                  full_name: user.fullName || `${user.firstName || ''} ${user.lastName || ''}`.trim(),
+                  avatar_url: '',
+                });
               } catch {
                 profile = null;
               }
             }
           }
           
-          return profile || createFallbackProfile();
+          if (!profile) {
+            return createFallbackProfile();
+          }
+          queryClient.setQueryData(profileKey, profile);
+          return profile;
         })(),
 
         // Fetch cameras
-        makeAuthenticatedRequest(async (token) => 
-          cameraService.getAllCameras(token)
-        ).catch(() => []),
+        cameraService.getUserCameras(user.id, { limit: PROFILE_CAMERAS_LIMIT })
+          .then(page => {
+            queryClient.setQueryData(camerasKey, page);
+            return page.items;
+          })
+          .catch(() => [] as Camera[]),
 
         // Fetch discussions
-        makeAuthenticatedRequest(async (token) => 
-          discussionService.getAllDiscussions(token)
-        ).catch(() => [])
+        discussionService.getUserDiscussions(user.id, { limit: PROFILE_DISCUSSIONS_LIMIT })
+          .then(page => {
+            queryClient.setQueryData(discussionsKey, page);
+            return page.items;
+          })
+          .catch(() => [] as Discussion[])
       ]);
 
       // Process results
       const profile = profileResult.status === 'fulfilled' ? profileResult.value : createFallbackProfile();
-      const allCameras = camerasResult.status === 'fulfilled' ? camerasResult.value : [];
-      const allDiscussions = discussionsResult.status === 'fulfilled' ? discussionsResult.value : [];
-
-      // Filter cameras and discussions for this user
-      const userCameras = allCameras?.filter(camera => camera.user_id === profile.id) || [];
-      const userDiscussions = allDiscussions?.filter(discussion => discussion.user_id === profile.id) || [];
-
-      // Cache the results
-      cacheService.set(cacheKey, profile, CACHE_TTL);
-      cacheService.set(cacheService.getUserCamerasKey(user.id), userCameras, CACHE_TTL);
-      cacheService.set(cacheService.getUserDiscussionsKey(user.id), userDiscussions, CACHE_TTL);
+      const userCameras = camerasResult.status === 'fulfilled' ? camerasResult.value : [];
+      const userDiscussions = discussionsResult.status === 'fulfilled' ? discussionsResult.value : [];
 
       // Update state
       setUserProfile(profile);
@@ -270,7 +276,7 @@ export function ProfileOptimized() {
     } finally {
       setLoading(false);
     }
-  }, [user, makeAuthenticatedRequest, createFallbackProfile]);
+  }, [user, createFallbackProfile, queryClient]);
 
   // Initial data fetch
   useEffect(() => {
@@ -297,6 +303,7 @@ export function ProfileOptimized() {
       });
       setEditAvatarPreview(userProfile.avatar_url || user?.imageUrl || null);
       setEditAvatarFile(null);
+      setEditErrors({});
       setShowEditModal(true);
     }
   }, [userProfile, user]);
@@ -304,6 +311,7 @@ export function ProfileOptimized() {
   const handleEditFormChange = useCallback((e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     setEditFormData(prev => ({ ...prev, [name]: value }));
+    setEditErrors(prev => (prev[name] ? { ...prev, [name]: '' } : prev));
   }, []);
 
   const handleEditAvatarSelect = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
@@ -336,27 +344,7 @@ export function ProfileOptimized() {
 
       // Upload new avatar if selected
       if (editAvatarFile) {
-        const formData = new FormData();
-        formData.append('file', editAvatarFile);
-
-        const uploadResponse = await makeAuthenticatedRequest(async (token) => {
-          const response = await fetch(
-            `${import.meta.env.VITE_API_URL || 'http://localhost:8000'}${API_ENDPOINTS.UPLOAD_AVATAR}?user_id=${userProfile.id}`,
-            {
-              method: 'POST',
-              headers: {
-                'Authorization': `Bearer ${token}`
-              },
-              body: formData
-            }
-          );
-
-          if (!response.ok) {
-            throw new Error('Failed to upload avatar');
-          }
-
-          return response.json();
-        });
+        const uploadResponse = await uploadService.uploadAvatar(editAvatarFile, userProfile.id);
 
         avatarUrl = uploadResponse.url || avatarUrl;
       }
@@ -368,20 +356,17 @@ export function ProfileOptimized() {
         avatar_url: avatarUrl
       };
 
-      const updatedProfile = await makeAuthenticatedRequest(async (token) => 
-        apiClient.authenticatedRequest(
-          API_ENDPOINTS.USER_UPDATE(userProfile.id),
-          token || null,
-          {
-            method: 'PATCH',
-            body: JSON.stringify(updateData)
-          }
-        )
+      const updatedProfile = await apiClient.authenticatedRequest(
+        API_ENDPOINTS.USER_UPDATE(userProfile.id),
+        {
+          method: 'PATCH',
+          body: JSON.stringify(updateData)
+        }
       );
 
       // Update local state and cache
       setUserProfile(updatedProfile as UserProfile);
-      cacheService.invalidateUserCache(userProfile.id);
+      queryClient.setQueryData(queryKeys.users.byId(userProfile.id), updatedProfile);
       setShowEditModal(false);
       
       // Clean up preview URL
@@ -391,38 +376,47 @@ export function ProfileOptimized() {
       
     } catch (error) {
       console.error('Failed to update profile:', error);
-      alert('Failed to update profile. Please try again.');
+      const fieldErrors = Object.fromEntries(
+        Object.entries(getFieldErrors(error, EDIT_PROFILE_FIELD_NAMES))
+          .filter(([field]) => EDIT_PROFILE_FIELDS.includes(field))
+      );
+      if (Object.keys(fieldErrors).length > 0) {
+        setEditErrors(fieldErrors);
+      } else {
+        alert('Failed to update profile. Please try again.');
+      }
     } finally {
       setIsUpdatingProfile(false);
     }
-  }, [userProfile, editFormData, editAvatarFile, editAvatarPreview, makeAuthenticatedRequest]);
+  }, [userProfile, editFormData, editAvatarFile, editAvatarPreview, queryClient]);
+
+  const { entries: queuedFollows } = useOutbox(userProfile ? outboxTargets.follow(userProfile.id) : undefined);
+  const queuedFollow = userProfile ? queuedFollows[queuedFollows.length - 1] : undefined;
+
+  // Follower count and our own follow state, changed here or elsewhere
+  useRealtime(userProfile ? realtimeTopics.user(userProfile.id) : undefined, event => {
+    if (event.type !== 'follow.updated' || event.following_id !== userProfile?.id) {return;}
+    setUserProfile(prev => prev && { ...prev, follower_count: event.follower_count });
+    if (event.follower_id === user?.id && !queuedFollow) {
+      setIsFollowing(event.following);
+    }
+  });
 
   const handleFollowToggle = useCallback(async () => {
-    if (!userProfile) {return;}
+    if (!userProfile || !user) {return;}
 
+    // Changes made offline are queued and shown right away
     try {
-      if (isFollowing) {
-        await makeAuthenticatedRequest(async (token) => 
-          apiClient.authenticatedRequest(
-            API_ENDPOINTS.USER_UNFOLLOW(userProfile.id),
-            token || null,
-            { method: 'DELETE', body: '{}' }
-          )
-        );
-      } else {
-        await makeAuthenticatedRequest(async (token) => 
-          apiClient.authenticatedRequest(
-            API_ENDPOINTS.USER_FOLLOW(userProfile.id),
-            token || null,
-            { method: 'POST', body: '{}' }
-          )
-        );
-      }
+      await outboxService.run({
+        type: isFollowing ? 'unfollowUser' : 'followUser',
+        targetUserId: userProfile.id,
+        currentUserId: user.id,
+      });
       setIsFollowing(!isFollowing);
     } catch (error) {
       console.error('Failed to update follow status:', error);
     }
-  }, [userProfile, isFollowing, makeAuthenticatedRequest]);
+  }, [userProfile, user, isFollowing]);
 
   // Clean up preview URL on unmount
   useEffect(() => {
@@ -523,6 +517,12 @@ export function ProfileOptimized() {
                     <UserPlus size={18} />
                     <span>{isFollowing ? 'Following' : 'Follow User'}</span>
                   </button>
+                  {queuedFollow && (
+                    <OutboxIndicator
+                      entry={queuedFollow}
+                      onDiscard={entry => setIsFollowing(entry.mutation.type !== 'followUser')}
+                    />
+                  )}
                 </>
               )}
             </div>
@@ -572,6 +572,12 @@ export function ProfileOptimized() {
                     <UserPlus size={20} />
                     <span>{isFollowing ? 'Following' : 'Follow'}</span>
                   </button>
+                  {queuedFollow && (
+                    <OutboxIndicator
+                      entry={queuedFollow}
+                      onDiscard={entry => setIsFollowing(entry.mutation.type !== 'followUser')}
+                    />
+                  )}
                 </>
               )}
             </div>
@@ -646,7 +652,11 @@ export function ProfileOptimized() {
               {userCameras.length > 0 ? (
                 <div className="cameras-grid">
                   {userCameras.map((camera) => (
-                    <CameraCard key={camera.id} camera={camera} />
+                    <CameraCard
+                      key={camera.id}
+                      camera={camera}
+                      onClick={() => navigate(generatePath(ROUTE_PATHS.CAMERA_DETAIL, { id: camera.id }))}
+                    />
                   ))}
                 </div>
               ) : (
@@ -764,6 +774,7 @@ export function ProfileOptimized() {
                   onChange={handleEditAvatarSelect}
                   style={{ display: 'none' }}
                 />
+                {editErrors.avatar_url && <span className="error-message">{editErrors.avatar_url}</span>}
               </div>
 
               {/* Form Fields */}
@@ -777,7 +788,9 @@ export function ProfileOptimized() {
                     value={editFormData.display_name}
                     onChange={handleEditFormChange}
                     placeholder="Enter your display name"
+                    className={editErrors.display_name ? 'error' : ''}
                   />
+                  {editErrors.display_name && <span className="error-message">{editErrors.display_name}</span>}
                 </div>
 
                 <div className="form-group">
@@ -790,7 +803,9 @@ export function ProfileOptimized() {
                     rows={4}
                     placeholder="Tell us about yourself..."
                     maxLength={500}
+                    className={editErrors.bio ? 'error' : ''}
                   />
+                  {editErrors.bio && <span className="error-message">{editErrors.bio}</span>}
                   <span className="char-count">{editFormData.bio.length}/500</span>
                 </div>
               </div>
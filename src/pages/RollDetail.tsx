@@ -0,0 +1,189 @@
+import { useCallback, useState } from 'react';
+import { Link, generatePath, useNavigate, useParams } from 'react-router-dom';
+import { useUser } from '@clerk/clerk-react';
+import { useQueryClient } from '@tanstack/react-query';
+import { ArrowLeft, Edit, Trash2 } from 'lucide-react';
+import { FilmFrameLog, FilmRollFormModal, RollPhotos } from '@/components/rolls';
+import { LoadingScreen } from '@/components/ui/LoadingScreen';
+import { useCamera, useFilmRoll, useUserCollection } from '@/hooks/useOptimizedQueries';
+import { CAMERA_CONFIG, ROUTE_PATHS } from '@/constants';
+import { queryKeys } from '@/lib/react-query';
+import { filmRollService } from '@/services/api/rolls.service';
+import { formatDate, parseDateOnly } from '@/utils/date.utils';
+import { ROLL_STATUS_LABELS, getRollStatus } from '@/utils/filmRoll.utils';
+import type { FilmFrame, FilmRoll, PageComponent, UpdateFilmRollData } from '@/types';
+
+/**
+ * Roll Detail Page Component
+ *
+ * One roll's details, frame-by-frame exposure log and linked photos
+ */
+export const RollDetail: PageComponent = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user } = useUser();
+  const queryClient = useQueryClient();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const { data: roll, isLoading, isError, error, refetch } = useFilmRoll(id);
+  const { data: camera } = useCamera(roll?.camera_id);
+  const isOwner = !!user?.id && user.id === roll?.user_id;
+  const { data: cameras = [] } = useUserCollection(isOwner && isFormOpen ? user?.id : undefined);
+
+  const updateRoll = useCallback(async (data: UpdateFilmRollData) => {
+    const updated = await filmRollService.updateRoll(id!, data);
+    queryClient.setQueryData<FilmRoll>(queryKeys.rolls.byId(id!), updated);
+    await queryClient.invalidateQueries({ queryKey: queryKeys.rolls.all });
+  }, [id, queryClient]);
+
+  const handleSaveFrames = useCallback((frames: FilmFrame[]) => updateRoll({ frames }), [updateRoll]);
+  const handleLinkPhotos = useCallback(
+    (photoPostIds: string[]) => updateRoll({ photo_post_ids: photoPostIds }),
+    [updateRoll]
+  );
+
+  const handleDelete = async () => {
+    if (!window.confirm('Delete this roll and its frame log?')) {return;}
+    setIsDeleting(true);
+    try {
+      await filmRollService.deleteRoll(id!);
+      queryClient.removeQueries({ queryKey: queryKeys.rolls.byId(id!) });
+      await queryClient.invalidateQueries({ queryKey: queryKeys.rolls.all });
+      navigate(ROUTE_PATHS.ROLLS);
+    } catch (err) {
+      console.error('Error deleting roll:', err);
+      alert('Failed to delete the roll. Please try again.');
+      setIsDeleting(false);
+    }
+  };
+
+  if (isLoading) {
+    return <LoadingScreen message="Loading roll..." />;
+  }
+
+  if (isError || !roll) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-red-600">Error loading roll: {error?.message || 'Roll not found'}</p>
+        <button
+          onClick={() => refetch()}
+          className="mt-4 px-4 py-2 bg-orange-600 text-white rounded-md hover:bg-orange-700"
+        >
+          Try Again
+        </button>
+      </div>
+    );
+  }
+
+  const rollCamera = camera ?? roll.camera;
+  const status = getRollStatus(roll);
+  const details: Array<[string, string | undefined]> = [
+    ['Loaded', formatDate(parseDateOnly(roll.loaded_at))],
+    ['Finished', roll.finished_at && formatDate(parseDateOnly(roll.finished_at))],
+    ['Developed', roll.developed_at && formatDate(parseDateOnly(roll.developed_at))],
+    ['Lab', roll.lab],
+  ];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto px-4 py-6">
+        <div className="flex items-center justify-between mb-4">
+          <button
+            onClick={() => navigate(ROUTE_PATHS.ROLLS)}
+            className="flex items-center gap-2 text-gray-600 hover:text-gray-900"
+          >
+            <ArrowLeft size={20} />
+            <span>All Rolls</span>
+          </button>
+          {isOwner && (
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setIsFormOpen(true)}
+                className="flex items-center gap-2 px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100"
+              >
+                <Edit size={16} />
+                <span>Edit</span>
+              </button>
+              <button
+                onClick={handleDelete}
+                disabled={isDeleting}
+                className="flex items-center gap-2 px-3 py-1.5 text-sm text-red-600 border border-gray-300 rounded-md hover:bg-red-50 disabled:opacity-50"
+              >
+                <Trash2 size={16} />
+                <span>Delete</span>
+              </button>
+            </div>
+          )}
+        </div>
+
+        <section className="p-4 bg-white rounded-lg shadow-sm">
+          <div className="flex items-start justify-between gap-3">
+            <div>
+              <h1 className="text-2xl font-semibold text-gray-900">{roll.film_stock}</h1>
+              <p className="text-sm text-gray-600 mt-1">
+                ISO {roll.iso} · {roll.film_format}
+                {rollCamera && (
+                  <>
+                    {' · '}
+                    <Link
+                      to={generatePath(ROUTE_PATHS.CAMERA_DETAIL, { id: roll.camera_id })}
+                      className="text-orange-700 hover:underline"
+                    >
+                      {rollCamera.brand_name} {rollCamera.model}
+                    </Link>
+                  </>
+                )}
+              </p>
+            </div>
+            <span className="px-2 py-1 text-xs rounded bg-gray-100 text-gray-800">{ROLL_STATUS_LABELS[status]}</span>
+          </div>
+
+          <dl className="grid grid-cols-2 sm:grid-cols-4 gap-3 mt-4 text-sm">
+            {details.filter(([, value]) => value).map(([label, value]) => (
+              <div key={label}>
+                <dt className="text-xs uppercase tracking-wide text-gray-500">{label}</dt>
+                <dd className="text-gray-900">{value}</dd>
+              </div>
+            ))}
+          </dl>
+
+          {roll.notes && <p className="mt-4 text-gray-700 whitespace-pre-line">{roll.notes}</p>}
+        </section>
+
+        <section className="mt-6 p-4 bg-white rounded-lg shadow-sm">
+          <h2 className="text-lg font-semibold text-gray-900 mb-3">Frames</h2>
+          <FilmFrameLog
+            frames={roll.frames}
+            defaultFrameCount={CAMERA_CONFIG.FILM_ROLL.DEFAULT_FRAMES[roll.film_format]}
+            canEdit={isOwner}
+            onSave={handleSaveFrames}
+          />
+        </section>
+
+        <section className="mt-6 p-4 bg-white rounded-lg shadow-sm">
+          <h2 className="text-lg font-semibold text-gray-900 mb-3">Photos</h2>
+          <RollPhotos
+            postIds={roll.photo_post_ids}
+            ownerId={isOwner ? user?.id : undefined}
+            onChange={isOwner ? handleLinkPhotos : undefined}
+          />
+        </section>
+      </div>
+
+      {isOwner && (
+        <FilmRollFormModal
+          isOpen={isFormOpen}
+          cameras={cameras}
+          roll={roll}
+          onSubmit={updateRoll}
+          onClose={() => setIsFormOpen(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+RollDetail.displayName = 'RollDetail';
+
+export default RollDetail;
@@ -0,0 +1,219 @@
+import { useCallback, useMemo, useState } from 'react';
+import { Link, generatePath, useNavigate, useSearchParams } from 'react-router-dom';
+import { useUser } from '@clerk/clerk-react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Film, Plus } from 'lucide-react';
+import { FilmRollFormModal } from '@/components/rolls';
+import { LoadingScreen } from '@/components/ui/LoadingScreen';
+import { useFilmRolls, useUserCollection } from '@/hooks/useOptimizedQueries';
+import { ROUTE_PATHS } from '@/constants';
+import { queryKeys } from '@/lib/react-query';
+import { filmRollService } from '@/services/api/rolls.service';
+import { formatDate, parseDateOnly } from '@/utils/date.utils';
+import { ROLL_STATUS_LABELS, countRollsByCamera, getRollStatus } from '@/utils/filmRoll.utils';
+import type { CreateFilmRollData, FilmRollStatus, PageComponent } from '@/types';
+
+const STATUS_BADGES: Record<FilmRollStatus, string> = {
+  loaded: 'bg-blue-100 text-blue-800',
+  finished: 'bg-yellow-100 text-yellow-800',
+  developed: 'bg-green-100 text-green-800',
+};
+
+// Newest first: by load date, then by when the roll was logged
+const byLoadDateDesc = (a: { loaded_at: string; created_at: string }, b: { loaded_at: string; created_at: string }) =>
+  b.loaded_at.localeCompare(a.loaded_at) || b.created_at.localeCompare(a.created_at);
+
+/**
+ * Rolls Page Component
+ *
+ * Film roll logbook: every roll the user has shot, filterable by camera and
+ * status, with how many rolls each camera has been through
+ */
+export const Rolls: PageComponent = () => {
+  const navigate = useNavigate();
+  const { user } = useUser();
+  const queryClient = useQueryClient();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  const { data: rolls, isLoading, isError, error, refetch } = useFilmRolls(user?.id);
+  const { data: cameras = [] } = useUserCollection(user?.id);
+
+  const cameraFilter = searchParams.get('camera') ?? '';
+  const statusFilter = (searchParams.get('status') ?? '') as FilmRollStatus | '';
+
+  // Rolls may outlive a camera in the collection, so fall back to their embedded copy
+  const cameraNames = useMemo(
+    () => new Map(
+      [...(rolls ?? []).flatMap(roll => (roll.camera ? [roll.camera] : [])), ...cameras]
+        .map(camera => [camera.id, `${camera.brand_name} ${camera.model}`])
+    ),
+    [rolls, cameras]
+  );
+  const usage = useMemo(() => {
+    const counts = countRollsByCamera(rolls ?? []);
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]);
+  }, [rolls]);
+  const visibleRolls = useMemo(
+    () => (rolls ?? [])
+      .filter(roll => !cameraFilter || roll.camera_id === cameraFilter)
+      .filter(roll => !statusFilter || getRollStatus(roll) === statusFilter)
+      .sort(byLoadDateDesc),
+    [rolls, cameraFilter, statusFilter]
+  );
+
+  const setFilter = (key: 'camera' | 'status', value: string) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      if (value) {
+        next.set(key, value);
+      } else {
+        next.delete(key);
+      }
+      return next;
+    }, { replace: true });
+  };
+
+  const handleCreate = useCallback(async (data: CreateFilmRollData) => {
+    const roll = await filmRollService.createRoll(data);
+    await queryClient.invalidateQueries({ queryKey: queryKeys.rolls.all });
+    navigate(generatePath(ROUTE_PATHS.ROLL_DETAIL, { id: roll.id }));
+  }, [navigate, queryClient]);
+
+  if (isLoading) {
+    return <LoadingScreen message="Loading your rolls..." />;
+  }
+
+  if (isError) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-red-600">Error loading your rolls: {error?.message}</p>
+        <button
+          onClick={() => refetch()}
+          className="mt-4 px-4 py-2 bg-orange-600 text-white rounded-md hover:bg-orange-700"
+        >
+          Try Again
+        </button>
+      </div>
+    );
+  }
+
+  const cameraName = (cameraId: string) => cameraNames.get(cameraId) ?? 'Unknown camera';
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-5xl mx-auto px-4 py-6">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="flex items-center gap-2 text-2xl font-semibold text-gray-900">
+              <Film size={24} />
+              Film Rolls
+            </h1>
+            <p className="text-sm text-gray-600 mt-1">
+              Log every roll you shoot, frame by frame, and link the photos you post from it
+            </p>
+          </div>
+          <button
+            onClick={() => setIsFormOpen(true)}
+            className="flex items-center gap-1 px-4 py-2 text-sm text-white bg-orange-600 rounded-md hover:bg-orange-700"
+          >
+            <Plus size={16} />
+            Log a Roll
+          </button>
+        </div>
+
+        {/* Per-camera usage */}
+        {usage.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-4">
+            {usage.map(([cameraId, count]) => (
+              <button
+                key={cameraId}
+                onClick={() => setFilter('camera', cameraFilter === cameraId ? '' : cameraId)}
+                aria-pressed={cameraFilter === cameraId}
+                className={`px-3 py-1 text-sm rounded-full border ${
+                  cameraFilter === cameraId
+                    ? 'border-orange-600 bg-orange-50 text-orange-800'
+                    : 'border-gray-300 bg-white text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                {cameraName(cameraId)} · {count} {count === 1 ? 'roll' : 'rolls'}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center gap-3 mt-4 text-sm">
+          <label className="flex items-center gap-2 text-gray-600">
+            Status
+            <select
+              value={statusFilter}
+              onChange={e => setFilter('status', e.target.value)}
+              className="px-2 py-1.5 border border-gray-300 rounded-md"
+            >
+              <option value="">All</option>
+              {(Object.keys(ROLL_STATUS_LABELS) as FilmRollStatus[]).map(status => (
+                <option key={status} value={status}>{ROLL_STATUS_LABELS[status]}</option>
+              ))}
+            </select>
+          </label>
+          <span className="text-gray-500">
+            {visibleRolls.length} of {rolls?.length ?? 0} rolls
+          </span>
+        </div>
+
+        {visibleRolls.length === 0 ? (
+          <div className="text-center py-12 text-gray-600">
+            <Film size={48} className="mx-auto mb-3 text-gray-400" />
+            <p className="font-medium">{rolls?.length ? 'No rolls match these filters' : 'No rolls logged yet'}</p>
+            <p className="text-sm mt-1">Log the roll you have loaded to start your logbook</p>
+          </div>
+        ) : (
+          <ul className="mt-4 space-y-3">
+            {visibleRolls.map(roll => {
+              const status = getRollStatus(roll);
+              return (
+                <li key={roll.id}>
+                  <Link
+                    to={generatePath(ROUTE_PATHS.ROLL_DETAIL, { id: roll.id })}
+                    className="block p-4 bg-white rounded-lg shadow-sm hover:shadow-md transition-shadow"
+                  >
+                    <div className="flex items-start justify-between gap-3">
+                      <div>
+                        <p className="font-semibold text-gray-900">
+                          {roll.film_stock} <span className="font-normal text-gray-500">· ISO {roll.iso} · {roll.film_format}</span>
+                        </p>
+                        <p className="text-sm text-gray-600">{cameraName(roll.camera_id)}</p>
+                      </div>
+                      <span className={`px-2 py-1 text-xs rounded ${STATUS_BADGES[status]}`}>
+                        {ROLL_STATUS_LABELS[status]}
+                      </span>
+                    </div>
+                    <p className="mt-2 text-xs text-gray-500">
+                      Loaded {formatDate(parseDateOnly(roll.loaded_at))}
+                      {roll.finished_at && ` · Finished ${formatDate(parseDateOnly(roll.finished_at))}`}
+                      {roll.lab && ` · ${roll.lab}`}
+                      {roll.frames.length > 0 && ` · ${roll.frames.length} frames logged`}
+                      {roll.photo_post_ids.length > 0 && ` · ${roll.photo_post_ids.length} linked posts`}
+                    </p>
+                  </Link>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      <FilmRollFormModal
+        isOpen={isFormOpen}
+        cameras={cameras}
+        defaultCameraId={cameraFilter || undefined}
+        onSubmit={handleCreate}
+        onClose={() => setIsFormOpen(false)}
+      />
+    </div>
+  );
+};
+
+Rolls.displayName = 'Rolls';
+
+export default Rolls;
@@ -1,83 +1,62 @@
-import { useCallback, useEffect, useState } from 'react'
+import { useMemo, useRef, useState } from 'react'
 import { useUser } from '@clerk/clerk-react'
 import { ArrowLeft, Search as SearchIcon, User, UserCheck, UserPlus } from 'lucide-react'
 import { useNavigate } from 'react-router-dom'
-import { userService } from '@/services/api/users.service';
-import { useApiWithAuth } from '@/hooks';
-import type { UserProfile } from '@/types';
+import { outboxService, outboxTargets } from '@/services/outbox';
+import { OutboxIndicator } from '@/components/ui/OutboxIndicator';
+import { useDebounce, useInfiniteScroll, useOutbox } from '@/hooks';
+import { useInfiniteUserSearch } from '@/hooks/useOptimizedQueries';
 import '@/css/pages/Search.css'
 
 export function Search() {
   const { user } = useUser()
   const navigate = useNavigate()
-  const { makeAuthenticatedRequest } = useApiWithAuth()
   
   const [searchQuery, setSearchQuery] = useState('')
-  const [searchResults, setSearchResults] = useState<UserProfile[]>([])
-  const [loading, setLoading] = useState(false)
   const [followingUsers, setFollowingUsers] = useState<Set<string>>(new Set())
+  const debouncedQuery = useDebounce(searchQuery.trim(), 300)
+  const loadMoreRef = useRef<HTMLDivElement>(null)
+  const { entries: queued } = useOutbox()
 
-  // Search users
-  const handleSearch = useCallback(async (query: string) => {
-    if (!query.trim()) {
-      setSearchResults([])
-      return
-    }
+  // Search users page by page
+  const {
+    data,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    isLoading: loading,
+    isError,
+  } = useInfiniteUserSearch(debouncedQuery)
 
-    setLoading(true)
-    try {
-      // For now, we'll get all users and filter on frontend
-      // In a real app, you'd have a backend search endpoint
-      const allUsers = await makeAuthenticatedRequest(async (token) => 
-        userService.getAllUsers(token)
-      )
-      
-      const filtered = allUsers.filter(u => 
-        u.id !== user?.id && // Exclude current user
-        (u.username.toLowerCase().includes(query.toLowerCase()) ||
-         u.display_name?.toLowerCase().includes(query.toLowerCase()))
-      )
-      
-      setSearchResults(filtered)
-    } catch (error) {
-      console.error('Search failed:', error)
-      
-      // Fallback: Create a realistic user based on your other account for testing
-      console.warn('Backend unavailable, showing test user for follow functionality')
-      
-      // Create a test user that represents your other account
-      const testUsers: UserProfile[] = [
-        {
-          id: 'user_test_other_account',
-          username: 'desilvajoner95', // Your other account username
-          display_name: 'Joner De Silva',
-          bio: 'Camera enthusiast and photographer',
-          avatar_url: user?.imageUrl || 'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=150&h=150&fit=crop&crop=face',
-          location: '',
-          expertise_level: 'beginner',
-          website_url: '',
-          instagram_url: '',
-          created_at: new Date().toISOString(),
-          camera_count: 0,
-          discussion_count: 0,
-          follower_count: 0,
-          following_count: 0
-        }
-      ]
-      
-      // Filter based on search query
-      const filtered = testUsers.filter(u => 
-        u.username.toLowerCase().includes(query.toLowerCase()) ||
-        u.display_name?.toLowerCase().includes(query.toLowerCase())
-      )
-      
-      setSearchResults(filtered)
-    } finally {
-      setLoading(false)
-    }
-  }, [user?.id, user?.imageUrl, makeAuthenticatedRequest])
+  useInfiniteScroll(loadMoreRef, { hasNextPage, isFetchingNextPage, fetchNextPage })
+
+  // Older backends ignore the search param and return every user, so match locally too
+  const searchResults = useMemo(() => {
+    const query = debouncedQuery.toLowerCase()
+    return (data?.pages.flatMap(page => page.items) ?? []).filter(u =>
+      u.id !== user?.id && // Exclude current user
+      (u.username.toLowerCase().includes(query) ||
+       u.display_name?.toLowerCase().includes(query))
+    )
+  }, [data, debouncedQuery, user?.id])
+
+  // Latest follow change for a user still waiting in the outbox
+  const queuedFollow = (targetUserId: string) =>
+    queued.filter(entry => entry.target === outboxTargets.follow(targetUserId)).pop()
+
+  const setFollowing = (targetUserId: string, isFollowing: boolean) => {
+    setFollowingUsers(prev => {
+      const newSet = new Set(prev)
+      if (isFollowing) {
+        newSet.add(targetUserId)
+      } else {
+        newSet.delete(targetUserId)
+      }
+      return newSet
+    })
+  }
 
-  // Handle follow/unfollow
+  // Handle follow/unfollow; changes made offline are queued and shown right away
   const handleFollowToggle = async (targetUserId: string) => {
     if (!user?.id) {return}
 
@@ -85,34 +64,17 @@ export function Search() {
       const isFollowing = followingUsers.has(targetUserId)
       
       if (isFollowing) {
-        await makeAuthenticatedRequest(async (token) => 
-          userService.unfollowUser(targetUserId, user.id, token)
-        )
-        setFollowingUsers(prev => {
-          const newSet = new Set(prev)
-          newSet.delete(targetUserId)
-          return newSet
-        })
+        await outboxService.run({ type: 'unfollowUser', targetUserId, currentUserId: user.id })
+        setFollowing(targetUserId, false)
       } else {
-        await makeAuthenticatedRequest(async (token) => 
-          userService.followUser(targetUserId, user.id, token)
-        )
-        setFollowingUsers(prev => new Set(prev).add(targetUserId))
+        await outboxService.run({ type: 'followUser', targetUserId, currentUserId: user.id })
+        setFollowing(targetUserId, true)
       }
     } catch (error) {
       console.error('Follow/unfollow failed:', error)
     }
   }
 
-  // Debounced search
-  useEffect(() => {
-    const timer = setTimeout(() => {
-      handleSearch(searchQuery)
-    }, 300)
-
-    return () => clearTimeout(timer)
-  }, [searchQuery, handleSearch])
-
   return (
     <div className="search-page">
       {/* Mobile Header */}
@@ -146,7 +108,15 @@ export function Search() {
           </div>
         )}
 
-        {!loading && searchQuery && searchResults.length === 0 && (
+        {!loading && isError && (
+          <div className="empty-state">
+            <User size={48} />
+            <p>Search failed</p>
+            <p className="empty-subtitle">Please try again in a moment</p>
+          </div>
+        )}
+
+        {!loading && !isError && debouncedQuery && searchResults.length === 0 && (
           <div className="empty-state">
             <User size={48} />
             <p>No users found</p>
@@ -154,7 +124,7 @@ export function Search() {
           </div>
         )}
 
-        {!loading && searchQuery && searchResults.length > 0 && (
+        {!loading && debouncedQuery && searchResults.length > 0 && (
           <div className="user-list">
             <h3>Search Results ({searchResults.length})</h3>
             {searchResults.map((userProfile) => (
@@ -179,24 +149,39 @@ export function Search() {
                     </div>
                   </div>
                 </div>
-                <button
-                  onClick={() => handleFollowToggle(userProfile.id)}
-                  className={`follow-btn ${followingUsers.has(userProfile.id) ? 'following' : ''}`}
-                >
-                  {followingUsers.has(userProfile.id) ? (
-                    <>
-                      <UserCheck size={16} />
-                      Following
-                    </>
-                  ) : (
-                    <>
-                      <UserPlus size={16} />
-                      Follow
-                    </>
+                <div className="follow-action">
+                  <button
+                    onClick={() => handleFollowToggle(userProfile.id)}
+                    className={`follow-btn ${followingUsers.has(userProfile.id) ? 'following' : ''}`}
+                  >
+                    {followingUsers.has(userProfile.id) ? (
+                      <>
+                        <UserCheck size={16} />
+                        Following
+                      </>
+                    ) : (
+                      <>
+                        <UserPlus size={16} />
+                        Follow
+                      </>
+                    )}
+                  </button>
+                  {queuedFollow(userProfile.id) && (
+                    <OutboxIndicator
+                      entry={queuedFollow(userProfile.id)!}
+                      onDiscard={entry => setFollowing(userProfile.id, entry.mutation.type !== 'followUser')}
+                    />
                   )}
-                </button>
+                </div>
               </div>
             ))}
+
+            {/* Infinite scroll trigger */}
+            {hasNextPage && (
+              <div ref={loadMoreRef} className="loading-state">
+                <p>{isFetchingNextPage ? 'Loading more...' : ''}</p>
+              </div>
+            )}
           </div>
         )}
 
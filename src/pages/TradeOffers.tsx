@@ -0,0 +1,204 @@
+import { useCallback, useMemo, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useUser } from '@clerk/clerk-react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Inbox, Repeat, Send } from 'lucide-react';
+import { TradeOfferCard, TradeOfferModal } from '@/components/trade';
+import { useInfiniteScroll } from '@/hooks';
+import { useInfiniteTradeOffers, useUserCameras } from '@/hooks/useOptimizedQueries';
+import { queryKeys } from '@/lib/react-query';
+import { tradeService } from '@/services/api/trades.service';
+import type { PageComponent, TradeInbox, TradeOffer, TradeOfferAction } from '@/types';
+
+// Enough to list a whole collection when picking cameras for a counter-offer
+const COUNTER_CAMERAS_LIMIT = 100;
+
+/**
+ * Trade Offers Page Component
+ *
+ * Inbox of trade offers received and sent, with accept/decline/counter/withdraw
+ */
+export const TradeOffers: PageComponent = () => {
+  const { user } = useUser();
+  const queryClient = useQueryClient();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  const box: TradeInbox = searchParams.get('box') === 'sent' ? 'sent' : 'received';
+  const [busy, setBusy] = useState<{ offerId: string; action: TradeOfferAction } | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [counterOffer, setCounterOffer] = useState<TradeOffer | null>(null);
+
+  const {
+    data,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    isLoading,
+    isError,
+    error,
+    refetch
+  } = useInfiniteTradeOffers(box);
+
+  useInfiniteScroll(loadMoreRef, { hasNextPage, isFetchingNextPage, fetchNextPage });
+
+  const offers = useMemo(() => data?.pages.flatMap(page => page.items) ?? [], [data]);
+
+  // Counters always ask for a different set of the proposer's cameras
+  const { data: proposerCameras, isLoading: isLoadingCameras } = useUserCameras(
+    counterOffer?.proposer_id,
+    1,
+    COUNTER_CAMERAS_LIMIT
+  );
+
+  const refreshOffers = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: queryKeys.trades.all }),
+    [queryClient]
+  );
+
+  const handleAction = useCallback(async (offer: TradeOffer, action: TradeOfferAction) => {
+    if (action === 'counter') {
+      setCounterOffer(offer);
+      return;
+    }
+    if (action === 'withdraw' && !window.confirm('Withdraw this trade offer?')) {
+      return;
+    }
+
+    setBusy({ offerId: offer.id, action });
+    setActionError(null);
+    try {
+      switch (action) {
+        case 'accept':
+          await tradeService.acceptOffer(offer.id);
+          break;
+        case 'decline':
+          await tradeService.declineOffer(offer.id);
+          break;
+        default:
+          await tradeService.withdrawOffer(offer.id);
+      }
+      await refreshOffers();
+    } catch (err) {
+      console.error(`Failed to ${action} trade offer:`, err);
+      setActionError(err instanceof Error ? err.message : `Failed to ${action} the offer`);
+    } finally {
+      setBusy(null);
+    }
+  }, [refreshOffers]);
+
+  const handleCounter = useCallback(async (cameraIds: string[], message: string) => {
+    if (!counterOffer) {return;}
+
+    await tradeService.counterOffer(counterOffer.id, {
+      offered_camera_ids: cameraIds,
+      message: message || undefined,
+    });
+    await refreshOffers();
+  }, [counterOffer, refreshOffers]);
+
+  const setBox = (next: TradeInbox) => {
+    setSearchParams(next === 'sent' ? { box: next } : {}, { replace: true });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-3xl mx-auto px-4 py-6">
+        <h1 className="flex items-center gap-2 text-2xl font-semibold text-gray-900 mb-4">
+          <Repeat size={24} />
+          Trade Offers
+        </h1>
+
+        <div className="flex gap-2 mb-4" role="tablist">
+          <button
+            role="tab"
+            aria-selected={box === 'received'}
+            onClick={() => setBox('received')}
+            className={`flex items-center gap-1 px-4 py-1.5 text-sm rounded-full border ${
+              box === 'received' ? 'bg-orange-600 border-orange-600 text-white' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-100'
+            }`}
+          >
+            <Inbox size={14} />
+            Received
+          </button>
+          <button
+            role="tab"
+            aria-selected={box === 'sent'}
+            onClick={() => setBox('sent')}
+            className={`flex items-center gap-1 px-4 py-1.5 text-sm rounded-full border ${
+              box === 'sent' ? 'bg-orange-600 border-orange-600 text-white' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-100'
+            }`}
+          >
+            <Send size={14} />
+            Sent
+          </button>
+        </div>
+
+        {actionError && (
+          <p className="mb-4 p-3 text-sm text-red-700 bg-red-50 rounded-md">{actionError}</p>
+        )}
+
+        {isLoading ? (
+          <p className="text-center py-12 text-gray-500">Loading offers...</p>
+        ) : isError ? (
+          <div className="text-center py-12">
+            <p className="text-red-600">Error loading trade offers: {error?.message}</p>
+            <button
+              onClick={() => refetch()}
+              className="mt-4 px-4 py-2 bg-orange-600 text-white rounded-md hover:bg-orange-700"
+            >
+              Try Again
+            </button>
+          </div>
+        ) : offers.length === 0 ? (
+          <div className="text-center py-12 text-gray-600">
+            <Repeat size={48} className="mx-auto mb-3 text-gray-400" />
+            <p className="font-medium">
+              {box === 'received' ? 'No offers received yet' : 'You haven\'t sent any offers'}
+            </p>
+            <p className="text-sm mt-1">
+              {box === 'received'
+                ? 'Mark a camera as available for trade to start receiving offers'
+                : 'Browse the marketplace to find cameras listed for trade'}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {offers.map(offer => (
+              <TradeOfferCard
+                key={offer.id}
+                offer={offer}
+                currentUserId={user?.id}
+                busyAction={busy?.offerId === offer.id ? busy.action : null}
+                onAction={handleAction}
+              />
+            ))}
+
+            {/* Infinite scroll trigger */}
+            {hasNextPage && (
+              <div ref={loadMoreRef} className="py-4 text-center text-sm text-gray-500">
+                {isFetchingNextPage ? 'Loading more offers...' : ''}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <TradeOfferModal
+        isOpen={counterOffer !== null}
+        title="Counter Offer"
+        submitLabel="Send Counter"
+        cameras={proposerCameras?.items ?? []}
+        targetCamera={counterOffer?.target_camera}
+        initialSelectedIds={counterOffer?.offered_camera_ids}
+        isLoadingCameras={isLoadingCameras}
+        onSubmit={handleCounter}
+        onClose={() => setCounterOffer(null)}
+      />
+    </div>
+  );
+};
+
+TradeOffers.displayName = 'TradeOffers';
+
+export default TradeOffers;
@@ -0,0 +1,245 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { generatePath, useNavigate } from 'react-router-dom';
+import { useUser } from '@clerk/clerk-react';
+import { BellRing, Heart, Plus, Trash2 } from 'lucide-react';
+import { CameraCard } from '@/components/ui/CameraCard';
+import { GridSkeleton } from '@/components/ui/Skeletons';
+import { useWishlist, useWishlistMatches } from '@/hooks';
+import { catalogService } from '@/services/catalog';
+import { CAMERA_CONFIG, ROUTE_PATHS } from '@/constants';
+import { formatCurrency, snakeToReadable } from '@/utils/format.utils';
+import type { CameraCondition, PageComponent, WishlistCriteria, WishlistItem } from '@/types';
+
+interface CriteriaFormState {
+  brand_name: string;
+  model: string;
+  condition: CameraCondition | '';
+  max_price: string;
+}
+
+const EMPTY_CRITERIA: CriteriaFormState = { brand_name: '', model: '', condition: '', max_price: '' };
+
+const toCriteria = (form: CriteriaFormState): WishlistCriteria => ({
+  brand_name: form.brand_name || undefined,
+  model: form.model.trim() || undefined,
+  condition: form.condition || undefined,
+  max_price: parseInt(form.max_price, 10) > 0 ? parseInt(form.max_price, 10) : undefined,
+});
+
+const describeCriteria = (criteria: WishlistCriteria): string => {
+  const parts = [
+    [criteria.brand_name, criteria.model].filter(Boolean).join(' ') || 'Any camera',
+    criteria.condition && `${snakeToReadable(criteria.condition)} or better`,
+    criteria.max_price && `up to ${formatCurrency(criteria.max_price)}`,
+  ];
+  return parts.filter(Boolean).join(' · ');
+};
+
+/**
+ * Wishlist Page Component
+ *
+ * Saved want-list criteria and marketplace listings that match them
+ */
+export const Wishlist: PageComponent = () => {
+  const navigate = useNavigate();
+  const { user } = useUser();
+  const { items, lastCheckedAt, isReady, addItem, removeItem, markChecked } = useWishlist();
+  const [form, setForm] = useState<CriteriaFormState>(EMPTY_CRITERIA);
+
+  // Keep highlighting what was new on arrival while clearing the header badge
+  const [viewedSince, setViewedSince] = useState<string | null | undefined>(undefined);
+  useEffect(() => {
+    if (isReady && viewedSince === undefined) {
+      setViewedSince(lastCheckedAt);
+      markChecked();
+    }
+  }, [isReady, viewedSince, lastCheckedAt, markChecked]);
+
+  const { matches, isLoading, isError, error, refetch } = useWishlistMatches(viewedSince ?? null);
+
+  const matchesByItem = useMemo(() => {
+    const grouped = new Map<string, typeof matches>();
+    matches.forEach(match => {
+      grouped.set(match.item.id, [...(grouped.get(match.item.id) ?? []), match]);
+    });
+    return grouped;
+  }, [matches]);
+
+  const popularModels = useMemo(
+    () => catalogService.getModels(form.brand_name).map(model => model.name),
+    [form.brand_name]
+  );
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setForm(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const criteria = toCriteria(form);
+    if (!criteria.brand_name && !criteria.model) {
+      return;
+    }
+    addItem(criteria);
+    setForm(EMPTY_CRITERIA);
+  };
+
+  const renderMatches = (item: WishlistItem) => {
+    const itemMatches = matchesByItem.get(item.id) ?? [];
+    if (itemMatches.length === 0) {
+      return <p className="text-sm text-gray-500">No listings match yet. We'll flag new ones here.</p>;
+    }
+
+    return (
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {itemMatches.map(({ camera, isNew }) => (
+          <div key={camera.id} className="relative">
+            {isNew && (
+              <span className="absolute top-2 left-2 z-10 px-2 py-0.5 text-xs font-semibold text-white bg-orange-600 rounded">
+                New
+              </span>
+            )}
+            <CameraCard
+              camera={camera}
+              variant="compact"
+              currentUserId={user?.id}
+              onViewDetails={(id) => navigate(generatePath(ROUTE_PATHS.CAMERA_DETAIL, { id }))}
+            />
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-5xl mx-auto px-4 py-6">
+        <h1 className="flex items-center gap-2 text-2xl font-semibold text-gray-900">
+          <Heart size={24} />
+          Wishlist
+        </h1>
+        <p className="text-sm text-gray-600 mt-1 mb-4">
+          Save the cameras you're hunting for and we'll flag matching marketplace listings
+        </p>
+
+        {/* Add criteria */}
+        <form onSubmit={handleSubmit} className="p-4 mb-6 bg-white rounded-lg shadow-sm">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-sm">
+            <label className="flex flex-col gap-1">
+              <span className="text-gray-600">Brand</span>
+              <select
+                name="brand_name"
+                value={form.brand_name}
+                onChange={handleChange}
+                className="px-2 py-1.5 border border-gray-300 rounded-md"
+              >
+                <option value="">Any brand</option>
+                {catalogService.getBrandNames().map(brand => (
+                  <option key={brand} value={brand}>{brand}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className="flex flex-col gap-1">
+              <span className="text-gray-600">Model</span>
+              <input
+                name="model"
+                value={form.model}
+                onChange={handleChange}
+                list="wishlist-models"
+                placeholder="e.g., M6"
+                className="px-2 py-1.5 border border-gray-300 rounded-md"
+              />
+              <datalist id="wishlist-models">
+                {popularModels.map(model => (
+                  <option key={model} value={model} />
+                ))}
+              </datalist>
+            </label>
+
+            <label className="flex flex-col gap-1">
+              <span className="text-gray-600">Minimum condition</span>
+              <select
+                name="condition"
+                value={form.condition}
+                onChange={handleChange}
+                className="px-2 py-1.5 border border-gray-300 rounded-md"
+              >
+                <option value="">Any condition</option>
+                {CAMERA_CONFIG.CONDITIONS.map(condition => (
+                  <option key={condition.value} value={condition.value}>{condition.label}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className="flex flex-col gap-1">
+              <span className="text-gray-600">Max price (USD)</span>
+              <input
+                type="number"
+                name="max_price"
+                min={0}
+                value={form.max_price}
+                onChange={handleChange}
+                placeholder="No limit"
+                className="px-2 py-1.5 border border-gray-300 rounded-md"
+              />
+            </label>
+
+            <div className="flex items-end">
+              <button
+                type="submit"
+                disabled={!isReady || (!form.brand_name && !form.model.trim())}
+                className="w-full flex items-center justify-center gap-1 px-4 py-1.5 text-white bg-orange-600 rounded-md hover:bg-orange-700 disabled:opacity-50"
+              >
+                <Plus size={16} />
+                Add to Wishlist
+              </button>
+            </div>
+          </div>
+        </form>
+
+        {/* Saved entries and their matches */}
+        {items.length === 0 ? (
+          <div className="text-center py-12 text-gray-600">
+            <BellRing size={48} className="mx-auto mb-3 text-gray-400" />
+            <p className="font-medium">Your wishlist is empty</p>
+            <p className="text-sm mt-1">Add a brand or model above to get match alerts</p>
+          </div>
+        ) : isError ? (
+          <div className="text-center py-12">
+            <p className="text-red-600">Error checking listings: {error?.message}</p>
+            <button
+              onClick={() => refetch()}
+              className="mt-4 px-4 py-2 bg-orange-600 text-white rounded-md hover:bg-orange-700"
+            >
+              Try Again
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {items.map(item => (
+              <section key={item.id} className="p-4 bg-white rounded-lg shadow-sm">
+                <div className="flex items-center justify-between mb-3">
+                  <h2 className="font-semibold text-gray-900">{describeCriteria(item.criteria)}</h2>
+                  <button
+                    onClick={() => removeItem(item.id)}
+                    className="p-1.5 text-gray-500 hover:text-red-600"
+                    aria-label="Remove from wishlist"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+                {isLoading ? <GridSkeleton count={3} /> : renderMatches(item)}
+              </section>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+Wishlist.displayName = 'Wishlist';
+
+export default Wishlist;
@@ -5,3 +5,12 @@ export { Search } from './Search';
 export { Discover } from './Discover';
 export { Collection } from './Collection';
 export { AddCamera } from './AddCamera';
+export { CameraDetail } from './CameraDetail';
+export { Marketplace } from './Marketplace';
+export { TradeOffers } from './TradeOffers';
+export { Wishlist } from './Wishlist';
+export { Compare } from './Compare';
+export { ImportCameras } from './ImportCameras';
+export { InsuranceReport } from './InsuranceReport';
+export { Rolls } from './Rolls';
+export { RollDetail } from './RollDetail';
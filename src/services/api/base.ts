@@ -1,5 +1,19 @@
+import {
+  type ApiInterceptors,
+  type ApiRequest,
+  type InterceptorSet,
+  createInterceptors,
+  createLoggingInterceptors,
+  normalizeErrorInterceptor,
+} from './interceptors';
 import { API_CONFIG } from '@/constants';
-import { handleApiError, withRetry } from '@/utils';
+import {
+  AppApiError,
+  createApiErrorFromResponse,
+  defaultRetryCondition,
+  handleApiError,
+  withRetry,
+} from '@/utils';
 
 /**
  * HTTP client configuration
@@ -12,17 +26,89 @@ export interface RequestConfig extends RequestInit {
   };
 }
 
+/**
+ * Source of bearer tokens; `forceRefresh` asks for a new token instead of a cached one
+ */
+export type TokenProvider = (options?: { forceRefresh?: boolean }) => Promise<string | null>;
+
+/**
+ * Multipart or raw binary upload options
+ */
+export interface UploadConfig {
+  method?: 'POST' | 'PUT' | 'PATCH';
+  params?: Record<string, string>;
+  headers?: Record<string, string>;
+  timeout?: number;
+  signal?: AbortSignal;
+  /** Called with the percentage of the body sent, 0-100 */
+  onProgress?: (progress: number) => void;
+}
+
+/**
+ * Bodies sent as-is, letting the browser set the content type
+ */
+const isBinaryBody = (body: unknown): body is FormData | Blob =>
+  body instanceof FormData || body instanceof Blob;
+
+const toRequestBody = (data: unknown): BodyInit | undefined => {
+  if (!data) {return undefined;}
+  return isBinaryBody(data) ? data : JSON.stringify(data);
+};
+
+const toHeaderRecord = (headers?: HeadersInit): Record<string, string> => {
+  if (!headers) {return {};}
+  if (headers instanceof Headers || Array.isArray(headers)) {
+    return Object.fromEntries(new Headers(headers).entries());
+  }
+  return { ...headers };
+};
+
+const withBearer = (headers: Record<string, string>, token: string | null): Record<string, string> =>
+  token ? { ...headers, Authorization: `Bearer ${token}` } : headers;
+
+const parseResponseHeaders = (raw: string): Headers => {
+  const headers = new Headers();
+  raw.trim().split(/[\r\n]+/).forEach(line => {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      headers.append(line.slice(0, separator).trim(), line.slice(separator + 1).trim());
+    }
+  });
+  return headers;
+};
+
+const abortError = () => new DOMException('Request cancelled', 'AbortError');
+
 /**
  * Base API client class
  */
 export class ApiClient {
   private baseURL: string;
   private defaultTimeout: number;
+  private tokenProvider: TokenProvider | null = null;
+  private tokenRefresh: Promise<string | null> | null = null;
+
+  /**
+   * Interceptor chains of this client; ready-made ones live in ./interceptors
+   */
+  readonly interceptors: ApiInterceptors = createInterceptors();
 
   constructor(baseURL?: string) {
     this.baseURL = baseURL || API_CONFIG.BASE_URL;
     this.defaultTimeout = API_CONFIG.TIMEOUT;
-    console.warn('[API Debug] ApiClient initialized with baseURL:', this.baseURL);
+    this.interceptors.error.use(normalizeErrorInterceptor);
+  }
+
+  /**
+   * Register interceptors for several stages at once; returns a function removing all of them
+   */
+  useInterceptors(set: InterceptorSet): () => void {
+    const ejects = [
+      set.request && this.interceptors.request.use(set.request),
+      set.response && this.interceptors.response.use(set.response),
+      set.error && this.interceptors.error.use(set.error),
+    ];
+    return () => ejects.forEach(eject => eject?.());
   }
 
   /**
@@ -38,56 +124,68 @@ export class ApiClient {
       ...fetchConfig
     } = config;
 
+    const { signal } = fetchConfig;
+
     const makeRequest = async (): Promise<T> => {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), timeout);
+      if (signal?.aborted) {
+        throw abortError();
+      }
 
-      // Use endpoint as-is since backend now has redirect_slashes=False
-      const normalizedEndpoint = endpoint;
-
-      // Debug logging
-      const fullUrl = `${this.baseURL}${normalizedEndpoint}`;
-      console.warn('[API Debug] Making request:', {
-        baseURL: this.baseURL,
-        originalEndpoint: endpoint,
-        normalizedEndpoint,
-        fullUrl,
-        method: fetchConfig.method || 'GET'
+      const request = await this.prepareRequest(endpoint, {
+        method: fetchConfig.method || 'GET',
+        headers: {
+          ...(isBinaryBody(fetchConfig.body) ? {} : { 'Content-Type': 'application/json' }),
+          ...toHeaderRecord(fetchConfig.headers),
+        },
+        body: fetchConfig.body,
       });
 
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), timeout);
+      const handleAbort = () => controller.abort();
+      signal?.addEventListener('abort', handleAbort, { once: true });
+
       try {
-        const response = await fetch(fullUrl, {
-          ...fetchConfig,
-          signal: controller.signal,
-          headers: {
-            'Content-Type': 'application/json',
-            ...fetchConfig.headers,
-          },
-        });
+        const response = await this.interceptResponse(
+          await fetch(request.url, {
+            ...fetchConfig,
+            method: request.method,
+            headers: request.headers,
+            body: request.body,
+            signal: controller.signal,
+          }),
+          request
+        );
 
         clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', handleAbort);
 
         if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          throw new Error(`HTTP ${response.status}: ${errorData.message || response.statusText}`);
+          throw await createApiErrorFromResponse(response);
         }
 
         return response.json();
       } catch (error) {
         clearTimeout(timeoutId);
-        throw error;
+        signal?.removeEventListener('abort', handleAbort);
+        const timedOut = controller.signal.aborted && !signal?.aborted;
+        throw await this.interceptError(
+          signal?.aborted ? abortError()
+            : timedOut ? new AppApiError(0, 'Request timed out', { code: 'timeout' })
+              : error,
+          request
+        );
       }
     };
 
     if (retry.maxAttempts > 1) {
-      return withRetry(makeRequest, retry);
+      return withRetry(makeRequest, {
+        ...retry,
+        retryCondition: error => !signal?.aborted && defaultRetryCondition(error),
+      });
     }
 
-    try {
-      return await makeRequest();
-    } catch (error) {
-      throw handleApiError(error);
-    }
+    return makeRequest();
   }
 
   /**
@@ -110,7 +208,7 @@ export class ApiClient {
   ): Promise<T> {
     return this.request<T>(endpoint, {
       method: 'POST',
-      body: data ? JSON.stringify(data) : undefined,
+      body: toRequestBody(data),
       ...config,
     });
   }
@@ -125,7 +223,7 @@ export class ApiClient {
   ): Promise<T> {
     return this.request<T>(endpoint, {
       method: 'PUT',
-      body: data ? JSON.stringify(data) : undefined,
+      body: toRequestBody(data),
       ...config,
     });
   }
@@ -140,7 +238,7 @@ export class ApiClient {
   ): Promise<T> {
     return this.request<T>(endpoint, {
       method: 'PATCH',
-      body: data ? JSON.stringify(data) : undefined,
+      body: toRequestBody(data),
       ...config,
     });
   }
@@ -156,29 +254,221 @@ export class ApiClient {
   }
 
   /**
-   * Make authenticated request
+   * Use a token provider for authenticated requests; pass null on sign-out
+   */
+  setTokenProvider(provider: TokenProvider | null): void {
+    this.tokenProvider = provider;
+    this.tokenRefresh = null;
+  }
+
+  /**
+   * Current token, for connections that cannot go through authenticatedRequest
+   */
+  async getToken(): Promise<string | null> {
+    return this.tokenProvider ? this.tokenProvider().catch(() => null) : null;
+  }
+
+  /**
+   * Absolute URL of an endpoint on this client's API
+   */
+  getUrl(endpoint: string): string {
+    return new URL(`${this.baseURL}${endpoint}`, window.location.origin).toString();
+  }
+
+  /**
+   * Make authenticated request, refreshing the token and replaying once on a 401
    */
   async authenticatedRequest<T>(
     endpoint: string,
-    token: string | null,
     config: RequestConfig = {}
   ): Promise<T> {
-    const headers: HeadersInit = {
-      ...(config.headers as Record<string, string>),
-    };
-    
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`;
-    }
-
-    return this.request<T>(endpoint, {
+    return this.withAuthRetry(token => this.request<T>(endpoint, {
       ...config,
-      headers,
+      headers: withBearer(toHeaderRecord(config.headers), token),
       retry: {
         maxAttempts: API_CONFIG.MAX_RETRY_ATTEMPTS,
         backoffMs: 1000,
         ...config.retry,
       },
+    }));
+  }
+
+  /**
+   * Send FormData or a Blob, reporting upload progress
+   */
+  async upload<T>(
+    endpoint: string,
+    body: FormData | Blob,
+    config: UploadConfig = {}
+  ): Promise<T> {
+    const {
+      method = 'POST',
+      params,
+      headers = {},
+      timeout = API_CONFIG.UPLOAD_TIMEOUT,
+      signal,
+      onProgress,
+    } = config;
+
+    if (signal?.aborted) {
+      throw abortError();
+    }
+
+    const query = params ? `?${new URLSearchParams(params).toString()}` : '';
+    const request = await this.prepareRequest(`${endpoint}${query}`, { method, headers: { ...headers }, body });
+
+    try {
+      const response = await this.interceptResponse(
+        await this.sendWithProgress(request, timeout, signal, onProgress),
+        request
+      );
+
+      if (!response.ok) {
+        throw await createApiErrorFromResponse(response);
+      }
+
+      const data: Record<string, unknown> = await response.json().catch(() => ({}));
+
+      onProgress?.(100);
+      return data as T;
+    } catch (error) {
+      throw await this.interceptError(signal?.aborted ? abortError() : error, request);
+    }
+  }
+
+  /**
+   * Upload with the bearer token attached, refreshing and replaying once on a 401
+   */
+  async authenticatedUpload<T>(
+    endpoint: string,
+    body: FormData | Blob,
+    config: UploadConfig = {}
+  ): Promise<T> {
+    return this.withAuthRetry(token => this.upload<T>(endpoint, body, {
+      ...config,
+      headers: withBearer({ ...config.headers }, token),
+    }));
+  }
+
+  /**
+   * Send with the current token; on a 401 refresh it once and send again
+   */
+  private async withAuthRetry<T>(send: (token: string | null) => Promise<T>): Promise<T> {
+    const token = this.tokenProvider ? await this.tokenProvider() : null;
+
+    try {
+      return await send(token);
+    } catch (error) {
+      if (!this.tokenProvider || !(error instanceof AppApiError) || error.status !== 401) {
+        throw error;
+      }
+
+      const refreshed = await this.refreshToken();
+      if (!refreshed) {
+        throw error;
+      }
+      return send(refreshed);
+    }
+  }
+
+  /**
+   * Force a new token; concurrent callers share the same refresh
+   */
+  private refreshToken(): Promise<string | null> {
+    if (!this.tokenRefresh) {
+      const provider = this.tokenProvider;
+      const refresh = (provider ? provider({ forceRefresh: true }) : Promise.resolve(null))
+        .catch(() => null)
+        .finally(() => {
+          if (this.tokenRefresh === refresh) {
+            this.tokenRefresh = null;
+          }
+        });
+      this.tokenRefresh = refresh;
+    }
+    return this.tokenRefresh;
+  }
+
+  /**
+   * Build the outgoing request and run it through the request interceptors
+   */
+  private async prepareRequest(
+    endpoint: string,
+    init: Pick<ApiRequest, 'method' | 'headers' | 'body'>
+  ): Promise<ApiRequest> {
+    let request: ApiRequest = { ...init, endpoint, url: `${this.baseURL}${endpoint}`, meta: {} };
+    for (const interceptor of this.interceptors.request.list()) {
+      request = await interceptor(request);
+    }
+    return request;
+  }
+
+  private async interceptResponse(response: Response, request: ApiRequest): Promise<Response> {
+    let result = response;
+    for (const interceptor of this.interceptors.response.list()) {
+      result = await interceptor(result, request);
+    }
+    return result;
+  }
+
+  private async interceptError(error: unknown, request: ApiRequest): Promise<unknown> {
+    let result = error;
+    for (const interceptor of this.interceptors.error.list()) {
+      result = await interceptor(result, request);
+    }
+    return result;
+  }
+
+  /**
+   * XMLHttpRequest transport, since fetch cannot report request body progress
+   */
+  private sendWithProgress(
+    request: ApiRequest,
+    timeout: number,
+    signal?: AbortSignal,
+    onProgress?: (progress: number) => void
+  ): Promise<Response> {
+    return new Promise<Response>((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      xhr.open(request.method, request.url);
+      xhr.timeout = timeout;
+      Object.entries(request.headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+      const handleAbort = () => xhr.abort();
+      signal?.addEventListener('abort', handleAbort, { once: true });
+      const settle = () => signal?.removeEventListener('abort', handleAbort);
+
+      xhr.upload.onprogress = (event) => {
+        if (event.lengthComputable) {
+          onProgress?.(Math.round((event.loaded / event.total) * 100));
+        }
+      };
+
+      xhr.onload = () => {
+        settle();
+        resolve(new Response(xhr.responseText || null, {
+          status: xhr.status,
+          statusText: xhr.statusText,
+          headers: parseResponseHeaders(xhr.getAllResponseHeaders()),
+        }));
+      };
+
+      xhr.onerror = () => {
+        settle();
+        reject(new AppApiError(0, 'Network error: Unable to connect to server', { code: 'network_error' }));
+      };
+
+      xhr.ontimeout = () => {
+        settle();
+        reject(new AppApiError(0, 'Upload timed out', { code: 'timeout' }));
+      };
+
+      xhr.onabort = () => {
+        settle();
+        reject(abortError());
+      };
+
+      xhr.send(request.body as XMLHttpRequestBodyInit | null | undefined);
     });
   }
 
@@ -209,3 +499,7 @@ export class ApiClient {
 
 // Create singleton instance
 export const apiClient = new ApiClient();
+
+if (API_CONFIG.DEBUG) {
+  apiClient.useInterceptors(createLoggingInterceptors());
+}
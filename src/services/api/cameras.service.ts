@@ -1,34 +1,65 @@
 import { apiClient } from './base';
-import { API_ENDPOINTS } from '@/constants';
+import {
+  type EndpointSupport,
+  type ListResponse,
+  appendPageParams,
+  collectAllPages,
+  isEndpointMissing,
+  isEnvelope,
+  paginateLocally,
+  toPaginated
+} from './pagination';
+import { API_ENDPOINTS, UI_CONFIG } from '@/constants';
+import { compareCameras, matchesCameraFilters, sortCameras } from '@/utils';
 import type {
   Camera,
   CameraFilters,
+  CameraHistoryEvent,
+  CameraImage,
+  CameraImageOrder,
   CameraSortBy,
   CreateCameraData,
+  CreateCameraHistoryEventData,
+  CreateCameraImageData,
+  PageParams,
+  Paginated,
   SortOrder,
 } from '@/types';
 
+/**
+ * Options accepted by camera list methods
+ */
+export interface CameraListOptions extends PageParams {
+  filters?: CameraFilters;
+  sortBy?: CameraSortBy;
+  sortOrder?: SortOrder;
+}
+
+/**
+ * Next `count` cameras of a list from `offset` on
+ */
+interface ListingWindow {
+  items: Camera[];
+  /** Whether the list goes on past this window */
+  hasMore: boolean;
+  total: number;
+}
+
+// Marketplace cursors record how far each list has been merged: `market:<sale offset>:<trade offset>`
+const MARKETPLACE_CURSOR = /^market:(\d+):(\d+)$/;
+
 /**
  * Camera service for API operations
  */
 export class CameraService {
+  private userCamerasSupported: EndpointSupport = null;
+
   /**
-   * Get all cameras with optional filtering and sorting
+   * Build list query parameters shared by camera list endpoints
    */
-  async getAllCameras(
-    token?: string,
-    options?: {
-      page?: number;
-      limit?: number;
-      filters?: CameraFilters;
-      sortBy?: CameraSortBy;
-      sortOrder?: SortOrder;
-    }
-  ): Promise<Camera[]> {
-    const params = new URLSearchParams();
+  private buildListParams(options?: CameraListOptions): URLSearchParams {
+    const params = appendPageParams(new URLSearchParams(), options);
 
-    if (options?.page) {params.append('page', options.page.toString());}
-    if (options?.limit) {params.append('limit', options.limit.toString());}
     if (options?.sortBy) {params.append('sortBy', options.sortBy);}
     if (options?.sortOrder) {params.append('sortOrder', options.sortOrder);}
 
@@ -36,11 +67,16 @@ export class CameraService {
     if (options?.filters) {
       const { filters } = options;
       if (filters.brand_name) {params.append('brand_name', filters.brand_name);}
+      if (filters.model) {params.append('model', filters.model);}
       if (filters.camera_type) {params.append('camera_type', filters.camera_type);}
       if (filters.film_format) {params.append('film_format', filters.film_format);}
       if (filters.condition) {params.append('condition', filters.condition);}
       if (filters.min_year) {params.append('min_year', filters.min_year.toString());}
       if (filters.max_year) {params.append('max_year', filters.max_year.toString());}
+      if (filters.min_price) {params.append('min_price', filters.min_price.toString());}
+      if (filters.max_price) {params.append('max_price', filters.max_price.toString());}
+      if (filters.lens_mount) {params.append('lens_mount', filters.lens_mount);}
+      if (filters.metering) {params.append('metering', filters.metering);}
       if (filters.is_for_sale !== undefined) {
         params.append('is_for_sale', filters.is_for_sale.toString());
       }
@@ -49,54 +85,120 @@ export class CameraService {
       }
     }
 
+    return params;
+  }
+
+  /**
+   * Fetch a filtered camera list, applying the filters locally when the
+   * backend returns a bare array (older backends ignore list parameters)
+   */
+  private async getListings(options: CameraListOptions): Promise<Paginated<Camera>> {
+    const params = this.buildListParams(options);
+    const response = await apiClient.authenticatedRequest<ListResponse<Camera>>(
+      `${API_ENDPOINTS.CAMERAS}?${params.toString()}`
+    );
+
+    if (isEnvelope(response)) {
+      return toPaginated(response, options);
+    }
+
+    const matches = response.filter(camera => matchesCameraFilters(camera, options.filters));
+    return paginateLocally(sortCameras(matches, options.sortBy, options.sortOrder), options);
+  }
+
+  /**
+   * Get a page of cameras with optional filtering and sorting
+   */
+  async getAllCameras(
+    options?: CameraListOptions
+  ): Promise<Paginated<Camera>> {
+    const params = this.buildListParams(options);
     const endpoint = params.toString()
       ? `${API_ENDPOINTS.CAMERAS}?${params.toString()}`
       : API_ENDPOINTS.CAMERAS;
 
-    return apiClient.authenticatedRequest(endpoint, token || null);
+    const response = await apiClient.authenticatedRequest<ListResponse<Camera>>(endpoint);
+    return toPaginated(response, options);
   }
 
   /**
    * Get camera by ID
    */
-  async getCameraById(cameraId: string, token?: string): Promise<Camera> {
+  async getCameraById(cameraId: string): Promise<Camera> {
     return apiClient.authenticatedRequest(
-      API_ENDPOINTS.CAMERA_BY_ID(cameraId),
-      token || null
+      API_ENDPOINTS.CAMERA_BY_ID(cameraId)
     );
   }
 
   /**
-   * Get cameras owned by a specific user
+   * Get a page of cameras owned by a specific user
+   *
+   * Uses the user-scoped endpoint when the backend has it, otherwise falls back
+   * to fetching all cameras and paginating in the browser. The probe result is
+   * remembered for the session.
    */
   async getUserCameras(
     userId: string,
-    token?: string,
-    options?: {
-      sortBy?: CameraSortBy;
-      sortOrder?: SortOrder;
+    options?: CameraListOptions
+  ): Promise<Paginated<Camera>> {
+    const pageOptions = {
+      ...options,
+      page: options?.page || 1,
+      limit: options?.limit || UI_CONFIG.DEFAULT_PAGE_SIZE,
+    };
+
+    if (this.userCamerasSupported !== false) {
+      const params = this.buildListParams(pageOptions);
+      try {
+        const response = await apiClient.authenticatedRequest<ListResponse<Camera>>(
+          `${API_ENDPOINTS.USER_CAMERAS(userId)}?${params.toString()}`,
+          // A missing route should fail fast rather than be retried
+          { retry: { maxAttempts: 1, backoffMs: 0 } }
+        );
+        this.userCamerasSupported = true;
+        return toPaginated(response, pageOptions);
+      } catch (error) {
+        if (this.userCamerasSupported || !isEndpointMissing(error)) {
+          throw error;
+        }
+        this.userCamerasSupported = false;
+      }
     }
-  ): Promise<Camera[]> {
-    // Get all cameras and filter by user_id
-    // In a real implementation, the backend should support user-specific endpoints
-    const allCameras = await this.getAllCameras(token, {
+
+    // Legacy backend: fetch everything and filter by owner
+    const allCameras = await this.getAllCameras({
+      filters: options?.filters,
       sortBy: options?.sortBy,
       sortOrder: options?.sortOrder,
     });
 
-    return allCameras.filter(camera => camera.user_id === userId);
+    return paginateLocally(
+      allCameras.items.filter(camera => camera.user_id === userId),
+      pageOptions
+    );
   }
 
   /**
-   * Create new camera
+   * Get every camera owned by a user, fetching page by page
+   */
+  async getAllUserCameras(userId: string): Promise<Camera[]> {
+    return collectAllPages(
+      (pageOptions) => this.getUserCameras(userId, pageOptions),
+      UI_CONFIG.MAX_PAGE_SIZE
+    );
+  }
+
+  /**
+   * Create new camera, optionally naming the owner for endpoints that expect it
    */
   async createCamera(
     cameraData: CreateCameraData,
-    token?: string
+    userId?: string
   ): Promise<Camera> {
+    const query = userId ? `?${new URLSearchParams({ user_id: userId }).toString()}` : '';
+
     return apiClient.authenticatedRequest(
-      API_ENDPOINTS.CAMERAS,
-      token || null,
+      `${API_ENDPOINTS.CAMERAS}${query}`,
       {
         method: 'POST',
         body: JSON.stringify(cameraData),
@@ -109,12 +211,10 @@ export class CameraService {
    */
   async updateCamera(
     cameraId: string,
-    cameraData: Partial<CreateCameraData>,
-    token?: string
+    cameraData: Partial<CreateCameraData>
   ): Promise<Camera> {
     return apiClient.authenticatedRequest(
       API_ENDPOINTS.CAMERA_BY_ID(cameraId),
-      token || null,
       {
         method: 'PATCH',
         body: JSON.stringify(cameraData),
@@ -125,10 +225,9 @@ export class CameraService {
   /**
    * Delete camera
    */
-  async deleteCamera(cameraId: string, token?: string): Promise<void> {
+  async deleteCamera(cameraId: string): Promise<void> {
     return apiClient.authenticatedRequest(
       API_ENDPOINTS.CAMERA_BY_ID(cameraId),
-      token || null,
       {
         method: 'DELETE',
       }
@@ -137,42 +236,48 @@ export class CameraService {
 
   /**
    * Search cameras
+   *
+   * The query is sent as `search`; a paginated envelope in the response means
+   * the backend applied it. Older backends return a bare array, in which case
+   * the search is applied in the browser.
    */
   async searchCameras(
     query: string,
-    token?: string,
-    options?: {
-      limit?: number;
-      filters?: CameraFilters;
+    options?: CameraListOptions
+  ): Promise<Paginated<Camera>> {
+    const pageOptions = {
+      ...options,
+      page: options?.page || 1,
+      limit: options?.limit || UI_CONFIG.DEFAULT_PAGE_SIZE,
+    };
+    const params = this.buildListParams(pageOptions);
+    params.append('search', query);
+
+    const response = await apiClient.authenticatedRequest<ListResponse<Camera>>(
+      `${API_ENDPOINTS.CAMERAS}?${params.toString()}`
+    );
+
+    if (isEnvelope(response)) {
+      return toPaginated(response, pageOptions);
     }
-  ): Promise<Camera[]> {
-    const allCameras = await this.getAllCameras(token, {
-      limit: options?.limit,
-      filters: options?.filters,
-    });
 
-    // Client-side search filtering
+    // Legacy backend ignored `search` and pagination
     const searchTerm = query.toLowerCase();
-    return allCameras.filter(camera =>
+    const matches = response.filter(camera =>
       camera.brand_name.toLowerCase().includes(searchTerm) ||
       camera.model.toLowerCase().includes(searchTerm) ||
       (camera.year && camera.year.includes(query))
     );
+    return paginateLocally(matches, pageOptions);
   }
 
   /**
    * Get cameras for sale
    */
   async getCamerasForSale(
-    token?: string,
-    options?: {
-      page?: number;
-      limit?: number;
-      sortBy?: CameraSortBy;
-      sortOrder?: SortOrder;
-    }
-  ): Promise<Camera[]> {
-    return this.getAllCameras(token, {
+    options?: Omit<CameraListOptions, 'filters'>
+  ): Promise<Paginated<Camera>> {
+    return this.getAllCameras({
       ...options,
       filters: { is_for_sale: true },
     });
@@ -182,30 +287,109 @@ export class CameraService {
    * Get cameras for trade
    */
   async getCamerasForTrade(
-    token?: string,
-    options?: {
-      page?: number;
-      limit?: number;
-      sortBy?: CameraSortBy;
-      sortOrder?: SortOrder;
-    }
-  ): Promise<Camera[]> {
-    return this.getAllCameras(token, {
+    options?: Omit<CameraListOptions, 'filters'>
+  ): Promise<Paginated<Camera>> {
+    return this.getAllCameras({
       ...options,
       filters: { is_for_trade: true },
     });
   }
 
+  /**
+   * Get a page of marketplace listings (cameras for sale or trade)
+   *
+   * Unless the filters pin one listing type, the sale and trade lists are
+   * merged in sort order across pages, with `nextCursor` recording how far
+   * into each list the merge got; pages after the first follow that cursor.
+   * Cameras listed for both only come through the sale list, so none repeat.
+   * `total` adds both lists and so is an upper bound.
+   */
+  async getMarketplaceCameras(
+    options: CameraListOptions = {}
+  ): Promise<Paginated<Camera>> {
+    const filters = options.filters ?? {};
+    if (filters.is_for_sale || filters.is_for_trade) {
+      return this.getListings(options);
+    }
+
+    const limit = options.limit || UI_CONFIG.DEFAULT_PAGE_SIZE;
+    const position = MARKETPLACE_CURSOR.exec(options.cursor ?? '');
+    let saleOffset = position ? Number(position[1]) : 0;
+    let tradeOffset = position ? Number(position[2]) : 0;
+
+    const listOptions = { ...options, cursor: undefined };
+    const [forSale, forTrade] = await Promise.all([
+      this.getListingWindow({ ...listOptions, filters: { ...filters, is_for_sale: true } }, saleOffset, limit),
+      this.getListingWindow({ ...listOptions, filters: { ...filters, is_for_trade: true } }, tradeOffset, limit),
+    ]);
+
+    const compare = compareCameras(options.sortBy, options.sortOrder);
+    const items: Camera[] = [];
+    let sale = 0;
+    let trade = 0;
+    while (items.length < limit) {
+      const nextSale = forSale.items[sale];
+      const nextTrade = forTrade.items[trade];
+      // Past the end of a window the order is unknown, unless that list has ended
+      if ((!nextSale && forSale.hasMore) || (!nextTrade && forTrade.hasMore)) {break;}
+      if (!nextSale && !nextTrade) {break;}
+
+      if (nextSale && (!nextTrade || compare(nextSale, nextTrade) <= 0)) {
+        items.push(nextSale);
+        sale++;
+      } else {
+        if (!nextTrade.is_for_sale) {
+          items.push(nextTrade);
+        }
+        trade++;
+      }
+    }
+
+    saleOffset += sale;
+    tradeOffset += trade;
+    const hasMore = sale < forSale.items.length || forSale.hasMore ||
+      trade < forTrade.items.length || forTrade.hasMore;
+
+    return {
+      items,
+      total: forSale.total + forTrade.total,
+      nextCursor: hasMore ? `market:${saleOffset}:${tradeOffset}` : null,
+      nextPage: null,
+    };
+  }
+
+  /**
+   * Fetch the `count` listings after `offset`, spanning two pages when the offset falls mid-page
+   */
+  private async getListingWindow(
+    options: CameraListOptions,
+    offset: number,
+    count: number
+  ): Promise<ListingWindow> {
+    const page = Math.floor(offset / count) + 1;
+    const skip = offset % count;
+    const first = await this.getListings({ ...options, page, limit: count });
+    const second = skip > 0 && first.nextPage
+      ? await this.getListings({ ...options, page: page + 1, limit: count })
+      : null;
+
+    const items = [...first.items, ...(second?.items ?? [])].slice(skip, skip + count);
+    return {
+      items,
+      hasMore: Boolean(second ? second.nextPage : first.nextPage) ||
+        (second !== null && skip + count < first.items.length + second.items.length),
+      total: first.total,
+    };
+  }
+
   /**
    * Like/unlike a camera
    */
   async toggleCameraLike(
-    cameraId: string,
-    token?: string
+    cameraId: string
   ): Promise<{ liked: boolean; like_count: number }> {
     return apiClient.authenticatedRequest(
       `${API_ENDPOINTS.CAMERA_BY_ID(cameraId)}/like`,
-      token || null,
       {
         method: 'POST',
       }
@@ -216,16 +400,14 @@ export class CameraService {
    * Get camera statistics
    */
   async getCameraStats(
-    cameraId: string,
-    token?: string
+    cameraId: string
   ): Promise<{
     view_count: number;
     like_count: number;
     comment_count: number;
   }> {
     return apiClient.authenticatedRequest(
-      `${API_ENDPOINTS.CAMERA_BY_ID(cameraId)}/stats`,
-      token || null
+      `${API_ENDPOINTS.CAMERA_BY_ID(cameraId)}/stats`
     );
   }
 
@@ -234,8 +416,7 @@ export class CameraService {
    */
   async uploadCameraImages(
     cameraId: string,
-    images: File[],
-    token?: string
+    images: File[]
   ): Promise<{ uploaded_images: Array<{ id: string; url: string }> }> {
     const formData = new FormData();
     images.forEach((image, index) => {
@@ -244,7 +425,6 @@ export class CameraService {
 
     return apiClient.authenticatedRequest(
       `${API_ENDPOINTS.CAMERA_BY_ID(cameraId)}/images`,
-      token || null,
       {
         method: 'POST',
         body: formData,
@@ -252,6 +432,107 @@ export class CameraService {
       }
     );
   }
+
+  /**
+   * Attach already-uploaded images to a camera with their order and primary flag
+   */
+  async addCameraImages(
+    cameraId: string,
+    images: CreateCameraImageData[]
+  ): Promise<CameraImage[]> {
+    return apiClient.authenticatedRequest(
+      API_ENDPOINTS.CAMERA_IMAGES(cameraId),
+      {
+        method: 'POST',
+        body: JSON.stringify({ images }),
+      }
+    );
+  }
+
+  /**
+   * Update display order and primary flag of existing camera images
+   */
+  async reorderCameraImages(
+    cameraId: string,
+    images: CameraImageOrder[]
+  ): Promise<CameraImage[]> {
+    return apiClient.authenticatedRequest(
+      API_ENDPOINTS.CAMERA_IMAGES(cameraId),
+      {
+        method: 'PATCH',
+        body: JSON.stringify({ images }),
+      }
+    );
+  }
+
+  /**
+   * Delete a single camera image
+   */
+  async deleteCameraImage(cameraId: string, imageId: string): Promise<void> {
+    return apiClient.authenticatedRequest(
+      API_ENDPOINTS.CAMERA_IMAGE_BY_ID(cameraId, imageId),
+      {
+        method: 'DELETE',
+      }
+    );
+  }
+
+  /**
+   * Get a camera's history events, oldest first
+   */
+  async getCameraHistory(cameraId: string): Promise<CameraHistoryEvent[]> {
+    const events = await apiClient.authenticatedRequest<CameraHistoryEvent[]>(
+      API_ENDPOINTS.CAMERA_HISTORY(cameraId)
+    );
+    return [...events].sort((a, b) =>
+      a.event_date.localeCompare(b.event_date) || a.created_at.localeCompare(b.created_at)
+    );
+  }
+
+  /**
+   * Add an event to a camera's history
+   */
+  async addCameraHistoryEvent(
+    cameraId: string,
+    data: CreateCameraHistoryEventData
+  ): Promise<CameraHistoryEvent> {
+    return apiClient.authenticatedRequest(
+      API_ENDPOINTS.CAMERA_HISTORY(cameraId),
+      {
+        method: 'POST',
+        body: JSON.stringify(data),
+      }
+    );
+  }
+
+  /**
+   * Update a history event
+   */
+  async updateCameraHistoryEvent(
+    cameraId: string,
+    eventId: string,
+    data: Partial<CreateCameraHistoryEventData>
+  ): Promise<CameraHistoryEvent> {
+    return apiClient.authenticatedRequest(
+      API_ENDPOINTS.CAMERA_HISTORY_EVENT(cameraId, eventId),
+      {
+        method: 'PATCH',
+        body: JSON.stringify(data),
+      }
+    );
+  }
+
+  /**
+   * Delete a history event
+   */
+  async deleteCameraHistoryEvent(cameraId: string, eventId: string): Promise<void> {
+    return apiClient.authenticatedRequest(
+      API_ENDPOINTS.CAMERA_HISTORY_EVENT(cameraId, eventId),
+      {
+        method: 'DELETE',
+      }
+    );
+  }
 }
 
 export const cameraService = new CameraService();
@@ -1,4 +1,6 @@
 import { apiClient } from './base';
+import { type ListResponse, toPaginated } from './pagination';
+import type { Paginated } from '@/types';
 
 export interface Comment {
   id: string;
@@ -33,46 +35,58 @@ export interface CommentListParams {
   camera_id?: string;
   limit?: number;
   offset?: number;
+  page?: number;
+  cursor?: string;
 }
 
 class CommentService {
   /**
    * Get comments for a discussion or camera
    */
-  async getComments(params: CommentListParams): Promise<Comment[]> {
+  async getComments(params: CommentListParams): Promise<Paginated<Comment>> {
+    // The comments endpoint pages by offset; `page` is translated for callers using page numbers
+    const offset = params.offset ?? (params.page && params.limit ? (params.page - 1) * params.limit : undefined);
+
     const queryParams = new URLSearchParams();
     if (params.discussion_id) {queryParams.set('discussion_id', params.discussion_id);}
     if (params.camera_id) {queryParams.set('camera_id', params.camera_id);}
     if (params.limit) {queryParams.set('limit', params.limit.toString());}
-    if (params.offset) {queryParams.set('offset', params.offset.toString());}
+    if (offset) {queryParams.set('offset', offset.toString());}
+    if (params.cursor) {queryParams.set('cursor', params.cursor);}
 
-    return apiClient.get<Comment[]>(`/api/v1/comments/?${queryParams.toString()}`);
+    const response = await apiClient.get<ListResponse<Comment>>(`/api/v1/comments/?${queryParams.toString()}`);
+    return toPaginated(response, {
+      page: params.limit && offset ? Math.floor(offset / params.limit) + 1 : 1,
+      limit: params.limit,
+    });
   }
 
   /**
    * Create a new comment
    */
-  async createComment(data: CreateCommentRequest, token?: string): Promise<Comment> {
-    return apiClient.post<Comment>('/api/v1/comments/', data, {
-      headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+  async createComment(data: CreateCommentRequest): Promise<Comment> {
+    return apiClient.authenticatedRequest<Comment>('/api/v1/comments/', {
+      method: 'POST',
+      body: JSON.stringify(data),
     });
   }
 
   /**
    * Update a comment
    */
-  async updateComment(commentId: string, data: UpdateCommentRequest, token?: string): Promise<{ message: string }> {
-    return apiClient.put<{ message: string }>(`/api/v1/comments/${commentId}`, data, {
-      headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+  async updateComment(commentId: string, data: UpdateCommentRequest): Promise<{ message: string }> {
+    return apiClient.authenticatedRequest<{ message: string }>(`/api/v1/comments/${commentId}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
     });
   }
 
   /**
    * Delete a comment
    */
-  async deleteComment(commentId: string, token?: string): Promise<{ message: string }> {
-    return apiClient.delete<{ message: string }>(`/api/v1/comments/${commentId}`, {
-      headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+  async deleteComment(commentId: string): Promise<{ message: string }> {
+    return apiClient.authenticatedRequest<{ message: string }>(`/api/v1/comments/${commentId}`, {
+      method: 'DELETE',
     });
   }
 }
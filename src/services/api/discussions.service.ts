@@ -1,4 +1,5 @@
 import { apiClient } from './base';
+import { type ListResponse, appendPageParams, toPaginated } from './pagination';
 import { API_ENDPOINTS } from '@/constants';
 import type {
   CreateCommentData,
@@ -9,32 +10,34 @@ import type {
   DiscussionFilters,
   DiscussionSortBy,
   DiscussionWithDetails,
+  PageParams,
+  Paginated,
   SortOrder,
   UpdateCommentData,
   UpdateDiscussionData
 } from '@/types';
 
+/**
+ * Options accepted by discussion list methods
+ */
+export interface DiscussionListOptions extends PageParams {
+  filters?: DiscussionFilters;
+  sortBy?: DiscussionSortBy;
+  sortOrder?: SortOrder;
+}
+
 /**
  * Discussion service for API operations
  */
 export class DiscussionService {
   /**
-   * Get all discussions with optional filtering and sorting
+   * Get a page of discussions with optional filtering and sorting
    */
   async getAllDiscussions(
-    token?: string,
-    options?: {
-      page?: number;
-      limit?: number;
-      filters?: DiscussionFilters;
-      sortBy?: DiscussionSortBy;
-      sortOrder?: SortOrder;
-    }
-  ): Promise<Discussion[]> {
-    const params = new URLSearchParams();
+    options?: DiscussionListOptions
+  ): Promise<Paginated<Discussion>> {
+    const params = appendPageParams(new URLSearchParams(), options);
 
-    if (options?.page) {params.append('page', options.page.toString());}
-    if (options?.limit) {params.append('limit', options.limit.toString());}
     if (options?.sortBy) {params.append('sortBy', options.sortBy);}
     if (options?.sortOrder) {params.append('sortOrder', options.sortOrder);}
 
@@ -57,19 +60,18 @@ export class DiscussionService {
       ? `${API_ENDPOINTS.DISCUSSIONS}?${params.toString()}`
       : API_ENDPOINTS.DISCUSSIONS;
 
-    return apiClient.authenticatedRequest(endpoint, token || null);
+    const response = await apiClient.authenticatedRequest<ListResponse<Discussion>>(endpoint);
+    return toPaginated(response, options);
   }
 
   /**
    * Get discussion by ID with comments
    */
   async getDiscussionById(
-    discussionId: string,
-    token?: string
+    discussionId: string
   ): Promise<DiscussionWithDetails> {
     return apiClient.authenticatedRequest(
-      API_ENDPOINTS.DISCUSSION_BY_ID(discussionId),
-      token || null
+      API_ENDPOINTS.DISCUSSION_BY_ID(discussionId)
     );
   }
 
@@ -78,32 +80,33 @@ export class DiscussionService {
    */
   async getUserDiscussions(
     userId: string,
-    token?: string,
-    options?: {
-      sortBy?: DiscussionSortBy;
-      sortOrder?: SortOrder;
-    }
-  ): Promise<Discussion[]> {
-    // Get all discussions and filter by user_id
-    const allDiscussions = await this.getAllDiscussions(token, {
+    options?: Omit<DiscussionListOptions, 'filters'>
+  ): Promise<Paginated<Discussion>> {
+    const page = await this.getAllDiscussions({
+      ...options,
       filters: { author_id: userId },
-      sortBy: options?.sortBy,
-      sortOrder: options?.sortOrder,
     });
 
-    return allDiscussions.filter(discussion => discussion.user_id === userId);
+    // Guard against backends that ignore the author filter
+    return {
+      ...page,
+      items: page.items.filter(discussion => discussion.user_id === userId),
+    };
   }
 
   /**
-   * Create new discussion
+   * Create new discussion, optionally on behalf of the given author
    */
   async createDiscussion(
     discussionData: CreateDiscussionData,
-    token?: string
+    userId?: string
   ): Promise<Discussion> {
+    const endpoint = userId
+      ? `${API_ENDPOINTS.DISCUSSIONS}?${new URLSearchParams({ user_id: userId }).toString()}`
+      : API_ENDPOINTS.DISCUSSIONS;
+
     return apiClient.authenticatedRequest(
-      API_ENDPOINTS.DISCUSSIONS,
-      token || null,
+      endpoint,
       {
         method: 'POST',
         body: JSON.stringify(discussionData),
@@ -117,15 +120,13 @@ export class DiscussionService {
   async updateDiscussion(
     discussionId: string,
     userId: string,
-    discussionData: UpdateDiscussionData,
-    token?: string
+    discussionData: UpdateDiscussionData
   ): Promise<Discussion> {
     const params = new URLSearchParams();
     params.append('user_id', userId);
     
     return apiClient.authenticatedRequest(
       `${API_ENDPOINTS.DISCUSSION_BY_ID(discussionId)}?${params.toString()}`,
-      token || null,
       {
         method: 'PUT',
         body: JSON.stringify(discussionData),
@@ -138,15 +139,13 @@ export class DiscussionService {
    */
   async deleteDiscussion(
     discussionId: string, 
-    userId: string,
-    token?: string
+    userId: string
   ): Promise<void> {
     const params = new URLSearchParams();
     params.append('user_id', userId);
     
     return apiClient.authenticatedRequest(
       `${API_ENDPOINTS.DISCUSSION_BY_ID(discussionId)}?${params.toString()}`,
-      token || null,
       {
         method: 'DELETE',
       }
@@ -158,36 +157,28 @@ export class DiscussionService {
    */
   async searchDiscussions(
     query: string,
-    token?: string,
-    options?: {
-      limit?: number;
-      filters?: DiscussionFilters;
-    }
-  ): Promise<Discussion[]> {
-    const allDiscussions = await this.getAllDiscussions(token, {
-      limit: options?.limit,
-      filters: options?.filters,
-    });
+    options?: DiscussionListOptions
+  ): Promise<Paginated<Discussion>> {
+    const page = await this.getAllDiscussions(options);
 
     // Client-side search filtering
     const searchTerm = query.toLowerCase();
-    return allDiscussions.filter(discussion =>
+    const items = page.items.filter(discussion =>
       discussion.title.toLowerCase().includes(searchTerm) ||
       discussion.body.toLowerCase().includes(searchTerm) ||
       discussion.tags.some(tag => tag.toLowerCase().includes(searchTerm))
     );
+    return { ...page, items };
   }
 
   /**
    * Get discussion comments
    */
   async getDiscussionComments(
-    discussionId: string,
-    token?: string
+    discussionId: string
   ): Promise<DiscussionComment[]> {
     return apiClient.authenticatedRequest(
-      API_ENDPOINTS.DISCUSSION_COMMENTS(discussionId),
-      token || null
+      API_ENDPOINTS.DISCUSSION_COMMENTS(discussionId)
     );
   }
 
@@ -195,12 +186,10 @@ export class DiscussionService {
    * Create discussion comment
    */
   async createComment(
-    commentData: CreateCommentData,
-    token?: string
+    commentData: CreateCommentData
   ): Promise<DiscussionComment> {
     return apiClient.authenticatedRequest(
       API_ENDPOINTS.COMMENTS,
-      token || null,
       {
         method: 'POST',
         body: JSON.stringify(commentData),
@@ -213,12 +202,10 @@ export class DiscussionService {
    */
   async updateComment(
     commentId: string,
-    commentData: UpdateCommentData,
-    token?: string
+    commentData: UpdateCommentData
   ): Promise<DiscussionComment> {
     return apiClient.authenticatedRequest(
       `${API_ENDPOINTS.COMMENTS}/${commentId}`,
-      token || null,
       {
         method: 'PATCH',
         body: JSON.stringify(commentData),
@@ -229,10 +216,9 @@ export class DiscussionService {
   /**
    * Delete comment
    */
-  async deleteComment(commentId: string, token?: string): Promise<void> {
+  async deleteComment(commentId: string): Promise<void> {
     return apiClient.authenticatedRequest(
       `${API_ENDPOINTS.COMMENTS}/${commentId}`,
-      token || null,
       {
         method: 'DELETE',
       }
@@ -243,12 +229,10 @@ export class DiscussionService {
    * Like/unlike a discussion
    */
   async toggleDiscussionLike(
-    discussionId: string,
-    token?: string
+    discussionId: string
   ): Promise<{ liked: boolean; like_count: number }> {
     return apiClient.authenticatedRequest(
       `${API_ENDPOINTS.DISCUSSION_BY_ID(discussionId)}/like`,
-      token || null,
       {
         method: 'POST',
       }
@@ -259,12 +243,10 @@ export class DiscussionService {
    * Like/unlike a comment
    */
   async toggleCommentLike(
-    commentId: string,
-    token?: string
+    commentId: string
   ): Promise<{ liked: boolean; like_count: number }> {
     return apiClient.authenticatedRequest(
       `${API_ENDPOINTS.COMMENTS}/${commentId}/like`,
-      token || null,
       {
         method: 'POST',
       }
@@ -274,10 +256,9 @@ export class DiscussionService {
   /**
    * Get discussion categories
    */
-  async getCategories(token?: string): Promise<DiscussionCategory[]> {
+  async getCategories(): Promise<DiscussionCategory[]> {
     return apiClient.authenticatedRequest(
-      API_ENDPOINTS.CATEGORIES,
-      token || null
+      API_ENDPOINTS.CATEGORIES
     );
   }
 
@@ -285,10 +266,9 @@ export class DiscussionService {
    * Get popular/trending discussions
    */
   async getTrendingDiscussions(
-    token?: string,
     limit: number = 10
-  ): Promise<Discussion[]> {
-    return this.getAllDiscussions(token, {
+  ): Promise<Paginated<Discussion>> {
+    return this.getAllDiscussions({
       limit,
       sortBy: 'view_count',
       sortOrder: 'desc',
@@ -298,8 +278,8 @@ export class DiscussionService {
   /**
    * Get pinned discussions
    */
-  async getPinnedDiscussions(token?: string): Promise<Discussion[]> {
-    return this.getAllDiscussions(token, {
+  async getPinnedDiscussions(): Promise<Paginated<Discussion>> {
+    return this.getAllDiscussions({
       filters: { is_pinned: true },
       sortBy: 'created_at',
       sortOrder: 'desc',
@@ -310,10 +290,9 @@ export class DiscussionService {
    * Get recent discussions
    */
   async getRecentDiscussions(
-    token?: string,
     limit: number = 20
-  ): Promise<Discussion[]> {
-    return this.getAllDiscussions(token, {
+  ): Promise<Paginated<Discussion>> {
+    return this.getAllDiscussions({
       limit,
       sortBy: 'created_at',
       sortOrder: 'desc',
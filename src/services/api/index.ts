@@ -1,16 +1,28 @@
 // Base API client
 export * from './base';
+export * from './interceptors';
 
 // Service classes
 export * from './users.service';
+export * from './users.loader';
 export * from './cameras.service';
 export * from './discussions.service';
 export * from './likes.service';
 export * from './comments.service';
+export * from './trades.service';
+export * from './rolls.service';
+export * from './upload.service';
+export * from './realtime.transports';
+export * from './realtime.service';
 
 // Service instances for easy import
 export { userService } from './users.service';
+export { userLoader } from './users.loader';
 export { cameraService } from './cameras.service';
 export { discussionService } from './discussions.service';
 export { likeService } from './likes.service';
 export { commentService } from './comments.service';
+export { tradeService } from './trades.service';
+export { filmRollService } from './rolls.service';
+export { uploadService } from './upload.service';
+export { realtimeChannel } from './realtime.service';
@@ -0,0 +1,193 @@
+import { handleApiError, isAbortError } from '@/utils';
+
+/**
+ * Outgoing request as seen by interceptors
+ */
+export interface ApiRequest {
+  endpoint: string;
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: BodyInit | null;
+  /** Values interceptors share between the request and response stages */
+  meta: Record<string, unknown>;
+}
+
+/**
+ * Adjust a request before it is sent
+ */
+export type RequestInterceptor = (request: ApiRequest) => ApiRequest | Promise<ApiRequest>;
+
+/**
+ * Inspect or replace a response before its status is checked
+ */
+export type ResponseInterceptor = (response: Response, request: ApiRequest) => Response | Promise<Response>;
+
+/**
+ * Inspect or replace an error before it is thrown to the caller
+ */
+export type ErrorInterceptor = (error: unknown, request: ApiRequest) => unknown;
+
+/**
+ * Timing and outcome of a finished request
+ */
+export interface RequestMetric {
+  endpoint: string;
+  method: string;
+  /** HTTP status, or 0 when no response arrived */
+  status: number;
+  durationMs: number;
+}
+
+/**
+ * Ordered list of interceptors registered on one client
+ */
+export class InterceptorManager<T> {
+  private handlers: T[] = [];
+
+  /**
+   * Append an interceptor; returns a function that removes it again
+   */
+  use(handler: T): () => void {
+    this.handlers = [...this.handlers, handler];
+    return () => {
+      this.handlers = this.handlers.filter(h => h !== handler);
+    };
+  }
+
+  /**
+   * Remove every interceptor
+   */
+  clear(): void {
+    this.handlers = [];
+  }
+
+  /**
+   * Interceptors in registration order
+   */
+  list(): readonly T[] {
+    return this.handlers;
+  }
+}
+
+/**
+ * Interceptor stages of one client
+ */
+export interface ApiInterceptors {
+  request: InterceptorManager<RequestInterceptor>;
+  response: InterceptorManager<ResponseInterceptor>;
+  error: InterceptorManager<ErrorInterceptor>;
+}
+
+/**
+ * Interceptors for any of the stages, registered and removed together
+ */
+export interface InterceptorSet {
+  request?: RequestInterceptor;
+  response?: ResponseInterceptor;
+  error?: ErrorInterceptor;
+}
+
+/**
+ * Empty interceptor stages for a new client
+ */
+export const createInterceptors = (): ApiInterceptors => ({
+  request: new InterceptorManager<RequestInterceptor>(),
+  response: new InterceptorManager<ResponseInterceptor>(),
+  error: new InterceptorManager<ErrorInterceptor>(),
+});
+
+const nextRequestId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Attach a bearer token unless the request already carries one
+ */
+export const createAuthInterceptor = (
+  getToken: () => Promise<string | null> | string | null
+): RequestInterceptor => async (request) => {
+  if (request.headers['Authorization']) {return request;}
+
+  const token = await getToken();
+  return token
+    ? { ...request, headers: { ...request.headers, Authorization: `Bearer ${token}` } }
+    : request;
+};
+
+/**
+ * Tag each request with a unique id header so client and server logs can be matched
+ */
+export const createCorrelationIdInterceptor = (headerName = 'X-Request-ID'): RequestInterceptor => (request) => {
+  const requestId = nextRequestId();
+  return {
+    ...request,
+    headers: { ...request.headers, [headerName]: requestId },
+    meta: { ...request.meta, requestId },
+  };
+};
+
+/**
+ * Log requests, responses and failures
+ */
+export const createLoggingInterceptors = (
+  log: (message: string, details: Record<string, unknown>) => void = console.warn
+): InterceptorSet => ({
+  request: (request) => {
+    log('[API] Request', { method: request.method, url: request.url });
+    return request;
+  },
+  response: (response, request) => {
+    log('[API] Response', { method: request.method, url: request.url, status: response.status });
+    return response;
+  },
+  error: (error, request) => {
+    if (!isAbortError(error)) {
+      log('[API] Failed', { method: request.method, url: request.url, error });
+    }
+    return error;
+  },
+});
+
+/**
+ * Report the duration and status of every request to a metrics sink
+ */
+export const createMetricsInterceptors = (report: (metric: RequestMetric) => void): InterceptorSet => {
+  const answered = new WeakSet<ApiRequest>();
+  const finish = (request: ApiRequest, status: number) => {
+    const startedAt = request.meta.startedAt;
+    if (typeof startedAt !== 'number') {return;}
+    report({
+      endpoint: request.endpoint,
+      method: request.method,
+      status,
+      durationMs: performance.now() - startedAt,
+    });
+  };
+
+  return {
+    request: (request) => ({
+      ...request,
+      meta: { ...request.meta, startedAt: performance.now() },
+    }),
+    response: (response, request) => {
+      answered.add(request);
+      finish(request, response.status);
+      return response;
+    },
+    error: (error, request) => {
+      // HTTP errors were already reported by the response stage
+      if (!answered.has(request)) {
+        finish(request, 0);
+      }
+      return error;
+    },
+  };
+};
+
+/**
+ * Convert any failure into an AppApiError; cancellations pass through untouched
+ */
+export const normalizeErrorInterceptor: ErrorInterceptor = (error) =>
+  isAbortError(error) ? error : handleApiError(error);
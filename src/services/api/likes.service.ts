@@ -23,34 +23,33 @@ class LikeService {
   /**
    * Create a like for content
    */
-  async createLike(data: LikeRequest, token?: string): Promise<LikeResponse> {
-    return apiClient.post<LikeResponse>('/api/v1/likes/', data, {
-      headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+  async createLike(data: LikeRequest): Promise<LikeResponse> {
+    return apiClient.authenticatedRequest<LikeResponse>('/api/v1/likes/', {
+      method: 'POST',
+      body: JSON.stringify(data),
     });
   }
 
   /**
    * Remove a like from content
    */
-  async removeLike(data: LikeRequest, token?: string): Promise<LikeResponse> {
-    return apiClient.delete<LikeResponse>('/api/v1/likes/', {
+  async removeLike(data: LikeRequest): Promise<LikeResponse> {
+    return apiClient.authenticatedRequest<LikeResponse>('/api/v1/likes/', {
+      method: 'DELETE',
       body: JSON.stringify(data),
-      headers: token ? { Authorization: `Bearer ${token}` } : undefined,
     });
   }
 
   /**
    * Check if current user has liked content
    */
-  async checkLikeStatus(params: LikeRequest, token?: string): Promise<LikeStatusResponse> {
+  async checkLikeStatus(params: LikeRequest): Promise<LikeStatusResponse> {
     const queryParams = new URLSearchParams();
     if (params.discussion_id) {queryParams.set('discussion_id', params.discussion_id);}
     if (params.camera_id) {queryParams.set('camera_id', params.camera_id);}
     if (params.comment_id) {queryParams.set('comment_id', params.comment_id);}
 
-    return apiClient.get<LikeStatusResponse>(`/api/v1/likes/check?${queryParams.toString()}`, {
-      headers: token ? { Authorization: `Bearer ${token}` } : undefined,
-    });
+    return apiClient.authenticatedRequest<LikeStatusResponse>(`/api/v1/likes/check?${queryParams.toString()}`);
   }
 
   /**
@@ -0,0 +1,3 @@
+// In-memory backends for tests and offline development
+export * from './trades.mock';
+export * from './realtime.mock';
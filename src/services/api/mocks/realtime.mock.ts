@@ -0,0 +1,123 @@
+import type { RealtimeEvent } from '../realtime.service';
+import type { RealtimeConnectParams, RealtimeConnectionHandlers, RealtimeTransport } from '../realtime.transports';
+
+/**
+ * A client connected to the mock server
+ */
+export interface MockRealtimeConnection {
+  transport: string;
+  token: string | null;
+  topics: Set<string>;
+}
+
+interface ActiveConnection extends MockRealtimeConnection {
+  handlers: RealtimeConnectionHandlers;
+  open: boolean;
+}
+
+/**
+ * In-memory realtime server for tests and offline development
+ *
+ * Hands out WebSocket- and SSE-like transports to pass to
+ * `new RealtimeChannel({ transports })`. Connections open asynchronously like
+ * real ones; `publish` delivers an event to every connection on its topic and
+ * `disconnectAll` drops them to exercise reconnection. Making a transport
+ * unavailable fails its connections before they open, as a proxy that blocks
+ * WebSockets would.
+ */
+export class MockRealtimeServer {
+  private active = new Set<ActiveConnection>();
+  private unavailable = new Set<string>();
+
+  /**
+   * Transport with subscribe/unsubscribe control messages
+   */
+  readonly websocket: RealtimeTransport = this.createTransport('websocket', true);
+
+  /**
+   * Receive-only transport; topics are fixed when connecting
+   */
+  readonly sse: RealtimeTransport = this.createTransport('sse', false);
+
+  /**
+   * Clients currently connected
+   */
+  get connections(): MockRealtimeConnection[] {
+    return [...this.active]
+      .filter(connection => connection.open)
+      .map(({ token, topics, transport }) => ({ transport, token, topics: new Set(topics) }));
+  }
+
+  /**
+   * Allow or refuse new connections over a transport
+   */
+  setAvailable(transport: string, available: boolean): void {
+    if (available) {
+      this.unavailable.delete(transport);
+    } else {
+      this.unavailable.add(transport);
+    }
+  }
+
+  /**
+   * Deliver an event to every open connection subscribed to its topic
+   */
+  publish(event: RealtimeEvent): void {
+    const data = JSON.stringify(event);
+    this.active.forEach(connection => {
+      if (connection.open && connection.topics.has(event.topic)) {
+        connection.handlers.onMessage(data);
+      }
+    });
+  }
+
+  /**
+   * Drop every connection as if the server restarted
+   */
+  disconnectAll(): void {
+    const dropped = [...this.active];
+    this.active.clear();
+    dropped.forEach(connection => connection.handlers.onClose());
+  }
+
+  private createTransport(name: string, canSend: boolean): RealtimeTransport {
+    return {
+      name,
+      canSend,
+      connect: (params, handlers) => this.connect(name, params, handlers),
+    };
+  }
+
+  private connect(transport: string, { token, topics }: RealtimeConnectParams, handlers: RealtimeConnectionHandlers) {
+    const connection: ActiveConnection = { transport, token, topics: new Set(topics), handlers, open: false };
+    this.active.add(connection);
+
+    setTimeout(() => {
+      if (!this.active.has(connection)) {return;}
+      if (this.unavailable.has(transport)) {
+        this.active.delete(connection);
+        handlers.onClose();
+        return;
+      }
+      connection.open = true;
+      handlers.onOpen();
+    }, 0);
+
+    return {
+      send: (data: string) => {
+        if (!connection.open) {return;}
+        const message = JSON.parse(data) as { action: 'subscribe' | 'unsubscribe'; topics: string[] };
+        message.topics.forEach(topic => {
+          if (message.action === 'subscribe') {
+            connection.topics.add(topic);
+          } else {
+            connection.topics.delete(topic);
+          }
+        });
+      },
+      close: () => {
+        this.active.delete(connection);
+      },
+    };
+  }
+}
@@ -0,0 +1,245 @@
+import type { RequestConfig } from '../base';
+import type { TradeTransport } from '../trades.service';
+import { API_ENDPOINTS } from '@/constants';
+import { AppApiError, TRADE_ACTION_STATUS, getAvailableTradeActions } from '@/utils';
+import type {
+  Camera,
+  CounterTradeOfferData,
+  CreateTradeOfferData,
+  TradeInbox,
+  TradeOffer,
+  TradeOfferAction,
+  TradeOfferEvent,
+} from '@/types';
+
+/**
+ * Seed data for the mock trade backend
+ */
+export interface MockTradeBackendOptions {
+  /** User the requests act as; change it later with `signInAs` */
+  userId?: string;
+  cameras?: Camera[];
+  offers?: TradeOffer[];
+  now?: () => Date;
+}
+
+const OFFER_ROUTE = /^\/api\/v1\/trade-offers\/([^/?]+)(?:\/(counter|accept|decline|withdraw))?$/;
+
+let mockOfferCounter = 0;
+
+/**
+ * In-memory trade offer backend for tests and offline development
+ *
+ * Implements the same request surface as ApiClient so it can be passed to
+ * `new TradeService(backend)`. Requests act as the user set with `signInAs`,
+ * which lets a test act as either participant.
+ */
+export class MockTradeBackend implements TradeTransport {
+  private cameras = new Map<string, Camera>();
+  private offers = new Map<string, TradeOffer>();
+  private now: () => Date;
+  private userId: string | null;
+
+  constructor(options: MockTradeBackendOptions = {}) {
+    this.userId = options.userId ?? null;
+    this.now = options.now ?? (() => new Date());
+    options.cameras?.forEach(camera => this.cameras.set(camera.id, camera));
+    options.offers?.forEach(offer => this.offers.set(offer.id, offer));
+  }
+
+  /**
+   * Act as another user, or as a signed-out visitor with null
+   */
+  signInAs(userId: string | null): void {
+    this.userId = userId;
+  }
+
+  /**
+   * Add or replace a camera the backend knows about
+   */
+  addCamera(camera: Camera): void {
+    this.cameras.set(camera.id, camera);
+  }
+
+  /**
+   * Current stored offers, oldest first
+   */
+  getOffers(): TradeOffer[] {
+    return [...this.offers.values()];
+  }
+
+  async authenticatedRequest<T>(
+    endpoint: string,
+    config: RequestConfig = {}
+  ): Promise<T> {
+    const userId = this.userId;
+    if (!userId) {
+      throw new AppApiError(401, 'Authentication required');
+    }
+
+    const [path = '', query = ''] = endpoint.split('?');
+    const method = (config.method || 'GET').toUpperCase();
+    const body = typeof config.body === 'string' ? JSON.parse(config.body) : {};
+
+    if (path === API_ENDPOINTS.TRADE_OFFERS) {
+      if (method === 'GET') {
+        return this.list(userId, new URLSearchParams(query)) as T;
+      }
+      if (method === 'POST') {
+        return this.create(userId, body as CreateTradeOfferData) as T;
+      }
+    }
+
+    const match = path.match(OFFER_ROUTE);
+    if (match) {
+      const offer = this.findOffer(match[1]!, userId);
+      const action = match[2] as TradeOfferAction | undefined;
+
+      if (!action && method === 'GET') {
+        return this.withCameras(offer) as T;
+      }
+      if (action && method === 'POST') {
+        return this.transition(offer, action, userId, body) as T;
+      }
+    }
+
+    throw new AppApiError(404, `No mock route for ${method} ${path}`);
+  }
+
+  private list(userId: string, params: URLSearchParams) {
+    const box = (params.get('box') || 'received') as TradeInbox;
+    const status = params.get('status');
+    const page = Number(params.get('page')) || 1;
+    const limit = Number(params.get('limit')) || 20;
+
+    const matches = this.getOffers()
+      .filter(offer => (box === 'sent' ? offer.proposer_id : offer.recipient_id) === userId)
+      .filter(offer => !status || offer.status === status)
+      .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+
+    const end = page * limit;
+    return {
+      items: matches.slice((page - 1) * limit, end).map(offer => this.withCameras(offer)),
+      total: matches.length,
+      next_page: end < matches.length ? page + 1 : null,
+    };
+  }
+
+  private create(userId: string, data: CreateTradeOfferData): TradeOffer {
+    const target = this.cameras.get(data.target_camera_id);
+    if (!target) {
+      throw new AppApiError(404, 'Camera not found');
+    }
+    if (!target.is_for_trade) {
+      throw new AppApiError(400, 'This camera is not listed for trade', {
+        details: { target_camera_id: 'This camera is not listed for trade' },
+      });
+    }
+    if (target.user_id === userId) {
+      throw new AppApiError(400, 'You cannot offer a trade on your own camera', {
+        details: { target_camera_id: 'You cannot offer a trade on your own camera' },
+      });
+    }
+    this.assertOwnedCameras(data.offered_camera_ids, userId);
+
+    const timestamp = this.now().toISOString();
+    const offer: TradeOffer = {
+      id: `trade-${++mockOfferCounter}`,
+      proposer_id: userId,
+      recipient_id: target.user_id,
+      target_camera_id: target.id,
+      offered_camera_ids: [...data.offered_camera_ids],
+      message: data.message,
+      status: 'proposed',
+      awaiting_user_id: target.user_id,
+      history: [this.event('proposed', userId, data.offered_camera_ids, data.message, timestamp)],
+      created_at: timestamp,
+      updated_at: timestamp,
+    };
+
+    this.offers.set(offer.id, offer);
+    return this.withCameras(offer);
+  }
+
+  private transition(
+    offer: TradeOffer,
+    action: TradeOfferAction,
+    userId: string,
+    body: Partial<CounterTradeOfferData>
+  ): TradeOffer {
+    if (!getAvailableTradeActions(offer, userId).includes(action)) {
+      throw new AppApiError(409, `Cannot ${action} an offer that is ${offer.status}`);
+    }
+
+    const status = TRADE_ACTION_STATUS[action];
+    const offeredIds = action === 'counter' ? body.offered_camera_ids ?? [] : offer.offered_camera_ids;
+    if (action === 'counter') {
+      this.assertOwnedCameras(offeredIds, offer.proposer_id);
+    }
+
+    const timestamp = this.now().toISOString();
+    const updated: TradeOffer = {
+      ...offer,
+      status,
+      offered_camera_ids: [...offeredIds],
+      // A counter hands the decision back to the other participant
+      awaiting_user_id: action === 'counter'
+        ? (userId === offer.proposer_id ? offer.recipient_id : offer.proposer_id)
+        : null,
+      history: [...offer.history, this.event(status, userId, offeredIds, body.message, timestamp)],
+      updated_at: timestamp,
+    };
+
+    this.offers.set(updated.id, updated);
+    return this.withCameras(updated);
+  }
+
+  private findOffer(offerId: string, userId: string): TradeOffer {
+    const offer = this.offers.get(offerId);
+    // Offers are private to their participants
+    if (!offer || (offer.proposer_id !== userId && offer.recipient_id !== userId)) {
+      throw new AppApiError(404, 'Trade offer not found');
+    }
+    return offer;
+  }
+
+  private assertOwnedCameras(cameraIds: string[] | undefined, ownerId: string): void {
+    if (!cameraIds || cameraIds.length === 0) {
+      throw new AppApiError(400, 'Select at least one camera to offer', {
+        details: { offered_camera_ids: 'Select at least one camera to offer' },
+      });
+    }
+    const invalid = cameraIds.some(id => this.cameras.get(id)?.user_id !== ownerId);
+    if (invalid) {
+      throw new AppApiError(400, 'Offered cameras must belong to the proposer', {
+        details: { offered_camera_ids: 'Offered cameras must belong to the proposer' },
+      });
+    }
+  }
+
+  private event(
+    status: TradeOfferEvent['status'],
+    actorId: string,
+    offeredIds: string[],
+    message: string | undefined,
+    timestamp: string
+  ): TradeOfferEvent {
+    return {
+      status,
+      actor_id: actorId,
+      offered_camera_ids: [...offeredIds],
+      message,
+      created_at: timestamp,
+    };
+  }
+
+  private withCameras(offer: TradeOffer): TradeOffer {
+    return {
+      ...offer,
+      target_camera: this.cameras.get(offer.target_camera_id),
+      offered_cameras: offer.offered_camera_ids
+        .map(id => this.cameras.get(id))
+        .filter((camera): camera is Camera => !!camera),
+    };
+  }
+}
@@ -0,0 +1,111 @@
+import { AppApiError } from '@/utils';
+import type { PageParams, Paginated, PaginatedResponse } from '@/types';
+
+/**
+ * Cursor-style list envelope (snake_case, as sent by the backend)
+ */
+interface CursorListResponse<T> {
+  items: T[];
+  total?: number;
+  next_cursor?: string | null;
+  next_page?: number | null;
+}
+
+/**
+ * Any list shape a backend may return; bare arrays come from older backends
+ * and always hold the complete list
+ */
+export type ListResponse<T> = T[] | PaginatedResponse<T> | CursorListResponse<T>;
+
+/**
+ * Append page, limit and cursor query parameters
+ */
+export const appendPageParams = (params: URLSearchParams, options?: PageParams): URLSearchParams => {
+  if (options?.cursor) {
+    params.append('cursor', options.cursor);
+  } else if (options?.page) {
+    params.append('page', options.page.toString());
+  }
+  if (options?.limit) {params.append('limit', options.limit.toString());}
+  return params;
+};
+
+/**
+ * Whether the backend returned a paginated envelope rather than a bare array
+ */
+export const isEnvelope = <T>(response: ListResponse<T>): response is PaginatedResponse<T> | CursorListResponse<T> =>
+  !Array.isArray(response);
+
+/**
+ * Slice an already-fetched list into a page
+ */
+export const paginateLocally = <T>(items: T[], options?: PageParams): Paginated<T> => {
+  const page = options?.page || 1;
+  const limit = options?.limit || items.length || 1;
+  const end = page * limit;
+
+  return {
+    items: items.slice((page - 1) * limit, end),
+    total: items.length,
+    nextCursor: null,
+    nextPage: end < items.length ? page + 1 : null,
+  };
+};
+
+/**
+ * Normalize any list response into a Paginated<T>
+ */
+export const toPaginated = <T>(response: ListResponse<T>, options?: PageParams): Paginated<T> => {
+  // Older backends ignore page parameters and send the whole list every time
+  if (Array.isArray(response)) {
+    return paginateLocally(response, options);
+  }
+
+  if ('meta' in response) {
+    return {
+      items: response.data,
+      total: response.meta.total,
+      nextCursor: null,
+      nextPage: response.meta.hasNext ? response.meta.page + 1 : null,
+    };
+  }
+
+  return {
+    items: response.items,
+    total: response.total ?? response.items.length,
+    nextCursor: response.next_cursor ?? null,
+    nextPage: response.next_page ?? null,
+  };
+};
+
+/**
+ * Fetch every page of a list, following next page numbers or cursors
+ */
+export const collectAllPages = async <T>(
+  fetchPage: (params: PageParams) => Promise<Paginated<T>>,
+  limit: number
+): Promise<T[]> => {
+  const items: T[] = [];
+  let params: PageParams | null = { page: 1, limit };
+
+  while (params) {
+    const page: Paginated<T> = await fetchPage(params);
+    items.push(...page.items);
+    params = page.nextCursor
+      ? { cursor: page.nextCursor, limit }
+      : page.nextPage ? { page: page.nextPage, limit } : null;
+  }
+
+  return items;
+};
+
+/**
+ * Whether an optional backend endpoint is available; `null` until first probed
+ */
+export type EndpointSupport = boolean | null;
+
+/**
+ * Detect a missing route (older backends) from an API error
+ */
+export const isEndpointMissing = (error: unknown): boolean =>
+  error instanceof AppApiError && [404, 405, 501].includes(error.status);
@@ -0,0 +1,463 @@
+import { type QueryClient, type QueryKey, onlineManager } from '@tanstack/react-query';
+import { apiClient } from './base';
+import type { Comment } from './comments.service';
+import type { LikeRequest } from './likes.service';
+import {
+  type RealtimeConnection,
+  type RealtimeTransport,
+  createEventSourceTransport,
+  createWebSocketTransport,
+} from './realtime.transports';
+import { queryClient, queryKeys } from '@/lib/react-query';
+import { REALTIME_CONFIG } from '@/constants';
+
+/**
+ * Like count of a discussion, camera or comment changed
+ */
+export interface LikeUpdatedEvent {
+  topic: string;
+  type: 'like.updated';
+  target: LikeRequest;
+  like_count: number;
+  /** Who liked or unliked */
+  user_id: string;
+  liked: boolean;
+}
+
+/**
+ * Someone commented on a discussion or camera
+ */
+export interface CommentCreatedEvent {
+  topic: string;
+  type: 'comment.created';
+  comment: Comment;
+}
+
+/**
+ * Someone followed or unfollowed a user
+ */
+export interface FollowUpdatedEvent {
+  topic: string;
+  type: 'follow.updated';
+  follower_id: string;
+  following_id: string;
+  following: boolean;
+  /** Followers of `following_id` after the change */
+  follower_count: number;
+}
+
+/**
+ * Event pushed by the server on a topic
+ */
+export type RealtimeEvent = LikeUpdatedEvent | CommentCreatedEvent | FollowUpdatedEvent;
+
+/**
+ * Connection states of the channel
+ */
+export type RealtimeStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'offline';
+
+/**
+ * Channel state for the signed-in user
+ */
+export interface RealtimeState {
+  userId: string | null;
+  status: RealtimeStatus;
+  /** Name of the transport in use, once one has connected */
+  transport: string | null;
+}
+
+/**
+ * Channel configuration
+ */
+export interface RealtimeChannelOptions {
+  /** Tried in order; a transport that fails before opening falls back to the next */
+  transports?: RealtimeTransport[];
+  getToken?: () => Promise<string | null>;
+  client?: QueryClient;
+  reconnectBaseDelay?: number;
+  reconnectMaxDelay?: number;
+  resubscribeDelay?: number;
+}
+
+/**
+ * Topics events are published on
+ */
+export const realtimeTopics = {
+  discussion: (id: string) => `discussion:${id}`,
+  camera: (id: string) => `camera:${id}`,
+  comment: (id: string) => `comment:${id}`,
+  user: (id: string) => `user:${id}`,
+  /** Topic of the item a like or comment targets */
+  item: (target: LikeRequest) => {
+    if (target.comment_id) {return `comment:${target.comment_id}`;}
+    if (target.camera_id) {return `camera:${target.camera_id}`;}
+    return `discussion:${target.discussion_id}`;
+  },
+};
+
+// Query roots holding discussions or cameras, whatever their shape
+const DISCUSSION_ROOTS: QueryKey[] = [queryKeys.discussions.all, ['feed'], ['discover'], ['userDiscussions']];
+const CAMERA_ROOTS: QueryKey[] = [queryKeys.cameras.all];
+const COMMENT_ROOTS: QueryKey[] = [queryKeys.comments.all];
+
+// Comment ids remembered to drop events delivered twice, e.g. replayed after a reconnect
+const SEEN_COMMENTS_LIMIT = 500;
+
+const isRealtimeEvent = (value: unknown): value is RealtimeEvent =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as RealtimeEvent).topic === 'string' &&
+  ['like.updated', 'comment.created', 'follow.updated'].includes((value as RealtimeEvent).type);
+
+/**
+ * Apply an update to the entity with the given id wherever it sits in cached
+ * data: on its own, in a list, a page of items, infinite query pages or a
+ * comment's replies. Returns the data untouched when the entity is not in it.
+ */
+const patchEntity = <T extends { id: string }>(data: unknown, id: string, update: (entity: T) => T): unknown => {
+  if (Array.isArray(data)) {
+    const next = data.map(item => patchEntity(item, id, update));
+    return next.some((item, index) => item !== data[index]) ? next : data;
+  }
+  if (typeof data !== 'object' || data === null) {return data;}
+
+  if ('pages' in data && Array.isArray(data.pages)) {
+    const pages = patchEntity(data.pages, id, update);
+    return pages === data.pages ? data : { ...data, pages };
+  }
+  if ('items' in data && Array.isArray(data.items)) {
+    const items = patchEntity(data.items, id, update);
+    return items === data.items ? data : { ...data, items };
+  }
+  if ('id' in data && data.id === id) {
+    return update(data as T);
+  }
+  if ('replies' in data && Array.isArray(data.replies)) {
+    const replies = patchEntity(data.replies, id, update);
+    return replies === data.replies ? data : { ...data, replies };
+  }
+  return data;
+};
+
+const patchQueries = <T extends { id: string }>(
+  client: QueryClient,
+  roots: QueryKey[],
+  id: string,
+  update: (entity: T) => T
+): void => {
+  roots.forEach(queryKey => {
+    client.setQueriesData({ queryKey }, data => patchEntity(data, id, update));
+  });
+};
+
+/**
+ * Bring cached queries in line with an event
+ */
+const applyToCache = (client: QueryClient, event: RealtimeEvent, userId: string | null): void => {
+  switch (event.type) {
+    case 'like.updated': {
+      // A comment like may also name the comment's discussion or camera; it is the comment's count
+      const { camera_id, comment_id, discussion_id } = event.target;
+      const update = <T extends { id: string; like_count?: number; is_liked?: boolean }>(entity: T): T => ({
+        ...entity,
+        like_count: event.like_count,
+        is_liked: event.user_id === userId ? event.liked : entity.is_liked,
+      });
+      if (comment_id) {
+        patchQueries(client, COMMENT_ROOTS, comment_id, update);
+      } else if (camera_id) {
+        patchQueries(client, CAMERA_ROOTS, camera_id, update);
+      } else if (discussion_id) {
+        patchQueries(client, DISCUSSION_ROOTS, discussion_id, update);
+      }
+      break;
+    }
+    case 'comment.created': {
+      const { camera_id, discussion_id, user_id } = event.comment;
+      const roots = camera_id ? CAMERA_ROOTS : DISCUSSION_ROOTS;
+      // Our own comment may already be counted by a refetch after sending it,
+      // so take the server's count rather than adding to it
+      if (user_id === userId) {
+        roots.forEach(queryKey => client.invalidateQueries({ queryKey }));
+        break;
+      }
+      const update = <T extends { id: string; comment_count?: number }>(entity: T): T => ({
+        ...entity,
+        comment_count: (entity.comment_count ?? 0) + 1,
+      });
+      if (camera_id) {
+        patchQueries(client, CAMERA_ROOTS, camera_id, update);
+      } else if (discussion_id) {
+        patchQueries(client, DISCUSSION_ROOTS, discussion_id, update);
+      }
+      break;
+    }
+    case 'follow.updated':
+      patchQueries<{ id: string; follower_count: number }>(
+        client,
+        [queryKeys.users.byId(event.following_id)],
+        event.following_id,
+        user => ({ ...user, follower_count: event.follower_count })
+      );
+      client.invalidateQueries({ queryKey: queryKeys.users.followers(event.following_id) });
+      client.invalidateQueries({ queryKey: queryKeys.users.following(event.follower_id) });
+      if (event.follower_id === userId) {
+        client.invalidateQueries({ queryKey: ['following'] });
+      }
+      break;
+  }
+};
+
+/**
+ * Realtime channel for likes, comments and follows
+ *
+ * Connects while a user is signed in and online, over a WebSocket or, where
+ * that fails to open, server-sent events. Components listen on topics; the
+ * server is told which topics are wanted and every event is also patched
+ * into the React Query cache. Dropped connections are reopened with
+ * exponential backoff. Exposes subscribe/getSnapshot for useSyncExternalStore.
+ */
+export class RealtimeChannel {
+  private state: RealtimeState = { userId: null, status: 'idle', transport: null };
+  private listeners = new Set<() => void>();
+  private topicListeners = new Map<string, Set<(event: RealtimeEvent) => void>>();
+  private transports: RealtimeTransport[];
+  private getToken: () => Promise<string | null>;
+  private client: QueryClient;
+  private reconnectBaseDelay: number;
+  private reconnectMaxDelay: number;
+  private resubscribeDelay: number;
+  private connection: RealtimeConnection | null = null;
+  /** Topics the current connection was opened with or has subscribed to */
+  private connectedTopics = new Set<string>();
+  private transportIndex = 0;
+  private attempts = 0;
+  /** Bumped on every connect and disconnect so stale callbacks can be ignored */
+  private generation = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private resubscribeTimer: ReturnType<typeof setTimeout> | null = null;
+  private seenCommentIds = new Set<string>();
+
+  constructor(options: RealtimeChannelOptions = {}) {
+    this.transports = options.transports ?? [createWebSocketTransport(), createEventSourceTransport()];
+    this.getToken = options.getToken ?? (() => apiClient.getToken());
+    this.client = options.client ?? queryClient;
+    this.reconnectBaseDelay = options.reconnectBaseDelay ?? REALTIME_CONFIG.RECONNECT_BASE_DELAY;
+    this.reconnectMaxDelay = options.reconnectMaxDelay ?? REALTIME_CONFIG.RECONNECT_MAX_DELAY;
+    this.resubscribeDelay = options.resubscribeDelay ?? REALTIME_CONFIG.RESUBSCRIBE_DELAY;
+
+    onlineManager.subscribe(isOnline => {
+      if (!this.state.userId) {return;}
+      if (isOnline) {
+        this.attempts = 0;
+        void this.connect();
+      } else {
+        this.disconnect('offline');
+      }
+    });
+  }
+
+  /**
+   * Connect as the given user, or disconnect with null on sign-out
+   */
+  setUser(userId: string | null): void {
+    if (userId === this.state.userId) {return;}
+    this.disconnect(userId ? 'connecting' : 'idle');
+    this.setState({ ...this.state, userId });
+    if (userId) {
+      this.attempts = 0;
+      this.transportIndex = 0;
+      void this.connect();
+    }
+  }
+
+  /**
+   * Subscribe to state changes (useSyncExternalStore compatible)
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Get the current immutable state
+   */
+  getSnapshot = (): RealtimeState => this.state;
+
+  /**
+   * Receive events published on a topic; returns a function that stops listening
+   */
+  listen(topic: string, listener: (event: RealtimeEvent) => void): () => void {
+    let topicSet = this.topicListeners.get(topic);
+    if (!topicSet) {
+      topicSet = new Set();
+      this.topicListeners.set(topic, topicSet);
+      this.requestTopic(topic, 'subscribe');
+    }
+    topicSet.add(listener);
+
+    return () => {
+      const current = this.topicListeners.get(topic);
+      if (!current?.delete(listener) || current.size > 0) {return;}
+      this.topicListeners.delete(topic);
+      this.requestTopic(topic, 'unsubscribe');
+    };
+  }
+
+  private topics(): string[] {
+    const topics = [...this.topicListeners.keys()];
+    return this.state.userId ? [...topics, realtimeTopics.user(this.state.userId)] : topics;
+  }
+
+  private async connect(): Promise<void> {
+    if (this.connection || !this.state.userId || !onlineManager.isOnline()) {return;}
+    this.clearTimers();
+
+    const generation = ++this.generation;
+    const transport = this.transports[this.transportIndex];
+    if (!transport) {return;}
+    if (this.state.status !== 'reconnecting') {
+      this.setState({ ...this.state, status: 'connecting' });
+    }
+
+    const token = await this.getToken();
+    if (generation !== this.generation) {return;}
+
+    let opened = false;
+    const topics = this.topics();
+    this.connectedTopics = new Set(topics);
+    this.connection = transport.connect({ topics, token }, {
+      onOpen: () => {
+        if (generation !== this.generation) {return;}
+        opened = true;
+        this.attempts = 0;
+        this.setState({ ...this.state, status: 'open', transport: transport.name });
+        // Catch up on topics added while the connection was opening
+        if (transport.canSend) {
+          this.connectedTopics = new Set(this.topics());
+          this.connection?.send(JSON.stringify({ action: 'subscribe', topics: [...this.connectedTopics] }));
+        } else if (this.topics().some(topic => !this.connectedTopics.has(topic))) {
+          this.scheduleResubscribe();
+        }
+      },
+      onMessage: data => {
+        if (generation !== this.generation) {return;}
+        this.dispatch(data);
+      },
+      onClose: () => {
+        if (generation !== this.generation) {return;}
+        this.connection = null;
+
+        // Never opened: the transport is likely blocked here, so fall back to the next one
+        if (!opened && this.transportIndex < this.transports.length - 1) {
+          this.transportIndex += 1;
+          void this.connect();
+          return;
+        }
+        this.scheduleReconnect();
+      },
+    });
+  }
+
+  private disconnect(status: RealtimeStatus): void {
+    this.generation += 1;
+    this.clearTimers();
+    this.connection?.close();
+    this.connection = null;
+    this.setState({ ...this.state, status, transport: null });
+  }
+
+  private scheduleReconnect(): void {
+    const delay = Math.min(this.reconnectBaseDelay * 2 ** this.attempts, this.reconnectMaxDelay);
+    this.attempts += 1;
+    // A later attempt may get through where the preferred transport failed before
+    this.transportIndex = 0;
+    this.setState({ ...this.state, status: 'reconnecting', transport: null });
+    // Jitter so clients dropped together do not all come back at once
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      void this.connect();
+    }, delay / 2 + Math.random() * (delay / 2));
+  }
+
+  /**
+   * Tell the server about a topic change; receive-only transports reconnect with the new topics
+   */
+  private requestTopic(topic: string, action: 'subscribe' | 'unsubscribe'): void {
+    if (!this.connection || this.state.status !== 'open') {return;}
+
+    const transport = this.transports[this.transportIndex];
+    if (transport?.canSend) {
+      if (action === 'subscribe') {
+        this.connectedTopics.add(topic);
+      } else {
+        this.connectedTopics.delete(topic);
+      }
+      this.connection.send(JSON.stringify({ action, topics: [topic] }));
+    } else if (action === 'subscribe' && !this.connectedTopics.has(topic)) {
+      // Extra events for dropped topics are harmless, so only new topics reconnect
+      this.scheduleResubscribe();
+    }
+  }
+
+  /**
+   * Reopen a receive-only stream once topics stop changing, so a page of
+   * newly mounted items costs one reconnect rather than one each
+   */
+  private scheduleResubscribe(): void {
+    if (this.resubscribeTimer) {
+      clearTimeout(this.resubscribeTimer);
+    }
+    this.resubscribeTimer = setTimeout(() => {
+      this.resubscribeTimer = null;
+      this.disconnect('connecting');
+      void this.connect();
+    }, this.resubscribeDelay);
+  }
+
+  private dispatch(data: string): void {
+    let event: unknown;
+    try {
+      event = JSON.parse(data);
+    } catch {
+      return;
+    }
+    if (!isRealtimeEvent(event)) {return;}
+    if (event.type === 'comment.created' && !this.markCommentSeen(event.comment.id)) {return;}
+
+    applyToCache(this.client, event, this.state.userId);
+    this.topicListeners.get(event.topic)?.forEach(listener => listener(event));
+  }
+
+  /**
+   * Remember a comment; false when it was already delivered
+   */
+  private markCommentSeen(commentId: string): boolean {
+    if (this.seenCommentIds.has(commentId)) {return false;}
+    this.seenCommentIds.add(commentId);
+    if (this.seenCommentIds.size > SEEN_COMMENTS_LIMIT) {
+      const [oldest] = this.seenCommentIds;
+      this.seenCommentIds.delete(oldest);
+    }
+    return true;
+  }
+
+  private clearTimers(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.resubscribeTimer) {
+      clearTimeout(this.resubscribeTimer);
+      this.resubscribeTimer = null;
+    }
+  }
+
+  private setState(state: RealtimeState): void {
+    this.state = state;
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const realtimeChannel = new RealtimeChannel();
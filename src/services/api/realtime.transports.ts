@@ -0,0 +1,110 @@
+import { apiClient } from './base';
+import { API_ENDPOINTS } from '@/constants';
+
+/**
+ * What a connection is opened with
+ */
+export interface RealtimeConnectParams {
+  topics: string[];
+  token: string | null;
+}
+
+/**
+ * Callbacks a transport reports a connection's lifecycle through
+ */
+export interface RealtimeConnectionHandlers {
+  onOpen: () => void;
+  onMessage: (data: string) => void;
+  /** Called once, whether the connection failed to open or dropped later */
+  onClose: () => void;
+}
+
+/**
+ * An open or opening connection
+ */
+export interface RealtimeConnection {
+  /** Send a control message; only called when the transport `canSend` */
+  send: (data: string) => void;
+  close: () => void;
+}
+
+/**
+ * A way of receiving realtime events from the server
+ */
+export interface RealtimeTransport {
+  name: string;
+  /** Whether topics can be changed over an open connection; otherwise it reconnects */
+  canSend: boolean;
+  connect(params: RealtimeConnectParams, handlers: RealtimeConnectionHandlers): RealtimeConnection;
+}
+
+const buildUrl = (endpoint: string, { topics, token }: RealtimeConnectParams): URL => {
+  const url = new URL(apiClient.getUrl(endpoint));
+  url.searchParams.set('topics', topics.join(','));
+  // Neither WebSocket nor EventSource can send an Authorization header
+  if (token) {url.searchParams.set('token', token);}
+  return url;
+};
+
+/**
+ * Two-way transport over a WebSocket
+ */
+export const createWebSocketTransport = (endpoint: string = API_ENDPOINTS.REALTIME_WS): RealtimeTransport => ({
+  name: 'websocket',
+  canSend: true,
+  connect(params, handlers) {
+    const url = buildUrl(endpoint, params);
+    url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+
+    const socket = new WebSocket(url);
+    socket.onopen = () => handlers.onOpen();
+    socket.onmessage = event => {
+      if (typeof event.data === 'string') {
+        handlers.onMessage(event.data);
+      }
+    };
+    socket.onclose = () => handlers.onClose();
+
+    return {
+      send: data => {
+        if (socket.readyState === WebSocket.OPEN) {
+          socket.send(data);
+        }
+      },
+      close: () => {
+        socket.onclose = null;
+        socket.close();
+      },
+    };
+  },
+});
+
+/**
+ * Receive-only transport over server-sent events
+ */
+export const createEventSourceTransport = (endpoint: string = API_ENDPOINTS.REALTIME_SSE): RealtimeTransport => ({
+  name: 'sse',
+  canSend: false,
+  connect(params, handlers) {
+    const source = new EventSource(buildUrl(endpoint, params));
+    let closed = false;
+
+    source.onopen = () => handlers.onOpen();
+    source.onmessage = event => handlers.onMessage(event.data);
+    // EventSource retries on its own; the channel owns reconnection instead
+    source.onerror = () => {
+      if (closed) {return;}
+      closed = true;
+      source.close();
+      handlers.onClose();
+    };
+
+    return {
+      send: () => undefined,
+      close: () => {
+        closed = true;
+        source.close();
+      },
+    };
+  },
+});
@@ -0,0 +1,120 @@
+import { type ApiClient, apiClient } from './base';
+import { type ListResponse, appendPageParams, collectAllPages, isEnvelope, toPaginated } from './pagination';
+import { API_ENDPOINTS, UI_CONFIG } from '@/constants';
+import type {
+  CreateFilmRollData,
+  FilmRoll,
+  PageParams,
+  Paginated,
+  UpdateFilmRollData,
+} from '@/types';
+
+/**
+ * Request surface the film roll service needs; satisfied by ApiClient
+ */
+export type FilmRollTransport = Pick<ApiClient, 'authenticatedRequest'>;
+
+/**
+ * Options accepted by the roll list
+ */
+export interface FilmRollListOptions extends PageParams {
+  camera_id?: string;
+}
+
+/**
+ * Film roll logbook service for API operations
+ */
+export class FilmRollService {
+  private client: FilmRollTransport;
+
+  constructor(client: FilmRollTransport = apiClient) {
+    this.client = client;
+  }
+
+  /**
+   * Get a page of the current user's rolls, newest first
+   */
+  async getRolls(options?: FilmRollListOptions): Promise<Paginated<FilmRoll>> {
+    const params = appendPageParams(new URLSearchParams(), options);
+    if (options?.camera_id) {params.append('camera_id', options.camera_id);}
+
+    const response = await this.client.authenticatedRequest<ListResponse<FilmRoll>>(
+      `${API_ENDPOINTS.FILM_ROLLS}?${params.toString()}`
+    );
+    return toPaginated(response, options);
+  }
+
+  /**
+   * Get every roll in the current user's logbook, fetching page by page
+   */
+  async getAllRolls(): Promise<FilmRoll[]> {
+    return collectAllPages(
+      (pageOptions) => this.getRolls(pageOptions),
+      UI_CONFIG.MAX_PAGE_SIZE
+    );
+  }
+
+  /**
+   * Number of rolls logged in a camera
+   */
+  async getCameraRollCount(cameraId: string): Promise<number> {
+    const params = new URLSearchParams({ camera_id: cameraId, limit: '1' });
+    const response = await this.client.authenticatedRequest<ListResponse<FilmRoll>>(
+      `${API_ENDPOINTS.FILM_ROLLS}?${params.toString()}`
+    );
+
+    // Bare arrays carry no total, so count whatever came back for this camera
+    return isEnvelope(response)
+      ? toPaginated(response).total
+      : response.filter(roll => roll.camera_id === cameraId).length;
+  }
+
+  /**
+   * Get roll by ID
+   */
+  async getRollById(rollId: string): Promise<FilmRoll> {
+    return this.client.authenticatedRequest(
+      API_ENDPOINTS.FILM_ROLL_BY_ID(rollId)
+    );
+  }
+
+  /**
+   * Log a new roll
+   */
+  async createRoll(data: CreateFilmRollData): Promise<FilmRoll> {
+    return this.client.authenticatedRequest(
+      API_ENDPOINTS.FILM_ROLLS,
+      {
+        method: 'POST',
+        body: JSON.stringify(data),
+      }
+    );
+  }
+
+  /**
+   * Update a roll's details, frames or linked photos
+   */
+  async updateRoll(rollId: string, data: UpdateFilmRollData): Promise<FilmRoll> {
+    return this.client.authenticatedRequest(
+      API_ENDPOINTS.FILM_ROLL_BY_ID(rollId),
+      {
+        method: 'PATCH',
+        body: JSON.stringify(data),
+      }
+    );
+  }
+
+  /**
+   * Delete a roll
+   */
+  async deleteRoll(rollId: string): Promise<void> {
+    return this.client.authenticatedRequest(
+      API_ENDPOINTS.FILM_ROLL_BY_ID(rollId),
+      {
+        method: 'DELETE',
+      }
+    );
+  }
+}
+
+export const filmRollService = new FilmRollService();
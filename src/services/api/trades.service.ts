@@ -0,0 +1,123 @@
+import { type ApiClient, apiClient } from './base';
+import { type ListResponse, appendPageParams, toPaginated } from './pagination';
+import { API_ENDPOINTS } from '@/constants';
+import type {
+  CounterTradeOfferData,
+  CreateTradeOfferData,
+  PageParams,
+  Paginated,
+  TradeInbox,
+  TradeOffer,
+  TradeOfferAction,
+  TradeOfferStatus,
+} from '@/types';
+
+/**
+ * Request surface the trade service needs; satisfied by ApiClient and the mock backend
+ */
+export type TradeTransport = Pick<ApiClient, 'authenticatedRequest'>;
+
+/**
+ * Options accepted by the trade inbox list
+ */
+export interface TradeOfferListOptions extends PageParams {
+  status?: TradeOfferStatus;
+}
+
+/**
+ * Trade offer service for API operations
+ */
+export class TradeService {
+  private client: TradeTransport;
+
+  constructor(client: TradeTransport = apiClient) {
+    this.client = client;
+  }
+
+  /**
+   * Get a page of offers the current user received or sent
+   */
+  async getOffers(
+    box: TradeInbox,
+    options?: TradeOfferListOptions
+  ): Promise<Paginated<TradeOffer>> {
+    const params = appendPageParams(new URLSearchParams({ box }), options);
+    if (options?.status) {params.append('status', options.status);}
+
+    const response = await this.client.authenticatedRequest<ListResponse<TradeOffer>>(
+      `${API_ENDPOINTS.TRADE_OFFERS}?${params.toString()}`
+    );
+    return toPaginated(response, options);
+  }
+
+  /**
+   * Get offer by ID
+   */
+  async getOfferById(offerId: string): Promise<TradeOffer> {
+    return this.client.authenticatedRequest(
+      API_ENDPOINTS.TRADE_OFFER_BY_ID(offerId)
+    );
+  }
+
+  /**
+   * Offer some of your cameras against another member's listed camera
+   */
+  async createOffer(data: CreateTradeOfferData): Promise<TradeOffer> {
+    return this.client.authenticatedRequest(
+      API_ENDPOINTS.TRADE_OFFERS,
+      {
+        method: 'POST',
+        body: JSON.stringify(data),
+      }
+    );
+  }
+
+  /**
+   * Counter an offer by asking for a different set of the proposer's cameras
+   */
+  async counterOffer(
+    offerId: string,
+    data: CounterTradeOfferData
+  ): Promise<TradeOffer> {
+    return this.performAction(offerId, 'counter', data);
+  }
+
+  /**
+   * Accept an offer awaiting your response
+   */
+  async acceptOffer(offerId: string, message?: string): Promise<TradeOffer> {
+    return this.performAction(offerId, 'accept', { message });
+  }
+
+  /**
+   * Decline an offer awaiting your response
+   */
+  async declineOffer(offerId: string, message?: string): Promise<TradeOffer> {
+    return this.performAction(offerId, 'decline', { message });
+  }
+
+  /**
+   * Withdraw an open offer you proposed
+   */
+  async withdrawOffer(offerId: string, message?: string): Promise<TradeOffer> {
+    return this.performAction(offerId, 'withdraw', { message });
+  }
+
+  private async performAction(
+    offerId: string,
+    action: TradeOfferAction,
+    body: { message?: string; offered_camera_ids?: string[] }
+  ): Promise<TradeOffer> {
+    return this.client.authenticatedRequest(
+      API_ENDPOINTS.TRADE_OFFER_ACTION(offerId, action),
+      {
+        method: 'POST',
+        body: JSON.stringify(body),
+        // State transitions are not idempotent
+        retry: { maxAttempts: 1, backoffMs: 0 },
+      }
+    );
+  }
+}
+
+export const tradeService = new TradeService();
@@ -0,0 +1,105 @@
+import { type ApiClient, type UploadConfig, apiClient } from './base';
+import { API_ENDPOINTS } from '@/constants';
+import { AppApiError } from '@/utils';
+
+/**
+ * Request surface the upload service needs; satisfied by ApiClient
+ */
+export type UploadTransport = Pick<ApiClient, 'authenticatedUpload'>;
+
+/**
+ * Normalized upload endpoint response
+ */
+export interface UploadedFile {
+  url: string;
+  thumbnail_url?: string;
+}
+
+/**
+ * Progress and cancellation hooks for a single upload
+ */
+export type UploadProgressOptions = Pick<UploadConfig, 'onProgress' | 'signal'>;
+
+/**
+ * Options for uploading a file to an arbitrary upload endpoint
+ */
+export interface UploadFileOptions extends UploadProgressOptions {
+  endpoint: string;
+  params?: Record<string, string>;
+  fieldName?: string;
+}
+
+/**
+ * Raw upload response; older endpoints return `image_url` instead of `url`
+ */
+interface UploadResponse {
+  url?: string;
+  image_url?: string;
+  thumbnail_url?: string;
+}
+
+/**
+ * Upload service for images sent as multipart form data
+ */
+export class UploadService {
+  private client: UploadTransport;
+
+  constructor(client: UploadTransport = apiClient) {
+    this.client = client;
+  }
+
+  /**
+   * Upload a single file as multipart form data
+   */
+  async uploadFile(file: Blob, options: UploadFileOptions): Promise<UploadedFile> {
+    const { endpoint, params, fieldName = 'file', onProgress, signal } = options;
+
+    const formData = new FormData();
+    formData.append(fieldName, file);
+
+    const response = await this.client.authenticatedUpload<UploadResponse>(endpoint, formData, {
+      params,
+      onProgress,
+      signal,
+    });
+
+    const url = response.url || response.image_url;
+    if (!url) {
+      throw new AppApiError(200, 'Upload response did not include an image URL');
+    }
+    return { url, thumbnail_url: response.thumbnail_url };
+  }
+
+  /**
+   * Upload a camera or post photo
+   */
+  async uploadCameraImage(
+    file: Blob,
+    userId?: string,
+    options?: UploadProgressOptions
+  ): Promise<UploadedFile> {
+    return this.uploadFile(file, {
+      ...options,
+      endpoint: API_ENDPOINTS.UPLOAD_CAMERA_IMAGE,
+      params: userId ? { user_id: userId } : undefined,
+    });
+  }
+
+  /**
+   * Upload a profile avatar
+   */
+  async uploadAvatar(
+    file: Blob,
+    userId: string,
+    options?: UploadProgressOptions
+  ): Promise<UploadedFile> {
+    return this.uploadFile(file, {
+      ...options,
+      endpoint: API_ENDPOINTS.UPLOAD_AVATAR,
+      params: { user_id: userId },
+    });
+  }
+}
+
+// Export singleton instance
+export const uploadService = new UploadService();
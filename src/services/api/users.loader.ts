@@ -0,0 +1,79 @@
+import type { QueryClient } from '@tanstack/react-query';
+import { userService } from './users.service';
+import { queryClient, queryKeys } from '@/lib/react-query';
+import { AppApiError } from '@/utils';
+import { BatchQueue } from '@/utils/performance';
+import type { UserProfile } from '@/types';
+
+/**
+ * Source of user profiles for a list of ids
+ */
+export type UserBatchFetcher = (userIds: string[]) => Promise<UserProfile[]>;
+
+/**
+ * Largest number of ids sent in one batch request
+ */
+const MAX_BATCH_SIZE = 50;
+
+/**
+ * Some backends send the avatar as `image_url`; callers only read `avatar_url`
+ */
+const normalizeAvatar = (user: UserProfile & { image_url?: string }): UserProfile => {
+  const { image_url, ...profile } = user;
+  return image_url && !profile.avatar_url ? { ...profile, avatar_url: image_url } : profile;
+};
+
+/**
+ * Batched user lookups
+ *
+ * Lookups made in the same tick are sent as one request, an id already in
+ * flight shares that request, and every user fetched is written to the
+ * React Query cache under `queryKeys.users.byId` with its avatar in
+ * `avatar_url`.
+ */
+export class UserLoader {
+  private client: QueryClient;
+  private queue: BatchQueue<UserProfile>;
+
+  constructor(
+    fetchUsers: UserBatchFetcher = userIds => userService.getUsersByIds(userIds),
+    client: QueryClient = queryClient
+  ) {
+    this.client = client;
+    this.queue = new BatchQueue(async userIds => {
+      const users = (await fetchUsers(userIds)).map(normalizeAvatar);
+      const found = new Map(users.map(user => [user.id, user]));
+      found.forEach((user, userId) => this.client.setQueryData(queryKeys.users.byId(userId), user));
+      return found;
+    }, 0, MAX_BATCH_SIZE);
+  }
+
+  /**
+   * Fetch one user; rejects with a 404 when no such user exists
+   */
+  async load(userId: string): Promise<UserProfile> {
+    const user = await this.queue.add(userId);
+    if (!user) {
+      throw new AppApiError(404, 'User not found');
+    }
+    return user;
+  }
+
+  /**
+   * Users for the given ids, cached ones first; missing or failed lookups are left out
+   */
+  async loadMany(userIds: string[]): Promise<Map<string, UserProfile>> {
+    const uniqueIds = [...new Set(userIds.filter(Boolean))];
+    const entries = await Promise.all(uniqueIds.map(async userId => {
+      const cached = this.client.getQueryData<UserProfile>(queryKeys.users.byId(userId));
+      const user = cached ?? await this.queue.add(userId).catch(() => undefined);
+      return [userId, user] as const;
+    }));
+
+    return new Map(
+      entries.filter((entry): entry is readonly [string, UserProfile] => entry[1] !== undefined)
+    );
+  }
+}
+
+export const userLoader = new UserLoader();
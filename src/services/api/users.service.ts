@@ -1,26 +1,42 @@
 import { apiClient } from './base';
+import {
+  type EndpointSupport,
+  type ListResponse,
+  appendPageParams,
+  isEndpointMissing,
+  toPaginated
+} from './pagination';
 import { API_ENDPOINTS } from '@/constants';
+import { AppApiError } from '@/utils';
 import type { 
   CreateUserData, 
+  PageParams,
+  Paginated,
   UpdateUserData, 
   UserProfile 
 } from '@/types';
 
+/**
+ * Parallel single-user requests when the batch route is unavailable
+ */
+const USER_LOOKUP_CONCURRENCY = 5;
+
 /**
  * User service for API operations
  */
 export class UserService {
+  private batchLookupSupported: EndpointSupport = null;
+
   /**
    * Sync user with backend (Clerk integration)
    */
-  async syncUser(userData: any, token?: string): Promise<{
+  async syncUser(userData: any): Promise<{
     message: string;
     user_id: string;
     clerk_id: string;
   }> {
     return apiClient.authenticatedRequest(
       API_ENDPOINTS.USER_SYNC,
-      token || null,
       {
         method: 'POST',
         body: JSON.stringify(userData),
@@ -31,23 +47,63 @@ export class UserService {
   /**
    * Get user by ID
    */
-  async getUserById(userId: string, token?: string): Promise<UserProfile> {
+  async getUserById(userId: string): Promise<UserProfile> {
     return apiClient.authenticatedRequest(
-      API_ENDPOINTS.USER_BY_ID(userId),
-      token || null
+      API_ENDPOINTS.USER_BY_ID(userId)
     );
   }
 
+  /**
+   * Get several users in one request; ids that match no user are left out
+   *
+   * Backends without the batch route are asked one user at a time, a few in parallel.
+   */
+  async getUsersByIds(userIds: string[]): Promise<UserProfile[]> {
+    if (userIds.length === 0) {return [];}
+
+    if (this.batchLookupSupported !== false) {
+      const params = new URLSearchParams({ ids: userIds.join(',') });
+      try {
+        const response = await apiClient.authenticatedRequest<ListResponse<UserProfile>>(
+          `${API_ENDPOINTS.USERS_BATCH}?${params.toString()}`,
+          // A missing route should fail fast rather than be retried
+          { retry: { maxAttempts: 1, backoffMs: 0 } }
+        );
+        this.batchLookupSupported = true;
+        return toPaginated(response).items;
+      } catch (error) {
+        if (this.batchLookupSupported || !isEndpointMissing(error)) {
+          throw error;
+        }
+        this.batchLookupSupported = false;
+      }
+    }
+
+    const users: UserProfile[] = [];
+    for (let i = 0; i < userIds.length; i += USER_LOOKUP_CONCURRENCY) {
+      const results = await Promise.allSettled(
+        userIds.slice(i, i + USER_LOOKUP_CONCURRENCY).map(userId => this.getUserById(userId))
+      );
+      // Only a missing user is left out; any other failure fails the whole lookup
+      results.forEach(result => {
+        if (result.status === 'fulfilled') {
+          users.push(result.value);
+        } else if (!(result.reason instanceof AppApiError && result.reason.status === 404)) {
+          throw result.reason;
+        }
+      });
+    }
+    return users;
+  }
+
   /**
    * Get user by username
    */
   async getUserByUsername(
-    username: string,
-    token?: string
+    username: string
   ): Promise<UserProfile> {
     return apiClient.authenticatedRequest(
-      API_ENDPOINTS.USER_BY_USERNAME(username),
-      token || null
+      API_ENDPOINTS.USER_BY_USERNAME(username)
     );
   }
 
@@ -55,12 +111,10 @@ export class UserService {
    * Create new user
    */
   async createUser(
-    userData: CreateUserData,
-    token?: string
+    userData: CreateUserData
   ): Promise<UserProfile> {
     return apiClient.authenticatedRequest(
       API_ENDPOINTS.USERS,
-      token || null,
       {
         method: 'POST',
         body: JSON.stringify(userData),
@@ -73,12 +127,10 @@ export class UserService {
    */
   async updateUser(
     userId: string,
-    userData: UpdateUserData,
-    token?: string
+    userData: UpdateUserData
   ): Promise<UserProfile> {
     return apiClient.authenticatedRequest(
       API_ENDPOINTS.USER_BY_ID(userId),
-      token || null,
       {
         method: 'PATCH',
         body: JSON.stringify(userData),
@@ -87,27 +139,23 @@ export class UserService {
   }
 
   /**
-   * Get all users (with pagination support)
+   * Get a page of users, optionally matching a search term
    */
   async getAllUsers(
-    token?: string,
-    params?: {
-      page?: number;
-      limit?: number;
+    params?: PageParams & {
       search?: string;
     }
-  ): Promise<UserProfile[]> {
-    const searchParams = new URLSearchParams();
+  ): Promise<Paginated<UserProfile>> {
+    const searchParams = appendPageParams(new URLSearchParams(), params);
     
-    if (params?.page) {searchParams.append('page', params.page.toString());}
-    if (params?.limit) {searchParams.append('limit', params.limit.toString());}
     if (params?.search) {searchParams.append('search', params.search);}
 
-    const endpoint = params && Object.keys(params).length > 0
+    const endpoint = searchParams.toString()
       ? `${API_ENDPOINTS.USERS}?${searchParams.toString()}`
       : API_ENDPOINTS.USERS;
 
-    return apiClient.authenticatedRequest(endpoint, token || null);
+    const response = await apiClient.authenticatedRequest<ListResponse<UserProfile>>(endpoint);
+    return toPaginated(response, params);
   }
 
   /**
@@ -115,12 +163,10 @@ export class UserService {
    */
   async followUser(
     userToFollowId: string,
-    currentUserId: string,
-    token?: string
+    currentUserId: string
   ): Promise<{ message: string }> {
     return apiClient.authenticatedRequest(
       API_ENDPOINTS.USER_FOLLOW(userToFollowId),
-      token || null,
       {
         method: 'POST',
         body: JSON.stringify({ follower_id: currentUserId }),
@@ -133,12 +179,10 @@ export class UserService {
    */
   async unfollowUser(
     userToUnfollowId: string,
-    currentUserId: string,
-    token?: string
+    currentUserId: string
   ): Promise<{ message: string }> {
     return apiClient.authenticatedRequest(
       API_ENDPOINTS.USER_UNFOLLOW(userToUnfollowId),
-      token || null,
       {
         method: 'DELETE',
         body: JSON.stringify({ follower_id: currentUserId }),
@@ -149,10 +193,9 @@ export class UserService {
   /**
    * Delete user account
    */
-  async deleteUser(userId: string, token?: string): Promise<void> {
+  async deleteUser(userId: string): Promise<void> {
     return apiClient.authenticatedRequest(
       API_ENDPOINTS.USER_BY_ID(userId),
-      token || null,
       {
         method: 'DELETE',
       }
@@ -164,48 +207,39 @@ export class UserService {
    */
   async searchUsers(
     query: string,
-    token?: string,
-    options?: {
-      limit?: number;
+    options?: PageParams & {
       excludeUserId?: string;
     }
-  ): Promise<UserProfile[]> {
-    const params = new URLSearchParams({ search: query });
-    
-    if (options?.limit) {
-      params.append('limit', options.limit.toString());
-    }
-
-    const users = await this.getAllUsers(token, {
+  ): Promise<Paginated<UserProfile>> {
+    const { excludeUserId, ...pageParams } = options || {};
+    const page = await this.getAllUsers({
+      ...pageParams,
       search: query,
-      limit: options?.limit,
     });
 
     // Filter out excluded user on frontend if specified
-    if (options?.excludeUserId) {
-      return users.filter(user => user.id !== options.excludeUserId);
+    if (excludeUserId) {
+      return { ...page, items: page.items.filter(user => user.id !== excludeUserId) };
     }
 
-    return users;
+    return page;
   }
 
   /**
    * Get followers of a user
    */
-  async getUserFollowers(userId: string, token?: string): Promise<UserProfile[]> {
+  async getUserFollowers(userId: string): Promise<UserProfile[]> {
     return apiClient.authenticatedRequest(
-      `${API_ENDPOINTS.USERS}${userId}/followers`,
-      token || null
+      `${API_ENDPOINTS.USERS}${userId}/followers`
     );
   }
 
   /**
    * Get users that a user is following
    */
-  async getUserFollowing(userId: string, token?: string): Promise<UserProfile[]> {
+  async getUserFollowing(userId: string): Promise<UserProfile[]> {
     return apiClient.authenticatedRequest(
-      `${API_ENDPOINTS.USERS}${userId}/following`,
-      token || null
+      `${API_ENDPOINTS.USERS}${userId}/following`
     );
   }
 }
@@ -1,8 +1,14 @@
 import { handleApiError, logError } from '@/utils';
 import type { UserResource } from '@clerk/types';
 import type { UserProfile, UserSyncData } from '@/types';
+import type { TokenProvider } from '@/services/api/base';
 import type { UserService } from '@/services/api/users.service';
 
+/**
+ * Clerk's `getToken`, as returned by its `useAuth` hook
+ */
+type ClerkGetToken = (options?: { skipCache?: boolean }) => Promise<string | null>;
+
 /**
  * Clerk authentication service
  */
@@ -23,12 +29,9 @@ export class ClerkAuthService {
   /**
    * Sync user data with backend after Clerk authentication
    */
-  async syncUserToBackend(
-    user: UserResource,
-    token: string
-  ): Promise<UserProfile | null> {
-    if (!user || !token) {
-      console.warn('Missing user or token for backend sync');
+  async syncUserToBackend(user: UserResource): Promise<UserProfile | null> {
+    if (!user) {
+      console.warn('Missing user for backend sync');
       return null;
     }
 
@@ -57,13 +60,13 @@ export class ClerkAuthService {
       const userService = await this.getUserService();
       
       // Attempt to sync user
-      const syncResult = await userService.syncUser(syncData, token);
+      const syncResult = await userService.syncUser(syncData);
       
       console.warn('User sync successful:', syncResult);
 
       // Try to fetch the updated user profile
       try {
-        const userProfile = await userService.getUserById(user.id, token);
+        const userProfile = await userService.getUserById(user.id);
         return userProfile;
       } catch (fetchError) {
         console.warn('Could not fetch user profile after sync:', fetchError);
@@ -198,18 +201,26 @@ export class ClerkAuthService {
   /**
    * Validate token expiration and refresh if needed
    */
-  async validateAndRefreshToken(getToken: () => Promise<string | null>): Promise<string | null> {
+  async validateAndRefreshToken(
+    getToken: ClerkGetToken,
+    forceRefresh = false
+  ): Promise<string | null> {
     try {
-      const token = await getToken();
-      
-      // Clerk handles token refresh automatically
-      return token;
+      // Clerk refreshes expiring tokens itself; skipCache forces a new one after a 401
+      return await getToken(forceRefresh ? { skipCache: true } : undefined);
     } catch (error) {
       console.error('Token validation failed:', error);
       return null;
     }
   }
 
+  /**
+   * Token provider for ApiClient backed by Clerk's session
+   */
+  createTokenProvider(getToken: ClerkGetToken): TokenProvider {
+    return options => this.validateAndRefreshToken(getToken, options?.forceRefresh);
+  }
+
   /**
    * Get user permissions based on Clerk data
    */
@@ -0,0 +1,2 @@
+// Persisted React Query cache
+export * from './queryPersist.service';
@@ -0,0 +1,320 @@
+import { type Query, type QueryClient, type QueryKey, type QueryState, hydrate } from '@tanstack/react-query';
+import { QUERY_CACHE_CONFIG, STORAGE_KEYS } from '@/constants';
+import { openObjectStoreDatabase, requestToPromise, transactionDone } from '@/utils/indexedDb.utils';
+
+const STORE_NAME = 'queries';
+
+/**
+ * One successful query as stored in IndexedDB
+ */
+interface PersistedQuery {
+  /** `<version>:<queryHash>`, so entries written by older builds can be told apart */
+  key: string;
+  queryHash: string;
+  /** User the data was fetched for; empty when signed out */
+  owner: string;
+  queryKey: QueryKey;
+  state: QueryState;
+  /** Approximate serialized size in bytes, used for the size cap */
+  size: number;
+  persistedAt: number;
+}
+
+/**
+ * Options for persisting one query client
+ */
+export interface QueryPersistOptions {
+  dbName?: string;
+  version?: number;
+  maxBytes?: number;
+  maxAge?: number;
+  writeDelay?: number;
+  /** Whether a query should be saved; defaults to the configured key roots */
+  shouldPersist?: (query: Query) => boolean;
+}
+
+const persistedRoots = new Set<unknown>(QUERY_CACHE_CONFIG.PERSISTED_ROOTS);
+
+const defaultShouldPersist = (query: Query): boolean => persistedRoots.has(query.queryKey[0]);
+
+const estimateSize = (state: QueryState): number => {
+  try {
+    return JSON.stringify(state.data)?.length ?? 0;
+  } catch {
+    return Infinity;
+  }
+};
+
+/**
+ * React Query cache persisted to IndexedDB
+ *
+ * Successful queries under the configured key roots are saved shortly after
+ * they change and restored on startup, so pages can render from the last
+ * visit while offline. Entries carry a version prefix, expire after
+ * `maxAge`, and the oldest are evicted once the store passes `maxBytes`.
+ * Saved queries are only restored once `setOwner` confirms they belong to
+ * the signed-in user, and the store is wiped whenever a different user
+ * signs in or out.
+ */
+export class QueryPersistService {
+  private dbName: string;
+  private prefix: string;
+  private maxBytes: number;
+  private maxAge: number;
+  private writeDelay: number;
+  private shouldPersist: (query: Query) => boolean;
+  private client: QueryClient | null = null;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private dirty = new Set<string>();
+  private writeTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Size and age of every stored entry, keyed by queryHash */
+  private index = new Map<string, { size: number; persistedAt: number }>();
+  private unsubscribe: (() => void) | null = null;
+  /** Signed-in user once known ('' when signed out); null until `setOwner` */
+  private owner: string | null = null;
+  /** Loaded entries waiting for the owner to be known */
+  private pending: PersistedQuery[] = [];
+
+  constructor(options: QueryPersistOptions = {}) {
+    this.dbName = options.dbName ?? QUERY_CACHE_CONFIG.DB_NAME;
+    this.prefix = `${options.version ?? QUERY_CACHE_CONFIG.VERSION}:`;
+    this.maxBytes = options.maxBytes ?? QUERY_CACHE_CONFIG.MAX_BYTES;
+    this.maxAge = options.maxAge ?? QUERY_CACHE_CONFIG.MAX_AGE;
+    this.writeDelay = options.writeDelay ?? QUERY_CACHE_CONFIG.WRITE_DELAY;
+    this.shouldPersist = options.shouldPersist ?? defaultShouldPersist;
+  }
+
+  /**
+   * Load saved queries and keep saving changes
+   *
+   * Resolves once loaded; the queries are restored into the client when
+   * `setOwner` is called for the user they belong to. Storage failures are
+   * logged and leave the client empty rather than failing startup.
+   */
+  async attach(client: QueryClient): Promise<void> {
+    this.detach();
+    this.client = client;
+
+    try {
+      this.pending = await this.load();
+      if (this.owner !== null) {
+        this.restore();
+      }
+    } catch (error) {
+      console.warn('Could not restore the saved query cache:', error);
+    }
+
+    this.unsubscribe = client.getQueryCache().subscribe(event => {
+      if (event.type === 'updated' && event.action.type === 'success') {
+        this.schedule(event.query.queryHash);
+      }
+    });
+  }
+
+  /**
+   * Stop saving changes
+   */
+  detach(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.writeTimer) {
+      clearTimeout(this.writeTimer);
+      this.writeTimer = null;
+    }
+    this.dirty.clear();
+  }
+
+  /**
+   * Record who the cached data belongs to, restoring their saved queries;
+   * switching users wipes both caches
+   */
+  async setOwner(userId: string | null): Promise<void> {
+    const owner = userId ?? '';
+    const wasKnown = this.owner !== null;
+    this.owner = owner;
+
+    let previous: string | null = null;
+    try {
+      previous = window.localStorage.getItem(STORAGE_KEYS.QUERY_CACHE_OWNER);
+      window.localStorage.setItem(STORAGE_KEYS.QUERY_CACHE_OWNER, owner);
+    } catch {
+      // Without storage we cannot tell owners apart, so treat it as a switch
+    }
+
+    if (previous === owner) {
+      this.restore();
+      this.flushDirty();
+      return;
+    }
+
+    // Nothing of the previous user's reached the client unless they were signed in this session
+    this.pending = [];
+    if (wasKnown) {
+      this.client?.clear();
+    }
+    await this.clear();
+    this.flushDirty();
+  }
+
+  /**
+   * Delete every saved query
+   */
+  async clear(): Promise<void> {
+    this.dirty.clear();
+    this.index.clear();
+    try {
+      const db = await this.open();
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      transaction.objectStore(STORE_NAME).clear();
+      await transactionDone(transaction);
+    } catch (error) {
+      console.warn('Could not clear the saved query cache:', error);
+    }
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openObjectStoreDatabase(this.dbName, STORE_NAME, 'key').catch(error => {
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Read the saved entries, deleting expired ones and those from other versions
+   */
+  private async load(): Promise<PersistedQuery[]> {
+    const db = await this.open();
+    const records = await requestToPromise(
+      db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAll() as IDBRequest<PersistedQuery[]>
+    );
+
+    const cutoff = Date.now() - this.maxAge;
+    const expired = records.filter(record => !record.key.startsWith(this.prefix) || record.persistedAt < cutoff);
+    const current = records.filter(record => !expired.includes(record));
+
+    current.forEach(record => {
+      this.index.set(record.queryHash, { size: record.size, persistedAt: record.persistedAt });
+    });
+
+    if (expired.length > 0) {
+      await this.remove(expired.map(record => record.key));
+    }
+    return current;
+  }
+
+  /**
+   * Hydrate the loaded entries that belong to the current owner
+   */
+  private restore(): void {
+    const records = this.pending.filter(record => record.owner === this.owner);
+    this.pending = [];
+    if (!this.client || records.length === 0) {return;}
+
+    hydrate(this.client, {
+      mutations: [],
+      queries: records.map(record => ({
+        queryHash: record.queryHash,
+        queryKey: record.queryKey,
+        state: record.state,
+      })),
+    });
+  }
+
+  private schedule(queryHash: string): void {
+    this.dirty.add(queryHash);
+    if (!this.writeTimer) {
+      this.writeTimer = setTimeout(() => {
+        this.writeTimer = null;
+        this.flush().catch(error => console.warn('Could not save the query cache:', error));
+      }, this.writeDelay);
+    }
+  }
+
+  /**
+   * Save changes held back while the owner was unknown
+   */
+  private flushDirty(): void {
+    if (this.dirty.size > 0 && !this.writeTimer) {
+      this.flush().catch(error => console.warn('Could not save the query cache:', error));
+    }
+  }
+
+  private async flush(): Promise<void> {
+    const client = this.client;
+    const owner = this.owner;
+    // Until the owner is known there is no telling whose data this is
+    if (!client || owner === null) {return;}
+
+    const queryCache = client.getQueryCache();
+    const now = Date.now();
+    const records: PersistedQuery[] = [];
+    this.dirty.forEach(queryHash => {
+      const query = queryCache.get(queryHash);
+      if (!query || query.state.status !== 'success' || !this.shouldPersist(query)) {return;}
+
+      // Strip in-flight fetch details; the restored query is simply stale data
+      const state: QueryState = { ...query.state, fetchStatus: 'idle', fetchMeta: null, error: null };
+      const size = estimateSize(state);
+      if (size > this.maxBytes) {return;}
+
+      records.push({
+        key: this.prefix + queryHash,
+        queryHash,
+        owner,
+        queryKey: query.queryKey,
+        state,
+        size,
+        persistedAt: now,
+      });
+    });
+    this.dirty.clear();
+
+    if (records.length === 0) {return;}
+
+    const db = await this.open();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    records.forEach(record => store.put(record));
+    await transactionDone(transaction);
+
+    records.forEach(record => {
+      this.index.set(record.queryHash, { size: record.size, persistedAt: record.persistedAt });
+    });
+    await this.evict();
+  }
+
+  /**
+   * Drop the oldest entries until the store fits within maxBytes
+   */
+  private async evict(): Promise<void> {
+    let total = 0;
+    this.index.forEach(entry => {
+      total += entry.size;
+    });
+    if (total <= this.maxBytes) {return;}
+
+    const oldestFirst = [...this.index].sort(([, a], [, b]) => a.persistedAt - b.persistedAt);
+    const evicted: string[] = [];
+    for (const [queryHash, entry] of oldestFirst) {
+      if (total <= this.maxBytes) {break;}
+      total -= entry.size;
+      evicted.push(queryHash);
+      this.index.delete(queryHash);
+    }
+
+    await this.remove(evicted.map(queryHash => this.prefix + queryHash));
+  }
+
+  private async remove(keys: string[]): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    keys.forEach(key => store.delete(key));
+    await transactionDone(transaction);
+  }
+}
+
+export const queryPersistService = new QueryPersistService();
@@ -0,0 +1,171 @@
+import type { CatalogBrand } from '@/types';
+
+/**
+ * Bundled reference catalog of camera makers and their notable models
+ *
+ * Spec defaults describe the body as shipped; owners can still override them.
+ * Keep brands and models in alphabetical order.
+ */
+export const CAMERA_CATALOG: readonly CatalogBrand[] = [
+  {
+    name: 'Bronica',
+    models: [
+      { name: 'ETRS', year_from: 1979, year_to: 1989, camera_type: 'medium_format', film_format: '120', lens_mount: 'Bronica ETR', specs: { shutter_type: 'leaf', shutter_speed_slowest: 8, shutter_speed_fastest: 1 / 500, film_advance: 'crank' } },
+      { name: 'ETRSi', year_from: 1989, year_to: 2004, camera_type: 'medium_format', film_format: '120', lens_mount: 'Bronica ETR', specs: { shutter_type: 'leaf', shutter_speed_slowest: 8, shutter_speed_fastest: 1 / 500, film_advance: 'crank' } },
+      { name: 'SQ-A', year_from: 1982, year_to: 1990, camera_type: 'medium_format', film_format: '120', lens_mount: 'Bronica SQ', specs: { shutter_type: 'leaf', shutter_speed_slowest: 8, shutter_speed_fastest: 1 / 500, film_advance: 'crank' } },
+    ],
+  },
+  {
+    name: 'Canon',
+    models: [
+      { name: '7', year_from: 1961, year_to: 1964, camera_type: '35mm_rangefinder', film_format: '35mm', lens_mount: 'Leica M39', specs: { shutter_type: 'focal_plane_cloth', shutter_speed_slowest: 1, shutter_speed_fastest: 1 / 1000, metering: 'selenium', focus: 'rangefinder', film_advance: 'lever' } },
+      { name: 'A-1', year_from: 1978, year_to: 1985, camera_type: '35mm_slr', film_format: '35mm', lens_mount: 'Canon FD', specs: { shutter_type: 'focal_plane_cloth', shutter_speed_slowest: 30, shutter_speed_fastest: 1 / 1000, has_bulb: true, flash_sync: 1 / 60, metering: 'center_weighted', focus: 'manual', film_advance: 'lever', self_timer: true, battery: '4LR44' } },
+      { name: 'AE-1', year_from: 1976, year_to: 1984, camera_type: '35mm_slr', film_format: '35mm', lens_mount: 'Canon FD', specs: { shutter_type: 'focal_plane_cloth', shutter_speed_slowest: 2, shutter_speed_fastest: 1 / 1000, has_bulb: true, flash_sync: 1 / 60, metering: 'center_weighted', focus: 'manual', film_advance: 'lever', self_timer: true, battery: '4LR44', weight_grams: 590 } },
+      { name: 'AE-1 Program', year_from: 1981, year_to: 1987, camera_type: '35mm_slr', film_format: '35mm', lens_mount: 'Canon FD', specs: { shutter_type: 'focal_plane_cloth', shutter_speed_slowest: 2, shutter_speed_fastest: 1 / 1000, has_bulb: true, flash_sync: 1 / 60, metering: 'center_weighted', focus: 'manual', film_advance: 'lever', self_timer: true, battery: '4LR44' } },
+      { name: 'Canonet QL17 GIII', year_from: 1972, year_to: 1982, camera_type: '35mm_rangefinder', film_format: '35mm', lens_mount: 'Fixed lens', specs: { shutter_type: 'leaf', shutter_speed_slowest: 1 / 4, shutter_speed_fastest: 1 / 500, focus: 'rangefinder', film_advance: 'lever', lens_focal_length: 40, max_aperture: 1.7 } },
+      { name: 'EOS-1V', year_from: 2000, year_to: 2018, camera_type: '35mm_slr', film_format: '35mm', lens_mount: 'Canon EF', specs: { shutter_type: 'focal_plane_metal', shutter_speed_slowest: 30, shutter_speed_fastest: 1 / 8000, has_bulb: true, flash_sync: 1 / 250, metering: 'matrix', focus: 'autofocus', film_advance: 'motorized', self_timer: true, battery: '2CR5' } },
+      { name: 'F-1', year_from: 1971, year_to: 1981, camera_type: '35mm_slr', film_format: '35mm', lens_mount: 'Canon FD', specs: { shutter_type: 'focal_plane_metal', shutter_speed_slowest: 1, shutter_speed_fastest: 1 / 2000, has_bulb: true, flash_sync: 1 / 60, metering: 'match_needle', focus: 'manual', film_advance: 'lever', self_timer: true } },
+      { name: 'New F-1', year_from: 1981, year_to: 1992, camera_type: '35mm_slr', film_format: '35mm', lens_mount: 'Canon FD', specs: { shutter_type: 'focal_plane_metal', shutter_speed_slowest: 8, shutter_speed_fastest: 1 / 2000, has_bulb: true, flash_sync: 1 / 90, metering: 'center_weighted', focus: 'manual', film_advance: 'lever', self_timer: true } },
+    ],
+  },
+  {
+    name: 'Contax',
+    models: [
+      { name: 'G2', year_from: 1996, year_to: 2005, camera_type: '35mm_rangefinder', film_format: '35mm', lens_mount: 'Contax G', specs: { shutter_type: 'focal_plane_metal', shutter_speed_slowest: 16, shutter_speed_fastest: 1 / 6000, has_bulb: true, flash_sync: 1 / 200, metering: 'center_weighted', focus: 'autofocus', film_advance: 'motorized', battery: 'CR2' } },
+      { name: 'RTS', year_from: 1975, year_to: 1982, camera_type: '35mm_slr', film_format: '35mm', lens_mount: 'Contax/Yashica', specs: { shutter_type: 'focal_plane_cloth', shutter_speed_slowest: 4, shutter_speed_fastest: 1 / 2000, has_bulb: true, flash_sync: 1 / 50, metering: 'center_weighted', focus: 'manual', film_advance: 'lever' } },
+      { name: 'T2', year_from: 1990, year_to: 2000, camera_type: 'point_and_shoot', film_format: '35mm', lens_mount: 'Fixed lens', specs: { shutter_type: 'leaf', shutter_speed_slowest: 8, shutter_speed_fastest: 1 / 500, focus: 'autofocus', film_advance: 'motorized', lens_focal_length: 38, max_aperture: 2.8, battery: 'CR123A' } },
+      { name: 'T3', year_from: 2001, year_to: 2005, camera_type: 'point_and_shoot', film_format: '35mm', lens_mount: 'Fixed lens', specs: { shutter_type: 'leaf', shutter_speed_slowest: 16, shutter_speed_fastest: 1 / 500, focus: 'autofocus', film_advance: 'motorized', lens_focal_length: 35, max_aperture: 2.8, battery: 'CR2' } },
+    ],
+  },
+  {
+    name: 'Fujifilm',
+    models: [
+      { name: 'GA645', year_from: 1995, year_to: 2003, camera_type: 'medium_format', film_format: '120', lens_mount: 'Fixed lens', specs: { shutter_type: 'leaf', focus: 'autofocus', film_advance: 'motorized', lens_focal_length: 60, max_aperture: 4 } },
+      { name: 'GW690III', year_from: 1992, year_to: 2000, camera_type: 'medium_format', film_format: '120', lens_mount: 'Fixed lens', specs: { shutter_type: 'leaf', shutter_speed_slowest: 1, shutter_speed_fastest: 1 / 500, has_bulb: true, metering: 'none', focus: 'rangefinder', film_advance: 'lever', lens_focal_length: 90, max_aperture: 3.5 } },
+      { name: 'Klasse W', year_from: 2007, year_to: 2011, camera_type: 'point_and_shoot', film_format: '35mm', lens_mount: 'Fixed lens', specs: { shutter_type: 'leaf', focus: 'autofocus', film_advance: 'motorized', lens_focal_length: 28, max_aperture: 2.8 } },
+      { name: 'X100', year_from: 2011, year_to: 2012, camera_type: 'digital', lens_mount: 'Fixed lens', specs: { lens_focal_length: 23, max_aperture: 2, sensor_megapixels: 12.3 } },
+    ],
+  },
+  {
+    name: 'Hasselblad',
+    models: [
+      { name: '500C', year_from: 1957, year_to: 1970, camera_type: 'medium_format', film_format: '120', lens_mount: 'Hasselblad V', specs: { shutter_type: 'leaf', shutter_speed_slowest: 1, shutter_speed_fastest: 1 / 500, has_bulb: true, metering: 'none', focus: 'manual', film_advance: 'crank' } },
+      { name: '500C/M', year_from: 1970, year_to: 1994, camera_type: 'medium_format', film_format: '120', lens_mount: 'Hasselblad V', specs: { shutter_type: 'leaf', shutter_speed_slowest: 1, shutter_speed_fastest: 1 / 500, has_bulb: true, metering: 'none', focus: 'manual', film_advance: 'crank' } },
+      { name: '503CW', year_from: 1996, year_to: 2006, camera_type: 'medium_format', film_format: '120', lens_mount: 'Hasselblad V', specs: { shutter_type: 'leaf', shutter_speed_slowest: 1, shutter_speed_fastest: 1 / 500, has_bulb: true, metering: 'none', focus: 'manual', film_advance: 'crank' } },
+      { name: 'SWC/M', year_from: 1980, year_to: 1988, camera_type: 'medium_format', film_format: '120', lens_mount: 'Fixed lens', specs: { shutter_type: 'leaf', shutter_speed_slowest: 1, shutter_speed_fastest: 1 / 500, focus: 'zone', film_advance: 'crank', lens_focal_length: 38, max_aperture: 4.5 } },
+      { name: 'X1D-50c', year_from: 2016, year_to: 2019, camera_type: 'digital', lens_mount: 'Hasselblad XCD', specs: { sensor_megapixels: 50, battery: 'Hasselblad X1D battery' } },
+    ],
+  },
+  {
+    name: 'Kodak',
+    models: [
+      { name: 'Instamatic 100', year_from: 1963, year_to: 1966, camera_type: 'point_and_shoot', film_format: '126', lens_mount: 'Fixed lens', specs: { shutter_type: 'leaf', focus: 'fixed', film_advance: 'lever' } },
+      { name: 'Retina IIa', year_from: 1951, year_to: 1954, camera_type: '35mm_rangefinder', film_format: '35mm', lens_mount: 'Fixed lens', specs: { shutter_type: 'leaf', shutter_speed_slowest: 1, shutter_speed_fastest: 1 / 500, has_bulb: true, metering: 'none', focus: 'rangefinder', film_advance: 'lever', lens_focal_length: 50, max_aperture: 2 } },
+      { name: 'Retina Ia', year_from: 1951, year_to: 1954, camera_type: 'point_and_shoot', film_format: '35mm', lens_mount: 'Fixed lens', specs: { shutter_type: 'leaf', shutter_speed_slowest: 1, shutter_speed_fastest: 1 / 500, metering: 'none', focus: 'zone', film_advance: 'lever', lens_focal_length: 50, max_aperture: 3.5 } },
+    ],
+  },
+  {
+    name: 'Leica',
+    models: [
+      { name: 'CL', year_from: 1973, year_to: 1976, camera_type: '35mm_rangefinder', film_format: '35mm', lens_mount: 'Leica M', specs: { shutter_type: 'focal_plane_cloth', shutter_speed_slowest: 1 / 2, shutter_speed_fastest: 1 / 1000, has_bulb: true, flash_sync: 1 / 60, metering: 'spot', focus: 'rangefinder', film_advance: 'lever' } },
+      { name: 'IIIf', year_from: 1950, year_to: 1957, camera_type: '35mm_rangefinder', film_format: '35mm', lens_mount: 'Leica M39', specs: { shutter_type: 'focal_plane_cloth', shutter_speed_slowest: 1, shutter_speed_fastest: 1 / 1000, has_bulb: true, flash_sync: 1 / 50, metering: 'none', focus: 'rangefinder', film_advance: 'knob' } },
+      { name: 'M2', year_from: 1957, year_to: 1967, camera_type: '35mm_rangefinder', film_format: '35mm', lens_mount: 'Leica M', specs: { shutter_type: 'focal_plane_cloth', shutter_speed_slowest: 1, shutter_speed_fastest: 1 / 1000, has_bulb: true, flash_sync: 1 / 50, metering: 'none', focus: 'rangefinder', film_advance: 'lever', weight_grams: 560 } },
+      { name: 'M3', year_from: 1954, year_to: 1966, camera_type: '35mm_rangefinder', film_format: '35mm', lens_mount: 'Leica M', specs: { shutter_type: 'focal_plane_cloth', shutter_speed_slowest: 1, shutter_speed_fastest: 1 / 1000, has_bulb: true, flash_sync: 1 / 50, metering: 'none', focus: 'rangefinder', film_advance: 'lever', weight_grams: 580 } },
+      { name: 'M6', year_from: 1984, year_to: 2002, camera_type: '35mm_rangefinder', film_format: '35mm', lens_mount: 'Leica M', specs: { shutter_type: 'focal_plane_cloth', shutter_speed_slowest: 1, shutter_speed_fastest: 1 / 1000, has_bulb: true, flash_sync: 1 / 50, metering: 'center_weighted', focus: 'rangefinder', film_advance: 'lever', battery: 'LR44 x2', weight_grams: 560 } },
+      { name: 'M-A', year_from: 2014, camera_type: '35mm_rangefinder', film_format: '35mm', lens_mount: 'Leica M', specs: { shutter_type: 'focal_plane_cloth', shutter_speed_slowest: 1, shutter_speed_fastest: 1 / 1000, has_bulb: true, flash_sync: 1 / 50, metering: 'none', focus: 'rangefinder', film_advance: 'lever' } },
+      { name: 'R6.2', year_from: 1992, year_to: 2002, camera_type: '35mm_slr', film_format: '35mm', lens_mount: 'Leica R', specs: { shutter_type: 'focal_plane_metal', shutter_speed_slowest: 1, shutter_speed_fastest: 1 / 2000, has_bulb: true, flash_sync: 1 / 100, metering: 'spot', focus: 'manual', film_advance: 'lever' } },
+    ],
+  },
+  {
+    name: 'Mamiya',
+    models: [
+      { name: '645 Pro', year_from: 1992, year_to: 1998, camera_type: 'medium_format', film_format: '120', lens_mount: 'Mamiya 645', specs: { shutter_type: 'focal_plane_metal', shutter_speed_slowest: 8, shutter_speed_fastest: 1 / 1000, has_bulb: true, flash_sync: 1 / 60, focus: 'manual' } },
+      { name: '7II', year_from: 1995, year_to: 2014, camera_type: 'medium_format', film_format: '120', lens_mount: 'Mamiya 7', specs: { shutter_type: 'leaf', shutter_speed_slowest: 4, shutter_speed_fastest: 1 / 500, has_bulb: true, metering: 'spot', focus: 'rangefinder', film_advance: 'lever' } },
+      { name: 'C330', year_from: 1969, year_to: 1994, camera_type: 'twin_lens_reflex', film_format: '120', lens_mount: 'Mamiya TLR', specs: { shutter_type: 'leaf', shutter_speed_slowest: 1, shutter_speed_fastest: 1 / 500, has_bulb: true, metering: 'none', focus: 'manual', film_advance: 'crank' } },
+      { name: 'RB67 Pro S', year_from: 1974, year_to: 1990, camera_type: 'medium_format', film_format: '120', lens_mount: 'Mamiya RB67', specs: { shutter_type: 'leaf', shutter_speed_slowest: 1, shutter_speed_fastest: 1 / 400, has_bulb: true, metering: 'none', focus: 'manual', film_advance: 'lever', weight_grams: 2690 } },
+      { name: 'RZ67 Pro II', year_from: 1995, year_to: 2004, camera_type: 'medium_format', film_format: '120', lens_mount: 'Mamiya RZ67', specs: { shutter_type: 'electronic', shutter_speed_slowest: 8, shutter_speed_fastest: 1 / 400, has_bulb: true, focus: 'manual', film_advance: 'lever' } },
+    ],
+  },
+  {
+    name: 'Minolta',
+    models: [
+      { name: 'CLE', year_from: 1980, year_to: 1985, camera_type: '35mm_rangefinder', film_format: '35mm', lens_mount: 'Leica M', specs: { shutter_type: 'focal_plane_cloth', shutter_speed_slowest: 1, shutter_speed_fastest: 1 / 1000, has_bulb: true, flash_sync: 1 / 60, metering: 'center_weighted', focus: 'rangefinder', film_advance: 'lever' } },
+      { name: 'Hi-Matic 7s', year_from: 1966, year_to: 1971, camera_type: '35mm_rangefinder', film_format: '35mm', lens_mount: 'Fixed lens', specs: { shutter_type: 'leaf', shutter_speed_slowest: 1, shutter_speed_fastest: 1 / 500, has_bulb: true, metering: 'match_needle', focus: 'rangefinder', film_advance: 'lever', lens_focal_length: 45, max_aperture: 1.8 } },
+      { name: 'X-700', year_from: 1981, year_to: 1999, camera_type: '35mm_slr', film_format: '35mm', lens_mount: 'Minolta MD', specs: { shutter_type: 'focal_plane_cloth', shutter_speed_slowest: 4, shutter_speed_fastest: 1 / 1000, has_bulb: true, flash_sync: 1 / 60, metering: 'center_weighted', focus: 'manual', film_advance: 'lever', self_timer: true, battery: 'LR44 x2' } },
+      { name: 'XD-7', year_from: 1977, year_to: 1984, camera_type: '35mm_slr', film_format: '35mm', lens_mount: 'Minolta MD', specs: { shutter_type: 'focal_plane_metal', shutter_speed_slowest: 1, shutter_speed_fastest: 1 / 1000, has_bulb: true, flash_sync: 1 / 100, metering: 'center_weighted', focus: 'manual', film_advance: 'lever', self_timer: true } },
+    ],
+  },
+  {
+    name: 'Nikon',
+    models: [
+      { name: 'F', year_from: 1959, year_to: 1974, camera_type: '35mm_slr', film_format: '35mm', lens_mount: 'Nikon F', specs: { shutter_type: 'focal_plane_metal', shutter_speed_slowest: 1, shutter_speed_fastest: 1 / 1000, has_bulb: true, flash_sync: 1 / 60, metering: 'none', focus: 'manual', film_advance: 'lever' } },
+      { name: 'F2', year_from: 1971, year_to: 1980, camera_type: '35mm_slr', film_format: '35mm', lens_mount: 'Nikon F', specs: { shutter_type: 'focal_plane_metal', shutter_speed_slowest: 1, shutter_speed_fastest: 1 / 2000, has_bulb: true, flash_sync: 1 / 80, metering: 'center_weighted', focus: 'manual', film_advance: 'lever', self_timer: true } },
+      { name: 'F3', year_from: 1980, year_to: 2001, camera_type: '35mm_slr', film_format: '35mm', lens_mount: 'Nikon F', specs: { shutter_type: 'focal_plane_metal', shutter_speed_slowest: 8, shutter_speed_fastest: 1 / 2000, has_bulb: true, flash_sync: 1 / 80, metering: 'center_weighted', focus: 'manual', film_advance: 'lever', self_timer: true, battery: 'SR44 x2' } },
+      { name: 'FE', year_from: 1978, year_to: 1983, camera_type: '35mm_slr', film_format: '35mm', lens_mount: 'Nikon F', specs: { shutter_type: 'focal_plane_metal', shutter_speed_slowest: 8, shutter_speed_fastest: 1 / 1000, has_bulb: true, flash_sync: 1 / 125, metering: 'center_weighted', focus: 'manual', film_advance: 'lever', self_timer: true } },
+      { name: 'FM', year_from: 1977, year_to: 1982, camera_type: '35mm_slr', film_format: '35mm', lens_mount: 'Nikon F', specs: { shutter_type: 'focal_plane_metal', shutter_speed_slowest: 1, shutter_speed_fastest: 1 / 1000, has_bulb: true, flash_sync: 1 / 125, metering: 'center_weighted', focus: 'manual', film_advance: 'lever', self_timer: true } },
+      { name: 'FM2n', year_from: 1984, year_to: 2001, camera_type: '35mm_slr', film_format: '35mm', lens_mount: 'Nikon F', specs: { shutter_type: 'focal_plane_metal', shutter_speed_slowest: 1, shutter_speed_fastest: 1 / 4000, has_bulb: true, flash_sync: 1 / 250, metering: 'center_weighted', focus: 'manual', film_advance: 'lever', self_timer: true, battery: 'SR44 x2', weight_grams: 540 } },
+      { name: 'F100', year_from: 1999, year_to: 2006, camera_type: '35mm_slr', film_format: '35mm', lens_mount: 'Nikon F', specs: { shutter_type: 'focal_plane_metal', shutter_speed_slowest: 30, shutter_speed_fastest: 1 / 8000, has_bulb: true, flash_sync: 1 / 250, metering: 'matrix', focus: 'autofocus', film_advance: 'motorized', self_timer: true, battery: 'AA x4' } },
+      { name: 'S2', year_from: 1954, year_to: 1958, camera_type: '35mm_rangefinder', film_format: '35mm', lens_mount: 'Nikon S', specs: { shutter_type: 'focal_plane_cloth', shutter_speed_slowest: 1, shutter_speed_fastest: 1 / 1000, has_bulb: true, metering: 'none', focus: 'rangefinder', film_advance: 'lever' } },
+    ],
+  },
+  {
+    name: 'Olympus',
+    models: [
+      { name: 'mju-II', year_from: 1997, year_to: 2003, camera_type: 'point_and_shoot', film_format: '35mm', lens_mount: 'Fixed lens', specs: { shutter_type: 'leaf', focus: 'autofocus', film_advance: 'motorized', lens_focal_length: 35, max_aperture: 2.8, battery: 'CR123A' } },
+      { name: 'OM-1', year_from: 1972, year_to: 1979, camera_type: '35mm_slr', film_format: '35mm', lens_mount: 'Olympus OM', specs: { shutter_type: 'focal_plane_cloth', shutter_speed_slowest: 1, shutter_speed_fastest: 1 / 1000, has_bulb: true, flash_sync: 1 / 60, metering: 'match_needle', focus: 'manual', film_advance: 'lever', weight_grams: 510 } },
+      { name: 'OM-2n', year_from: 1979, year_to: 1984, camera_type: '35mm_slr', film_format: '35mm', lens_mount: 'Olympus OM', specs: { shutter_type: 'focal_plane_cloth', shutter_speed_slowest: 60, shutter_speed_fastest: 1 / 1000, has_bulb: true, flash_sync: 1 / 60, metering: 'center_weighted', focus: 'manual', film_advance: 'lever', self_timer: true } },
+      { name: 'Pen F', year_from: 1963, year_to: 1966, camera_type: '35mm_slr', film_format: '35mm', lens_mount: 'Olympus Pen F', specs: { shutter_type: 'focal_plane_metal', shutter_speed_slowest: 1, shutter_speed_fastest: 1 / 500, has_bulb: true, metering: 'none', focus: 'manual', film_advance: 'lever' } },
+      { name: 'XA', year_from: 1979, year_to: 1985, camera_type: '35mm_rangefinder', film_format: '35mm', lens_mount: 'Fixed lens', specs: { shutter_type: 'leaf', focus: 'rangefinder', film_advance: 'knob', lens_focal_length: 35, max_aperture: 2.8 } },
+    ],
+  },
+  {
+    name: 'Pentax',
+    models: [
+      { name: '67', year_from: 1969, year_to: 1989, camera_type: 'medium_format', film_format: '120', lens_mount: 'Pentax 67', specs: { shutter_type: 'focal_plane_cloth', shutter_speed_slowest: 1, shutter_speed_fastest: 1 / 1000, has_bulb: true, flash_sync: 1 / 30, focus: 'manual', film_advance: 'lever', weight_grams: 1660 } },
+      { name: 'K1000', year_from: 1976, year_to: 1997, camera_type: '35mm_slr', film_format: '35mm', lens_mount: 'Pentax K', specs: { shutter_type: 'focal_plane_cloth', shutter_speed_slowest: 1, shutter_speed_fastest: 1 / 1000, has_bulb: true, flash_sync: 1 / 60, metering: 'match_needle', focus: 'manual', film_advance: 'lever', battery: 'LR44', weight_grams: 620 } },
+      { name: 'LX', year_from: 1980, year_to: 2001, camera_type: '35mm_slr', film_format: '35mm', lens_mount: 'Pentax K', specs: { shutter_type: 'focal_plane_metal', shutter_speed_slowest: 125, shutter_speed_fastest: 1 / 2000, has_bulb: true, flash_sync: 1 / 75, metering: 'center_weighted', focus: 'manual', film_advance: 'lever', self_timer: true } },
+      { name: 'ME Super', year_from: 1979, year_to: 1984, camera_type: '35mm_slr', film_format: '35mm', lens_mount: 'Pentax K', specs: { shutter_type: 'focal_plane_metal', shutter_speed_slowest: 4, shutter_speed_fastest: 1 / 2000, has_bulb: true, flash_sync: 1 / 100, metering: 'center_weighted', focus: 'manual', film_advance: 'lever', self_timer: true } },
+      { name: 'Spotmatic', year_from: 1964, year_to: 1973, camera_type: '35mm_slr', film_format: '35mm', lens_mount: 'M42', specs: { shutter_type: 'focal_plane_cloth', shutter_speed_slowest: 1, shutter_speed_fastest: 1 / 1000, has_bulb: true, flash_sync: 1 / 60, metering: 'match_needle', focus: 'manual', film_advance: 'lever' } },
+    ],
+  },
+  {
+    name: 'Polaroid',
+    models: [
+      { name: 'SX-70', year_from: 1972, year_to: 1981, camera_type: 'instant', film_format: 'instant', lens_mount: 'Fixed lens', specs: { shutter_type: 'electronic', focus: 'manual', film_advance: 'motorized', lens_focal_length: 116, max_aperture: 8 } },
+      { name: 'Land Camera 250', year_from: 1967, year_to: 1969, camera_type: 'instant', film_format: 'instant', lens_mount: 'Fixed lens', specs: { shutter_type: 'electronic', focus: 'rangefinder', lens_focal_length: 114, max_aperture: 8.8 } },
+      { name: 'OneStep', year_from: 1977, year_to: 1986, camera_type: 'instant', film_format: 'instant', lens_mount: 'Fixed lens', specs: { shutter_type: 'electronic', focus: 'fixed', film_advance: 'motorized' } },
+    ],
+  },
+  {
+    name: 'Rollei',
+    models: [
+      { name: '35', year_from: 1966, year_to: 1971, camera_type: 'point_and_shoot', film_format: '35mm', lens_mount: 'Fixed lens', specs: { shutter_type: 'leaf', shutter_speed_slowest: 1 / 2, shutter_speed_fastest: 1 / 500, has_bulb: true, metering: 'match_needle', focus: 'zone', film_advance: 'lever', lens_focal_length: 40, max_aperture: 3.5 } },
+      { name: 'Rolleicord Vb', year_from: 1962, year_to: 1977, camera_type: 'twin_lens_reflex', film_format: '120', lens_mount: 'Fixed lens', specs: { shutter_type: 'leaf', shutter_speed_slowest: 1, shutter_speed_fastest: 1 / 500, has_bulb: true, metering: 'none', focus: 'manual', film_advance: 'knob', lens_focal_length: 75, max_aperture: 3.5 } },
+      { name: 'Rolleiflex 2.8F', year_from: 1960, year_to: 1981, camera_type: 'twin_lens_reflex', film_format: '120', lens_mount: 'Fixed lens', specs: { shutter_type: 'leaf', shutter_speed_slowest: 1, shutter_speed_fastest: 1 / 500, has_bulb: true, metering: 'selenium', focus: 'manual', film_advance: 'crank', lens_focal_length: 80, max_aperture: 2.8 } },
+      { name: 'Rolleiflex 3.5F', year_from: 1958, year_to: 1976, camera_type: 'twin_lens_reflex', film_format: '120', lens_mount: 'Fixed lens', specs: { shutter_type: 'leaf', shutter_speed_slowest: 1, shutter_speed_fastest: 1 / 500, has_bulb: true, metering: 'selenium', focus: 'manual', film_advance: 'crank', lens_focal_length: 75, max_aperture: 3.5 } },
+    ],
+  },
+  {
+    name: 'Voigtländer',
+    models: [
+      { name: 'Bessa R2A', year_from: 2004, year_to: 2015, camera_type: '35mm_rangefinder', film_format: '35mm', lens_mount: 'Leica M', specs: { shutter_type: 'focal_plane_metal', shutter_speed_slowest: 1, shutter_speed_fastest: 1 / 2000, has_bulb: true, flash_sync: 1 / 125, metering: 'center_weighted', focus: 'rangefinder', film_advance: 'lever' } },
+      { name: 'Bessa-L', year_from: 1999, year_to: 2004, camera_type: '35mm_rangefinder', film_format: '35mm', lens_mount: 'Leica M39', specs: { shutter_type: 'focal_plane_metal', shutter_speed_slowest: 1, shutter_speed_fastest: 1 / 2000, has_bulb: true, metering: 'center_weighted', focus: 'zone', film_advance: 'lever' } },
+    ],
+  },
+  {
+    name: 'Yashica',
+    models: [
+      { name: 'Electro 35 GSN', year_from: 1973, year_to: 1977, camera_type: '35mm_rangefinder', film_format: '35mm', lens_mount: 'Fixed lens', specs: { shutter_type: 'leaf', shutter_speed_slowest: 30, shutter_speed_fastest: 1 / 500, metering: 'center_weighted', focus: 'rangefinder', film_advance: 'lever', lens_focal_length: 45, max_aperture: 1.7 } },
+      { name: 'Mat-124G', year_from: 1970, year_to: 1986, camera_type: 'twin_lens_reflex', film_format: '120', lens_mount: 'Fixed lens', specs: { shutter_type: 'leaf', shutter_speed_slowest: 1, shutter_speed_fastest: 1 / 500, has_bulb: true, metering: 'match_needle', focus: 'manual', film_advance: 'crank', lens_focal_length: 80, max_aperture: 3.5 } },
+      { name: 'T4', year_from: 1990, year_to: 2004, camera_type: 'point_and_shoot', film_format: '35mm', lens_mount: 'Fixed lens', specs: { shutter_type: 'leaf', focus: 'autofocus', film_advance: 'motorized', lens_focal_length: 35, max_aperture: 3.5, battery: 'CR123A' } },
+    ],
+  },
+  {
+    name: 'Zeiss Ikon',
+    models: [
+      { name: 'Contax IIa', year_from: 1950, year_to: 1961, camera_type: '35mm_rangefinder', film_format: '35mm', lens_mount: 'Contax RF', specs: { shutter_type: 'focal_plane_metal', shutter_speed_slowest: 1, shutter_speed_fastest: 1 / 1250, has_bulb: true, metering: 'none', focus: 'rangefinder', film_advance: 'knob' } },
+      { name: 'Ikonta 521/16', year_from: 1948, year_to: 1956, camera_type: 'medium_format', film_format: '120', lens_mount: 'Fixed lens', specs: { shutter_type: 'leaf', shutter_speed_slowest: 1, shutter_speed_fastest: 1 / 250, has_bulb: true, metering: 'none', focus: 'zone', film_advance: 'knob', lens_focal_length: 75, max_aperture: 3.5 } },
+      { name: 'Zeiss Ikon ZM', year_from: 2004, year_to: 2012, camera_type: '35mm_rangefinder', film_format: '35mm', lens_mount: 'Leica M', specs: { shutter_type: 'focal_plane_metal', shutter_speed_slowest: 1, shutter_speed_fastest: 1 / 2000, has_bulb: true, flash_sync: 1 / 125, metering: 'center_weighted', focus: 'rangefinder', film_advance: 'lever' } },
+    ],
+  },
+];
@@ -0,0 +1,129 @@
+import { type ApiClient, apiClient } from '@/services/api/base';
+import { CAMERA_CATALOG } from './catalog.data';
+import { API_ENDPOINTS } from '@/constants';
+import type { CatalogBrand, CatalogModel, CatalogSuggestion } from '@/types';
+
+/**
+ * Request surface the catalog service needs for submitting suggestions
+ */
+export type CatalogTransport = Pick<ApiClient, 'authenticatedRequest'>;
+
+const normalizeName = (name: string): string =>
+  name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '');
+
+/**
+ * Rank a candidate against a query: exact, prefix, word prefix, then substring
+ */
+const matchRank = (candidate: string, query: string): number => {
+  const name = candidate.toLowerCase();
+  const wanted = query.trim().toLowerCase();
+  if (name === wanted) {return 0;}
+  if (name.startsWith(wanted)) {return 1;}
+  if (name.split(/[\s\-/]+/).some(word => word.startsWith(wanted))) {return 2;}
+  if (normalizeName(name).includes(normalizeName(wanted))) {return 3;}
+  return -1;
+};
+
+const search = <T>(items: readonly T[], query: string, getName: (item: T) => string, limit: number): T[] => {
+  if (!query.trim()) {return items.slice(0, limit);}
+  return items
+    .map(item => ({ item, rank: matchRank(getName(item), query) }))
+    .filter(entry => entry.rank >= 0)
+    .sort((a, b) => a.rank - b.rank || getName(a.item).localeCompare(getName(b.item)))
+    .slice(0, limit)
+    .map(entry => entry.item);
+};
+
+/**
+ * Production span for display, e.g. "1954–1966" or "2014–present"
+ */
+export const formatProductionYears = (model: CatalogModel): string =>
+  model.year_to === model.year_from
+    ? String(model.year_from)
+    : `${model.year_from}–${model.year_to ?? 'present'}`;
+
+/**
+ * Whether a free-text year falls outside a model's production span
+ */
+export const isOutsideProduction = (model: CatalogModel, year: string): boolean => {
+  const value = parseInt(year, 10);
+  if (Number.isNaN(value)) {return false;}
+  return value < model.year_from || (model.year_to !== undefined && value > model.year_to);
+};
+
+/**
+ * Reference catalog of camera brands and models
+ *
+ * Lookups run against the bundled catalog so autocomplete works offline;
+ * only suggested additions go to the API for review.
+ */
+export class CatalogService {
+  private client: CatalogTransport;
+  private brands: readonly CatalogBrand[];
+
+  constructor(client: CatalogTransport = apiClient, brands: readonly CatalogBrand[] = CAMERA_CATALOG) {
+    this.client = client;
+    this.brands = brands;
+  }
+
+  /**
+   * Get every brand name in alphabetical order
+   */
+  getBrandNames(): string[] {
+    return this.brands.map(brand => brand.name);
+  }
+
+  /**
+   * Find a brand by name, ignoring case and punctuation
+   */
+  findBrand(name: string): CatalogBrand | undefined {
+    const wanted = normalizeName(name);
+    return wanted ? this.brands.find(brand => normalizeName(brand.name) === wanted) : undefined;
+  }
+
+  /**
+   * Brands matching a partial name, best matches first
+   */
+  searchBrands(query: string, limit = 8): CatalogBrand[] {
+    return search(this.brands, query, brand => brand.name, limit);
+  }
+
+  /**
+   * Models for a brand; empty when the brand is not in the catalog
+   */
+  getModels(brandName: string): CatalogModel[] {
+    return [...(this.findBrand(brandName)?.models ?? [])];
+  }
+
+  /**
+   * A brand's models matching a partial name, best matches first
+   */
+  searchModels(brandName: string, query: string, limit = 8): CatalogModel[] {
+    return search(this.getModels(brandName), query, model => model.name, limit);
+  }
+
+  /**
+   * Find a model by brand and name, ignoring case and punctuation
+   */
+  findModel(brandName: string, modelName: string): CatalogModel | undefined {
+    const wanted = normalizeName(modelName);
+    return wanted
+      ? this.getModels(brandName).find(model => normalizeName(model.name) === wanted)
+      : undefined;
+  }
+
+  /**
+   * Suggest a brand or model missing from the catalog
+   */
+  async suggestAddition(data: CatalogSuggestion): Promise<void> {
+    await this.client.authenticatedRequest(
+      API_ENDPOINTS.CATALOG_SUGGESTIONS,
+      {
+        method: 'POST',
+        body: JSON.stringify(data),
+      }
+    );
+  }
+}
+
+export const catalogService = new CatalogService();
@@ -0,0 +1,3 @@
+// Camera reference catalog
+export * from './catalog.data';
+export * from './catalog.service';
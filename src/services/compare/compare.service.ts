@@ -0,0 +1,117 @@
+import { CAMERA_CONFIG } from '@/constants';
+import type { Camera } from '@/types';
+
+const STORAGE_KEY = 'retrolens-compare';
+
+/**
+ * Cameras picked for side-by-side comparison
+ */
+export interface CompareState {
+  cameras: Camera[];
+}
+
+const EMPTY_STATE: CompareState = { cameras: [] };
+
+/**
+ * Compare tray store persisted in sessionStorage
+ *
+ * Holds snapshots of up to CAMERA_CONFIG.MAX_COMPARE cameras so the tray can
+ * render without refetching; the comparison view loads fresh copies by id.
+ */
+export class CompareService {
+  private state: CompareState = EMPTY_STATE;
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    if (typeof window !== 'undefined') {
+      this.load();
+    }
+  }
+
+  /**
+   * Subscribe to tray changes (useSyncExternalStore compatible)
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Get the current immutable state
+   */
+  getSnapshot = (): CompareState => this.state;
+
+  /**
+   * Whether a camera is in the tray
+   */
+  has(cameraId: string): boolean {
+    return this.state.cameras.some(camera => camera.id === cameraId);
+  }
+
+  /**
+   * Whether the tray has reached its limit
+   */
+  isFull(): boolean {
+    return this.state.cameras.length >= CAMERA_CONFIG.MAX_COMPARE;
+  }
+
+  /**
+   * Add a camera to the tray; returns false when the tray is already full
+   */
+  add(camera: Camera): boolean {
+    if (this.has(camera.id)) {return true;}
+    if (this.isFull()) {return false;}
+    this.setState({ cameras: [...this.state.cameras, camera] });
+    return true;
+  }
+
+  /**
+   * Remove a camera from the tray
+   */
+  remove(cameraId: string): void {
+    this.setState({ cameras: this.state.cameras.filter(camera => camera.id !== cameraId) });
+  }
+
+  /**
+   * Add the camera if absent, otherwise remove it; returns false when it could not be added
+   */
+  toggle(camera: Camera): boolean {
+    if (this.has(camera.id)) {
+      this.remove(camera.id);
+      return true;
+    }
+    return this.add(camera);
+  }
+
+  /**
+   * Empty the tray
+   */
+  clear(): void {
+    this.setState(EMPTY_STATE);
+  }
+
+  private load(): void {
+    try {
+      const stored = JSON.parse(window.sessionStorage.getItem(STORAGE_KEY) || '{}');
+      if (Array.isArray(stored.cameras)) {
+        this.state = { cameras: stored.cameras.slice(0, CAMERA_CONFIG.MAX_COMPARE) };
+      }
+    } catch (error) {
+      console.warn('Error reading compare tray:', error);
+    }
+  }
+
+  private setState(state: CompareState): void {
+    this.state = state;
+    try {
+      window.sessionStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    } catch (error) {
+      console.warn('Error saving compare tray:', error);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const compareService = new CompareService();
@@ -0,0 +1,2 @@
+// Comparison tray store
+export * from './compare.service';
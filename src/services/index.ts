@@ -4,5 +4,26 @@ export * from './api';
 // Authentication Services  
 export * from './auth';
 
+// Upload Services
+export * from './upload';
+
+// Wishlist Services
+export * from './wishlist';
+
+// Compare Services
+export * from './compare';
+
+// Catalog Services
+export * from './catalog';
+
+// Cache Services
+export * from './cache';
+
+// Outbox Services
+export * from './outbox';
+
+// PWA Services
+export * from './pwa';
+
 // Backward compatibility - re-export the old userSync function
 export { clerkAuthService as userSyncService } from './auth';
@@ -0,0 +1,2 @@
+// Offline mutation outbox
+export * from './outbox.service';
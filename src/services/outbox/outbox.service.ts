@@ -0,0 +1,519 @@
+import { type QueryKey, onlineManager } from '@tanstack/react-query';
+import { type CreateCommentRequest, commentService } from '@/services/api/comments.service';
+import { discussionService } from '@/services/api/discussions.service';
+import { type LikeRequest, likeService } from '@/services/api/likes.service';
+import { uploadService } from '@/services/api/upload.service';
+import { userService } from '@/services/api/users.service';
+import { queryClient, queryKeys } from '@/lib/react-query';
+import { OUTBOX_CONFIG } from '@/constants';
+import { type AppApiError, defaultRetryCondition, handleApiError } from '@/utils';
+import { openObjectStoreDatabase, requestToPromise, transactionDone } from '@/utils/indexedDb.utils';
+import type { CreateDiscussionData } from '@/types';
+
+const STORE_NAME = 'mutations';
+
+/**
+ * A write that can wait in the outbox until the app is back online
+ */
+export type OutboxMutation =
+  | { type: 'createComment'; data: CreateCommentRequest }
+  | { type: 'createLike'; data: LikeRequest }
+  | { type: 'removeLike'; data: LikeRequest }
+  /** Replayed until the discussion ends up in the `liked` state */
+  | { type: 'toggleDiscussionLike'; discussionId: string; liked: boolean }
+  | { type: 'followUser'; targetUserId: string; currentUserId: string }
+  | { type: 'unfollowUser'; targetUserId: string; currentUserId: string }
+  /** `image` is uploaded first and added to the post's content */
+  | { type: 'createDiscussion'; userId: string; data: CreateDiscussionData; image?: Blob };
+
+/**
+ * Outbox entry lifecycle states
+ */
+export type OutboxStatus = 'pending' | 'sending' | 'failed';
+
+/**
+ * A queued mutation
+ */
+export interface OutboxEntry {
+  id: string;
+  /** Signed-in user the mutation was made by */
+  userId: string;
+  mutation: OutboxMutation;
+  /** Item the mutation affects, see outboxTargets */
+  target: string;
+  status: OutboxStatus;
+  attempts: number;
+  createdAt: string;
+  error?: string;
+  /** Rejected because the session expired; sent again once the user signs back in */
+  needsSignIn?: boolean;
+}
+
+/**
+ * Outbox state for the signed-in user
+ */
+export interface OutboxState {
+  userId: string | null;
+  entries: OutboxEntry[];
+}
+
+/**
+ * Outcome of running a mutation through the outbox
+ */
+export type OutboxResult<T> = { queued: false; result: T } | { queued: true };
+
+const EMPTY_STATE: OutboxState = { userId: null, entries: [] };
+
+let outboxIdCounter = 0;
+
+/**
+ * Keys for the items outbox mutations affect, used to show their status next to those items
+ */
+export const outboxTargets = {
+  like: (data: LikeRequest) => {
+    if (data.comment_id) {return `like:comment:${data.comment_id}`;}
+    if (data.camera_id) {return `like:camera:${data.camera_id}`;}
+    return `like:discussion:${data.discussion_id}`;
+  },
+  comments: (discussionId?: string, cameraId?: string) =>
+    cameraId ? `comments:camera:${cameraId}` : `comments:discussion:${discussionId}`,
+  follow: (userId: string) => `follow:${userId}`,
+  posts: (userId: string) => `posts:${userId}`,
+};
+
+/**
+ * Key of the item a mutation affects
+ */
+export const getOutboxTarget = (mutation: OutboxMutation): string => {
+  switch (mutation.type) {
+    case 'createComment':
+      return outboxTargets.comments(mutation.data.discussion_id, mutation.data.camera_id);
+    case 'createLike':
+    case 'removeLike':
+      return outboxTargets.like(mutation.data);
+    case 'toggleDiscussionLike':
+      return outboxTargets.like({ discussion_id: mutation.discussionId });
+    case 'followUser':
+    case 'unfollowUser':
+      return outboxTargets.follow(mutation.targetUserId);
+    case 'createDiscussion':
+      return outboxTargets.posts(mutation.userId);
+  }
+};
+
+/**
+ * State a like or follow mutation leaves its target in; undefined for mutations that add content
+ */
+export const getDesiredState = (mutation: OutboxMutation): boolean | undefined => {
+  switch (mutation.type) {
+    case 'createLike':
+    case 'followUser':
+      return true;
+    case 'removeLike':
+    case 'unfollowUser':
+      return false;
+    case 'toggleDiscussionLike':
+      return mutation.liked;
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Errors worth retrying later rather than reporting as failed
+ */
+const isTransientError = (error: AppApiError): boolean =>
+  defaultRetryCondition(error) || error.status === 408 || error.status === 429;
+
+/**
+ * Server answers meaning the change is already in place
+ */
+const isAlreadyApplied = (mutation: OutboxMutation, error: AppApiError): boolean => {
+  switch (mutation.type) {
+    case 'createLike':
+    case 'followUser':
+      return error.status === 409;
+    case 'removeLike':
+    case 'unfollowUser':
+      return error.status === 404;
+    default:
+      return false;
+  }
+};
+
+/**
+ * Queries to refetch once a mutation has been sent
+ */
+const getAffectedQueries = (mutation: OutboxMutation): QueryKey[] => {
+  switch (mutation.type) {
+    case 'createComment':
+    case 'toggleDiscussionLike':
+      return [queryKeys.discussions.all, ['feed']];
+    case 'createLike':
+    case 'removeLike':
+      return mutation.data.camera_id
+        ? [queryKeys.cameras.byId(mutation.data.camera_id)]
+        : [queryKeys.discussions.all, ['feed']];
+    case 'followUser':
+    case 'unfollowUser':
+      return [
+        queryKeys.users.following(mutation.currentUserId),
+        queryKeys.users.followers(mutation.targetUserId),
+        ['following'],
+      ];
+    case 'createDiscussion':
+      return [queryKeys.discussions.all, ['feed']];
+  }
+};
+
+const retryDelay = (attempts: number): number =>
+  Math.min(OUTBOX_CONFIG.RETRY_BASE_DELAY * 2 ** Math.max(0, attempts - 1), OUTBOX_CONFIG.RETRY_MAX_DELAY);
+
+/**
+ * Offline mutation outbox persisted per user in IndexedDB
+ *
+ * Mutations made while offline, or while earlier ones are still waiting,
+ * are queued and replayed one at a time in the order they were made once
+ * the connection returns. Likes and follows that the server already
+ * reflects count as sent, and queuing the opposite of a waiting like or
+ * follow cancels both. Mutations the server rejects are kept as failed
+ * until retried or discarded. An expired session (a 401 the API client could
+ * not refresh its way out of) stops the replay until the user signs back
+ * in. Exposes subscribe/getSnapshot for
+ * useSyncExternalStore.
+ */
+export class OutboxService {
+  private state: OutboxState = EMPTY_STATE;
+  private listeners = new Set<() => void>();
+  private sentListeners = new Set<(entry: OutboxEntry, result: unknown) => void>();
+  private dbName: string;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private replaying = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(dbName: string = OUTBOX_CONFIG.DB_NAME) {
+    this.dbName = dbName;
+    onlineManager.subscribe(isOnline => {
+      if (isOnline) {
+        void this.replay();
+      }
+    });
+  }
+
+  /**
+   * Switch to the given user's outbox (null when signed out)
+   */
+  async setUser(userId: string | null): Promise<void> {
+    if (userId === this.state.userId) {return;}
+    this.clearRetryTimer();
+    this.setState({ userId, entries: [] });
+    if (!userId) {return;}
+
+    try {
+      const db = await this.open();
+      const records = await requestToPromise(
+        db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAll() as IDBRequest<OutboxEntry[]>
+      );
+      if (this.state.userId !== userId) {return;}
+
+      // An entry left sending was interrupted and one rejected for an expired
+      // session can go now the user is signed in; either way, send it again
+      const entries = records
+        .filter(entry => entry.userId === userId)
+        .map(entry => (entry.status === 'sending' || entry.needsSignIn
+          ? { ...entry, status: 'pending' as const, needsSignIn: undefined, error: undefined }
+          : entry))
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+      this.setState({ userId, entries: [...entries, ...this.state.entries] });
+    } catch (error) {
+      console.warn('Could not load the outbox:', error);
+    }
+    void this.replay();
+  }
+
+  /**
+   * Subscribe to outbox changes (useSyncExternalStore compatible)
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Get the current immutable state
+   */
+  getSnapshot = (): OutboxState => this.state;
+
+  /**
+   * Listen for queued mutations reaching the server, with the server's response
+   */
+  onSent(listener: (entry: OutboxEntry, result: unknown) => void): () => void {
+    this.sentListeners.add(listener);
+    return () => {
+      this.sentListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Send a mutation now, or queue it when offline, behind waiting mutations,
+   * or when the request fails for lack of a connection
+   */
+  async run<T = unknown>(mutation: OutboxMutation): Promise<OutboxResult<T>> {
+    if (this.shouldQueue()) {
+      this.enqueue(mutation);
+      return { queued: true };
+    }
+
+    try {
+      return { queued: false, result: (await this.send(mutation)) as T };
+    } catch (error) {
+      const apiError = handleApiError(error);
+      if (apiError.status !== 0 || !this.state.userId) {throw apiError;}
+      this.enqueue(mutation);
+      return { queued: true };
+    }
+  }
+
+  /**
+   * Whether a new mutation has to wait: the app is offline or earlier mutations are still waiting
+   */
+  shouldQueue(): boolean {
+    return !onlineManager.isOnline() || this.state.entries.some(entry => entry.status !== 'failed');
+  }
+
+  /**
+   * Whether the replay is held until the user signs back in
+   */
+  needsSignIn(): boolean {
+    return this.state.entries.some(entry => entry.needsSignIn);
+  }
+
+  /**
+   * Queue a mutation; returns null when it cancelled out a waiting one
+   */
+  enqueue(mutation: OutboxMutation): OutboxEntry | null {
+    const { userId } = this.state;
+    if (!userId) {
+      throw new Error('Sign in to save changes while offline');
+    }
+
+    const target = getOutboxTarget(mutation);
+    const desired = getDesiredState(mutation);
+    if (desired !== undefined) {
+      const opposite = this.state.entries.find(entry =>
+        entry.target === target && entry.status === 'pending' && getDesiredState(entry.mutation) === !desired
+      );
+      if (opposite) {
+        this.removeEntry(opposite.id);
+        return null;
+      }
+    }
+
+    const entry: OutboxEntry = {
+      id: `outbox-${Date.now()}-${outboxIdCounter++}`,
+      userId,
+      mutation,
+      target,
+      status: 'pending',
+      attempts: 0,
+      createdAt: new Date().toISOString(),
+    };
+    this.setState({ ...this.state, entries: [...this.state.entries, entry] });
+    void this.save(entry);
+    void this.replay();
+    return entry;
+  }
+
+  /**
+   * Re-queue a failed mutation
+   */
+  retry(id: string): void {
+    this.updateEntry(id, entry =>
+      entry.status === 'failed'
+        ? { ...entry, status: 'pending', attempts: 0, error: undefined, needsSignIn: undefined }
+        : entry
+    );
+    this.clearRetryTimer();
+    void this.replay();
+  }
+
+  /**
+   * Drop a waiting or failed mutation without sending it
+   */
+  discard(id: string): void {
+    const entry = this.state.entries.find(e => e.id === id);
+    if (!entry || entry.status === 'sending') {return;}
+    this.removeEntry(id);
+  }
+
+  /**
+   * Send waiting mutations in order; stops at the first one that cannot be sent yet
+   */
+  async replay(): Promise<void> {
+    if (this.replaying || !onlineManager.isOnline() || this.needsSignIn()) {return;}
+    this.replaying = true;
+    this.clearRetryTimer();
+
+    try {
+      let entry = this.nextPending();
+      while (entry && onlineManager.isOnline()) {
+        const { id, userId } = entry;
+        this.updateEntry(id, e => ({ ...e, status: 'sending', attempts: e.attempts + 1 }));
+
+        try {
+          const result = await this.send(entry.mutation, id);
+          const sent = this.state.entries.find(e => e.id === id) ?? entry;
+          this.removeEntry(id);
+          getAffectedQueries(sent.mutation).forEach(queryKey => queryClient.invalidateQueries({ queryKey }));
+          this.sentListeners.forEach(listener => listener(sent, result));
+        } catch (error) {
+          const apiError = handleApiError(error);
+          // Later entries would be refused too, so they wait for the user to sign back in
+          if (apiError.status === 401) {
+            this.updateEntry(id, e => ({
+              ...e,
+              status: 'failed',
+              needsSignIn: true,
+              error: 'Your session expired. Sign in again to send this.',
+            }));
+            break;
+          }
+          if (isTransientError(apiError)) {
+            this.updateEntry(id, e => ({ ...e, status: 'pending', error: apiError.message }));
+            const attempts = this.state.entries.find(e => e.id === id)?.attempts ?? 1;
+            this.retryTimer = setTimeout(() => {
+              this.retryTimer = null;
+              void this.replay();
+            }, retryDelay(attempts));
+            break;
+          }
+          this.updateEntry(id, e => ({ ...e, status: 'failed', error: apiError.message }));
+        }
+
+        // A different user signed in while this entry was sending
+        if (this.state.userId !== userId) {break;}
+        entry = this.nextPending();
+      }
+    } finally {
+      this.replaying = false;
+    }
+  }
+
+  /**
+   * Perform one mutation against the API, treating changes already in place as sent
+   */
+  private async send(mutation: OutboxMutation, entryId?: string): Promise<unknown> {
+    try {
+      switch (mutation.type) {
+        case 'createComment':
+          return await commentService.createComment(mutation.data);
+        case 'createLike':
+          return await likeService.createLike(mutation.data);
+        case 'removeLike':
+          return await likeService.removeLike(mutation.data);
+        case 'toggleDiscussionLike': {
+          // The endpoint flips the current state, which may have changed elsewhere in the meantime
+          let result = await discussionService.toggleDiscussionLike(mutation.discussionId);
+          if (result.liked !== mutation.liked) {
+            result = await discussionService.toggleDiscussionLike(mutation.discussionId);
+          }
+          return result;
+        }
+        case 'followUser':
+          return await userService.followUser(mutation.targetUserId, mutation.currentUserId);
+        case 'unfollowUser':
+          return await userService.unfollowUser(mutation.targetUserId, mutation.currentUserId);
+        case 'createDiscussion':
+          return await this.sendDiscussion(mutation, entryId);
+      }
+    } catch (error) {
+      const apiError = handleApiError(error);
+      if (isAlreadyApplied(mutation, apiError)) {return undefined;}
+      throw apiError;
+    }
+  }
+
+  private async sendDiscussion(
+    mutation: Extract<OutboxMutation, { type: 'createDiscussion' }>,
+    entryId?: string
+  ): Promise<unknown> {
+    let { data } = mutation;
+    if (mutation.image) {
+      const uploaded = await uploadService.uploadCameraImage(mutation.image, mutation.userId);
+      data = { ...data, content: `![Camera Photo](${uploaded.url})` };
+
+      // Keep the uploaded photo so a retry does not upload it again
+      if (entryId) {
+        this.updateEntry(entryId, entry => ({ ...entry, mutation: { ...mutation, data, image: undefined } }));
+      }
+    }
+    return discussionService.createDiscussion(data, mutation.userId);
+  }
+
+  private nextPending(): OutboxEntry | undefined {
+    return this.state.entries.find(entry => entry.status === 'pending');
+  }
+
+  private clearRetryTimer(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private setState(state: OutboxState): void {
+    this.state = state;
+    this.listeners.forEach(listener => listener());
+  }
+
+  private updateEntry(id: string, update: (entry: OutboxEntry) => OutboxEntry): void {
+    const current = this.state.entries.find(entry => entry.id === id);
+    if (!current) {return;}
+    const next = update(current);
+    if (next === current) {return;}
+
+    this.setState({ ...this.state, entries: this.state.entries.map(entry => (entry.id === id ? next : entry)) });
+    void this.save(next);
+  }
+
+  private removeEntry(id: string): void {
+    this.setState({ ...this.state, entries: this.state.entries.filter(entry => entry.id !== id) });
+    void this.delete(id);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openObjectStoreDatabase(this.dbName, STORE_NAME, 'id').catch(error => {
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async save(entry: OutboxEntry): Promise<void> {
+    try {
+      const db = await this.open();
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      transaction.objectStore(STORE_NAME).put(entry);
+      await transactionDone(transaction);
+    } catch (error) {
+      console.warn('Could not save the outbox:', error);
+    }
+  }
+
+  private async delete(id: string): Promise<void> {
+    try {
+      const db = await this.open();
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      transaction.objectStore(STORE_NAME).delete(id);
+      await transactionDone(transaction);
+    } catch (error) {
+      console.warn('Could not save the outbox:', error);
+    }
+  }
+}
+
+export const outboxService = new OutboxService();
@@ -0,0 +1,2 @@
+// Service worker registration and updates
+export * from './serviceWorker.service';
@@ -0,0 +1,104 @@
+import { PWA_CONFIG } from '@/constants';
+
+/**
+ * Service worker state shown to the user
+ */
+export interface ServiceWorkerState {
+  /** A new version is installed and waiting for the user to reload into it */
+  updateAvailable: boolean;
+}
+
+/**
+ * Registration of the build's service worker and its update flow
+ *
+ * A new version installs in the background and waits; once the user accepts
+ * the update it takes over and the page reloads into it. Exposes
+ * subscribe/getSnapshot for useSyncExternalStore.
+ */
+export class ServiceWorkerService {
+  private state: ServiceWorkerState = { updateAvailable: false };
+  private listeners = new Set<() => void>();
+  private registration: ServiceWorkerRegistration | null = null;
+  private reloading = false;
+
+  /**
+   * Register the service worker and start watching for new versions
+   */
+  async register(scriptUrl: string = PWA_CONFIG.SERVICE_WORKER_PATH): Promise<void> {
+    if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) {return;}
+
+    try {
+      const registration = await navigator.serviceWorker.register(scriptUrl);
+      this.registration = registration;
+
+      // Installed by an earlier visit and still waiting
+      if (registration.waiting && navigator.serviceWorker.controller) {
+        this.setState({ updateAvailable: true });
+      }
+
+      registration.addEventListener('updatefound', () => {
+        const installing = registration.installing;
+        installing?.addEventListener('statechange', () => {
+          // Without a controller this is the first install, not an update
+          if (installing.state === 'installed' && navigator.serviceWorker.controller) {
+            this.setState({ updateAvailable: true });
+          }
+        });
+      });
+
+      navigator.serviceWorker.addEventListener('controllerchange', () => {
+        if (this.reloading) {
+          window.location.reload();
+        }
+      });
+
+      setInterval(() => {
+        registration.update().catch(() => undefined);
+      }, PWA_CONFIG.UPDATE_CHECK_INTERVAL);
+    } catch (error) {
+      console.warn('Service worker registration failed:', error);
+    }
+  }
+
+  /**
+   * Subscribe to state changes (useSyncExternalStore compatible)
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Get the current immutable state
+   */
+  getSnapshot = (): ServiceWorkerState => this.state;
+
+  /**
+   * Activate the waiting version and reload into it
+   */
+  applyUpdate(): void {
+    const waiting = this.registration?.waiting;
+    if (!waiting) {
+      window.location.reload();
+      return;
+    }
+    this.reloading = true;
+    waiting.postMessage({ type: 'SKIP_WAITING' });
+  }
+
+  /**
+   * Hide the update prompt; the new version loads on the next visit
+   */
+  dismissUpdate(): void {
+    this.setState({ updateAvailable: false });
+  }
+
+  private setState(state: ServiceWorkerState): void {
+    this.state = state;
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const serviceWorkerService = new ServiceWorkerService();
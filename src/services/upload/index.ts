@@ -0,0 +1,2 @@
+// Upload queue
+export * from './queue.service';
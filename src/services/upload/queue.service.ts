@@ -0,0 +1,296 @@
+import { type UploadedFile, uploadService } from '@/services/api/upload.service';
+import { UI_CONFIG } from '@/constants';
+import { defaultRetryCondition, withRetry } from '@/utils';
+import type { CameraImage, CreateCameraImageData } from '@/types';
+
+/**
+ * Upload lifecycle states
+ */
+export type UploadStatus = 'queued' | 'uploading' | 'success' | 'error' | 'cancelled';
+
+/**
+ * A single file tracked by the upload queue
+ */
+export interface UploadItem {
+  id: string;
+  file?: File;
+  imageId?: string;
+  previewUrl: string;
+  status: UploadStatus;
+  progress: number;
+  attempts: number;
+  isPrimary: boolean;
+  error?: string;
+  result?: UploadedFile;
+}
+
+/**
+ * Image in its queue position; `id` is set for images already stored on a camera
+ */
+export interface OrderedCameraImage extends CreateCameraImageData {
+  id?: string;
+}
+
+/**
+ * Upload queue configuration
+ */
+export interface UploadQueueOptions {
+  endpoint: string;
+  params?: Record<string, string>;
+  concurrency?: number;
+  maxAttempts?: number;
+}
+
+let uploadIdCounter = 0;
+
+/**
+ * Queue that uploads files with limited concurrency, automatic retries,
+ * cancellation and ordering/primary-image bookkeeping
+ */
+export class UploadQueue {
+  private items: UploadItem[] = [];
+  private controllers = new Map<string, AbortController>();
+  private listeners = new Set<() => void>();
+  private options: UploadQueueOptions;
+
+  constructor(options: UploadQueueOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Update endpoint or params without losing queued items
+   */
+  configure(options: Partial<UploadQueueOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * Subscribe to queue changes (useSyncExternalStore compatible)
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Get the current immutable list of items
+   */
+  getSnapshot = (): UploadItem[] => this.items;
+
+  /**
+   * Add files to the end of the queue and start uploading
+   */
+  add(files: File[]): UploadItem[] {
+    const added = files.map<UploadItem>(file => ({
+      id: `upload-${Date.now()}-${uploadIdCounter++}`,
+      file,
+      previewUrl: URL.createObjectURL(file),
+      status: 'queued',
+      progress: 0,
+      attempts: 0,
+      isPrimary: false,
+    }));
+
+    const next = [...this.items, ...added];
+    if (!next.some(item => item.isPrimary) && next.length > 0) {
+      next[0] = { ...next[0]!, isPrimary: true };
+    }
+    this.setItems(next);
+    this.pump();
+    return added;
+  }
+
+  /**
+   * Abort an in-flight or queued upload
+   */
+  cancel(id: string): void {
+    this.controllers.get(id)?.abort();
+    this.controllers.delete(id);
+    this.updateItem(id, item =>
+      item.status === 'queued' || item.status === 'uploading'
+        ? { ...item, status: 'cancelled', progress: 0 }
+        : item
+    );
+    this.pump();
+  }
+
+  /**
+   * Re-queue a failed or cancelled upload
+   */
+  retry(id: string): void {
+    this.updateItem(id, item =>
+      item.status === 'error' || item.status === 'cancelled'
+        ? { ...item, status: 'queued', progress: 0, attempts: 0, error: undefined }
+        : item
+    );
+    this.pump();
+  }
+
+  /**
+   * Remove an item, aborting it if needed
+   */
+  remove(id: string): void {
+    const item = this.items.find(i => i.id === id);
+    if (!item) {return;}
+
+    this.controllers.get(id)?.abort();
+    this.controllers.delete(id);
+    if (item.file) {
+      URL.revokeObjectURL(item.previewUrl);
+    }
+
+    const next = this.items.filter(i => i.id !== id);
+    if (item.isPrimary && next.length > 0) {
+      next[0] = { ...next[0]!, isPrimary: true };
+    }
+    this.setItems(next);
+    this.pump();
+  }
+
+  /**
+   * Move an item from one position to another
+   */
+  reorder(fromIndex: number, toIndex: number): void {
+    if (fromIndex === toIndex || !this.items[fromIndex] || toIndex < 0 || toIndex >= this.items.length) {
+      return;
+    }
+    const next = [...this.items];
+    const [moved] = next.splice(fromIndex, 1);
+    next.splice(toIndex, 0, moved!);
+    this.setItems(next);
+  }
+
+  /**
+   * Mark a single item as the primary image
+   */
+  setPrimary(id: string): void {
+    this.setItems(this.items.map(item => ({ ...item, isPrimary: item.id === id })));
+  }
+
+  /**
+   * Replace the queue with images already stored on a camera
+   */
+  seed(images: CameraImage[]): void {
+    this.clear();
+    const sorted = [...images].sort((a, b) => a.display_order - b.display_order);
+    const hasPrimary = sorted.some(image => image.is_primary);
+
+    this.setItems(sorted.map<UploadItem>((image, index) => ({
+      id: `image-${image.id}`,
+      imageId: image.id,
+      previewUrl: image.thumbnail_url || image.image_url,
+      status: 'success',
+      progress: 100,
+      attempts: 0,
+      isPrimary: hasPrimary ? image.is_primary : index === 0,
+      result: { url: image.image_url, thumbnail_url: image.thumbnail_url },
+    })));
+  }
+
+  /**
+   * Abort everything, release preview URLs and empty the queue
+   */
+  clear(): void {
+    this.controllers.forEach(controller => controller.abort());
+    this.controllers.clear();
+    this.items.forEach(item => {
+      if (item.file) {
+        URL.revokeObjectURL(item.previewUrl);
+      }
+    });
+    this.setItems([]);
+  }
+
+  /**
+   * Whether any item is still waiting or uploading
+   */
+  isBusy(): boolean {
+    return this.items.some(item => item.status === 'queued' || item.status === 'uploading');
+  }
+
+  /**
+   * Successful uploads and stored images in their current order
+   */
+  toCameraImages(): OrderedCameraImage[] {
+    const uploaded = this.items.filter(item => item.status === 'success' && item.result);
+    const hasPrimary = uploaded.some(item => item.isPrimary);
+
+    return uploaded.map((item, index) => ({
+      id: item.imageId,
+      image_url: item.result!.url,
+      thumbnail_url: item.result!.thumbnail_url,
+      is_primary: hasPrimary ? item.isPrimary : index === 0,
+      display_order: index,
+    }));
+  }
+
+  private setItems(items: UploadItem[]): void {
+    this.items = items;
+    this.listeners.forEach(listener => listener());
+  }
+
+  private updateItem(id: string, update: (item: UploadItem) => UploadItem): void {
+    this.setItems(this.items.map(item => (item.id === id ? update(item) : item)));
+  }
+
+  /**
+   * Start queued uploads up to the concurrency limit
+   */
+  private pump(): void {
+    const concurrency = this.options.concurrency ?? UI_CONFIG.UPLOAD_CONCURRENCY;
+    const active = this.items.filter(item => item.status === 'uploading').length;
+    const queued = this.items.filter(item => item.status === 'queued').slice(0, Math.max(0, concurrency - active));
+
+    queued.forEach(item => {
+      void this.start(item.id);
+    });
+  }
+
+  private async start(id: string): Promise<void> {
+    const controller = new AbortController();
+    this.controllers.set(id, controller);
+    this.updateItem(id, item => ({ ...item, status: 'uploading', progress: 0 }));
+
+    const { endpoint, params, maxAttempts = UI_CONFIG.UPLOAD_MAX_ATTEMPTS } = this.options;
+
+    try {
+      const result = await withRetry(
+        async () => {
+          const current = this.items.find(item => item.id === id);
+          if (!current?.file) {
+            throw new DOMException('Upload cancelled', 'AbortError');
+          }
+          this.updateItem(id, item => ({ ...item, attempts: item.attempts + 1, progress: 0 }));
+
+          return uploadService.uploadFile(current.file, {
+            endpoint,
+            params,
+            signal: controller.signal,
+            onProgress: progress => this.updateItem(id, item => ({ ...item, progress })),
+          });
+        },
+        {
+          maxAttempts,
+          backoffMs: 1000,
+          retryCondition: error => !controller.signal.aborted && defaultRetryCondition(error),
+        }
+      );
+
+      if (!controller.signal.aborted) {
+        this.updateItem(id, item => ({ ...item, status: 'success', progress: 100, result }));
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        const message = error instanceof Error ? error.message : 'Upload failed';
+        this.updateItem(id, item => ({ ...item, status: 'error', error: message }));
+      }
+    } finally {
+      if (this.controllers.get(id) === controller) {
+        this.controllers.delete(id);
+      }
+      this.pump();
+    }
+  }
+}
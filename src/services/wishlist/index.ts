@@ -0,0 +1,2 @@
+// Want-list store and listing matcher
+export * from './wishlist.service';
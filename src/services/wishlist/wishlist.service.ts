@@ -0,0 +1,167 @@
+import { matchesCameraFilters, meetsMinimumCondition } from '@/utils';
+import type { Camera, WishlistCriteria, WishlistItem, WishlistMatch } from '@/types';
+
+const STORAGE_KEY_PREFIX = 'retrolens-wishlist';
+
+/**
+ * Want-list state for the signed-in user
+ */
+export interface WishlistState {
+  userId: string | null;
+  items: WishlistItem[];
+  /** When the user last viewed their match alerts */
+  lastCheckedAt: string | null;
+}
+
+const EMPTY_STATE: WishlistState = { userId: null, items: [], lastCheckedAt: null };
+
+let wishlistIdCounter = 0;
+
+/**
+ * Whether a listed camera satisfies a want-list entry
+ */
+export const matchesWishlistCriteria = (camera: Camera, criteria: WishlistCriteria): boolean => {
+  const { condition, ...filters } = criteria;
+  if (condition && !meetsMinimumCondition(camera.condition, condition)) {
+    return false;
+  }
+  return matchesCameraFilters(camera, filters);
+};
+
+/**
+ * Match listings against want-list entries, skipping the user's own cameras
+ *
+ * A match is new when the camera was listed after both the entry was saved
+ * and the user last checked their alerts.
+ */
+export const findWishlistMatches = (
+  state: WishlistState,
+  listings: Camera[],
+  since: string | null = state.lastCheckedAt
+): WishlistMatch[] => {
+  const matches: WishlistMatch[] = [];
+
+  state.items.forEach(item => {
+    const threshold = since && since > item.created_at ? since : item.created_at;
+    listings
+      .filter(camera => camera.user_id !== state.userId && (camera.is_for_sale || camera.is_for_trade))
+      .filter(camera => matchesWishlistCriteria(camera, item.criteria))
+      .forEach(camera => matches.push({ item, camera, isNew: camera.created_at > threshold }));
+  });
+
+  return matches;
+};
+
+/**
+ * Want-list store persisted per user in localStorage
+ *
+ * Exposes subscribe/getSnapshot so components can share it through
+ * useSyncExternalStore; changes in other tabs are picked up via storage events.
+ */
+export class WishlistService {
+  private state: WishlistState = EMPTY_STATE;
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('storage', (event) => {
+        if (this.state.userId && event.key === this.storageKey(this.state.userId)) {
+          this.load(this.state.userId);
+        }
+      });
+    }
+  }
+
+  /**
+   * Switch to the given user's want-list (null when signed out)
+   */
+  setUser(userId: string | null): void {
+    if (userId === this.state.userId) {return;}
+    if (userId) {
+      this.load(userId);
+    } else {
+      this.setState(EMPTY_STATE);
+    }
+  }
+
+  /**
+   * Subscribe to want-list changes (useSyncExternalStore compatible)
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Get the current immutable state
+   */
+  getSnapshot = (): WishlistState => this.state;
+
+  /**
+   * Save a new want-list entry
+   */
+  addItem(criteria: WishlistCriteria): WishlistItem {
+    const item: WishlistItem = {
+      id: `wish-${Date.now()}-${wishlistIdCounter++}`,
+      criteria,
+      created_at: new Date().toISOString(),
+    };
+    this.update({ items: [...this.state.items, item] });
+    return item;
+  }
+
+  /**
+   * Remove a want-list entry
+   */
+  removeItem(id: string): void {
+    this.update({ items: this.state.items.filter(item => item.id !== id) });
+  }
+
+  /**
+   * Record that the user has seen their current matches
+   */
+  markChecked(at: Date = new Date()): void {
+    this.update({ lastCheckedAt: at.toISOString() });
+  }
+
+  private storageKey(userId: string): string {
+    return `${STORAGE_KEY_PREFIX}-${userId}`;
+  }
+
+  private load(userId: string): void {
+    let stored: Partial<WishlistState> = {};
+    try {
+      stored = JSON.parse(window.localStorage.getItem(this.storageKey(userId)) || '{}');
+    } catch (error) {
+      console.warn('Error reading stored wishlist:', error);
+    }
+
+    this.setState({
+      userId,
+      items: Array.isArray(stored.items) ? stored.items : [],
+      lastCheckedAt: stored.lastCheckedAt ?? null,
+    });
+  }
+
+  private update(changes: Partial<Omit<WishlistState, 'userId'>>): void {
+    const { userId } = this.state;
+    if (!userId) {return;}
+
+    this.setState({ ...this.state, ...changes });
+    try {
+      const { items, lastCheckedAt } = this.state;
+      window.localStorage.setItem(this.storageKey(userId), JSON.stringify({ items, lastCheckedAt }));
+    } catch (error) {
+      console.warn('Error saving wishlist:', error);
+    }
+  }
+
+  private setState(state: WishlistState): void {
+    this.state = state;
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const wishlistService = new WishlistService();
@@ -11,7 +11,7 @@ export interface Camera {
   film_format?: FilmFormat;
   condition?: CameraCondition;
   acquisition_story?: string;
-  technical_specs?: Record<string, unknown>;
+  technical_specs?: CameraTechnicalSpecs;
   market_value_min?: number;
   market_value_max?: number;
   is_for_sale: boolean;
@@ -41,6 +41,25 @@ export interface CameraImage {
   readonly created_at: string;
 }
 
+/**
+ * Image reference attached to a camera after upload
+ */
+export interface CreateCameraImageData {
+  image_url: string;
+  thumbnail_url?: string;
+  is_primary: boolean;
+  display_order: number;
+}
+
+/**
+ * Position and primary flag update for an existing camera image
+ */
+export interface CameraImageOrder {
+  id: string;
+  display_order: number;
+  is_primary: boolean;
+}
+
 /**
  * Camera types
  */
@@ -81,6 +100,96 @@ export type CameraCondition =
   | 'poor'
   | 'parts_only';
 
+/**
+ * Shutter mechanisms
+ */
+export type ShutterType =
+  | 'focal_plane_cloth'
+  | 'focal_plane_metal'
+  | 'leaf'
+  | 'electronic';
+
+/**
+ * Light metering systems
+ */
+export type MeteringType =
+  | 'none'
+  | 'selenium'
+  | 'match_needle'
+  | 'center_weighted'
+  | 'spot'
+  | 'matrix';
+
+/**
+ * Film advance mechanisms
+ */
+export type FilmAdvance =
+  | 'lever'
+  | 'knob'
+  | 'crank'
+  | 'motorized';
+
+/**
+ * Focusing systems
+ */
+export type FocusType =
+  | 'manual'
+  | 'rangefinder'
+  | 'zone'
+  | 'fixed'
+  | 'autofocus';
+
+/**
+ * Structured technical specs; which fields apply depends on the camera type
+ *
+ * Shutter speeds are stored in seconds (0.001 for 1/1000s).
+ */
+export interface TechnicalSpecs {
+  lens_mount?: string;
+  shutter_type?: ShutterType;
+  shutter_speed_slowest?: number;
+  shutter_speed_fastest?: number;
+  has_bulb?: boolean;
+  flash_sync?: number;
+  metering?: MeteringType;
+  focus?: FocusType;
+  film_advance?: FilmAdvance;
+  lens_focal_length?: number;
+  max_aperture?: number;
+  sensor_megapixels?: number;
+  self_timer?: boolean;
+  battery?: string;
+  weight_grams?: number;
+}
+
+export type TechnicalSpecKey = keyof TechnicalSpecs;
+
+/**
+ * Technical specs as stored: typed fields plus any legacy free-form entries
+ *
+ * Older records may hold arbitrary values under these keys, so read them
+ * through parseTechnicalSpecs rather than trusting the field types.
+ */
+export type CameraTechnicalSpecs = TechnicalSpecs & Record<string, unknown>;
+
+/**
+ * Form and display definition for one technical spec field
+ */
+export interface TechnicalSpecField {
+  key: TechnicalSpecKey;
+  label: string;
+  kind: 'select' | 'number' | 'text' | 'boolean' | 'shutter_speed';
+  options?: readonly { value: string; label: string }[];
+  /** Display prefix and suffix for numeric values, e.g. "f/" or "mm" */
+  prefix?: string;
+  unit?: string;
+  min?: number;
+  max?: number;
+  placeholder?: string;
+  /** Free-form keys used before the schema existed */
+  aliases?: readonly string[];
+}
+
 /**
  * Camera creation data
  */
@@ -92,7 +201,7 @@ export interface CreateCameraData {
   film_format?: FilmFormat;
   condition?: CameraCondition;
   acquisition_story?: string;
-  technical_specs?: Record<string, unknown>;
+  technical_specs?: CameraTechnicalSpecs;
   market_value_min?: number;
   market_value_max?: number;
   is_for_sale?: boolean;
@@ -107,16 +216,66 @@ export interface UpdateCameraData extends Partial<CreateCameraData> {
   id: string;
 }
 
+/**
+ * Kinds of events in a camera's provenance and service history
+ */
+export type CameraHistoryEventType =
+  | 'acquisition'
+  | 'service'
+  | 'repair'
+  | 'lens_change'
+  | 'sale';
+
+/**
+ * Photo attached to a history event, e.g. a receipt or repair bench shot
+ */
+export interface CameraHistoryPhoto {
+  image_url: string;
+  thumbnail_url?: string;
+}
+
+/**
+ * One dated entry in a camera's history
+ */
+export interface CameraHistoryEvent {
+  readonly id: string;
+  camera_id: string;
+  event_type: CameraHistoryEventType;
+  /** Calendar date as YYYY-MM-DD */
+  event_date: string;
+  cost?: number;
+  notes?: string;
+  photos: CameraHistoryPhoto[];
+  readonly created_at: string;
+  readonly updated_at: string;
+}
+
+/**
+ * History event creation/update data
+ */
+export interface CreateCameraHistoryEventData {
+  event_type: CameraHistoryEventType;
+  event_date: string;
+  cost?: number;
+  notes?: string;
+  photos?: CameraHistoryPhoto[];
+}
+
 /**
  * Camera filter options
  */
 export interface CameraFilters {
   brand_name?: string;
+  model?: string;
   camera_type?: CameraType;
   film_format?: FilmFormat;
   condition?: CameraCondition;
   min_year?: number;
   max_year?: number;
+  min_price?: number;
+  max_price?: number;
+  lens_mount?: string;
+  metering?: MeteringType;
   is_for_sale?: boolean;
   is_for_trade?: boolean;
 }
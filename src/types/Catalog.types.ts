@@ -0,0 +1,38 @@
+import type { CameraType, FilmFormat, TechnicalSpecs } from './Camera.types';
+
+/**
+ * Reference entry for a known camera model
+ */
+export interface CatalogModel {
+  name: string;
+  /** First and last production years; open-ended when still made */
+  year_from: number;
+  year_to?: number;
+  camera_type: CameraType;
+  /** Absent for digital bodies */
+  film_format?: FilmFormat;
+  lens_mount?: string;
+  /** Spec defaults prefilled when the model is chosen */
+  specs?: TechnicalSpecs;
+}
+
+/**
+ * Reference entry for a camera maker
+ */
+export interface CatalogBrand {
+  name: string;
+  models: CatalogModel[];
+}
+
+/**
+ * User-submitted request to add a brand or model to the catalog
+ */
+export interface CatalogSuggestion {
+  brand_name: string;
+  model: string;
+  year?: string;
+  camera_type?: CameraType;
+  film_format?: FilmFormat;
+  lens_mount?: string;
+  note?: string;
+}
@@ -59,7 +59,9 @@ export interface DiscussionComment {
 export interface CreateDiscussionData {
   category_id?: string;
   title: string;
-  body: string;
+  body?: string;
+  /** Post text as read by the feed; image posts carry the photo as markdown here */
+  content?: string;
   tags?: string[];
 }
 
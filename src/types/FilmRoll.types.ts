@@ -0,0 +1,66 @@
+import type { Camera, FilmFormat } from './Camera.types';
+
+/**
+ * Where a roll is in its life: still in the camera, shot, or back from the lab
+ */
+export type FilmRollStatus = 'loaded' | 'finished' | 'developed';
+
+/**
+ * Exposure notes for one frame; every field is optional
+ */
+export interface FilmFrame {
+  /** Frame number as printed on the film edge */
+  number: number;
+  /** f-number, e.g. 8 for f/8 */
+  aperture?: number;
+  /** Shutter speed in seconds (0.008 for 1/125s) */
+  shutter_speed?: number;
+  lens?: string;
+  notes?: string;
+}
+
+/**
+ * A roll of film shot in one of the user's cameras
+ */
+export interface FilmRoll {
+  readonly id: string;
+  user_id: string;
+  camera_id: string;
+  film_stock: string;
+  iso: number;
+  film_format: FilmFormat;
+  /** Calendar dates as YYYY-MM-DD */
+  loaded_at: string;
+  finished_at?: string;
+  developed_at?: string;
+  lab?: string;
+  notes?: string;
+  frames: FilmFrame[];
+  /** Feed posts with photos from this roll */
+  photo_post_ids: string[];
+  camera?: Camera;
+  readonly created_at: string;
+  readonly updated_at: string;
+}
+
+/**
+ * Film roll creation data
+ */
+export interface CreateFilmRollData {
+  camera_id: string;
+  film_stock: string;
+  iso: number;
+  film_format: FilmFormat;
+  loaded_at: string;
+  finished_at?: string;
+  developed_at?: string;
+  lab?: string;
+  notes?: string;
+  frames?: FilmFrame[];
+  photo_post_ids?: string[];
+}
+
+/**
+ * Film roll update data
+ */
+export type UpdateFilmRollData = Partial<CreateFilmRollData>;
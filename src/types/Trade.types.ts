@@ -0,0 +1,71 @@
+import type { Camera } from './Camera.types';
+
+/**
+ * Trade offer lifecycle states
+ */
+export type TradeOfferStatus =
+  | 'proposed'
+  | 'countered'
+  | 'accepted'
+  | 'declined'
+  | 'withdrawn';
+
+/**
+ * Actions a participant can take on an open offer
+ */
+export type TradeOfferAction = 'counter' | 'accept' | 'decline' | 'withdraw';
+
+/**
+ * Inbox side: offers the user received or sent
+ */
+export type TradeInbox = 'received' | 'sent';
+
+/**
+ * A single step in an offer's history
+ */
+export interface TradeOfferEvent {
+  status: TradeOfferStatus;
+  actor_id: string;
+  offered_camera_ids: string[];
+  message?: string;
+  readonly created_at: string;
+}
+
+/**
+ * Trade offer: the proposer's cameras offered against the recipient's listed camera
+ */
+export interface TradeOffer {
+  readonly id: string;
+  proposer_id: string;
+  recipient_id: string;
+  target_camera_id: string;
+  offered_camera_ids: string[];
+  message?: string;
+  status: TradeOfferStatus;
+  /** Participant who must respond next; null once the offer is closed */
+  awaiting_user_id: string | null;
+  history: TradeOfferEvent[];
+  target_camera?: Camera;
+  offered_cameras?: Camera[];
+  proposer_username?: string;
+  recipient_username?: string;
+  readonly created_at: string;
+  readonly updated_at: string;
+}
+
+/**
+ * Trade offer creation data
+ */
+export interface CreateTradeOfferData {
+  target_camera_id: string;
+  offered_camera_ids: string[];
+  message?: string;
+}
+
+/**
+ * Counter-offer data: the proposer's cameras requested in exchange
+ */
+export interface CounterTradeOfferData {
+  offered_camera_ids: string[];
+  message?: string;
+}
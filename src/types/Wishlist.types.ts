@@ -0,0 +1,25 @@
+import type { Camera, CameraFilters } from './Camera.types';
+
+/**
+ * Want-list criteria; `condition` is the minimum acceptable condition
+ */
+export type WishlistCriteria = Pick<CameraFilters, 'brand_name' | 'model' | 'condition' | 'max_price'>;
+
+/**
+ * Saved want-list entry
+ */
+export interface WishlistItem {
+  readonly id: string;
+  criteria: WishlistCriteria;
+  readonly created_at: string;
+}
+
+/**
+ * Marketplace listing matching a want-list entry
+ */
+export interface WishlistMatch {
+  item: WishlistItem;
+  camera: Camera;
+  /** Listed since the user last checked their alerts */
+  isNew: boolean;
+}
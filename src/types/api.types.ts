@@ -13,8 +13,12 @@ export interface ApiResponse<T> {
  */
 export interface ApiError {
   status: number;
+  code: string;
   message: string;
-  details?: Record<string, unknown>;
+  /** Field-level validation messages keyed by field name */
+  details: Record<string, string>;
+  /** Seconds to wait before retrying */
+  retryAfter?: number;
 }
 
 /**
@@ -30,13 +34,34 @@ export interface PaginationMeta {
 }
 
 /**
- * Paginated API response
+ * Paginated API response (server envelope)
  */
 export interface PaginatedResponse<T> {
   data: T[];
   meta: PaginationMeta;
 }
 
+/**
+ * Paginated list returned by service list methods.
+ * Page-numbered backends set `nextPage`, cursor backends set `nextCursor`;
+ * both are null on the last page.
+ */
+export interface Paginated<T> {
+  items: T[];
+  total: number;
+  nextCursor: string | null;
+  nextPage: number | null;
+}
+
+/**
+ * Position of a page to request from a list method
+ */
+export interface PageParams {
+  page?: number;
+  limit?: number;
+  cursor?: string;
+}
+
 /**
  * API request status
  */
@@ -3,6 +3,7 @@
 interface ImportMetaEnv {
   readonly VITE_API_BASE_URL: string;
   readonly VITE_API_URL: string;
+  readonly VITE_API_DEBUG?: string;
   readonly VITE_CLERK_PUBLISHABLE_KEY: string;
   readonly VITE_APP_NAME: string;
 }
@@ -3,6 +3,10 @@ export type * from './api.types';
 export type * from './User.types';
 export type * from './Camera.types';
 export type * from './Discussion.types';
+export type * from './Trade.types';
+export type * from './Wishlist.types';
+export type * from './Catalog.types';
+export type * from './FilmRoll.types';
 
 // Component Types
 export type * from './common.types';
@@ -19,8 +23,14 @@ export type {
 export type {
   Camera,
   CameraImage,
+  CameraImageOrder,
   CreateCameraData,
+  CreateCameraImageData,
   UpdateCameraData,
+  CameraHistoryEvent,
+  CameraHistoryEventType,
+  CameraHistoryPhoto,
+  CreateCameraHistoryEventData,
   CameraType,
   FilmFormat,
   CameraCondition
@@ -34,10 +44,42 @@ export type {
   UpdateDiscussionData
 } from './Discussion.types';
 
+export type {
+  TradeOffer,
+  TradeOfferAction,
+  TradeOfferEvent,
+  TradeOfferStatus,
+  TradeInbox,
+  CreateTradeOfferData,
+  CounterTradeOfferData
+} from './Trade.types';
+
+export type {
+  CreateFilmRollData,
+  FilmFrame,
+  FilmRoll,
+  FilmRollStatus,
+  UpdateFilmRollData
+} from './FilmRoll.types';
+
+export type {
+  CatalogBrand,
+  CatalogModel,
+  CatalogSuggestion
+} from './Catalog.types';
+
+export type {
+  WishlistCriteria,
+  WishlistItem,
+  WishlistMatch
+} from './Wishlist.types';
+
 export type {
   ApiResponse,
   ApiError,
   ApiStatus,
+  PageParams,
+  Paginated,
   PaginatedResponse
 } from './api.types';
 
@@ -0,0 +1,162 @@
+/**
+ * Collection analytics utilities
+ */
+
+import { snakeToReadable } from './format.utils';
+import { CAMERA_CONFIG } from '@/constants';
+import type { Camera } from '@/types';
+
+/**
+ * One bar in a breakdown chart
+ */
+export interface BreakdownEntry {
+  key: string;
+  label: string;
+  count: number;
+}
+
+/**
+ * Cameras added in a calendar month
+ */
+export interface AcquisitionPoint {
+  /** Month key in YYYY-MM form */
+  month: string;
+  count: number;
+  cumulative: number;
+}
+
+/**
+ * Summary statistics for a camera collection
+ */
+export interface CollectionStats {
+  total: number;
+  forSale: number;
+  forTrade: number;
+  /** Cameras with at least one market value estimate */
+  valuedCount: number;
+  valueMin: number;
+  valueMax: number;
+  byType: BreakdownEntry[];
+  byFormat: BreakdownEntry[];
+  byCondition: BreakdownEntry[];
+  byBrand: BreakdownEntry[];
+  acquisitions: AcquisitionPoint[];
+  mostViewed: Camera[];
+  mostLiked: Camera[];
+}
+
+const UNSPECIFIED_KEY = 'unspecified';
+const TOP_ITEMS_COUNT = 5;
+
+/**
+ * Label from a constant option list, falling back to a readable key
+ */
+const optionLabel = (options: readonly { value: string; label: string }[]) => (key: string): string =>
+  options.find(option => option.value === key)?.label ?? snakeToReadable(key);
+
+/**
+ * Count cameras per key, largest group first
+ */
+export const groupCount = (
+  cameras: Camera[],
+  getKey: (camera: Camera) => string | undefined,
+  getLabel: (key: string) => string = snakeToReadable
+): BreakdownEntry[] => {
+  const counts = new Map<string, number>();
+  cameras.forEach(camera => {
+    const key = getKey(camera) || UNSPECIFIED_KEY;
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+
+  return [...counts.entries()]
+    .map(([key, count]) => ({
+      key,
+      label: key === UNSPECIFIED_KEY ? 'Not specified' : getLabel(key),
+      count,
+    }))
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+};
+
+/**
+ * Month key (YYYY-MM) for a date, in local time
+ */
+export const toMonthKey = (date: Date | string): string => {
+  const d = typeof date === 'string' ? new Date(date) : date;
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+};
+
+/**
+ * Cameras added per month from the first acquisition to the last, gaps filled with zero
+ */
+export const getAcquisitionsByMonth = (cameras: Camera[]): AcquisitionPoint[] => {
+  const dates = cameras
+    .map(camera => new Date(camera.created_at))
+    .filter(date => !isNaN(date.getTime()))
+    .sort((a, b) => a.getTime() - b.getTime());
+  if (dates.length === 0) {return [];}
+
+  const counts = new Map<string, number>();
+  dates.forEach(date => {
+    const key = toMonthKey(date);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+
+  const points: AcquisitionPoint[] = [];
+  const cursor = new Date(dates[0]!.getFullYear(), dates[0]!.getMonth(), 1);
+  const lastKey = toMonthKey(dates[dates.length - 1]!);
+  let cumulative = 0;
+
+  for (;;) {
+    const month = toMonthKey(cursor);
+    const count = counts.get(month) ?? 0;
+    cumulative += count;
+    points.push({ month, count, cumulative });
+    if (month === lastKey) {break;}
+    cursor.setMonth(cursor.getMonth() + 1);
+  }
+
+  return points;
+};
+
+/**
+ * Compute dashboard statistics for a collection
+ *
+ * The value range sums each camera's estimate; a camera with only a min or
+ * only a max contributes that figure to both ends.
+ */
+export const computeCollectionStats = (cameras: Camera[]): CollectionStats => {
+  let valueMin = 0;
+  let valueMax = 0;
+  let valuedCount = 0;
+
+  cameras.forEach(camera => {
+    const min = camera.market_value_min ?? camera.market_value_max;
+    const max = camera.market_value_max ?? camera.market_value_min;
+    if (min === undefined || max === undefined) {return;}
+    valueMin += min;
+    valueMax += max;
+    valuedCount += 1;
+  });
+
+  const topBy = (field: 'view_count' | 'like_count') =>
+    [...cameras]
+      .filter(camera => (camera[field] || 0) > 0)
+      .sort((a, b) => (b[field] || 0) - (a[field] || 0))
+      .slice(0, TOP_ITEMS_COUNT);
+
+  return {
+    total: cameras.length,
+    forSale: cameras.filter(camera => camera.is_for_sale).length,
+    forTrade: cameras.filter(camera => camera.is_for_trade).length,
+    valuedCount,
+    valueMin,
+    valueMax,
+    byType: groupCount(cameras, camera => camera.camera_type, optionLabel(CAMERA_CONFIG.TYPES)),
+    byFormat: groupCount(cameras, camera => camera.film_format, optionLabel(CAMERA_CONFIG.FILM_FORMATS)),
+    byCondition: groupCount(cameras, camera => camera.condition, optionLabel(CAMERA_CONFIG.CONDITIONS)),
+    byBrand: groupCount(cameras, camera => camera.brand_name, key => key),
+    acquisitions: getAcquisitionsByMonth(cameras),
+    mostViewed: topBy('view_count'),
+    mostLiked: topBy('like_count'),
+  };
+};
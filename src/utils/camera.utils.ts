@@ -0,0 +1,158 @@
+/**
+ * Camera list utilities
+ */
+
+import { parseTechnicalSpecs } from './specs.utils';
+import { CAMERA_CONFIG } from '@/constants';
+import type { Camera, CameraCondition, CameraFilters, CameraSortBy, SortOrder } from '@/types';
+
+const NUMERIC_FILTER_KEYS = ['min_year', 'max_year', 'min_price', 'max_price'] as const;
+const TEXT_FILTER_KEYS = [
+  'brand_name', 'model', 'camera_type', 'film_format', 'condition', 'lens_mount', 'metering'
+] as const;
+const BOOLEAN_FILTER_KEYS = ['is_for_sale', 'is_for_trade'] as const;
+
+/**
+ * Parse the leading year out of a free-text year ("1954", "1950s", "c. 1960")
+ */
+export const parseCameraYear = (year?: string): number | null => {
+  const match = year?.match(/\d{4}/);
+  return match ? parseInt(match[0], 10) : null;
+};
+
+/**
+ * Whether a camera satisfies every set filter
+ *
+ * Price filters compare against the camera's market value range, so a camera
+ * matches when its range overlaps the requested one. Spec filters read legacy
+ * free-form specs through the typed schema.
+ */
+export const matchesCameraFilters = (camera: Camera, filters?: CameraFilters): boolean => {
+  if (!filters) {return true;}
+
+  if (filters.brand_name && camera.brand_name.toLowerCase() !== filters.brand_name.toLowerCase()) {
+    return false;
+  }
+  if (filters.model && !camera.model.toLowerCase().includes(filters.model.toLowerCase())) {
+    return false;
+  }
+  if (filters.camera_type && camera.camera_type !== filters.camera_type) {return false;}
+  if (filters.film_format && camera.film_format !== filters.film_format) {return false;}
+  if (filters.condition && camera.condition !== filters.condition) {return false;}
+  if (filters.is_for_sale !== undefined && camera.is_for_sale !== filters.is_for_sale) {return false;}
+  if (filters.is_for_trade !== undefined && camera.is_for_trade !== filters.is_for_trade) {return false;}
+
+  if (filters.min_year || filters.max_year) {
+    const year = parseCameraYear(camera.year);
+    if (year === null) {return false;}
+    if (filters.min_year && year < filters.min_year) {return false;}
+    if (filters.max_year && year > filters.max_year) {return false;}
+  }
+
+  if (filters.lens_mount || filters.metering) {
+    const { specs } = parseTechnicalSpecs(camera.technical_specs);
+    if (filters.lens_mount && specs.lens_mount?.toLowerCase() !== filters.lens_mount.toLowerCase()) {
+      return false;
+    }
+    if (filters.metering && specs.metering !== filters.metering) {return false;}
+  }
+
+  if (filters.min_price || filters.max_price) {
+    const low = camera.market_value_min ?? camera.market_value_max;
+    const high = camera.market_value_max ?? camera.market_value_min;
+    if (low === undefined || high === undefined) {return false;}
+    if (filters.min_price && high < filters.min_price) {return false;}
+    if (filters.max_price && low > filters.max_price) {return false;}
+  }
+
+  return true;
+};
+
+/**
+ * Whether a condition is at least as good as the minimum (conditions are ordered best first)
+ */
+export const meetsMinimumCondition = (condition: CameraCondition | undefined, minimum: CameraCondition): boolean => {
+  if (!condition) {return false;}
+  const rank = (value: CameraCondition) => CAMERA_CONFIG.CONDITIONS.findIndex(option => option.value === value);
+  return rank(condition) <= rank(minimum);
+};
+
+/**
+ * Comparator ordering cameras by a list sort key
+ */
+export const compareCameras = (
+  sortBy: CameraSortBy = 'created_at',
+  sortOrder: SortOrder = 'desc'
+) => {
+  const valueOf = (camera: Camera): number | string => {
+    switch (sortBy) {
+      case 'created_at':
+      case 'updated_at':
+        return new Date(camera[sortBy]).getTime();
+      case 'year':
+        return parseCameraYear(camera.year) ?? 0;
+      case 'view_count':
+      case 'like_count':
+        return camera[sortBy] || 0;
+      default:
+        return camera[sortBy].toLowerCase();
+    }
+  };
+
+  const direction = sortOrder === 'asc' ? 1 : -1;
+  return (a: Camera, b: Camera): number => {
+    const left = valueOf(a);
+    const right = valueOf(b);
+    if (left === right) {return 0;}
+    return (left < right ? -1 : 1) * direction;
+  };
+};
+
+/**
+ * Sort cameras by a list sort key, returning a new array
+ */
+export const sortCameras = (
+  cameras: Camera[],
+  sortBy: CameraSortBy = 'created_at',
+  sortOrder: SortOrder = 'desc'
+): Camera[] => [...cameras].sort(compareCameras(sortBy, sortOrder));
+
+/**
+ * Read camera filters from URL query parameters, ignoring invalid values
+ */
+export const filtersFromSearchParams = (params: URLSearchParams): CameraFilters => {
+  const filters: Record<string, string | number | boolean> = {};
+
+  TEXT_FILTER_KEYS.forEach(key => {
+    const value = params.get(key);
+    if (value) {filters[key] = value;}
+  });
+  NUMERIC_FILTER_KEYS.forEach(key => {
+    const value = Number(params.get(key));
+    if (value > 0) {filters[key] = value;}
+  });
+  BOOLEAN_FILTER_KEYS.forEach(key => {
+    const value = params.get(key);
+    if (value === 'true' || value === 'false') {filters[key] = value === 'true';}
+  });
+
+  return filters as CameraFilters;
+};
+
+/**
+ * Write camera filters into URL query parameters, dropping unset values
+ */
+export const filtersToSearchParams = (
+  filters: CameraFilters,
+  params: URLSearchParams = new URLSearchParams()
+): URLSearchParams => {
+  [...TEXT_FILTER_KEYS, ...NUMERIC_FILTER_KEYS, ...BOOLEAN_FILTER_KEYS].forEach(key => {
+    const value = filters[key];
+    if (value === undefined || value === '' || value === 0) {
+      params.delete(key);
+    } else {
+      params.set(key, String(value));
+    }
+  });
+  return params;
+};
@@ -0,0 +1,293 @@
+/**
+ * Collection import and export utilities
+ */
+
+import { toCsv, unescapeCsvFormula } from './csv.utils';
+import { normalizeTechnicalSpecs, pruneTechnicalSpecs } from './specs.utils';
+import { validateTechnicalSpecs } from './validation.utils';
+import { CAMERA_CONFIG } from '@/constants';
+import type { Camera, CameraCondition, CameraType, CreateCameraData, FilmFormat } from '@/types';
+
+type ImportField = keyof CreateCameraData;
+
+/**
+ * CSV column definition for importing into a CreateCameraData field
+ */
+export interface ImportFieldDefinition {
+  key: ImportField;
+  label: string;
+  required?: boolean;
+  /** Other header names recognised when guessing the mapping */
+  aliases: readonly string[];
+}
+
+/**
+ * Column index chosen for each field; unmapped fields are absent
+ */
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+/**
+ * One parsed CSV row, ready to create when it has no errors
+ */
+export interface ImportRowResult {
+  /** Spreadsheet row number, counting the header as row 1 */
+  rowNumber: number;
+  data: CreateCameraData | null;
+  errors: string[];
+}
+
+/**
+ * Row that could not be created on the server
+ */
+export interface ImportFailure {
+  rowNumber: number;
+  data: CreateCameraData;
+  message: string;
+}
+
+/**
+ * Outcome of a bulk import
+ */
+export interface ImportSummary {
+  created: Camera[];
+  failures: ImportFailure[];
+}
+
+const LIST_SEPARATOR = ' | ';
+
+const EXPORT_COLUMNS = [
+  'id', 'brand_name', 'model', 'year', 'camera_type', 'film_format', 'condition',
+  'acquisition_story', 'market_value_min', 'market_value_max', 'is_for_sale', 'is_for_trade',
+  'is_public', 'technical_specs', 'image_urls', 'created_at', 'updated_at',
+] as const;
+
+export const IMPORT_FIELDS: readonly ImportFieldDefinition[] = [
+  { key: 'brand_name', label: 'Brand', required: true, aliases: ['brand', 'make', 'manufacturer'] },
+  { key: 'model', label: 'Model', required: true, aliases: ['name', 'camera'] },
+  { key: 'year', label: 'Year', aliases: ['year_made', 'made'] },
+  { key: 'camera_type', label: 'Camera type', aliases: ['type', 'category'] },
+  { key: 'film_format', label: 'Film format', aliases: ['format', 'film'] },
+  { key: 'condition', label: 'Condition', aliases: ['grade', 'state'] },
+  { key: 'acquisition_story', label: 'Acquisition story', aliases: ['story', 'notes', 'description'] },
+  { key: 'market_value_min', label: 'Minimum value', aliases: ['value_min', 'min_value', 'value_low', 'low'] },
+  { key: 'market_value_max', label: 'Maximum value', aliases: ['value_max', 'max_value', 'value_high', 'high', 'value', 'price'] },
+  { key: 'is_for_sale', label: 'For sale', aliases: ['for_sale', 'sale'] },
+  { key: 'is_for_trade', label: 'For trade', aliases: ['for_trade', 'trade'] },
+  { key: 'is_public', label: 'Public', aliases: ['public', 'visible'] },
+  { key: 'technical_specs', label: 'Technical specs (JSON)', aliases: ['specs', 'specifications'] },
+];
+
+const normalizeHeader = (header: string): string =>
+  header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+/**
+ * Export cameras as CSV, one row per camera
+ *
+ * Specs are written as a JSON cell and image URLs joined with " | " so the
+ * file round-trips through the import wizard.
+ */
+export const camerasToCsv = (cameras: Camera[]): string => {
+  const rows = cameras.map(camera => EXPORT_COLUMNS.map(column => {
+    switch (column) {
+      case 'technical_specs':
+        return camera.technical_specs && Object.keys(camera.technical_specs).length > 0
+          ? JSON.stringify(camera.technical_specs)
+          : '';
+      case 'image_urls':
+        return [...(camera.images || [])]
+          .sort((a, b) => a.display_order - b.display_order)
+          .map(image => image.image_url)
+          .join(LIST_SEPARATOR);
+      default: {
+        const value = camera[column];
+        return value === undefined || value === null ? '' : String(value);
+      }
+    }
+  }));
+
+  return toCsv([[...EXPORT_COLUMNS], ...rows]);
+};
+
+/**
+ * Export cameras as pretty-printed JSON records
+ */
+export const camerasToJson = (cameras: Camera[]): string => JSON.stringify(cameras, null, 2);
+
+/**
+ * Guess which column feeds each field from the header row
+ */
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+
+  IMPORT_FIELDS.forEach(field => {
+    const index = [field.key, normalizeHeader(field.label), ...field.aliases]
+      .map(name => normalized.findIndex((header, i) => header === name && !used.has(i)))
+      .find(i => i >= 0);
+    if (index !== undefined) {
+      mapping[field.key] = index;
+      used.add(index);
+    }
+  });
+
+  return mapping;
+};
+
+/**
+ * Match a cell against an option list by value or label, ignoring case and punctuation
+ */
+const parseOption = <T extends string>(
+  options: readonly { value: string; label: string }[],
+  raw: string
+): T | null => {
+  const wanted = normalizeHeader(raw);
+  const option = options.find(
+    option => normalizeHeader(option.value) === wanted || normalizeHeader(option.label) === wanted
+  );
+  return option ? option.value as T : null;
+};
+
+const parseBoolean = (raw: string): boolean | null => {
+  const text = raw.trim().toLowerCase();
+  if (['yes', 'y', 'true', '1', 'x'].includes(text)) {return true;}
+  if (['no', 'n', 'false', '0'].includes(text)) {return false;}
+  return null;
+};
+
+const parseAmount = (raw: string): number | null => {
+  const amount = Number(raw.replace(/[$,\s]/g, ''));
+  return Number.isFinite(amount) && amount >= 0 ? amount : null;
+};
+
+/**
+ * Whether a header row is the one camerasToCsv writes, i.e. the file is a collection export
+ */
+export const isCollectionExport = (headers: string[]): boolean =>
+  headers.length === EXPORT_COLUMNS.length && EXPORT_COLUMNS.every((column, i) => headers[i] === column);
+
+/**
+ * Convert mapped CSV rows into camera payloads, collecting every problem per row.
+ * `fromExport` undoes the formula guard on cells of a collection export.
+ */
+export const parseImportRows = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  fromExport = false
+): ImportRowResult[] =>
+  rows.map((cells, index) => {
+    const errors: string[] = [];
+    const cell = (key: ImportField): string => {
+      const column = mapping[key];
+      if (column === undefined) {return '';}
+      const value = (cells[column] ?? '').trim();
+      return fromExport ? unescapeCsvFormula(value) : value;
+    };
+
+    const data: CreateCameraData = {
+      brand_name: cell('brand_name'),
+      model: cell('model'),
+    };
+
+    IMPORT_FIELDS.filter(field => field.required && !cell(field.key)).forEach(field => {
+      errors.push(`${field.label} is required`);
+    });
+
+    if (cell('year')) {data.year = cell('year');}
+    if (cell('acquisition_story')) {data.acquisition_story = cell('acquisition_story');}
+
+    const enums = [
+      ['camera_type', 'camera type', CAMERA_CONFIG.TYPES],
+      ['film_format', 'film format', CAMERA_CONFIG.FILM_FORMATS],
+      ['condition', 'condition', CAMERA_CONFIG.CONDITIONS],
+    ] as const;
+    enums.forEach(([key, label, options]) => {
+      const raw = cell(key);
+      if (!raw) {return;}
+      const value = parseOption(options, raw);
+      if (value === null) {
+        errors.push(`Unknown ${label} "${raw}"`);
+      } else if (key === 'camera_type') {
+        data.camera_type = value as CameraType;
+      } else if (key === 'film_format') {
+        data.film_format = value as FilmFormat;
+      } else {
+        data.condition = value as CameraCondition;
+      }
+    });
+
+    (['market_value_min', 'market_value_max'] as const).forEach(key => {
+      const raw = cell(key);
+      if (!raw) {return;}
+      const amount = parseAmount(raw);
+      if (amount === null) {
+        errors.push(`${IMPORT_FIELDS.find(field => field.key === key)!.label} "${raw}" is not a valid amount`);
+      } else {
+        data[key] = amount;
+      }
+    });
+    if (data.market_value_min !== undefined && data.market_value_max !== undefined
+      && data.market_value_min > data.market_value_max) {
+      errors.push('Minimum value is greater than maximum value');
+    }
+
+    (['is_for_sale', 'is_for_trade', 'is_public'] as const).forEach(key => {
+      const raw = cell(key);
+      if (!raw) {return;}
+      const flag = parseBoolean(raw);
+      if (flag === null) {
+        errors.push(`${IMPORT_FIELDS.find(field => field.key === key)!.label} should be yes or no, not "${raw}"`);
+      } else {
+        data[key] = flag;
+      }
+    });
+
+    const rawSpecs = cell('technical_specs');
+    if (rawSpecs) {
+      let parsed: unknown = null;
+      try {
+        parsed = JSON.parse(rawSpecs);
+      } catch {
+        // Reported below
+      }
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        errors.push('Technical specs must be a JSON object');
+      } else {
+        const specs = pruneTechnicalSpecs(normalizeTechnicalSpecs(parsed as Record<string, unknown>), data.camera_type);
+        errors.push(...validateTechnicalSpecs(specs, data.camera_type).errors);
+        data.technical_specs = specs;
+      }
+    }
+
+    return {
+      rowNumber: index + 2,
+      data: errors.length === 0 ? data : null,
+      errors,
+    };
+  });
+
+/**
+ * Create cameras one at a time, reporting progress and carrying on past failures
+ */
+export const bulkCreateCameras = async (
+  rows: Array<{ rowNumber: number; data: CreateCameraData }>,
+  create: (data: CreateCameraData) => Promise<Camera>,
+  onProgress?: (completed: number, total: number) => void
+): Promise<ImportSummary> => {
+  const summary: ImportSummary = { created: [], failures: [] };
+
+  for (const [index, row] of rows.entries()) {
+    try {
+      summary.created.push(await create(row.data));
+    } catch (error) {
+      summary.failures.push({
+        rowNumber: row.rowNumber,
+        data: row.data,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+    onProgress?.(index + 1, rows.length);
+  }
+
+  return summary;
+};
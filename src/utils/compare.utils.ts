@@ -0,0 +1,89 @@
+/**
+ * Camera comparison utilities
+ */
+
+import { formatCurrencyRange, snakeToReadable } from './format.utils';
+import {
+  TECHNICAL_SPEC_FIELDS,
+  formatLegacySpecValue,
+  formatTechnicalSpecValue,
+  parseTechnicalSpecs
+} from './specs.utils';
+import { CAMERA_CONFIG } from '@/constants';
+import type { Camera, TechnicalSpecKey } from '@/types';
+
+/**
+ * One aligned row of the comparison table
+ */
+export interface ComparisonRow {
+  key: string;
+  label: string;
+  section: 'overview' | 'specs';
+  /** Display value per camera, in tray order */
+  values: string[];
+  /** Whether at least two cameras disagree on this row */
+  differs: boolean;
+}
+
+const MISSING_VALUE = '—';
+
+const optionLabel = (options: readonly { value: string; label: string }[], value?: string): string =>
+  value ? options.find(option => option.value === value)?.label ?? snakeToReadable(value) : MISSING_VALUE;
+
+const listingLabel = (camera: Camera): string => {
+  const listings = [camera.is_for_sale && 'For sale', camera.is_for_trade && 'For trade'].filter(Boolean);
+  return listings.length > 0 ? listings.join(', ') : 'Not listed';
+};
+
+const toRow = (
+  key: string,
+  label: string,
+  section: ComparisonRow['section'],
+  values: string[]
+): ComparisonRow => ({
+  key,
+  label,
+  section,
+  values,
+  differs: new Set(values).size > 1,
+});
+
+/**
+ * Build comparison rows for the given cameras
+ *
+ * Overview rows are always present; spec rows cover every typed field or
+ * legacy entry recorded on at least one camera, with typed fields first.
+ */
+export const buildComparisonRows = (cameras: Camera[]): ComparisonRow[] => {
+  const rows: ComparisonRow[] = [
+    toRow('camera_type', 'Type', 'overview', cameras.map(camera => optionLabel(CAMERA_CONFIG.TYPES, camera.camera_type))),
+    toRow('year', 'Year', 'overview', cameras.map(camera => camera.year || MISSING_VALUE)),
+    toRow('film_format', 'Film format', 'overview',
+      cameras.map(camera => optionLabel(CAMERA_CONFIG.FILM_FORMATS, camera.film_format))),
+    toRow('condition', 'Condition', 'overview',
+      cameras.map(camera => optionLabel(CAMERA_CONFIG.CONDITIONS, camera.condition))),
+    toRow('value', 'Value range', 'overview',
+      cameras.map(camera => formatCurrencyRange(camera.market_value_min, camera.market_value_max) || MISSING_VALUE)),
+    toRow('listing', 'Listing', 'overview', cameras.map(listingLabel)),
+    toRow('images', 'Photos', 'overview', cameras.map(camera => String(camera.images?.length ?? 0))),
+  ];
+
+  const parsed = cameras.map(camera => parseTechnicalSpecs(camera.technical_specs));
+
+  (Object.keys(TECHNICAL_SPEC_FIELDS) as TechnicalSpecKey[])
+    .filter(key => parsed.some(({ specs }) => specs[key] !== undefined))
+    .forEach(key => {
+      const field = TECHNICAL_SPEC_FIELDS[key];
+      rows.push(toRow(key, field.label, 'specs', parsed.map(({ specs }) =>
+        specs[key] === undefined ? MISSING_VALUE : formatTechnicalSpecValue(field, specs[key])
+      )));
+    });
+
+  const legacyKeys = [...new Set(parsed.flatMap(({ legacy }) => Object.keys(legacy)))];
+  legacyKeys.forEach(key => {
+    rows.push(toRow(`legacy:${key}`, snakeToReadable(key), 'specs',
+      parsed.map(({ legacy }) => formatLegacySpecValue(legacy[key]))));
+  });
+
+  return rows;
+};
@@ -0,0 +1,99 @@
+/**
+ * CSV utilities
+ */
+
+// Spreadsheet apps run cells starting with these as formulas; signed numbers are safe
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^[+-]?\d+(\.\d+)?$/;
+
+const isFormulaLike = (value: string): boolean => FORMULA_PREFIX.test(value) && !PLAIN_NUMBER.test(value);
+
+/**
+ * Quote a CSV cell when it contains a delimiter, quote or line break.
+ * Cells that would open as a formula are prefixed with `'` so they stay text.
+ */
+export const escapeCsvCell = (value: string): string => {
+  const cell = isFormulaLike(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(cell) || cell !== cell.trim() ? `"${cell.replace(/"/g, '""')}"` : cell;
+};
+
+/**
+ * Undo the formula guard escapeCsvCell adds. Only for files exported from
+ * here: in other files a leading `'` is the user's own text.
+ */
+export const unescapeCsvFormula = (value: string): string =>
+  value.startsWith("'") && isFormulaLike(value.slice(1)) ? value.slice(1) : value;
+
+/**
+ * Serialize rows of cells into RFC 4180 CSV text
+ */
+export const toCsv = (rows: string[][]): string =>
+  rows.map(row => row.map(escapeCsvCell).join(',')).join('\r\n');
+
+/**
+ * Parse CSV text into rows of cells
+ *
+ * Handles quoted cells with embedded commas, quotes and line breaks, CRLF or
+ * LF line endings and a leading byte-order mark. Blank lines are skipped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {i++;}
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
+
+/**
+ * Offer text content to the user as a file download
+ */
+export const downloadTextFile = (content: string, filename: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
@@ -189,6 +189,26 @@ export const formatForApi = (date: Date | string): string => {
   return d.toISOString();
 };
 
+/**
+ * Format a date as a local calendar date (YYYY-MM-DD) for date inputs
+ */
+export const toDateInputValue = (date: Date = new Date()): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Parse a calendar date (YYYY-MM-DD) as local midnight
+ *
+ * `new Date('1984-05-01')` is UTC midnight, which shows as the previous day
+ * west of Greenwich.
+ */
+export const parseDateOnly = (value: string): Date => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year!, (month ?? 1) - 1, day ?? 1);
+};
+
 /**
  * Parse date from various formats
  */
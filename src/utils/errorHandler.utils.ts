@@ -1,19 +1,39 @@
+/**
+ * Field-level validation messages keyed by field name; nested fields use dot paths
+ */
+export type FieldErrors = Record<string, string>;
+
+/**
+ * Optional parts of an API error
+ */
+export interface AppApiErrorOptions {
+  /** Machine-readable error code; defaults to one derived from the status */
+  code?: string;
+  details?: FieldErrors;
+  /** Seconds to wait before retrying, from the Retry-After header */
+  retryAfter?: number;
+}
+
 /**
  * Custom error class for API errors
  */
 export class AppApiError extends Error {
   public readonly status: number;
-  public readonly details?: Record<string, unknown>;
+  public readonly code: string;
+  public readonly details: FieldErrors;
+  public readonly retryAfter?: number;
 
   constructor(
     status: number,
     message: string,
-    details?: Record<string, unknown>
+    options: AppApiErrorOptions = {}
   ) {
     super(message);
     this.name = 'AppApiError';
     this.status = status;
-    this.details = details;
+    this.code = options.code ?? getDefaultErrorCode(status);
+    this.details = options.details ?? {};
+    this.retryAfter = options.retryAfter;
     
     // Maintain proper stack trace
     if (Error.captureStackTrace) {
@@ -33,18 +53,16 @@ export const handleApiError = (error: unknown): AppApiError => {
 
   // Handle fetch/network errors
   if (error instanceof TypeError && error.message.includes('fetch')) {
-    return new AppApiError(0, 'Network error: Unable to connect to server');
+    return new AppApiError(0, 'Network error: Unable to connect to server', { code: 'network_error' });
   }
 
   // Handle Response object errors
   if (error && typeof error === 'object' && 'response' in error) {
-    const responseError = error as { response?: { status?: number; data?: { message?: string; details?: Record<string, unknown> } } };
+    const responseError = error as { response?: { status?: number; data?: unknown } };
     
     if (responseError.response) {
       const { status = 500, data } = responseError.response;
-      const message = data?.message || getDefaultErrorMessage(status);
-      
-      return new AppApiError(status, message, data?.details);
+      return createApiError(status, data);
     }
   }
 
@@ -92,11 +110,138 @@ export const getDefaultErrorMessage = (status: number): string => {
   }
 };
 
+/**
+ * Get default error code based on HTTP status code
+ */
+export const getDefaultErrorCode = (status: number): string => {
+  switch (status) {
+    case 0:
+      return 'network_error';
+    case 400:
+      return 'bad_request';
+    case 401:
+      return 'unauthorized';
+    case 403:
+      return 'forbidden';
+    case 404:
+      return 'not_found';
+    case 405:
+      return 'method_not_allowed';
+    case 409:
+      return 'conflict';
+    case 422:
+      return 'validation_error';
+    case 429:
+      return 'rate_limited';
+    case 501:
+      return 'not_implemented';
+    default:
+      return status >= 500 ? 'server_error' : 'unknown_error';
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const toMessage = (value: unknown): string | null => {
+  if (typeof value === 'string') {return value;}
+  if (Array.isArray(value)) {return toMessage(value[0]);}
+  if (isRecord(value)) {return toMessage(value.message ?? value.msg);}
+  return null;
+};
+
+/**
+ * Collect field errors from the shapes backends send them in:
+ * `{ field: "message" }`, `{ field: ["message"] }` or a FastAPI-style
+ * `[{ loc: ["body", "field"], msg: "message" }]` list
+ */
+export const parseFieldErrors = (value: unknown): FieldErrors => {
+  const fieldErrors: FieldErrors = {};
+
+  if (Array.isArray(value)) {
+    value.forEach(item => {
+      if (!isRecord(item) || !Array.isArray(item.loc)) {return;}
+      const path = item.loc.filter(part => part !== 'body' && part !== 'query').join('.');
+      const message = toMessage(item);
+      if (path && message && !fieldErrors[path]) {
+        fieldErrors[path] = message;
+      }
+    });
+  } else if (isRecord(value)) {
+    Object.entries(value).forEach(([field, entry]) => {
+      const message = toMessage(entry);
+      if (message) {
+        fieldErrors[field] = message;
+      }
+    });
+  }
+
+  return fieldErrors;
+};
+
+/**
+ * Read a Retry-After header as seconds; accepts delay-seconds or an HTTP date
+ */
+export const parseRetryAfter = (value: string | null | undefined): number | undefined => {
+  if (!value) {return undefined;}
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+};
+
+/**
+ * Build an AppApiError from a status and the parsed error body
+ */
+export const createApiError = (
+  status: number,
+  body: unknown,
+  retryAfter?: number
+): AppApiError => {
+  const data = isRecord(body) ? body : {};
+  const message = toMessage(data.message) ?? (typeof data.detail === 'string' ? data.detail : null)
+    ?? toMessage(data.error) ?? getDefaultErrorMessage(status);
+  const code = typeof data.code === 'string' ? data.code
+    : typeof data.error_code === 'string' ? data.error_code
+      : undefined;
+  const details = parseFieldErrors(data.errors ?? data.details ?? (Array.isArray(data.detail) ? data.detail : undefined));
+
+  return new AppApiError(status, message, { code, details, retryAfter });
+};
+
+/**
+ * Build an AppApiError from a failed fetch response
+ */
+export const createApiErrorFromResponse = async (response: Response): Promise<AppApiError> => {
+  const body: unknown = await response.json().catch(() => null);
+  return createApiError(response.status, body, parseRetryAfter(response.headers.get('Retry-After')));
+};
+
+/**
+ * Field errors from a failed request, renamed to the form's input names
+ *
+ * `fieldNames` maps API field names to input names where the two differ.
+ */
+export const getFieldErrors = (
+  error: unknown,
+  fieldNames: Record<string, string> = {}
+): FieldErrors => {
+  if (!(error instanceof AppApiError)) {return {};}
+
+  return Object.fromEntries(
+    Object.entries(error.details).map(([field, message]) => [fieldNames[field] ?? field, message])
+  );
+};
+
 /**
  * Check if error is a network error
  */
 export const isNetworkError = (error: AppApiError): boolean => {
-  return error.status === 0 || error.message.includes('Network error');
+  return error.status === 0;
 };
 
 /**
@@ -120,6 +265,13 @@ export const isServerError = (error: AppApiError): boolean => {
   return error.status >= 500;
 };
 
+/**
+ * Check if a request or upload was cancelled rather than failed
+ */
+export const isAbortError = (error: unknown): boolean => {
+  return error instanceof DOMException && error.name === 'AbortError';
+};
+
 /**
  * Get user-friendly error message
  */
@@ -157,7 +309,9 @@ export const logError = (error: unknown, context?: string): void => {
   const errorInfo = {
     message: apiError.message,
     status: apiError.status,
+    code: apiError.code,
     details: apiError.details,
+    retryAfter: apiError.retryAfter,
     context,
     stack: apiError.stack,
     timestamp: new Date().toISOString()
@@ -171,6 +325,7 @@ export const logError = (error: unknown, context?: string): void => {
     console.error('API Error:', {
       message: apiError.message,
       status: apiError.status,
+      code: apiError.code,
       context,
       timestamp: errorInfo.timestamp
     });
@@ -183,6 +338,8 @@ export const logError = (error: unknown, context?: string): void => {
 export interface RetryConfig {
   maxAttempts: number;
   backoffMs: number;
+  /** Longest wait between attempts; a server asking for longer gets its error thrown instead */
+  maxDelayMs: number;
   retryCondition?: (error: AppApiError) => boolean;
 }
 
@@ -195,6 +352,8 @@ export const defaultRetryCondition = (error: AppApiError): boolean => {
 
 /**
  * Create a retry wrapper for async functions
+ *
+ * Cancellations are rethrown unchanged and never retried.
  */
 export const withRetry = <T>(
   fn: () => Promise<T>,
@@ -203,6 +362,7 @@ export const withRetry = <T>(
   const {
     maxAttempts = 3,
     backoffMs = 1000,
+    maxDelayMs = 30000,
     retryCondition = defaultRetryCondition
   } = config;
 
@@ -210,6 +370,9 @@ export const withRetry = <T>(
     try {
       return await fn();
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       const apiError = handleApiError(error);
       
       // Log the error
@@ -220,8 +383,14 @@ export const withRetry = <T>(
         throw apiError;
       }
 
-      // Wait before retrying with exponential backoff
-      const delay = backoffMs * Math.pow(2, attemptNumber - 1);
+      // Retrying sooner than the server asked would only be refused again
+      const retryAfterMs = (apiError.retryAfter ?? 0) * 1000;
+      if (retryAfterMs > maxDelayMs) {
+        throw apiError;
+      }
+
+      // Wait before retrying with exponential backoff, or as long as the server asked
+      const delay = Math.min(Math.max(backoffMs * Math.pow(2, attemptNumber - 1), retryAfterMs), maxDelayMs);
       await new Promise(resolve => setTimeout(resolve, delay));
 
       return attempt(attemptNumber + 1);
@@ -0,0 +1,54 @@
+/**
+ * Film roll logbook utilities
+ */
+
+import type { Camera, FilmFormat, FilmRoll, FilmRollStatus } from '@/types';
+
+/**
+ * Formats that load in the same camera; 120 bodies and backs take 220 too
+ */
+const INTERCHANGEABLE_FORMATS: Partial<Record<FilmFormat, readonly FilmFormat[]>> = {
+  '120': ['220'],
+  '220': ['120'],
+};
+
+/**
+ * Whether a film format can be shot in a camera
+ *
+ * Cameras without a recorded format accept anything; digital bodies take no film.
+ */
+export const isFilmFormatCompatible = (camera: Pick<Camera, 'camera_type' | 'film_format'>, format: FilmFormat): boolean => {
+  if (camera.camera_type === 'digital') {return false;}
+  if (!camera.film_format) {return true;}
+  return camera.film_format === format || !!INTERCHANGEABLE_FORMATS[camera.film_format]?.includes(format);
+};
+
+/**
+ * Where the roll is, from its finish and development dates
+ */
+export const getRollStatus = (roll: Pick<FilmRoll, 'finished_at' | 'developed_at'>): FilmRollStatus => {
+  if (roll.developed_at) {return 'developed';}
+  if (roll.finished_at) {return 'finished';}
+  return 'loaded';
+};
+
+export const ROLL_STATUS_LABELS: Record<FilmRollStatus, string> = {
+  loaded: 'In camera',
+  finished: 'Awaiting development',
+  developed: 'Developed',
+};
+
+/**
+ * Number of logged rolls per camera id
+ */
+export const countRollsByCamera = (rolls: FilmRoll[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  rolls.forEach(roll => counts.set(roll.camera_id, (counts.get(roll.camera_id) ?? 0) + 1));
+  return counts;
+};
+
+/**
+ * Cameras a roll can be logged against: film cameras only
+ */
+export const getFilmCameras = (cameras: Camera[]): Camera[] =>
+  cameras.filter(camera => camera.camera_type !== 'digital');
@@ -70,6 +70,27 @@ export const formatCurrency = (
   }).format(amount);
 };
 
+/**
+ * Format a currency range, collapsing to a single value when min and max match
+ */
+export const formatCurrencyRange = (
+  min?: number | null,
+  max?: number | null,
+  currency: string = 'USD'
+): string | null => {
+  const hasMin = typeof min === 'number';
+  const hasMax = typeof max === 'number';
+
+  if (hasMin && hasMax) {
+    return min === max
+      ? formatCurrency(min, currency)
+      : `${formatCurrency(min, currency)} – ${formatCurrency(max, currency)}`;
+  }
+  if (hasMin) {return `From ${formatCurrency(min, currency)}`;}
+  if (hasMax) {return `Up to ${formatCurrency(max, currency)}`;}
+  return null;
+};
+
 /**
  * Format file size in human readable format
  */
@@ -173,6 +194,14 @@ export const normalizeWhitespace = (text: string): string => {
   return text.replace(/\s+/g, ' ').trim();
 };
 
+/**
+ * Image URLs embedded in markdown, e.g. the photo in a feed post body
+ */
+export const extractMarkdownImages = (markdown: string): string[] =>
+  [...markdown.matchAll(/!\[.*?\]\((.*?)\)/g)]
+    .map(match => match[1]?.replace(/\?$/, '').trim() ?? '')
+    .filter(Boolean);
+
 /**
  * Convert HTML to plain text
  */
@@ -9,3 +9,30 @@ export * from './errorHandler.utils';
 
 // Format utilities
 export * from './format.utils';
+
+// Camera utilities
+export * from './camera.utils';
+
+// Technical spec utilities
+export * from './specs.utils';
+
+// CSV utilities
+export * from './csv.utils';
+
+// Collection import/export utilities
+export * from './collectionTransfer.utils';
+
+// Compare utilities
+export * from './compare.utils';
+
+// Film roll utilities
+export * from './filmRoll.utils';
+
+// Trade utilities
+export * from './trade.utils';
+
+// Analytics utilities
+export * from './analytics.utils';
+
+// IndexedDB utilities
+export * from './indexedDb.utils';
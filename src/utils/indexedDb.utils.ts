@@ -0,0 +1,40 @@
+/**
+ * Small promise helpers over the IndexedDB API
+ */
+
+/**
+ * Resolve with a request's result once it succeeds
+ */
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Resolve once a transaction commits; rejects if it fails or is aborted
+ */
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+/**
+ * Open a database with a single object store keyed by `keyPath`, creating it on first use
+ */
+export const openObjectStoreDatabase = (
+  dbName: string,
+  storeName: string,
+  keyPath: string
+): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+  const request = indexedDB.open(dbName, 1);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(storeName, { keyPath });
+  };
+  return requestToPromise(request);
+};
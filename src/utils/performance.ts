@@ -137,52 +137,67 @@ export function getOptimizedImageUrl(
   return url;
 }
 
-// Batch API calls
+// Batch API calls: ids added within `delay` ms are fetched together, and an id
+// already waiting or in flight shares that request. Ids missing from the
+// processor's result resolve to undefined; a failed batch rejects every caller.
 export class BatchQueue<T> {
-  private queue: Array<{ id: string; resolver: (value: T) => void }> = [];
+  private queue: Map<string, { resolve: (value: T | undefined) => void; reject: (error: unknown) => void }> = new Map();
+  private pending: Map<string, Promise<T | undefined>> = new Map();
   private timeout: NodeJS.Timeout | null = null;
   private batchProcessor: (ids: string[]) => Promise<Map<string, T>>;
   private delay: number;
+  private maxBatchSize: number;
   
   constructor(
     batchProcessor: (ids: string[]) => Promise<Map<string, T>>,
-    delay = 50
+    delay = 50,
+    maxBatchSize = Infinity
   ) {
     this.batchProcessor = batchProcessor;
     this.delay = delay;
+    this.maxBatchSize = maxBatchSize;
   }
   
-  async add(id: string): Promise<T> {
-    return new Promise((resolve) => {
-      this.queue.push({ id, resolver: resolve });
-      
-      if (this.timeout) {clearTimeout(this.timeout);}
-      
-      this.timeout = setTimeout(() => {
-        this.processBatch();
-      }, this.delay);
+  add(id: string): Promise<T | undefined> {
+    const existing = this.pending.get(id);
+    if (existing) {return existing;}
+
+    const promise = new Promise<T | undefined>((resolve, reject) => {
+      this.queue.set(id, { resolve, reject });
     });
+    this.pending.set(id, promise);
+
+    if (this.queue.size >= this.maxBatchSize) {
+      this.flush();
+    } else if (!this.timeout) {
+      this.timeout = setTimeout(() => this.flush(), this.delay);
+    }
+
+    return promise;
   }
   
-  private async processBatch(): Promise<void> {
+  private flush(): void {
+    if (this.timeout) {
+      clearTimeout(this.timeout);
+      this.timeout = null;
+    }
+
     const batch = [...this.queue];
-    this.queue = [];
+    this.queue = new Map();
     
     if (batch.length === 0) {return;}
     
-    try {
-      const ids = batch.map(item => item.id);
-      const results = await this.batchProcessor(ids);
-      
-      batch.forEach(({ id, resolver }) => {
-        const result = results.get(id);
-        if (result !== undefined) {
-          resolver(result);
-        }
-      });
-    } catch (error) {
-      console.error('Batch processing error:', error);
-    }
+    const settle = () => batch.forEach(([id]) => this.pending.delete(id));
+    this.batchProcessor(batch.map(([id]) => id)).then(
+      results => {
+        settle();
+        batch.forEach(([id, { resolve }]) => resolve(results.get(id)));
+      },
+      error => {
+        settle();
+        batch.forEach(([, { reject }]) => reject(error));
+      }
+    );
   }
 }
 
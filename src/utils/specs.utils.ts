@@ -0,0 +1,355 @@
+/**
+ * Technical spec schema and helpers
+ */
+
+import { formatNumber, snakeToReadable } from './format.utils';
+import { CAMERA_CONFIG } from '@/constants';
+import type {
+  CameraTechnicalSpecs,
+  CameraType,
+  TechnicalSpecField,
+  TechnicalSpecKey,
+  TechnicalSpecs
+} from '@/types';
+
+/**
+ * Every structured spec field, in display order
+ */
+export const TECHNICAL_SPEC_FIELDS: Record<TechnicalSpecKey, TechnicalSpecField> = {
+  lens_mount: {
+    key: 'lens_mount',
+    label: 'Lens mount',
+    kind: 'text',
+    placeholder: 'e.g., Nikon F',
+    aliases: ['mount'],
+  },
+  shutter_type: {
+    key: 'shutter_type',
+    label: 'Shutter',
+    kind: 'select',
+    options: CAMERA_CONFIG.SHUTTER_TYPES,
+    aliases: ['shutter'],
+  },
+  shutter_speed_slowest: {
+    key: 'shutter_speed_slowest',
+    label: 'Slowest shutter speed',
+    kind: 'shutter_speed',
+    aliases: ['slowest_shutter', 'min_shutter_speed'],
+  },
+  shutter_speed_fastest: {
+    key: 'shutter_speed_fastest',
+    label: 'Fastest shutter speed',
+    kind: 'shutter_speed',
+    aliases: ['fastest_shutter', 'max_shutter_speed', 'top_shutter_speed'],
+  },
+  has_bulb: {
+    key: 'has_bulb',
+    label: 'Bulb mode',
+    kind: 'boolean',
+    aliases: ['bulb'],
+  },
+  flash_sync: {
+    key: 'flash_sync',
+    label: 'Flash sync',
+    kind: 'shutter_speed',
+    aliases: ['x_sync', 'flash_sync_speed'],
+  },
+  metering: {
+    key: 'metering',
+    label: 'Metering',
+    kind: 'select',
+    options: CAMERA_CONFIG.METERING_TYPES,
+    aliases: ['meter', 'light_meter'],
+  },
+  focus: {
+    key: 'focus',
+    label: 'Focusing',
+    kind: 'select',
+    options: CAMERA_CONFIG.FOCUS_TYPES,
+    aliases: ['focusing'],
+  },
+  film_advance: {
+    key: 'film_advance',
+    label: 'Film advance',
+    kind: 'select',
+    options: CAMERA_CONFIG.FILM_ADVANCE_TYPES,
+    aliases: ['advance'],
+  },
+  lens_focal_length: {
+    key: 'lens_focal_length',
+    label: 'Lens focal length',
+    kind: 'number',
+    unit: 'mm',
+    min: 1,
+    max: 2000,
+    aliases: ['focal_length'],
+  },
+  max_aperture: {
+    key: 'max_aperture',
+    label: 'Maximum aperture',
+    kind: 'number',
+    prefix: 'f/',
+    min: 0.7,
+    max: 64,
+    aliases: ['aperture'],
+  },
+  sensor_megapixels: {
+    key: 'sensor_megapixels',
+    label: 'Sensor resolution',
+    kind: 'number',
+    unit: 'MP',
+    min: 0.1,
+    max: 200,
+    aliases: ['megapixels'],
+  },
+  self_timer: {
+    key: 'self_timer',
+    label: 'Self-timer',
+    kind: 'boolean',
+    aliases: ['selftimer'],
+  },
+  battery: {
+    key: 'battery',
+    label: 'Battery',
+    kind: 'text',
+    placeholder: 'e.g., 2x LR44',
+    aliases: ['batteries', 'battery_type'],
+  },
+  weight_grams: {
+    key: 'weight_grams',
+    label: 'Weight',
+    kind: 'number',
+    unit: 'g',
+    min: 1,
+    max: 20000,
+    aliases: ['weight'],
+  },
+};
+
+const INTERCHANGEABLE_LENS_SPECS: TechnicalSpecKey[] = [
+  'lens_mount', 'shutter_type', 'shutter_speed_slowest', 'shutter_speed_fastest', 'has_bulb',
+  'flash_sync', 'metering', 'focus', 'film_advance', 'self_timer', 'battery', 'weight_grams',
+];
+
+const FIXED_LENS_SPECS: TechnicalSpecKey[] = [
+  'lens_focal_length', 'max_aperture', 'shutter_type', 'shutter_speed_slowest', 'shutter_speed_fastest',
+  'has_bulb', 'flash_sync', 'metering', 'focus', 'film_advance', 'self_timer', 'battery', 'weight_grams',
+];
+
+const SHEET_FILM_SPECS: TechnicalSpecKey[] = [
+  'lens_mount', 'shutter_type', 'shutter_speed_slowest', 'shutter_speed_fastest', 'has_bulb', 'weight_grams',
+];
+
+/**
+ * Which spec fields apply to each camera type
+ */
+export const TECHNICAL_SPEC_SCHEMA: Record<CameraType, TechnicalSpecKey[]> = {
+  '35mm_slr': INTERCHANGEABLE_LENS_SPECS,
+  '35mm_rangefinder': INTERCHANGEABLE_LENS_SPECS,
+  medium_format: INTERCHANGEABLE_LENS_SPECS,
+  large_format: SHEET_FILM_SPECS,
+  view_camera: SHEET_FILM_SPECS,
+  twin_lens_reflex: FIXED_LENS_SPECS,
+  point_and_shoot: FIXED_LENS_SPECS,
+  instant: [
+    'lens_focal_length', 'max_aperture', 'shutter_speed_slowest', 'shutter_speed_fastest',
+    'metering', 'focus', 'self_timer', 'battery', 'weight_grams',
+  ],
+  digital: [
+    'lens_mount', 'sensor_megapixels', 'shutter_speed_slowest', 'shutter_speed_fastest',
+    'flash_sync', 'metering', 'focus', 'self_timer', 'battery', 'weight_grams',
+  ],
+};
+
+// Shown before a camera type is chosen
+const DEFAULT_SPEC_KEYS: TechnicalSpecKey[] = [
+  'lens_mount', 'shutter_speed_slowest', 'shutter_speed_fastest', 'metering', 'focus', 'battery', 'weight_grams',
+];
+
+const SPEC_KEYS = Object.keys(TECHNICAL_SPEC_FIELDS) as TechnicalSpecKey[];
+
+/**
+ * Spec fields for a camera type, in form order
+ */
+export const getTechnicalSpecFields = (cameraType?: string): TechnicalSpecField[] => {
+  const keys = TECHNICAL_SPEC_SCHEMA[cameraType as CameraType] ?? DEFAULT_SPEC_KEYS;
+  return keys.map(key => TECHNICAL_SPEC_FIELDS[key]);
+};
+
+/**
+ * Whether a key belongs to the structured schema
+ */
+export const isTechnicalSpecKey = (key: string): key is TechnicalSpecKey =>
+  Object.prototype.hasOwnProperty.call(TECHNICAL_SPEC_FIELDS, key);
+
+/**
+ * Format a shutter speed in seconds the way it is engraved on the dial
+ */
+export const formatShutterSpeed = (seconds: number): string => {
+  if (seconds >= 1) {return `${formatNumber(seconds)}s`;}
+  return `1/${Math.round(1 / seconds)}s`;
+};
+
+/**
+ * Parse a shutter speed ("1/1000", "1/500s", "2s", 0.004) into seconds
+ */
+export const parseShutterSpeed = (value: unknown): number | undefined => {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value > 0 ? value : undefined;
+  }
+  if (typeof value !== 'string') {return undefined;}
+
+  const fraction = value.trim().match(/^(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)\s*(?:s|sec)?$/i);
+  if (fraction) {
+    const seconds = parseFloat(fraction[1]!) / parseFloat(fraction[2]!);
+    return seconds > 0 && Number.isFinite(seconds) ? seconds : undefined;
+  }
+  const whole = value.trim().match(/^(\d+(?:\.\d+)?)\s*(?:s|sec|seconds?)?$/i);
+  return whole && parseFloat(whole[1]!) > 0 ? parseFloat(whole[1]!) : undefined;
+};
+
+const normalizeKey = (key: string): string => key.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+/**
+ * Coerce a stored or legacy value into a field's type, or undefined when it cannot be read
+ */
+export const coerceSpecValue = (field: TechnicalSpecField, value: unknown): TechnicalSpecs[TechnicalSpecKey] => {
+  if (value === null || value === undefined || value === '') {return undefined;}
+
+  switch (field.kind) {
+    case 'select': {
+      if (typeof value !== 'string') {return undefined;}
+      const wanted = normalizeKey(value);
+      const option = field.options?.find(
+        option => option.value === wanted || normalizeKey(option.label) === wanted
+      );
+      return option?.value as TechnicalSpecs[TechnicalSpecKey];
+    }
+    case 'number': {
+      const number = typeof value === 'number' ? value : parseFloat(String(value).replace(/^f\//i, ''));
+      return Number.isFinite(number) ? number : undefined;
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') {return value;}
+      const text = String(value).trim().toLowerCase();
+      if (['yes', 'true', 'y', '1'].includes(text)) {return true;}
+      if (['no', 'false', 'n', '0'].includes(text)) {return false;}
+      return undefined;
+    }
+    case 'shutter_speed':
+      return parseShutterSpeed(value);
+    default:
+      return typeof value === 'string' || typeof value === 'number' ? String(value).trim() || undefined : undefined;
+  }
+};
+
+/**
+ * Split stored specs into typed fields and leftover legacy entries
+ *
+ * Legacy free-form keys that match a field or one of its aliases are read
+ * into the typed field when their value can be understood; everything else
+ * is kept as-is so no owner data is lost.
+ */
+export const parseTechnicalSpecs = (
+  raw?: Record<string, unknown> | null
+): { specs: TechnicalSpecs; legacy: Record<string, unknown> } => {
+  const legacy: Record<string, unknown> = { ...(raw || {}) };
+  const specs: Record<string, unknown> = {};
+
+  SPEC_KEYS.forEach(key => {
+    const field = TECHNICAL_SPEC_FIELDS[key];
+    const candidates = [key, ...(field.aliases ?? [])];
+    const sourceKey = Object.keys(legacy).find(
+      stored => candidates.includes(normalizeKey(stored)) && coerceSpecValue(field, legacy[stored]) !== undefined
+    );
+    if (sourceKey === undefined) {return;}
+
+    specs[key] = coerceSpecValue(field, legacy[sourceKey]);
+    delete legacy[sourceKey];
+  });
+
+  return { specs: specs as TechnicalSpecs, legacy };
+};
+
+/**
+ * Stored specs with legacy keys folded into their typed fields
+ */
+export const normalizeTechnicalSpecs = (raw?: Record<string, unknown> | null): CameraTechnicalSpecs => {
+  const { specs, legacy } = parseTechnicalSpecs(raw);
+  return { ...legacy, ...specs };
+};
+
+/**
+ * Drop empty values and typed fields that do not apply to the camera type
+ *
+ * Legacy free-form entries are kept untouched.
+ */
+export const pruneTechnicalSpecs = (specs: CameraTechnicalSpecs, cameraType?: string): CameraTechnicalSpecs => {
+  const allowed = new Set(getTechnicalSpecFields(cameraType).map(field => field.key));
+  return Object.fromEntries(
+    Object.entries(specs).filter(([key, value]) =>
+      value !== undefined && value !== '' && (!isTechnicalSpecKey(key) || allowed.has(key))
+    )
+  );
+};
+
+/**
+ * Human-readable value for a typed spec field
+ */
+export const formatTechnicalSpecValue = (field: TechnicalSpecField, value: unknown): string => {
+  switch (field.kind) {
+    case 'select':
+      return field.options?.find(option => option.value === value)?.label ?? String(value);
+    case 'boolean':
+      return value ? 'Yes' : 'No';
+    case 'shutter_speed':
+      return typeof value === 'number' ? formatShutterSpeed(value) : String(value);
+    case 'number':
+      return typeof value === 'number'
+        ? `${field.prefix ?? ''}${formatNumber(value)}${field.unit ? ` ${field.unit}` : ''}`
+        : String(value);
+    default:
+      return String(value);
+  }
+};
+
+/**
+ * Render a legacy free-form spec value according to its runtime type
+ */
+export const formatLegacySpecValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') {
+    return '—';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'Yes' : 'No';
+  }
+  if (typeof value === 'number') {
+    return formatNumber(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(formatLegacySpecValue).join(', ');
+  }
+  if (typeof value === 'object') {
+    return Object.entries(value as Record<string, unknown>)
+      .map(([key, nested]) => `${snakeToReadable(key)}: ${formatLegacySpecValue(nested)}`)
+      .join('; ');
+  }
+  return String(value);
+};
+
+// Free-form keys that identify an individual camera or lens
+const IDENTIFIER_KEY_PATTERN = /(^|_)(serial|serial_number|serial_no|sn|s_n|body_number|body_no|lens_serial|lens_number|identifier)(_|$)/;
+
+/**
+ * Serial numbers and similar identifiers recorded in a camera's specs
+ */
+export const getSpecIdentifiers = (
+  specs?: Record<string, unknown> | null
+): Array<{ key: string; label: string; value: string }> =>
+  Object.entries(specs || {})
+    .filter(([key, value]) =>
+      IDENTIFIER_KEY_PATTERN.test(normalizeKey(key).replace(/[^a-z0-9_]/g, '_'))
+      && (typeof value === 'string' || typeof value === 'number')
+      && String(value).trim() !== ''
+    )
+    .map(([key, value]) => ({ key, label: snakeToReadable(normalizeKey(key)), value: String(value).trim() }));
@@ -0,0 +1,40 @@
+/**
+ * Trade offer state machine utilities
+ */
+
+import type { TradeOffer, TradeOfferAction, TradeOfferStatus } from '@/types';
+
+/**
+ * Status an offer moves to after each action
+ */
+export const TRADE_ACTION_STATUS: Record<TradeOfferAction, TradeOfferStatus> = {
+  counter: 'countered',
+  accept: 'accepted',
+  decline: 'declined',
+  withdraw: 'withdrawn',
+};
+
+/**
+ * Whether the offer can still change (proposed or countered)
+ */
+export const isTradeOfferOpen = (offer: Pick<TradeOffer, 'status'>): boolean =>
+  offer.status === 'proposed' || offer.status === 'countered';
+
+/**
+ * Actions available to a user on an offer
+ *
+ * The participant awaiting a response may accept, decline or counter; the
+ * proposer may withdraw while the offer is open.
+ */
+export const getAvailableTradeActions = (offer: TradeOffer, userId?: string | null): TradeOfferAction[] => {
+  if (!userId || !isTradeOfferOpen(offer)) {return [];}
+
+  const actions: TradeOfferAction[] = [];
+  if (offer.awaiting_user_id === userId) {
+    actions.push('accept', 'decline', 'counter');
+  }
+  if (offer.proposer_id === userId) {
+    actions.push('withdraw');
+  }
+  return actions;
+};
@@ -1,4 +1,8 @@
-import { VALIDATION_CONFIG } from '@/constants';
+import { toDateInputValue } from './date.utils';
+import { isFilmFormatCompatible } from './filmRoll.utils';
+import { coerceSpecValue, formatShutterSpeed, getTechnicalSpecFields } from './specs.utils';
+import { CAMERA_CONFIG, UI_CONFIG, VALIDATION_CONFIG } from '@/constants';
+import type { Camera, CameraTechnicalSpecs, CreateFilmRollData, FilmFrame, TechnicalSpecKey } from '@/types';
 
 /**
  * Validation result interface
@@ -183,6 +187,173 @@ export const validateUrl = (url: string): ValidationResult => {
   };
 };
 
+/**
+ * Image file validation (type and size)
+ */
+export const validateImageFile = (file: File): ValidationResult => {
+  const errors: string[] = [];
+  const allowedTypes: readonly string[] = UI_CONFIG.ALLOWED_IMAGE_TYPES;
+  
+  if (!allowedTypes.includes(file.type)) {
+    errors.push(`${file.name} is not a supported image type. Only JPEG, PNG, WebP, and GIF are allowed.`);
+  }
+  
+  if (file.size > UI_CONFIG.MAX_FILE_SIZE_MB * 1024 * 1024) {
+    errors.push(`${file.name} must be less than ${UI_CONFIG.MAX_FILE_SIZE_MB}MB`);
+  }
+  
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+};
+
+/**
+ * Technical specs validation result, with messages keyed by spec field
+ */
+export interface TechnicalSpecsValidationResult extends ValidationResult {
+  fieldErrors: Partial<Record<TechnicalSpecKey, string>>;
+}
+
+/**
+ * Technical specs validation against the schema for a camera type
+ *
+ * Only fields that apply to the type are checked; legacy free-form entries
+ * are left alone.
+ */
+export const validateTechnicalSpecs = (
+  specs: CameraTechnicalSpecs,
+  cameraType?: string
+): TechnicalSpecsValidationResult => {
+  const fieldErrors: Partial<Record<TechnicalSpecKey, string>> = {};
+
+  getTechnicalSpecFields(cameraType).forEach(field => {
+    const value = specs[field.key];
+    if (value === undefined || value === '') {return;}
+
+    if (field.kind !== 'text' && coerceSpecValue(field, value) !== value) {
+      fieldErrors[field.key] = field.kind === 'select'
+        ? `Choose a ${field.label.toLowerCase()} option from the list`
+        : `${field.label} is not a valid value`;
+      return;
+    }
+
+    if (typeof value === 'number') {
+      if (field.min !== undefined && value < field.min) {
+        fieldErrors[field.key] = `${field.label} must be at least ${field.min}`;
+      } else if (field.max !== undefined && value > field.max) {
+        fieldErrors[field.key] = `${field.label} must be no more than ${field.max}`;
+      }
+    }
+  });
+
+  const slowest = specs.shutter_speed_slowest;
+  const fastest = specs.shutter_speed_fastest;
+  if (typeof slowest === 'number' && typeof fastest === 'number' && fastest > slowest && !fieldErrors.shutter_speed_fastest) {
+    fieldErrors.shutter_speed_fastest = `Fastest shutter speed must be quicker than ${formatShutterSpeed(slowest)}`;
+  }
+
+  const sync = specs.flash_sync;
+  if (typeof sync === 'number' && typeof fastest === 'number' && sync < fastest && !fieldErrors.flash_sync) {
+    fieldErrors.flash_sync = `Flash sync cannot be faster than ${formatShutterSpeed(fastest)}`;
+  }
+
+  const errors = Object.values(fieldErrors) as string[];
+  return {
+    isValid: errors.length === 0,
+    errors,
+    fieldErrors
+  };
+};
+
+/**
+ * Frame log validation: unique whole frame numbers and plausible apertures
+ */
+export const validateFilmFrames = (frames: FilmFrame[]): ValidationResult => {
+  const errors: string[] = [];
+  const numbers = frames.map(frame => frame.number);
+
+  if (numbers.some(number => !Number.isInteger(number) || number < 0)) {
+    errors.push('Frame numbers must be whole numbers');
+  } else if (new Set(numbers).size !== numbers.length) {
+    errors.push('Each frame number can only be logged once');
+  }
+  if (frames.some(frame => frame.aperture !== undefined && !(frame.aperture >= 0.7 && frame.aperture <= 128))) {
+    errors.push('Apertures must be between f/0.7 and f/128');
+  }
+  if (frames.some(frame => frame.shutter_speed !== undefined && !(frame.shutter_speed > 0))) {
+    errors.push('Shutter speeds must be like 1/125 or 2s');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+};
+
+/**
+ * Film roll validation result, with messages keyed by roll field
+ */
+export interface FilmRollValidationResult extends ValidationResult {
+  fieldErrors: Partial<Record<keyof CreateFilmRollData, string>>;
+}
+
+/**
+ * Film roll validation, including the film format against the camera's
+ */
+export const validateFilmRoll = (
+  data: CreateFilmRollData,
+  camera?: Pick<Camera, 'camera_type' | 'film_format' | 'brand_name' | 'model'>
+): FilmRollValidationResult => {
+  const fieldErrors: Partial<Record<keyof CreateFilmRollData, string>> = {};
+  const today = toDateInputValue();
+  const { MIN_ISO, MAX_ISO } = CAMERA_CONFIG.FILM_ROLL;
+
+  if (!data.camera_id) {
+    fieldErrors.camera_id = 'Choose the camera the roll was shot in';
+  }
+  if (!data.film_stock.trim()) {
+    fieldErrors.film_stock = 'Film stock is required';
+  }
+  if (!Number.isFinite(data.iso) || data.iso < MIN_ISO || data.iso > MAX_ISO) {
+    fieldErrors.iso = `ISO must be between ${MIN_ISO} and ${MAX_ISO}`;
+  }
+
+  if (!data.film_format) {
+    fieldErrors.film_format = 'Film format is required';
+  } else if (camera && !isFilmFormatCompatible(camera, data.film_format)) {
+    fieldErrors.film_format = camera.camera_type === 'digital'
+      ? `The ${camera.brand_name} ${camera.model} is a digital camera`
+      : `The ${camera.brand_name} ${camera.model} takes ${camera.film_format} film`;
+  }
+
+  if (!data.loaded_at) {
+    fieldErrors.loaded_at = 'Load date is required';
+  } else if (data.loaded_at > today) {
+    fieldErrors.loaded_at = 'Load date cannot be in the future';
+  }
+  if (data.finished_at && data.loaded_at && data.finished_at < data.loaded_at) {
+    fieldErrors.finished_at = 'Finish date cannot be before the load date';
+  }
+  if (data.developed_at && !data.finished_at) {
+    fieldErrors.developed_at = 'Add a finish date before the development date';
+  } else if (data.developed_at && data.finished_at && data.developed_at < data.finished_at) {
+    fieldErrors.developed_at = 'Development date cannot be before the finish date';
+  }
+
+  const frameErrors = validateFilmFrames(data.frames ?? []).errors;
+  if (frameErrors.length > 0) {
+    fieldErrors.frames = frameErrors[0];
+  }
+
+  const errors = Object.values(fieldErrors) as string[];
+  return {
+    isValid: errors.length === 0,
+    errors,
+    fieldErrors
+  };
+};
+
 /**
  * Required field validation
  */
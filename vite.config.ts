@@ -1,42 +1,46 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { pwa } from './pwa/vite-plugin'
 import { resolve } from 'node:path'
 import { fileURLToPath } from 'node:url'
 
 const __dirname = fileURLToPath(new URL('.', import.meta.url))
 
+// Split vendor libraries into long-lived chunks; the service worker precaches these
+const manualChunks = (id: string): string | undefined => {
+  // Vendor chunk for core libraries
+  if (id.includes('node_modules')) {
+    if (id.includes('react') || id.includes('react-dom')) {
+      return 'vendor-react';
+    }
+    if (id.includes('@clerk')) {
+      return 'vendor-clerk';
+    }
+    if (id.includes('react-router')) {
+      return 'vendor-router';
+    }
+    if (id.includes('@tanstack/react-query')) {
+      return 'vendor-query';
+    }
+    if (id.includes('lucide-react')) {
+      return 'vendor-icons';
+    }
+    if (id.includes('axios')) {
+      return 'vendor-http';
+    }
+    // Group other vendor modules
+    return 'vendor-misc';
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), pwa({ manualChunks })],
   assetsInclude: ['**/*.mp4'],
   build: {
     rollupOptions: {
       output: {
-        manualChunks: (id) => {
-          // Vendor chunk for core libraries
-          if (id.includes('node_modules')) {
-            if (id.includes('react') || id.includes('react-dom')) {
-              return 'vendor-react';
-            }
-            if (id.includes('@clerk')) {
-              return 'vendor-clerk';
-            }
-            if (id.includes('react-router')) {
-              return 'vendor-router';
-            }
-            if (id.includes('@tanstack/react-query')) {
-              return 'vendor-query';
-            }
-            if (id.includes('lucide-react')) {
-              return 'vendor-icons';
-            }
-            if (id.includes('axios')) {
-              return 'vendor-http';
-            }
-            // Group other vendor modules
-            return 'vendor-misc';
-          }
-        },
+        manualChunks,
       },
     },
     sourcemap: false, // Disable in production for performance